@@ -18,9 +18,22 @@ async function migrate() {
     // Drop existing tables if they exist (for clean migration)
     console.log('Dropping existing tables if they exist...');
     await connection.execute('SET FOREIGN_KEY_CHECKS = 0');
+    await connection.execute('DROP TABLE IF EXISTS key_backups');
+    await connection.execute('DROP TABLE IF EXISTS key_log_head');
+    await connection.execute('DROP TABLE IF EXISTS key_log');
     await connection.execute('DROP TABLE IF EXISTS conversation_keys');
+    await connection.execute('DROP TABLE IF EXISTS devices');
+    await connection.execute('DROP TABLE IF EXISTS one_time_prekeys');
+    await connection.execute('DROP TABLE IF EXISTS signed_prekeys');
     await connection.execute('DROP TABLE IF EXISTS user_sessions');
+    await connection.execute('DROP TABLE IF EXISTS read_cursors');
+    await connection.execute('DROP TABLE IF EXISTS message_deliveries');
+    await connection.execute('DROP TABLE IF EXISTS message_revisions');
+    await connection.execute('DROP TABLE IF EXISTS hidden_messages');
+    await connection.execute('DROP TABLE IF EXISTS message_reactions');
     await connection.execute('DROP TABLE IF EXISTS messages');
+    await connection.execute('DROP TABLE IF EXISTS attachments');
+    await connection.execute('DROP TABLE IF EXISTS conversation_participants');
     await connection.execute('DROP TABLE IF EXISTS conversations');
     await connection.execute('DROP TABLE IF EXISTS users');
     await connection.execute('SET FOREIGN_KEY_CHECKS = 1');
@@ -33,7 +46,10 @@ async function migrate() {
         email VARCHAR(255) UNIQUE NOT NULL,
         password_hash VARCHAR(255) NOT NULL,
         master_key_salt VARCHAR(128) NOT NULL,
-        public_key VARCHAR(128) NOT NULL,
+        public_key TEXT NOT NULL,
+        encrypted_private_key TEXT,
+        private_key_iv VARCHAR(32),
+        token_version INT NOT NULL DEFAULT 0,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
         INDEX idx_username (username),
@@ -41,59 +57,297 @@ async function migrate() {
       )
     `);
 
-    // Create conversations table (for direct messages)
+    // Create key_log table - append-only record of every identity key a user has published
+    // Rows are never updated or deleted; each chain_hash covers the previous one, and the leaf
+    // hashes form the Merkle tree whose signed heads clients check proofs against
+    await connection.execute(`
+      CREATE TABLE key_log (
+        log_index INT PRIMARY KEY,
+        user_id INT NOT NULL,
+        public_key TEXT NOT NULL,
+        leaf_hash CHAR(44) NOT NULL,
+        chain_hash CHAR(44) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_user_index (user_id, log_index)
+      )
+    `);
+
+    // Create key_log_head table - a single row with the log size, locked while appending
+    await connection.execute(`
+      CREATE TABLE key_log_head (
+        id INT PRIMARY KEY,
+        tree_size INT NOT NULL,
+        chain_hash CHAR(44) NULL
+      )
+    `);
+    await connection.execute('INSERT INTO key_log_head (id, tree_size, chain_hash) VALUES (1, 0, NULL)');
+
+    // Create devices table - one row per browser a user signs in from
+    // Each device has its own key pair, signed by the user's identity key; new ones stay pending
+    // until an active device approves them
+    await connection.execute(`
+      CREATE TABLE devices (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        device_id VARCHAR(36) UNIQUE NOT NULL,
+        user_id INT NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        public_key TEXT NOT NULL,
+        key_signature TEXT NOT NULL,
+        status ENUM('pending', 'active', 'revoked') NOT NULL DEFAULT 'pending',
+        approved_by VARCHAR(36) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        revoked_at TIMESTAMP NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_user_status (user_id, status)
+      )
+    `);
+
+    // Create key_backups table - one per user, for account recovery
+    // A random backup key seals the identity key and keyring; it is stored wrapped under the
+    // recovery code and under the master key. The server only holds a hash of a value derived
+    // from the code, and keyring_version guards concurrent keyring updates
+    await connection.execute(`
+      CREATE TABLE key_backups (
+        user_id INT PRIMARY KEY,
+        recovery_auth_hash VARCHAR(255) NOT NULL,
+        recovery_wrapped_key TEXT NOT NULL,
+        master_wrapped_key TEXT NOT NULL,
+        encrypted_identity_key TEXT NOT NULL,
+        encrypted_keyring MEDIUMTEXT NULL,
+        keyring_version INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create conversations table (direct messages and groups)
+    // disappearing_seconds is the message timer, counted from when a message is sent or first read
     await connection.execute(`
       CREATE TABLE conversations (
         id INT PRIMARY KEY AUTO_INCREMENT,
         conversation_id VARCHAR(64) UNIQUE NOT NULL,
-        user1_id INT NOT NULL,
-        user2_id INT NOT NULL,
+        type ENUM('direct', 'group') NOT NULL DEFAULT 'direct',
+        name VARCHAR(100),
+        created_by INT,
+        direct_key VARCHAR(32) UNIQUE,
+        key_rotation_needed BOOLEAN NOT NULL DEFAULT FALSE,
+        disappearing_seconds INT NULL,
+        disappearing_start ENUM('sent', 'read') NOT NULL DEFAULT 'sent',
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-        FOREIGN KEY (user1_id) REFERENCES users(id) ON DELETE CASCADE,
-        FOREIGN KEY (user2_id) REFERENCES users(id) ON DELETE CASCADE,
-        INDEX idx_conversation_id (conversation_id),
-        INDEX idx_users (user1_id, user2_id),
-        INDEX idx_user1 (user1_id),
-        INDEX idx_user2 (user2_id),
-        CONSTRAINT unique_conversation UNIQUE (user1_id, user2_id)
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+        INDEX idx_conversation_id (conversation_id)
       )
     `);
 
-    // Create conversation_keys table - Step 3 addition
+    // Create conversation_participants table - one row per member
+    await connection.execute(`
+      CREATE TABLE conversation_participants (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        conversation_id INT NOT NULL,
+        user_id INT NOT NULL,
+        joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_participant_user (user_id),
+        UNIQUE KEY unique_conversation_participant (conversation_id, user_id)
+      )
+    `);
+
+    // Create conversation_keys table - one row per member device per key epoch
     await connection.execute(`
       CREATE TABLE conversation_keys (
         id INT PRIMARY KEY AUTO_INCREMENT,
         key_id VARCHAR(32) NOT NULL,
         conversation_id VARCHAR(64) NOT NULL,
         user_id INT NOT NULL,
+        device_id VARCHAR(36) NOT NULL,
+        epoch INT NOT NULL DEFAULT 1,
         encrypted_aes_key TEXT NOT NULL,
         iv VARCHAR(32) NOT NULL,
+        ephemeral_public_key TEXT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (device_id) REFERENCES devices(device_id) ON DELETE CASCADE,
         INDEX idx_conversation_user (conversation_id, user_id),
+        INDEX idx_conversation_epoch (conversation_id, epoch),
         INDEX idx_key_id (key_id),
         INDEX idx_user_id (user_id),
-        UNIQUE KEY unique_user_conversation (user_id, conversation_id)
+        UNIQUE KEY unique_device_conversation_key (device_id, conversation_id, key_id),
+        UNIQUE KEY unique_conversation_epoch_device (conversation_id, epoch, device_id)
+      )
+    `);
+
+    // Create signed_prekeys table - each device's current signed prekey for X3DH
+    await connection.execute(`
+      CREATE TABLE signed_prekeys (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        device_id VARCHAR(36) NOT NULL,
+        key_id INT NOT NULL,
+        public_key TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (device_id) REFERENCES devices(device_id) ON DELETE CASCADE,
+        INDEX idx_user_id (user_id),
+        UNIQUE KEY unique_device_signed_prekey (device_id)
+      )
+    `);
+
+    // Create one_time_prekeys table - each device's pool, consumed one key per new session
+    await connection.execute(`
+      CREATE TABLE one_time_prekeys (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        user_id INT NOT NULL,
+        device_id VARCHAR(36) NOT NULL,
+        key_id INT NOT NULL,
+        public_key TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (device_id) REFERENCES devices(device_id) ON DELETE CASCADE,
+        INDEX idx_user_id (user_id),
+        UNIQUE KEY unique_device_prekey (device_id, key_id)
+      )
+    `);
+
+    // Create attachments table - encrypted files uploaded in chunks
+    // Chunks live in the configured blob store; the file key only ever travels inside a message
+    await connection.execute(`
+      CREATE TABLE attachments (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        attachment_id VARCHAR(36) UNIQUE NOT NULL,
+        conversation_id INT NOT NULL,
+        uploader_id INT NOT NULL,
+        size BIGINT NOT NULL,
+        chunk_count INT NOT NULL,
+        status ENUM('uploading', 'complete') NOT NULL DEFAULT 'uploading',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP NULL,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+        FOREIGN KEY (uploader_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_attachment_conversation (conversation_id),
+        INDEX idx_attachment_status (status, completed_at)
       )
     `);
 
     // Create messages table - Step 3 updates
+    // Messages deleted for everyone stay as tombstones with their ciphertext cleared
+    // Disappearing messages keep their timer in expires_in; expires_at is set once it starts
     await connection.execute(`
       CREATE TABLE messages (
         id INT PRIMARY KEY AUTO_INCREMENT,
         conversation_id VARCHAR(64) NOT NULL,
         sender_id INT NOT NULL,
-        encrypted_content TEXT NOT NULL,
-        iv VARCHAR(32) NOT NULL,
-        message_type ENUM('text') DEFAULT 'text',
+        encrypted_content TEXT,
+        iv VARCHAR(32),
+        envelope_version TINYINT NOT NULL DEFAULT 0,
+        algorithm VARCHAR(16) NOT NULL DEFAULT 'AES-CBC',
+        key_id VARCHAR(32),
+        auth_tag VARCHAR(32),
+        ratchet_header TEXT,
+        message_type ENUM('text', 'file', 'image', 'audio') DEFAULT 'text',
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        edited_at TIMESTAMP NULL,
+        deleted_at TIMESTAMP NULL,
+        reply_to_message_id INT NULL,
+        attachment_id VARCHAR(36) NULL,
+        expires_in INT NULL,
+        expires_at TIMESTAMP NULL,
         FOREIGN KEY (sender_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (reply_to_message_id) REFERENCES messages(id) ON DELETE SET NULL,
+        INDEX idx_reply_to (reply_to_message_id),
+        INDEX idx_attachment (attachment_id),
+        INDEX idx_expires_at (expires_at),
         INDEX idx_conversation_time (conversation_id, created_at),
+        INDEX idx_conversation_message (conversation_id, id),
         INDEX idx_sender (sender_id)
       )
     `);
 
+    // Create message_revisions table - earlier ciphertexts of edited messages
+    // Revision 0 is the original; created_at is when that version was written
+    await connection.execute(`
+      CREATE TABLE message_revisions (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        message_id INT NOT NULL,
+        revision INT NOT NULL,
+        encrypted_content TEXT NOT NULL,
+        iv VARCHAR(32) NOT NULL,
+        envelope_version TINYINT NOT NULL,
+        algorithm VARCHAR(16) NOT NULL,
+        key_id VARCHAR(32),
+        auth_tag VARCHAR(32),
+        ratchet_header TEXT,
+        created_at TIMESTAMP NOT NULL,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+        UNIQUE KEY unique_message_revision (message_id, revision)
+      )
+    `);
+
+    // Create message_reactions table - emoji reactions encrypted with the conversation key
+    await connection.execute(`
+      CREATE TABLE message_reactions (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        message_id INT NOT NULL,
+        user_id INT NOT NULL,
+        encrypted_content TEXT NOT NULL,
+        iv VARCHAR(32) NOT NULL,
+        envelope_version TINYINT NOT NULL,
+        algorithm VARCHAR(16) NOT NULL,
+        key_id VARCHAR(32),
+        auth_tag VARCHAR(32),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        INDEX idx_message_reactions (message_id)
+      )
+    `);
+
+    // Create hidden_messages table - messages a user deleted for themselves only
+    await connection.execute(`
+      CREATE TABLE hidden_messages (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        message_id INT NOT NULL,
+        user_id INT NOT NULL,
+        hidden_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE KEY unique_hidden_message (message_id, user_id)
+      )
+    `);
+
+    // Create message_deliveries table - one row per recipient whose device received a message
+    await connection.execute(`
+      CREATE TABLE message_deliveries (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        message_id INT NOT NULL,
+        user_id INT NOT NULL,
+        delivered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE KEY unique_message_delivery (message_id, user_id)
+      )
+    `);
+
+    // Create read_cursors table - each member's last-read message per conversation
+    // No foreign key on the message, so deleting it does not reset the cursor
+    await connection.execute(`
+      CREATE TABLE read_cursors (
+        id INT PRIMARY KEY AUTO_INCREMENT,
+        conversation_id INT NOT NULL,
+        user_id INT NOT NULL,
+        last_read_message_id INT NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        UNIQUE KEY unique_read_cursor (conversation_id, user_id)
+      )
+    `);
+
     // Create user_sessions table for managing active sessions
     await connection.execute(`
       CREATE TABLE user_sessions (
@@ -1,7 +1,55 @@
 const AuthUtils = require('../utils/auth');
 const db = require('../database/connection');
 
-const authenticateToken = async (req, res, next) => {
+// The user a token was issued to; tokens from before the last password
+// change or account recovery carry an older version and are refused
+const loadUser = async (decoded) => {
+  const users = await db.query(
+    'SELECT id, username, email, public_key, token_version FROM users WHERE id = ?',
+    [decoded.userId]
+  );
+
+  if (users.length === 0) {
+    throw new Error('User not found');
+  }
+
+  if ((decoded.tokenVersion || 0) !== users[0].token_version) {
+    throw new Error('Token has been revoked');
+  }
+
+  return {
+    id: users[0].id,
+    username: users[0].username,
+    email: users[0].email,
+    publicKey: users[0].public_key,
+    tokenVersion: users[0].token_version
+  };
+};
+
+// The device a token was issued to; null for a login token, which can only
+// open a device session
+const loadDevice = async (userId, deviceId) => {
+  if (!deviceId) {
+    return null;
+  }
+
+  const devices = await db.query(
+    'SELECT device_id, name, status FROM devices WHERE device_id = ? AND user_id = ?',
+    [deviceId, userId]
+  );
+
+  if (devices.length === 0 || devices[0].status === 'revoked') {
+    throw new Error('Device has been revoked');
+  }
+
+  return {
+    deviceId: devices[0].device_id,
+    name: devices[0].name,
+    status: devices[0].status
+  };
+};
+
+const verifyRequestToken = async (req, res, next, allowLoginToken) => {
   try {
     const authHeader = req.headers.authorization;
     const token = AuthUtils.extractTokenFromHeader(authHeader);
@@ -14,27 +62,17 @@ const authenticateToken = async (req, res, next) => {
     }
 
     const decoded = AuthUtils.verifyToken(token);
-    
-    // Verify user still exists in database
-    const user = await db.query(
-      'SELECT id, username, email, public_key FROM users WHERE id = ?',
-      [decoded.userId]
-    );
-
-    if (user.length === 0) {
+
+    if (!decoded.deviceId && !allowLoginToken) {
       return res.status(401).json({
         success: false,
-        message: 'User not found'
+        message: 'A device session is required'
       });
     }
 
     // Add user info to request object
-    req.user = {
-      id: user[0].id,
-      username: user[0].username,
-      email: user[0].email,
-      publicKey: user[0].public_key
-    };
+    req.user = await loadUser(decoded);
+    req.device = await loadDevice(req.user.id, decoded.deviceId);
 
     next();
   } catch (error) {
@@ -45,6 +83,27 @@ const authenticateToken = async (req, res, next) => {
       });
     }
 
+    if (error.message === 'User not found') {
+      return res.status(401).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (error.message === 'Token has been revoked') {
+      return res.status(401).json({
+        success: false,
+        message: 'Your session has ended, please sign in again'
+      });
+    }
+
+    if (error.message === 'Device has been revoked') {
+      return res.status(401).json({
+        success: false,
+        message: 'This device has been signed out'
+      });
+    }
+
     console.error('Authentication error:', error);
     return res.status(500).json({
       success: false,
@@ -53,6 +112,12 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
+// Every route but opening a device session needs a token bound to a device
+const authenticateToken = (req, res, next) => verifyRequestToken(req, res, next, false);
+
+// Also accepts the token from registering or logging in, which carries no device
+const authenticateLoginToken = (req, res, next) => verifyRequestToken(req, res, next, true);
+
 const authenticateSocket = async (socket, next) => {
   try {
     const token = socket.handshake.auth.token;
@@ -62,24 +127,14 @@ const authenticateSocket = async (socket, next) => {
     }
 
     const decoded = AuthUtils.verifyToken(token);
-    
-    // Verify user still exists in database
-    const user = await db.query(
-      'SELECT id, username, email, public_key FROM users WHERE id = ?',
-      [decoded.userId]
-    );
-
-    if (user.length === 0) {
-      return next(new Error('User not found'));
+
+    if (!decoded.deviceId) {
+      return next(new Error('A device session is required'));
     }
 
     // Add user info to socket object
-    socket.user = {
-      id: user[0].id,
-      username: user[0].username,
-      email: user[0].email,
-      publicKey: user[0].public_key
-    };
+    socket.user = await loadUser(decoded);
+    socket.device = await loadDevice(socket.user.id, decoded.deviceId);
 
     next();
   } catch (error) {
@@ -88,7 +143,21 @@ const authenticateSocket = async (socket, next) => {
   }
 };
 
+// Conversation keys are only handed to and accepted from approved devices
+const requireActiveDevice = (req, res, next) => {
+  if (!req.device || req.device.status !== 'active') {
+    return res.status(403).json({
+      success: false,
+      message: 'This device has not been approved'
+    });
+  }
+
+  next();
+};
+
 module.exports = {
   authenticateToken,
-  authenticateSocket
+  authenticateLoginToken,
+  authenticateSocket,
+  requireActiveDevice
 };
@@ -22,6 +22,13 @@ const messageLimiter = new RateLimiterMemory({
   duration: 60, // Per minute
 });
 
+// Rate limiter for attachment chunks, which a single file moves many of
+const chunkLimiter = new RateLimiterMemory({
+  keyPrefix: 'chunk',
+  points: 300, // Number of chunks
+  duration: 60, // Per minute
+});
+
 const createRateLimitMiddleware = (limiter, message = 'Too many requests') => {
   return async (req, res, next) => {
     // Skip rate limiting in development
@@ -75,9 +82,11 @@ module.exports = {
   apiRateLimit: createRateLimitMiddleware(apiLimiter),
   authRateLimit: createRateLimitMiddleware(authLimiter, 'Too many authentication attempts'),
   messageRateLimit: createUserRateLimitMiddleware(messageLimiter, 'Too many messages sent'),
+  chunkRateLimit: createUserRateLimitMiddleware(chunkLimiter, 'Too many attachment transfers'),
   rateLimiters: {
     apiLimiter,
     authLimiter,
-    messageLimiter
+    messageLimiter,
+    chunkLimiter
   }
 };
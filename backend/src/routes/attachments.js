@@ -0,0 +1,276 @@
+const express = require('express');
+const router = express.Router();
+const AttachmentService = require('../services/attachmentService');
+const { getStorage } = require('../storage');
+const { attachmentValidation, validateRequest } = require('../utils/validation');
+const { apiRateLimit, chunkRateLimit } = require('../middleware/rateLimiting');
+const { authenticateToken } = require('../middleware/auth');
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Unknown or malformed IDs look the same as attachments the user cannot see
+const validateAttachmentId = (req, res, next) => {
+  if (!UUID_PATTERN.test(req.params.attachmentId)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Attachment not found'
+    });
+  }
+
+  next();
+};
+
+/**
+ * Chunk URLs carry a signature instead of a login token; only the filesystem
+ * driver serves them, other drivers hand out their own presigned URLs
+ */
+const verifyChunkSignature = (req, res, next) => {
+  const storage = getStorage();
+  const index = parseInt(req.params.index);
+
+  if (!storage.verifySignedUrl || !Number.isInteger(index) || index < 0) {
+    return res.status(404).json({
+      success: false,
+      message: 'Attachment not found'
+    });
+  }
+
+  try {
+    req.chunkIndex = index;
+    req.signedSize = storage.verifySignedUrl(req.method, req.params.attachmentId, index, req.query);
+    next();
+  } catch (error) {
+    res.status(403).json({
+      success: false,
+      message: error.message
+    });
+  }
+};
+
+const sendAttachmentError = (res, error, fallbackMessage) => {
+  if (error.message === 'Attachment not found') {
+    return res.status(404).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (error.message === 'Access denied to this conversation') {
+    return res.status(403).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (error.message === 'Storage quota exceeded') {
+    return res.status(413).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (error.message === 'Attachment is already complete' || error.message === 'Attachment is incomplete') {
+    return res.status(409).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (['Invalid attachment size', 'Chunk index out of range', 'Invalid chunk size'].includes(error.message)) {
+    return res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage
+  });
+};
+
+/**
+ * Start a chunked upload of an encrypted file; returns a presigned URL per chunk
+ */
+router.post('/',
+  authenticateToken,
+  apiRateLimit,
+  validateRequest(attachmentValidation.create),
+  async (req, res) => {
+    try {
+      const { conversationId, size, chunkCount } = req.body;
+
+      const upload = await AttachmentService.createUpload(conversationId, req.user.id, size, chunkCount);
+
+      res.status(201).json({
+        success: true,
+        message: 'Upload started',
+        data: upload
+      });
+
+    } catch (error) {
+      console.error('Create attachment error:', error);
+      sendAttachmentError(res, error, 'Failed to start upload');
+    }
+  }
+);
+
+/**
+ * Storage used by the current user, against their quota
+ */
+router.get('/usage',
+  authenticateToken,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const usage = await AttachmentService.getUsage(req.user.id);
+
+      res.json({
+        success: true,
+        data: usage
+      });
+
+    } catch (error) {
+      console.error('Get storage usage error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get storage usage'
+      });
+    }
+  }
+);
+
+/**
+ * Upload one encrypted chunk as a raw request body, to a signed URL
+ */
+router.put('/:attachmentId/chunks/:index',
+  chunkRateLimit,
+  validateAttachmentId,
+  verifyChunkSignature,
+  express.raw({ type: 'application/octet-stream', limit: '2mb' }),
+  async (req, res) => {
+    try {
+      const chunk = await AttachmentService.writeChunk(req.params.attachmentId, req.chunkIndex, req.body, req.signedSize);
+
+      res.json({
+        success: true,
+        data: chunk
+      });
+
+    } catch (error) {
+      console.error('Upload chunk error:', error);
+      sendAttachmentError(res, error, 'Failed to upload chunk');
+    }
+  }
+);
+
+/**
+ * Download one encrypted chunk from a signed URL
+ */
+router.get('/:attachmentId/chunks/:index',
+  chunkRateLimit,
+  validateAttachmentId,
+  verifyChunkSignature,
+  async (req, res) => {
+    try {
+      const input = await AttachmentService.getChunkStream(req.params.attachmentId, req.chunkIndex);
+
+      res.set({
+        'Content-Type': 'application/octet-stream',
+        'Cache-Control': 'private, max-age=31536000, immutable'
+      });
+
+      input.on('error', (error) => {
+        console.error('Stream chunk error:', error);
+        res.destroy(error);
+      });
+      input.pipe(res);
+
+    } catch (error) {
+      console.error('Get chunk error:', error);
+      sendAttachmentError(res, error, 'Failed to get chunk');
+    }
+  }
+);
+
+/**
+ * Finish an upload once every chunk is stored
+ */
+router.post('/:attachmentId/complete',
+  authenticateToken,
+  apiRateLimit,
+  validateAttachmentId,
+  async (req, res) => {
+    try {
+      const attachment = await AttachmentService.completeUpload(req.params.attachmentId, req.user.id);
+
+      res.json({
+        success: true,
+        message: 'Upload complete',
+        data: attachment
+      });
+
+    } catch (error) {
+      console.error('Complete attachment error:', error);
+      sendAttachmentError(res, error, 'Failed to complete upload');
+    }
+  }
+);
+
+/**
+ * Presigned URLs for downloading each chunk straight from storage
+ */
+router.get('/:attachmentId/urls',
+  authenticateToken,
+  apiRateLimit,
+  validateAttachmentId,
+  async (req, res) => {
+    try {
+      const urls = await AttachmentService.getDownloadUrls(req.params.attachmentId, req.user.id);
+
+      res.json({
+        success: true,
+        data: urls
+      });
+
+    } catch (error) {
+      console.error('Get attachment URLs error:', error);
+      sendAttachmentError(res, error, 'Failed to get attachment');
+    }
+  }
+);
+
+/**
+ * Stream a whole encrypted attachment through the API; decryption happens on the client
+ */
+router.get('/:attachmentId',
+  authenticateToken,
+  apiRateLimit,
+  validateAttachmentId,
+  async (req, res) => {
+    let download;
+
+    try {
+      download = await AttachmentService.getDownload(req.params.attachmentId, req.user.id);
+    } catch (error) {
+      console.error('Get attachment error:', error);
+      return sendAttachmentError(res, error, 'Failed to get attachment');
+    }
+
+    res.set({
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': String(download.size),
+      'Cache-Control': 'private, max-age=31536000, immutable'
+    });
+
+    try {
+      await AttachmentService.streamChunks(download, res);
+    } catch (error) {
+      // Headers are already sent, so all that is left is cutting the response short
+      console.error('Stream attachment error:', error);
+      res.destroy(error);
+    }
+  }
+);
+
+module.exports = router;
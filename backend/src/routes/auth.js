@@ -1,10 +1,11 @@
 const express = require('express');
 const router = express.Router();
 const UserService = require('../services/userService');
+const ConversationKeyService = require('../services/conversationKeyService');
 const AuthUtils = require('../utils/auth');
 const { userValidation, validateRequest } = require('../utils/validation');
 const { authRateLimit, apiRateLimit } = require('../middleware/rateLimiting');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireActiveDevice } = require('../middleware/auth');
 
 // Register new user - Step 3 updated
 router.post('/register', 
@@ -12,7 +13,7 @@ router.post('/register',
   validateRequest(userValidation.register),
   async (req, res) => {
     try {
-      const { username, email, password, publicKey, masterKeySalt } = req.body;
+      const { username, email, password, publicKey, encryptedPrivateKey, privateKeyIv, masterKeySalt, keyBackup } = req.body;
 
       // Validate Step 3 encryption fields
       if (!publicKey) {
@@ -34,10 +35,14 @@ router.post('/register',
         email,
         password,
         publicKey,
-        masterKeySalt
+        encryptedPrivateKey,
+        privateKeyIv,
+        masterKeySalt,
+        keyBackup
       });
 
-      const token = AuthUtils.generateToken({ userId: user.id });
+      // Login tokens only open a device session; see POST /api/devices
+      const token = AuthUtils.generateToken({ userId: user.id, tokenVersion: user.tokenVersion });
 
       res.status(201).json({
         success: true,
@@ -48,6 +53,8 @@ router.post('/register',
             username: user.username,
             email: user.email,
             publicKey: user.publicKey,
+            encryptedPrivateKey: user.encryptedPrivateKey,
+            privateKeyIv: user.privateKeyIv,
             masterKeySalt: user.masterKeySalt
           },
           token
@@ -80,7 +87,7 @@ router.post('/login',
       const { username, password } = req.body;
 
       const user = await UserService.authenticateUser(username, password);
-      const token = AuthUtils.generateToken({ userId: user.id });
+      const token = AuthUtils.generateToken({ userId: user.id, tokenVersion: user.tokenVersion });
 
       res.json({
         success: true,
@@ -91,6 +98,8 @@ router.post('/login',
             username: user.username,
             email: user.email,
             publicKey: user.publicKey,
+            encryptedPrivateKey: user.encryptedPrivateKey,
+            privateKeyIv: user.privateKeyIv,
             masterKeySalt: user.masterKeySalt
           },
           token
@@ -130,6 +139,8 @@ router.get('/profile',
             username: user.username,
             email: user.email,
             publicKey: user.publicKey,
+            encryptedPrivateKey: user.encryptedPrivateKey,
+            privateKeyIv: user.privateKeyIv,
             masterKeySalt: user.masterKeySalt,
             createdAt: user.createdAt
           }
@@ -239,13 +250,14 @@ router.get('/verify-token',
   }
 );
 
-// Update user's public key
+// Update user's identity key pair
 router.put('/public-key',
   authenticateToken,
+  requireActiveDevice,
   apiRateLimit,
   async (req, res) => {
     try {
-      const { publicKey } = req.body;
+      const { publicKey, encryptedPrivateKey, privateKeyIv } = req.body;
 
       if (!publicKey || typeof publicKey !== 'string') {
         return res.status(400).json({
@@ -254,8 +266,16 @@ router.put('/public-key',
         });
       }
 
-      // Update user's public key in database
-      await UserService.updateUser(req.user.id, { public_key: publicKey });
+      // The private key is kept server-side only in its wrapped form, so the
+      // identity can be restored on the next login
+      if (!encryptedPrivateKey || !privateKeyIv) {
+        return res.status(400).json({
+          success: false,
+          message: 'Encrypted private key and IV are required'
+        });
+      }
+
+      await UserService.updateIdentityKey(req.user.id, publicKey, encryptedPrivateKey, privateKeyIv);
 
       res.json({
         success: true,
@@ -271,4 +291,96 @@ router.put('/public-key',
   }
 );
 
+// Conversation key copies this device stores under the master key, to be
+// re-wrapped before a password change
+router.get('/wrapped-keys',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const conversationKeys = await ConversationKeyService.getMasterWrappedKeys(req.device.deviceId);
+
+      res.json({
+        success: true,
+        data: {
+          conversationKeys
+        }
+      });
+    } catch (error) {
+      console.error('Get wrapped keys error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get wrapped keys'
+      });
+    }
+  }
+);
+
+// Change password, replacing everything wrapped under the old master key
+router.post('/change-password',
+  authenticateToken,
+  requireActiveDevice,
+  authRateLimit,
+  validateRequest(userValidation.changePassword),
+  async (req, res) => {
+    try {
+      const { revokedDeviceIds, tokenVersion } = await UserService.changePassword(
+        req.user.id,
+        req.device.deviceId,
+        req.body
+      );
+
+      // Earlier tokens, this device's included, are refused from now on
+      const token = AuthUtils.generateToken({ userId: req.user.id, deviceId: req.device.deviceId, tokenVersion });
+
+      // The other devices cannot open their keys any more; sign them out
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        revokedDeviceIds.forEach(deviceId => {
+          socketHandler.sendToUser(req.user.id, 'device_revoked', { deviceId });
+          socketHandler.disconnectDevice(req.user.id, deviceId);
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Password changed successfully',
+        data: {
+          revokedDeviceIds,
+          token
+        }
+      });
+    } catch (error) {
+      console.error('Change password error:', error);
+
+      if (error.message === 'Current password is incorrect') {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Conversation keys have changed') {
+        return res.status(409).json({
+          success: false,
+          message: 'Conversation keys changed while re-wrapping them, please try again'
+        });
+      }
+
+      if (error.message === 'Key backup has changed') {
+        return res.status(409).json({
+          success: false,
+          message: 'Your key backup changed while re-wrapping keys, please try again'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to change password'
+      });
+    }
+  }
+);
+
 module.exports = router;
@@ -6,58 +6,157 @@
 const express = require('express');
 const router = express.Router();
 const ConversationKeyService = require('../services/conversationKeyService');
+const PreKeyService = require('../services/preKeyService');
+const ConversationService = require('../services/conversationService');
 const UserService = require('../services/userService');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireActiveDevice } = require('../middleware/auth');
 const { apiRateLimit } = require('../middleware/rateLimiting');
+const { validateRequest, preKeyValidation, conversationKeyValidation } = require('../utils/validation');
 
 /**
- * Store encrypted conversation key for current user
- * POST /api/conversation-keys/store
+ * Upload the current device's signed prekey and/or one-time prekeys
+ * POST /api/conversation-keys/prekeys
  */
-router.post('/store',
+router.post('/prekeys',
   authenticateToken,
   apiRateLimit,
+  validateRequest(preKeyValidation.upload),
   async (req, res) => {
     try {
-      const { conversationId, keyId, encryptedAesKey, iv } = req.body;
+      const { signedPreKey, oneTimePreKeys } = req.body;
+
+      if (signedPreKey) {
+        await PreKeyService.storeSignedPreKey(
+          req.user.id,
+          req.device.deviceId,
+          signedPreKey.keyId,
+          signedPreKey.publicKey,
+          signedPreKey.signature
+        );
+      }
+
+      if (oneTimePreKeys) {
+        await PreKeyService.storeOneTimePreKeys(req.user.id, req.device.deviceId, oneTimePreKeys);
+      }
+
+      const poolStatus = await PreKeyService.getPoolStatus(req.device.deviceId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Prekeys uploaded successfully',
+        data: {
+          poolStatus
+        }
+      });
 
-      // Validate required fields
-      if (!conversationId || !keyId || !encryptedAesKey || !iv) {
+    } catch (error) {
+      console.error('Upload prekeys error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to upload prekeys'
+      });
+    }
+  }
+);
+
+/**
+ * Get the current device's one-time prekey pool status
+ * GET /api/conversation-keys/prekeys/status
+ */
+router.get('/prekeys/status',
+  authenticateToken,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const poolStatus = await PreKeyService.getPoolStatus(req.device.deviceId);
+
+      res.json({
+        success: true,
+        data: {
+          poolStatus
+        }
+      });
+
+    } catch (error) {
+      console.error('Get prekey status error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get prekey status'
+      });
+    }
+  }
+);
+
+/**
+ * Claim a user's prekey bundle to start a ratchet session with them
+ * Consumes one of their one-time prekeys; there is none to claim while
+ * either user has several active devices
+ * POST /api/conversation-keys/prekeys/:userId/claim
+ */
+router.post('/prekeys/:userId/claim',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+
+      if (isNaN(userId)) {
         return res.status(400).json({
           success: false,
-          message: 'Missing required fields: conversationId, keyId, encryptedAesKey, iv'
+          message: 'Invalid user ID'
         });
       }
 
-      await ConversationKeyService.storeConversationKey(
-        conversationId,
-        req.user.id,
-        keyId,
-        encryptedAesKey,
-        iv
-      );
+      if (userId === req.user.id) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cannot claim your own prekey bundle'
+        });
+      }
 
-      res.status(201).json({
+      const { preKeyBundle, poolStatus } = await PreKeyService.claimPreKeyBundle(userId, req.user.id);
+
+      // Ask the owning device to top up its pool if it is online
+      if (poolStatus.isLow) {
+        const socketHandler = req.app.get('socketHandler');
+        if (socketHandler) {
+          socketHandler.sendToDevice(userId, preKeyBundle.deviceId, 'prekeys_low', poolStatus);
+        }
+      }
+
+      res.json({
         success: true,
-        message: 'Conversation key stored successfully'
+        data: {
+          preKeyBundle
+        }
       });
 
     } catch (error) {
-      console.error('Store conversation key error:', error);
+      console.error('Claim prekey bundle error:', error);
+
+      if (error.message === 'Prekey bundle not found') {
+        return res.status(404).json({
+          success: false,
+          message: 'Prekey bundle not found'
+        });
+      }
+
       res.status(500).json({
         success: false,
-        message: 'Failed to store conversation key'
+        message: 'Failed to claim prekey bundle'
       });
     }
   }
 );
 
 /**
- * Get encrypted conversation key for current user
+ * Get encrypted conversation key for the current device
  * GET /api/conversation-keys/:conversationId
  */
 router.get('/:conversationId',
   authenticateToken,
+  requireActiveDevice,
   apiRateLimit,
   async (req, res) => {
     try {
@@ -65,7 +164,7 @@ router.get('/:conversationId',
 
       const conversationKey = await ConversationKeyService.getConversationKey(
         conversationId,
-        req.user.id
+        req.device.deviceId
       );
 
       res.json({
@@ -78,7 +177,7 @@ router.get('/:conversationId',
     } catch (error) {
       console.error('Get conversation key error:', error);
 
-      if (error.message === 'Conversation key not found for user') {
+      if (error.message === 'Conversation key not found for device') {
         return res.status(404).json({
           success: false,
           message: 'Conversation key not found'
@@ -93,6 +192,89 @@ router.get('/:conversationId',
   }
 );
 
+/**
+ * Get every key epoch of a conversation the current device holds, oldest first
+ * Older epochs are needed to read messages sent before a rotation
+ * GET /api/conversation-keys/:conversationId/keyring
+ */
+router.get('/:conversationId/keyring',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const { conversationId } = req.params;
+
+      const keyring = await ConversationKeyService.getConversationKeyring(
+        conversationId,
+        req.device.deviceId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          keyring
+        }
+      });
+
+    } catch (error) {
+      console.error('Get conversation keyring error:', error);
+
+      if (error.message === 'Conversation key not found for device') {
+        return res.status(404).json({
+          success: false,
+          message: 'Conversation key not found'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get conversation keyring'
+      });
+    }
+  }
+);
+
+/**
+ * Get the active devices of a conversation's members, which conversation
+ * keys are wrapped for, and whether each holds the current key epoch
+ * GET /api/conversation-keys/:conversationId/devices
+ */
+router.get('/:conversationId/devices',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const { conversationId } = req.params;
+
+      const isParticipant = await ConversationService.verifyUserInConversation(conversationId, req.user.id);
+      if (!isParticipant) {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied to this conversation'
+        });
+      }
+
+      const devices = await ConversationKeyService.getConversationDevices(conversationId);
+
+      res.json({
+        success: true,
+        data: {
+          devices
+        }
+      });
+
+    } catch (error) {
+      console.error('Get conversation devices error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get conversation devices'
+      });
+    }
+  }
+);
+
 /**
  * Get conversation participants with public keys
  * GET /api/conversation-keys/:conversationId/participants
@@ -171,10 +353,12 @@ router.get('/conversations/list',
 
 /**
  * Set up conversation with multiple users
+ * conversationKeys holds a wrapped copy per device, keyed by device ID
  * POST /api/conversation-keys/setup
  */
 router.post('/setup',
   authenticateToken,
+  requireActiveDevice,
   apiRateLimit,
   async (req, res) => {
     try {
@@ -195,6 +379,22 @@ router.post('/setup',
         });
       }
 
+      // Only members of the conversation may set up its key
+      const conversationParticipants = await ConversationService.getConversationParticipants(conversationId);
+      if (!conversationParticipants.includes(req.user.id)) {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied to this conversation'
+        });
+      }
+
+      if (participantUserIds.some(userId => !conversationParticipants.includes(userId))) {
+        return res.status(400).json({
+          success: false,
+          message: 'All participants must be members of the conversation'
+        });
+      }
+
       // Verify all participants exist
       const users = await UserService.getUsersPublicKeys(participantUserIds);
       if (users.length !== participantUserIds.length) {
@@ -204,23 +404,27 @@ router.post('/setup',
         });
       }
 
-      // Store conversation keys for each participant
-      const storePromises = participantUserIds.map(userId => {
-        const userKey = conversationKeys[userId];
-        if (!userKey || !userKey.keyId || !userKey.encryptedAesKey || !userKey.iv) {
-          throw new Error(`Invalid conversation key for user ${userId}`);
-        }
+      if (!conversationKeys[req.device.deviceId]) {
+        return res.status(400).json({
+          success: false,
+          message: 'A conversation key for the current device is required'
+        });
+      }
 
-        return ConversationKeyService.storeConversationKey(
-          conversationId,
-          userId,
-          userKey.keyId,
-          userKey.encryptedAesKey,
-          userKey.iv
-        );
+      // Check every copy before storing any, so a bad one cannot leave a partial key set
+      const invalidDeviceId = Object.keys(conversationKeys).find(deviceId => {
+        const deviceKey = conversationKeys[deviceId];
+        return !deviceKey || !deviceKey.keyId || !deviceKey.encryptedAesKey || !deviceKey.iv;
       });
+      if (invalidDeviceId) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid conversation key for device ${invalidDeviceId}`
+        });
+      }
 
-      await Promise.all(storePromises);
+      // Store the wrapped copy of the conversation key for each participant device
+      await ConversationKeyService.setupConversationKey(conversationId, participantUserIds, conversationKeys);
 
       res.status(201).json({
         success: true,
@@ -233,9 +437,226 @@ router.post('/setup',
 
     } catch (error) {
       console.error('Setup conversation error:', error);
+
+      // Another participant may have set the conversation up first
+      if (error.message === 'Conversation key already set up') {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Conversation not found') {
+        return res.status(404).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to set up conversation'
+      });
+    }
+  }
+);
+
+/**
+ * Share the current conversation key with participant devices that do not have a copy yet
+ * POST /api/conversation-keys/share
+ */
+router.post('/share',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const { conversationId, conversationKeys } = req.body;
+
+      if (!conversationId || !conversationKeys) {
+        return res.status(400).json({
+          success: false,
+          message: 'Missing required fields: conversationId, conversationKeys'
+        });
+      }
+
+      // Only a member device that already holds the current key can hand it on
+      const currentKey = await ConversationKeyService.getCurrentKey(conversationId);
+      const isParticipant = await ConversationService.verifyUserInConversation(conversationId, req.user.id);
+      const hasAccess = isParticipant && currentKey.keyId &&
+        await ConversationKeyService.hasConversationKey(conversationId, req.device.deviceId, currentKey.keyId);
+
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied to this conversation'
+        });
+      }
+
+      const devices = await ConversationKeyService.getConversationDevices(conversationId);
+      const sharedWith = [];
+
+      for (const [deviceId, deviceKey] of Object.entries(conversationKeys)) {
+        const device = devices.find(candidate => candidate.deviceId === deviceId);
+
+        if (!device) {
+          continue;
+        }
+
+        if (!deviceKey || !deviceKey.keyId || !deviceKey.encryptedAesKey || !deviceKey.iv || !deviceKey.ephemeralPublicKey) {
+          return res.status(400).json({
+            success: false,
+            message: `Invalid conversation key for device ${deviceId}`
+          });
+        }
+
+        // Old epochs are never handed out again
+        if (deviceKey.keyId !== currentKey.keyId) {
+          return res.status(409).json({
+            success: false,
+            message: 'Conversation key is out of date'
+          });
+        }
+
+        // Never replace a copy a device already has
+        if (device.hasCurrentKey) {
+          continue;
+        }
+
+        await ConversationKeyService.storeConversationKey(
+          conversationId,
+          device.userId,
+          deviceId,
+          deviceKey.keyId,
+          deviceKey.encryptedAesKey,
+          deviceKey.iv,
+          deviceKey.ephemeralPublicKey,
+          currentKey.epoch
+        );
+        sharedWith.push(deviceId);
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Conversation key shared successfully',
+        data: {
+          conversationId,
+          sharedWith
+        }
+      });
+
+    } catch (error) {
+      console.error('Share conversation key error:', error);
+
+      if (error.message === 'Conversation not found') {
+        return res.status(404).json({
+          success: false,
+          message: 'Conversation not found'
+        });
+      }
+
+      // Rotated while the keys were being wrapped
+      if (error.message === 'Conversation key is out of date') {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to share conversation key'
+      });
+    }
+  }
+);
+
+/**
+ * Replace the conversation key with a new epoch after membership changes
+ * or a device is revoked
+ * Only the remaining members' devices receive the new key, so removed
+ * members and revoked devices cannot read anything sent from now on
+ * POST /api/conversation-keys/rotate
+ */
+router.post('/rotate',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  validateRequest(conversationKeyValidation.rotate),
+  async (req, res) => {
+    try {
+      const { conversationId, epoch, keyId, conversationKeys } = req.body;
+
+      const isParticipant = await ConversationService.verifyUserInConversation(conversationId, req.user.id);
+      if (!isParticipant) {
+        return res.status(403).json({
+          success: false,
+          message: 'Access denied to this conversation'
+        });
+      }
+
+      if (!conversationKeys[req.device.deviceId]) {
+        return res.status(400).json({
+          success: false,
+          message: 'A conversation key for the current device is required'
+        });
+      }
+
+      const { conversationIntId, sharedWith } = await ConversationKeyService.rotateConversationKey(
+        conversationId,
+        epoch,
+        keyId,
+        conversationKeys
+      );
+
+      // Other members fetch the new epoch before they send again
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        socketHandler.broadcastToConversation(conversationIntId, 'conversation_key_rotated', {
+          conversationId: conversationIntId,
+          epoch,
+          keyId
+        }, req.user.id);
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Conversation key rotated successfully',
+        data: {
+          conversationId,
+          epoch,
+          keyId,
+          sharedWith
+        }
+      });
+
+    } catch (error) {
+      console.error('Rotate conversation key error:', error);
+
+      if (error.message === 'Key epoch conflict') {
+        return res.status(409).json({
+          success: false,
+          message: 'Conversation key was already rotated'
+        });
+      }
+
+      if (error.message === 'Keys can only be wrapped for devices of current members') {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Conversation not found') {
+        return res.status(404).json({
+          success: false,
+          message: 'Conversation not found'
+        });
+      }
+
       res.status(500).json({
         success: false,
-        message: error.message || 'Failed to set up conversation'
+        message: 'Failed to rotate conversation key'
       });
     }
   }
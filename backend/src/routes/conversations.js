@@ -2,10 +2,54 @@ const express = require('express');
 const router = express.Router();
 const ConversationService = require('../services/conversationService');
 const MessageService = require('../services/messageService');
-const { conversationValidation, validateRequest } = require('../utils/validation');
+const { conversationValidation, messageValidation, validateRequest } = require('../utils/validation');
 const { apiRateLimit } = require('../middleware/rateLimiting');
 const { authenticateToken } = require('../middleware/auth');
 
+// Push a changed conversation to every member who is online
+function notifyConversationUpdated(req, conversation) {
+  const socketHandler = req.app.get('socketHandler');
+  if (socketHandler) {
+    socketHandler.broadcastToConversation(conversation.id, 'conversation_updated', conversation);
+  }
+}
+
+// Map group membership errors to responses
+function sendMembershipError(res, error, fallbackMessage) {
+  if (error.message === 'Conversation not found or access denied') {
+    return res.status(404).json({
+      success: false,
+      message: 'Conversation not found'
+    });
+  }
+
+  if (error.message === 'Only the group creator can remove other members') {
+    return res.status(403).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (error.message === 'One or more users not found' || error.message === 'User is not a participant') {
+    return res.status(404).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  if (error.message === 'Only group conversations can be changed' || error.message === 'Group is full') {
+    return res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage
+  });
+}
+
 // Get all conversations for current user
 router.get('/',
   authenticateToken,
@@ -82,6 +126,60 @@ router.post('/',
   }
 );
 
+// Create a group conversation
+router.post('/groups',
+  authenticateToken,
+  apiRateLimit,
+  validateRequest(conversationValidation.createGroup),
+  async (req, res) => {
+    try {
+      const { name, participantIds } = req.body;
+
+      const conversationId = await ConversationService.createGroupConversation(
+        req.user.id,
+        name,
+        participantIds
+      );
+
+      const conversation = await ConversationService.getConversationDetails(
+        conversationId,
+        req.user.id
+      );
+
+      notifyConversationUpdated(req, conversation);
+
+      res.status(201).json({
+        success: true,
+        message: 'Group created',
+        data: {
+          conversation
+        }
+      });
+    } catch (error) {
+      console.error('Create group error:', error);
+
+      if (error.message === 'One or more users not found') {
+        return res.status(404).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Group is full') {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create group'
+      });
+    }
+  }
+);
+
 // Get conversation details
 router.get('/:conversationId',
   authenticateToken,
@@ -119,6 +217,145 @@ router.get('/:conversationId',
   }
 );
 
+// Rename a group conversation
+router.patch('/:conversationId',
+  authenticateToken,
+  apiRateLimit,
+  validateRequest(conversationValidation.rename),
+  async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.conversationId);
+
+      await ConversationService.renameConversation(conversationId, req.user.id, req.body.name);
+
+      const conversation = await ConversationService.getConversationDetails(
+        conversationId,
+        req.user.id
+      );
+
+      notifyConversationUpdated(req, conversation);
+
+      res.json({
+        success: true,
+        message: 'Group renamed',
+        data: {
+          conversation
+        }
+      });
+    } catch (error) {
+      console.error('Rename conversation error:', error);
+      sendMembershipError(res, error, 'Failed to rename group');
+    }
+  }
+);
+
+// Set or clear the disappearing message timer
+router.put('/:conversationId/disappearing',
+  authenticateToken,
+  apiRateLimit,
+  validateRequest(conversationValidation.disappearing),
+  async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.conversationId);
+      const { seconds, start = 'sent' } = req.body;
+
+      await ConversationService.setDisappearingTimer(conversationId, req.user.id, seconds, start);
+
+      const conversation = await ConversationService.getConversationDetails(
+        conversationId,
+        req.user.id
+      );
+
+      notifyConversationUpdated(req, conversation);
+
+      res.json({
+        success: true,
+        message: seconds ? 'Disappearing messages turned on' : 'Disappearing messages turned off',
+        data: {
+          conversation
+        }
+      });
+    } catch (error) {
+      console.error('Set disappearing timer error:', error);
+      sendMembershipError(res, error, 'Failed to change disappearing messages');
+    }
+  }
+);
+
+// Add members to a group conversation
+router.post('/:conversationId/participants',
+  authenticateToken,
+  apiRateLimit,
+  validateRequest(conversationValidation.addParticipants),
+  async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.conversationId);
+
+      const addedIds = await ConversationService.addParticipants(
+        conversationId,
+        req.user.id,
+        req.body.participantIds
+      );
+
+      const conversation = await ConversationService.getConversationDetails(
+        conversationId,
+        req.user.id
+      );
+
+      notifyConversationUpdated(req, conversation);
+
+      res.json({
+        success: true,
+        message: 'Members added',
+        data: {
+          conversation,
+          addedIds
+        }
+      });
+    } catch (error) {
+      console.error('Add participants error:', error);
+      sendMembershipError(res, error, 'Failed to add members');
+    }
+  }
+);
+
+// Remove a member from a group conversation, or leave it
+router.delete('/:conversationId/participants/:userId',
+  authenticateToken,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.conversationId);
+      const participantId = parseInt(req.params.userId);
+
+      if (isNaN(conversationId) || isNaN(participantId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid conversation or user ID'
+        });
+      }
+
+      await ConversationService.removeParticipant(conversationId, req.user.id, participantId);
+
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        socketHandler.removeUserFromConversation(participantId, conversationId);
+      }
+
+      // The remaining members see the new member list
+      notifyConversationUpdated(req, await ConversationService.getConversation(conversationId));
+
+      res.json({
+        success: true,
+        message: participantId === req.user.id ? 'Left group' : 'Member removed'
+      });
+    } catch (error) {
+      console.error('Remove participant error:', error);
+      sendMembershipError(res, error, 'Failed to remove member');
+    }
+  }
+);
+
 // Get messages in a conversation
 router.get('/:conversationId/messages',
   authenticateToken,
@@ -126,13 +363,20 @@ router.get('/:conversationId/messages',
   async (req, res) => {
     try {
       const { conversationId } = req.params;
-      const { limit = 50, offset = 0 } = req.query;
 
-      const messages = await MessageService.getConversationMessages(
+      const { error, value: page } = messageValidation.page.validate(req.query);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: error.details[0].message
+        });
+      }
+
+      const { messages, hasMore } = await MessageService.getConversationMessages(
         parseInt(conversationId),
         req.user.id,
-        parseInt(limit),
-        parseInt(offset)
+        page.limit,
+        { before: page.before, after: page.after }
       );
 
       res.json({
@@ -140,9 +384,10 @@ router.get('/:conversationId/messages',
         data: {
           messages,
           pagination: {
-            limit: parseInt(limit),
-            offset: parseInt(offset),
-            hasMore: messages.length === parseInt(limit)
+            limit: page.limit,
+            before: page.before || null,
+            after: page.after || null,
+            hasMore
           }
         }
       });
@@ -164,22 +409,40 @@ router.get('/:conversationId/messages',
   }
 );
 
-// Mark conversation as read
+// Mark conversation as read, up to messageId or the latest message
 router.post('/:conversationId/read',
   authenticateToken,
   apiRateLimit,
+  validateRequest(conversationValidation.markRead),
   async (req, res) => {
     try {
-      const { conversationId } = req.params;
+      const conversationId = parseInt(req.params.conversationId);
+      const { messageId = null } = req.body;
 
-      await MessageService.markConversationAsRead(
-        parseInt(conversationId),
-        req.user.id
+      const lastReadMessageId = await MessageService.markConversationAsRead(
+        conversationId,
+        req.user.id,
+        messageId
       );
 
+      // Senders see read ticks, and the reader's other devices clear their unread count
+      if (lastReadMessageId) {
+        const socketHandler = req.app.get('socketHandler');
+        if (socketHandler) {
+          socketHandler.broadcastToConversation(conversationId, 'messages_read', {
+            conversationId,
+            userId: req.user.id,
+            lastReadMessageId
+          });
+        }
+      }
+
       res.json({
         success: true,
-        message: 'Conversation marked as read'
+        message: 'Conversation marked as read',
+        data: {
+          lastReadMessageId
+        }
       });
     } catch (error) {
       console.error('Mark conversation as read error:', error);
@@ -0,0 +1,219 @@
+/**
+ * Device API Routes
+ * Device sessions, the device list, linking new devices and revoking old ones
+ */
+
+const express = require('express');
+const router = express.Router();
+const DeviceService = require('../services/deviceService');
+const AuthUtils = require('../utils/auth');
+const { authenticateToken, authenticateLoginToken, requireActiveDevice } = require('../middleware/auth');
+const { apiRateLimit } = require('../middleware/rateLimiting');
+const { validateRequest, deviceValidation } = require('../utils/validation');
+
+/**
+ * Register this device or resume its session
+ * The device signs a timestamped message with its private key; the reply
+ * carries a token bound to the device
+ * POST /api/devices
+ */
+router.post('/',
+  authenticateLoginToken,
+  apiRateLimit,
+  validateRequest(deviceValidation.session),
+  async (req, res) => {
+    try {
+      const { device, created } = await DeviceService.openSession(req.user.id, {
+        ...req.body,
+        name: req.body.name.trim()
+      });
+
+      // The user's other devices offer to approve a new one
+      if (created && device.status === 'pending') {
+        const socketHandler = req.app.get('socketHandler');
+        if (socketHandler) {
+          socketHandler.sendToUser(req.user.id, 'device_link_requested', { device });
+        }
+      }
+
+      const token = AuthUtils.generateToken({
+        userId: req.user.id,
+        deviceId: device.deviceId,
+        tokenVersion: req.user.tokenVersion
+      });
+
+      res.status(created ? 201 : 200).json({
+        success: true,
+        message: created ? 'Device registered successfully' : 'Device session opened',
+        data: {
+          device,
+          token
+        }
+      });
+
+    } catch (error) {
+      console.error('Open device session error:', error);
+
+      if (['Invalid device signature', 'Device signature expired'].includes(error.message)) {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Device has been revoked') {
+        return res.status(403).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to open device session'
+      });
+    }
+  }
+);
+
+/**
+ * Get the current user's pending and active devices
+ * GET /api/devices
+ */
+router.get('/',
+  authenticateToken,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const devices = await DeviceService.getUserDevices(req.user.id);
+
+      res.json({
+        success: true,
+        data: {
+          devices: devices.map(device => ({
+            ...device,
+            current: device.deviceId === req.device?.deviceId
+          }))
+        }
+      });
+
+    } catch (error) {
+      console.error('Get devices error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get devices'
+      });
+    }
+  }
+);
+
+/**
+ * Approve a pending device, handing it copies of this device's conversation
+ * keys wrapped to its public key
+ * POST /api/devices/:deviceId/approve
+ */
+router.post('/:deviceId/approve',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  validateRequest(deviceValidation.approve),
+  async (req, res) => {
+    try {
+      const device = await DeviceService.approveDevice(
+        req.user.id,
+        req.device.deviceId,
+        req.params.deviceId,
+        req.body.conversationKeys
+      );
+
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        socketHandler.sendToUser(req.user.id, 'device_approved', { device });
+      }
+
+      res.json({
+        success: true,
+        message: 'Device approved successfully',
+        data: {
+          device
+        }
+      });
+
+    } catch (error) {
+      console.error('Approve device error:', error);
+
+      if (error.message === 'Device not found') {
+        return res.status(404).json({
+          success: false,
+          message: 'Device not found'
+        });
+      }
+
+      if (error.message === 'Device is not awaiting approval') {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Only keys this device holds can be shared') {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to approve device'
+      });
+    }
+  }
+);
+
+/**
+ * Revoke a device, or turn down one awaiting approval
+ * DELETE /api/devices/:deviceId
+ */
+router.delete('/:deviceId',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const device = await DeviceService.revokeDevice(req.user.id, req.params.deviceId);
+
+      // Other devices update their list; the revoked one is signed out
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        socketHandler.sendToUser(req.user.id, 'device_revoked', { deviceId: device.deviceId });
+        socketHandler.disconnectDevice(req.user.id, device.deviceId);
+      }
+
+      res.json({
+        success: true,
+        message: 'Device revoked successfully',
+        data: {
+          device
+        }
+      });
+
+    } catch (error) {
+      console.error('Revoke device error:', error);
+
+      if (error.message === 'Device not found') {
+        return res.status(404).json({
+          success: false,
+          message: 'Device not found'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revoke device'
+      });
+    }
+  }
+);
+
+module.exports = router;
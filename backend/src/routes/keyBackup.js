@@ -0,0 +1,262 @@
+/**
+ * Key Backup API Routes
+ * The encrypted backup of a user's keys, and recovering an account with the
+ * recovery code that opens it
+ */
+
+const express = require('express');
+const router = express.Router();
+const KeyBackupService = require('../services/keyBackupService');
+const AuthUtils = require('../utils/auth');
+const { authenticateToken, requireActiveDevice } = require('../middleware/auth');
+const { apiRateLimit, authRateLimit } = require('../middleware/rateLimiting');
+const { validateRequest, keyBackupValidation } = require('../utils/validation');
+
+/**
+ * Get your key backup
+ * Only active devices get it, as with conversation keys
+ * GET /api/key-backup
+ */
+router.get('/',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const backup = await KeyBackupService.getBackup(req.user.id);
+
+      if (!backup) {
+        return res.status(404).json({
+          success: false,
+          message: 'No key backup'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          backup
+        }
+      });
+
+    } catch (error) {
+      console.error('Get key backup error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get key backup'
+      });
+    }
+  }
+);
+
+/**
+ * Set up a key backup under a new recovery code, replacing any earlier one
+ * PUT /api/key-backup
+ */
+router.put('/',
+  authenticateToken,
+  requireActiveDevice,
+  authRateLimit,
+  validateRequest(keyBackupValidation.backup),
+  async (req, res) => {
+    try {
+      const backup = await KeyBackupService.saveBackup(req.user.id, req.body);
+
+      res.json({
+        success: true,
+        message: 'Key backup saved',
+        data: {
+          backup
+        }
+      });
+
+    } catch (error) {
+      console.error('Save key backup error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to save key backup'
+      });
+    }
+  }
+);
+
+/**
+ * Replace the backed up keyring, if it is still at the version the client read
+ * PUT /api/key-backup/keyring
+ */
+router.put('/keyring',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  validateRequest(keyBackupValidation.keyring),
+  async (req, res) => {
+    try {
+      const { encryptedKeyring, version } = req.body;
+      const keyringVersion = await KeyBackupService.updateKeyring(req.user.id, encryptedKeyring, version);
+
+      res.json({
+        success: true,
+        data: {
+          keyringVersion
+        }
+      });
+
+    } catch (error) {
+      console.error('Update backed up keyring error:', error);
+
+      if (error.message === 'Key backup not found') {
+        return res.status(404).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Keyring version is out of date') {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update keyring'
+      });
+    }
+  }
+);
+
+/**
+ * Get the backup of an account, proving the recovery code with a key
+ * derived from it
+ * POST /api/key-backup/recover
+ */
+router.post('/recover',
+  authRateLimit,
+  validateRequest(keyBackupValidation.recover),
+  async (req, res) => {
+    try {
+      const { username, recoveryAuthKey } = req.body;
+      const backup = await KeyBackupService.getRecoveryBackup(username, recoveryAuthKey);
+
+      res.json({
+        success: true,
+        data: {
+          backup
+        }
+      });
+
+    } catch (error) {
+      console.error('Recover account error:', error);
+
+      if (error.message === 'Invalid recovery code') {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid username or recovery code'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Account recovery failed'
+      });
+    }
+  }
+);
+
+/**
+ * Set a new password with keys re-wrapped under it; signs out every device
+ * and registers the recovering one in their place. The reply carries a token
+ * bound to that device
+ * POST /api/key-backup/recover/complete
+ */
+router.post('/recover/complete',
+  authRateLimit,
+  validateRequest(keyBackupValidation.completeRecovery),
+  async (req, res) => {
+    try {
+      const { userId, revokedDeviceIds, device, tokenVersion } = await KeyBackupService.completeRecovery(
+        req.body.username,
+        req.body
+      );
+
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        revokedDeviceIds.forEach(deviceId => {
+          socketHandler.sendToUser(userId, 'device_revoked', { deviceId });
+          socketHandler.disconnectDevice(userId, deviceId);
+        });
+      }
+
+      const token = AuthUtils.generateToken({ userId, deviceId: device.deviceId, tokenVersion });
+
+      res.json({
+        success: true,
+        message: 'Account recovered, sign in with your new password',
+        data: {
+          device,
+          token
+        }
+      });
+
+    } catch (error) {
+      console.error('Complete account recovery error:', error);
+
+      if (error.message === 'Invalid recovery code') {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid username or recovery code'
+        });
+      }
+
+      if (['Invalid device signature', 'Device signature expired'].includes(error.message)) {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Account recovery failed'
+      });
+    }
+  }
+);
+
+/**
+ * Store backed up conversation keys, wrapped to this device's key, after
+ * recovering the account
+ * POST /api/key-backup/restore
+ */
+router.post('/restore',
+  authenticateToken,
+  requireActiveDevice,
+  apiRateLimit,
+  validateRequest(keyBackupValidation.restore),
+  async (req, res) => {
+    try {
+      const restored = await KeyBackupService.restoreConversationKeys(
+        req.user.id,
+        req.device.deviceId,
+        req.body.conversationKeys
+      );
+
+      res.json({
+        success: true,
+        data: {
+          restored
+        }
+      });
+
+    } catch (error) {
+      console.error('Restore conversation keys error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to restore conversation keys'
+      });
+    }
+  }
+);
+
+module.exports = router;
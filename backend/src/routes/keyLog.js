@@ -0,0 +1,102 @@
+/**
+ * Key Log API Routes
+ * Signed heads of the public key transparency log and proofs that a user's
+ * key is in it
+ */
+
+const express = require('express');
+const router = express.Router();
+const KeyTransparencyService = require('../services/keyTransparencyService');
+const { authenticateToken } = require('../middleware/auth');
+const { apiRateLimit } = require('../middleware/rateLimiting');
+const { keyLogValidation } = require('../utils/validation');
+
+/**
+ * Get the current signed tree head and the key that signs it
+ * Public, so anyone can follow the log
+ * GET /api/key-log/head
+ */
+router.get('/head',
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const { treeHead } = await KeyTransparencyService.getSignedTreeHead();
+
+      res.json({
+        success: true,
+        data: {
+          treeHead,
+          publicKey: KeyTransparencyService.getPublicKey()
+        }
+      });
+
+    } catch (error) {
+      console.error('Get key log head error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get key log head'
+      });
+    }
+  }
+);
+
+/**
+ * Get a user's latest logged key with an inclusion proof against the current
+ * tree head, and a consistency proof from the head the client last saw
+ * GET /api/key-log/users/:userId/proof?since=
+ */
+router.get('/users/:userId/proof',
+  authenticateToken,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+
+      if (isNaN(userId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid user ID'
+        });
+      }
+
+      const { error, value: query } = keyLogValidation.proof.validate(req.query);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: error.details[0].message
+        });
+      }
+
+      const proof = await KeyTransparencyService.getKeyProof(userId, query.since);
+
+      res.json({
+        success: true,
+        data: proof
+      });
+
+    } catch (error) {
+      console.error('Get key proof error:', error);
+
+      if (error.message === 'No key log entry for user') {
+        return res.status(404).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Tree size is ahead of the log') {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get key proof'
+      });
+    }
+  }
+);
+
+module.exports = router;
@@ -1,6 +1,7 @@
 const express = require('express');
 const router = express.Router();
 const MessageService = require('../services/messageService');
+const ReactionService = require('../services/reactionService');
 const { messageValidation, validateRequest } = require('../utils/validation');
 const { apiRateLimit, messageRateLimit } = require('../middleware/rateLimiting');
 const { authenticateToken } = require('../middleware/auth');
@@ -15,20 +16,28 @@ router.get('/conversation/:conversationId',
   async (req, res) => {
     try {
       const { conversationId } = req.params;
-      const { limit = 50, offset = 0 } = req.query;
 
-      const messages = await MessageService.getConversationMessages(
+      const { error, value: page } = messageValidation.page.validate(req.query);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          message: error.details[0].message
+        });
+      }
+
+      const { messages, hasMore } = await MessageService.getConversationMessages(
         conversationId,
         req.user.id,
-        parseInt(limit),
-        parseInt(offset)
+        page.limit,
+        { before: page.before, after: page.after }
       );
 
       res.json({
         success: true,
         data: {
           messages,
-          conversationId
+          conversationId,
+          hasMore
         }
       });
     } catch (error) {
@@ -50,33 +59,47 @@ router.get('/conversation/:conversationId',
 );
 
 /**
- * Send a new message - Step 7 simplified
+ * Which of the given messages are still visible to the current user
+ * POST /api/messages/visible
  */
-router.post('/',
+router.post('/visible',
   authenticateToken,
-  messageRateLimit,
+  apiRateLimit,
+  validateRequest(messageValidation.visible),
   async (req, res) => {
     try {
-      const { conversationId, content, messageType = 'text' } = req.body;
+      const messageIds = await MessageService.getVisibleMessageIds(req.body.messageIds, req.user.id);
 
-      // Basic validation
-      if (!conversationId) {
-        return res.status(400).json({
-          success: false,
-          message: 'Conversation ID is required'
-        });
-      }
+      res.json({
+        success: true,
+        data: {
+          messageIds
+        }
+      });
+    } catch (error) {
+      console.error('Check visible messages error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to check messages'
+      });
+    }
+  }
+);
 
-      if (!content || !content.trim()) {
-        return res.status(400).json({
-          success: false,
-          message: 'Message content is required'
-        });
-      }
+/**
+ * Send a new encrypted message
+ */
+router.post('/',
+  authenticateToken,
+  messageRateLimit,
+  validateRequest(messageValidation.create),
+  async (req, res) => {
+    try {
+      const { conversationId, envelope, ratchetHeader = null, messageType = 'text', replyToMessageId = null, attachmentId = null } = req.body;
 
       // Verify user has access to this conversation
       const ConversationService = require('../services/conversationService');
-      const hasAccess = await ConversationService.verifyUserInConversation(parseInt(conversationId), req.user.id);
+      const hasAccess = await ConversationService.verifyUserInConversation(conversationId, req.user.id);
       if (!hasAccess) {
         return res.status(403).json({
           success: false,
@@ -84,8 +107,13 @@ router.post('/',
         });
       }
 
-      // Get conversation details to find the UUID
-      const conversation = await db.query('SELECT conversation_id FROM conversations WHERE id = ?', [conversationId]);
+      // Messages are stored against the conversation UUID; look it up by the
+      // same column the access check used
+      const column = ConversationService.getIdColumn(conversationId);
+      const conversation = await db.query(
+        `SELECT id, conversation_id FROM conversations WHERE ${column} = ?`,
+        [conversationId]
+      );
       if (conversation.length === 0) {
         return res.status(404).json({
           success: false,
@@ -93,38 +121,47 @@ router.post('/',
         });
       }
 
-      const conversationUuid = conversation[0].conversation_id;
-
-      // Insert message with plain text
-      const result = await db.query(
-        'INSERT INTO messages (conversation_id, sender_id, encrypted_content, iv, message_type) VALUES (?, ?, ?, ?, ?)',
-        [conversationUuid, req.user.id, content.trim(), 'no-encryption', messageType]
-      );
-
-      // Get sender info
-      const sender = await db.query('SELECT username, public_key FROM users WHERE id = ?', [req.user.id]);
-
-      const message = {
-        id: result.insertId,
-        conversationId: parseInt(conversationId),
-        senderId: req.user.id,
-        senderUsername: sender[0].username,
-        encryptedContent: content.trim(),
-        iv: 'no-encryption',
+      const message = await MessageService.sendMessage(
+        conversation[0].conversation_id,
+        req.user.id,
+        envelope,
         messageType,
-        createdAt: new Date().toISOString()
-      };
+        ratchetHeader,
+        replyToMessageId,
+        attachmentId
+      );
 
       res.status(201).json({
         success: true,
         message: 'Message sent successfully',
-        data: { message }
+        data: {
+          message: {
+            ...message,
+            conversationId: conversation[0].id,
+            senderUsername: req.user.username
+          }
+        }
       });
 
-      console.log(`✅ Message sent: ${result.insertId} in conversation ${conversationId}`);
+      console.log(`✅ Message sent: ${message.id} in conversation ${conversationId}`);
 
     } catch (error) {
       console.error('Send message error:', error);
+
+      if (error.message === 'Conversation key is out of date' || error.message === 'Members have several devices, use the conversation key') {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Reply target is not in this conversation' || error.message === 'Attachment not found') {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
       res.status(500).json({
         success: false,
         message: 'Failed to send message'
@@ -170,75 +207,357 @@ router.get('/:messageId',
   }
 );
 
-// Delete a message (only sender can delete)
-router.delete('/:messageId',
+/**
+ * Edit a message (only sender can edit)
+ */
+router.put('/:messageId',
+  authenticateToken,
+  messageRateLimit,
+  validateRequest(messageValidation.edit),
+  async (req, res) => {
+    try {
+      const message = await MessageService.editMessage(
+        parseInt(req.params.messageId),
+        req.user.id,
+        req.body.envelope
+      );
+
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        socketHandler.broadcastToConversation(message.conversationId, 'message_edited', message);
+      }
+
+      res.json({
+        success: true,
+        message: 'Message edited successfully',
+        data: {
+          message
+        }
+      });
+    } catch (error) {
+      console.error('Edit message error:', error);
+
+      if (error.message === 'Message not found') {
+        return res.status(404).json({
+          success: false,
+          message: 'Message not found'
+        });
+      }
+
+      if (error.message === 'You can only edit your own messages' || error.message === 'Access denied to this conversation') {
+        return res.status(403).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Conversation key is out of date') {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Only text messages can be edited') {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to edit message'
+      });
+    }
+  }
+);
+
+/**
+ * Get earlier versions of an edited message
+ */
+router.get('/:messageId/revisions',
   authenticateToken,
   apiRateLimit,
   async (req, res) => {
     try {
-      const { messageId } = req.params;
+      const revisions = await MessageService.getMessageRevisions(
+        parseInt(req.params.messageId),
+        req.user.id
+      );
 
-      await MessageService.deleteMessage(
-        parseInt(messageId),
+      res.json({
+        success: true,
+        data: {
+          revisions
+        }
+      });
+    } catch (error) {
+      console.error('Get message revisions error:', error);
+
+      if (error.message === 'Message not found' || error.message === 'Message not found or access denied') {
+        return res.status(404).json({
+          success: false,
+          message: 'Message not found'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get message revisions'
+      });
+    }
+  }
+);
+
+/**
+ * Get the thread of replies under a message
+ */
+router.get('/:messageId/replies',
+  authenticateToken,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const replies = await MessageService.getMessageReplies(
+        parseInt(req.params.messageId),
         req.user.id
       );
 
       res.json({
         success: true,
-        message: 'Message deleted successfully'
+        data: {
+          replies
+        }
       });
     } catch (error) {
-      console.error('Delete message error:', error);
+      console.error('Get message replies error:', error);
 
-      if (error.message === 'Message not found or you do not have permission to delete it') {
+      if (error.message === 'Message not found') {
         return res.status(404).json({
           success: false,
-          message: 'Message not found or permission denied'
+          message: 'Message not found'
+        });
+      }
+
+      if (error.message === 'Access denied to this conversation') {
+        return res.status(403).json({
+          success: false,
+          message: error.message
         });
       }
 
       res.status(500).json({
         success: false,
-        message: 'Failed to delete message'
+        message: 'Failed to get message replies'
       });
     }
   }
 );
 
-// Search messages
-router.get('/search/:query',
+/**
+ * Get the encrypted reactions on a message
+ */
+router.get('/:messageId/reactions',
   authenticateToken,
   apiRateLimit,
   async (req, res) => {
     try {
-      const { query } = req.params;
-      const { limit = 20 } = req.query;
+      const reactions = await ReactionService.getReactions(
+        parseInt(req.params.messageId),
+        req.user.id
+      );
 
-      if (!query || query.trim().length < 2) {
-        return res.status(400).json({
+      res.json({
+        success: true,
+        data: {
+          reactions
+        }
+      });
+    } catch (error) {
+      console.error('Get reactions error:', error);
+
+      if (error.message === 'Message not found') {
+        return res.status(404).json({
           success: false,
-          message: 'Search query must be at least 2 characters long'
+          message: 'Message not found'
         });
       }
 
-      const messages = await MessageService.searchMessages(
+      if (error.message === 'Access denied to this conversation') {
+        return res.status(403).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to get reactions'
+      });
+    }
+  }
+);
+
+/**
+ * React to a message
+ */
+router.post('/:messageId/reactions',
+  authenticateToken,
+  messageRateLimit,
+  validateRequest(messageValidation.reaction),
+  async (req, res) => {
+    try {
+      const reaction = await ReactionService.addReaction(
+        parseInt(req.params.messageId),
         req.user.id,
-        query.trim(),
-        parseInt(limit)
+        req.body.envelope
       );
 
-      res.json({
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        socketHandler.broadcastToConversation(reaction.conversationId, 'reaction_added', reaction);
+      }
+
+      res.status(201).json({
         success: true,
+        message: 'Reaction added successfully',
         data: {
-          messages,
-          query: query.trim()
+          reaction
+        }
+      });
+    } catch (error) {
+      console.error('Add reaction error:', error);
+
+      if (error.message === 'Message not found') {
+        return res.status(404).json({
+          success: false,
+          message: 'Message not found'
+        });
+      }
+
+      if (error.message === 'Access denied to this conversation') {
+        return res.status(403).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Conversation key is out of date' || error.message === 'Too many reactions on this message') {
+        return res.status(409).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to add reaction'
+      });
+    }
+  }
+);
+
+/**
+ * Remove one of your reactions from a message
+ */
+router.delete('/:messageId/reactions/:reactionId',
+  authenticateToken,
+  apiRateLimit,
+  async (req, res) => {
+    try {
+      const removal = await ReactionService.removeReaction(
+        parseInt(req.params.messageId),
+        parseInt(req.params.reactionId),
+        req.user.id
+      );
+
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        socketHandler.broadcastToConversation(removal.conversationId, 'reaction_removed', removal);
+      }
+
+      res.json({
+        success: true,
+        message: 'Reaction removed successfully',
+        data: removal
+      });
+    } catch (error) {
+      console.error('Remove reaction error:', error);
+
+      if (error.message === 'Message not found' || error.message === 'Reaction not found') {
+        return res.status(404).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      if (error.message === 'Access denied to this conversation' || error.message === 'You can only remove your own reactions') {
+        return res.status(403).json({
+          success: false,
+          message: error.message
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Failed to remove reaction'
+      });
+    }
+  }
+);
+
+/**
+ * Delete a message for yourself, or for everyone (only sender)
+ */
+router.delete('/:messageId',
+  authenticateToken,
+  apiRateLimit,
+  validateRequest(messageValidation.delete),
+  async (req, res) => {
+    try {
+      const { messageId } = req.params;
+
+      const deletion = await MessageService.deleteMessage(
+        parseInt(messageId),
+        req.user.id,
+        req.body.mode || 'everyone'
+      );
+
+      // Only the user's own devices need to drop a message hidden for them
+      const socketHandler = req.app.get('socketHandler');
+      if (socketHandler) {
+        if (deletion.mode === 'me') {
+          socketHandler.sendToUser(req.user.id, 'message_deleted', deletion);
+        } else {
+          socketHandler.broadcastToConversation(deletion.conversationId, 'message_deleted', deletion);
         }
+      }
+
+      res.json({
+        success: true,
+        message: 'Message deleted successfully',
+        data: deletion
       });
     } catch (error) {
-      console.error('Search messages error:', error);
+      console.error('Delete message error:', error);
+
+      if (error.message === 'Message not found') {
+        return res.status(404).json({
+          success: false,
+          message: 'Message not found'
+        });
+      }
+
+      if (error.message === 'You can only delete your own messages' || error.message === 'Access denied to this conversation') {
+        return res.status(403).json({
+          success: false,
+          message: error.message
+        });
+      }
+
       res.status(500).json({
         success: false,
-        message: 'Search failed'
+        message: 'Failed to delete message'
       });
     }
   }
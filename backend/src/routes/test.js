@@ -8,7 +8,7 @@ const router = express.Router();
 const UserService = require('../services/userService');
 const ConversationKeyService = require('../services/conversationKeyService');
 const MessageService = require('../services/messageService');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireActiveDevice } = require('../middleware/auth');
 const { apiRateLimit } = require('../middleware/rateLimiting');
 
 /**
@@ -60,6 +60,7 @@ router.get('/health',
  */
 router.post('/setup-conversation',
   authenticateToken,
+  requireActiveDevice,
   apiRateLimit,
   async (req, res) => {
     try {
@@ -84,6 +85,7 @@ router.post('/setup-conversation',
       await ConversationKeyService.storeConversationKey(
         conversationId,
         req.user.id,
+        req.device.deviceId,
         userKey.keyId,
         userKey.encryptedAesKey,
         userKey.iv
@@ -92,15 +94,14 @@ router.post('/setup-conversation',
       // Step 2: Verify we can retrieve the key
       const retrievedKey = await ConversationKeyService.getConversationKey(
         conversationId,
-        req.user.id
+        req.device.deviceId
       );
 
       // Step 3: Send a test message
       const message = await MessageService.sendMessage(
         conversationId,
         req.user.id,
-        testMessage.encryptedContent,
-        testMessage.iv,
+        testMessage,
         'text'
       );
 
@@ -10,12 +10,22 @@ const authRoutes = require('./routes/auth');
 const conversationRoutes = require('./routes/conversations');
 const messageRoutes = require('./routes/messages');
 const conversationKeyRoutes = require('./routes/conversationKeys');
+const attachmentRoutes = require('./routes/attachments');
+const deviceRoutes = require('./routes/devices');
+const keyLogRoutes = require('./routes/keyLog');
+const keyBackupRoutes = require('./routes/keyBackup');
 const testRoutes = require('./routes/test');
 
 // Import middleware
 const { authenticateSocket } = require('./middleware/auth');
 const { apiRateLimit } = require('./middleware/rateLimiting');
 
+// Import attachment storage
+const { getStorage } = require('./storage');
+const AttachmentService = require('./services/attachmentService');
+const MessageService = require('./services/messageService');
+const KeyTransparencyService = require('./services/keyTransparencyService');
+
 // Import socket handler
 const SocketHandler = require('./socket/socketHandler');
 
@@ -37,6 +47,7 @@ class ChatServer {
     
     this.port = process.env.PORT || 3001;
     this.socketHandler = new SocketHandler(this.io);
+    this.app.set('socketHandler', this.socketHandler);
   }
 
   setupMiddleware() {
@@ -65,8 +76,13 @@ class ChatServer {
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-    // Global rate limiting
-    this.app.use(apiRateLimit);
+    // Global rate limiting; attachment chunks have a limit of their own
+    this.app.use((req, res, next) => {
+      if (/^\/api\/attachments\/[^/]+\/chunks\//.test(req.path)) {
+        return next();
+      }
+      apiRateLimit(req, res, next);
+    });
 
     // Request logging
     this.app.use((req, res, next) => {
@@ -91,6 +107,10 @@ class ChatServer {
     this.app.use('/api/conversations', conversationRoutes);
     this.app.use('/api/messages', messageRoutes);
     this.app.use('/api/conversation-keys', conversationKeyRoutes);
+    this.app.use('/api/attachments', attachmentRoutes);
+    this.app.use('/api/devices', deviceRoutes);
+    this.app.use('/api/key-log', keyLogRoutes);
+    this.app.use('/api/key-backup', keyBackupRoutes);
     
     // Development/Testing routes
     if (process.env.NODE_ENV === 'development') {
@@ -110,21 +130,62 @@ class ChatServer {
             'GET /api/auth/profile': 'Get user profile',
             'GET /api/auth/search': 'Search users',
             'GET /api/auth/username/:username': 'Get user by username',
+            'PUT /api/auth/public-key': 'Replace your identity key (recorded in the key log)',
+            'GET /api/auth/wrapped-keys': 'Conversation keys this device stores under your master key',
+            'POST /api/auth/change-password': 'Change password with re-wrapped keys; signs out your other devices',
             'GET /api/auth/verify-token': 'Verify JWT token'
           },
           conversations: {
             'GET /api/conversations': 'Get user conversations',
             'POST /api/conversations': 'Create/find conversation',
+            'POST /api/conversations/groups': 'Create group conversation',
             'GET /api/conversations/:id': 'Get conversation details',
-            'GET /api/conversations/:id/messages': 'Get conversation messages',
+            'PATCH /api/conversations/:id': 'Rename group conversation',
+            'PUT /api/conversations/:id/disappearing': 'Set or clear the disappearing message timer',
+            'POST /api/conversations/:id/participants': 'Add group members',
+            'DELETE /api/conversations/:id/participants/:userId': 'Remove group member or leave',
+            'GET /api/conversations/:id/messages': 'Get a page of conversation messages (before/after cursors)',
             'POST /api/conversations/:id/read': 'Mark conversation as read'
           },
           messages: {
             'POST /api/messages': 'Send new message',
             'GET /api/messages/:id': 'Get specific message',
-            'DELETE /api/messages/:id': 'Delete message',
-            'GET /api/messages/search/:query': 'Search messages',
+            'PUT /api/messages/:id': 'Edit message',
+            'GET /api/messages/:id/revisions': 'Get earlier versions of an edited message',
+            'GET /api/messages/:id/replies': 'Get the thread of replies to a message',
+            'GET /api/messages/:id/reactions': 'Get encrypted reactions on a message',
+            'POST /api/messages/:id/reactions': 'React to a message',
+            'DELETE /api/messages/:id/reactions/:reactionId': 'Remove your reaction',
+            'DELETE /api/messages/:id': 'Delete message for yourself or for everyone',
+            'POST /api/messages/visible': 'Check which loaded messages are still visible',
             'GET /api/messages/unread/count': 'Get unread count'
+          },
+          attachments: {
+            'POST /api/attachments': 'Start a chunked upload of an encrypted file, with presigned chunk URLs',
+            'GET /api/attachments/usage': 'Get storage used against your quota',
+            'PUT /api/attachments/:id/chunks/:index': 'Upload one encrypted chunk (signed URL)',
+            'GET /api/attachments/:id/chunks/:index': 'Download one encrypted chunk (signed URL)',
+            'POST /api/attachments/:id/complete': 'Finish an upload',
+            'GET /api/attachments/:id/urls': 'Get presigned chunk download URLs',
+            'GET /api/attachments/:id': 'Stream an encrypted attachment'
+          },
+          devices: {
+            'POST /api/devices': 'Register this device or resume its session (signed)',
+            'GET /api/devices': 'List your pending and active devices',
+            'POST /api/devices/:deviceId/approve': 'Link a new device, sending it wrapped conversation keys',
+            'DELETE /api/devices/:deviceId': 'Revoke a device or turn down a link request'
+          },
+          keyLog: {
+            'GET /api/key-log/head': 'Get the signed head of the public key transparency log',
+            'GET /api/key-log/users/:userId/proof': "Get a user's latest logged key with inclusion and consistency proofs"
+          },
+          keyBackup: {
+            'GET /api/key-backup': 'Get your encrypted key backup',
+            'PUT /api/key-backup': 'Set up your key backup under a new recovery code',
+            'PUT /api/key-backup/keyring': 'Update the backed up keyring (versioned)',
+            'POST /api/key-backup/recover': "Get an account's key backup with its recovery code",
+            'POST /api/key-backup/recover/complete': 'Set a new password with re-wrapped keys; signs out every device',
+            'POST /api/key-backup/restore': 'Store restored conversation keys for this device'
           }
         },
         websocket: {
@@ -135,7 +196,12 @@ class ChatServer {
               'send_message',
               'typing_start',
               'typing_stop',
-              'user_status'
+              'user_status',
+              'upload_prekeys',
+              'message_delivered',
+              'edit_message',
+              'add_reaction',
+              'remove_reaction'
             ],
             server_to_client: [
               'conversation_joined',
@@ -145,6 +211,21 @@ class ChatServer {
               'message_error',
               'user_typing',
               'user_status_changed',
+              'conversation_updated',
+              'conversation_removed',
+              'conversation_key_rotated',
+              'messages_read',
+              'message_status',
+              'message_edited',
+              'message_deleted',
+              'messages_expired',
+              'reaction_added',
+              'reaction_removed',
+              'prekeys_low',
+              'prekeys_uploaded',
+              'device_link_requested',
+              'device_approved',
+              'device_revoked',
               'error'
             ]
           }
@@ -191,6 +272,68 @@ class ChatServer {
     }
   }
 
+  // Check the key log's hash chain before handing out proofs from it
+  async setupKeyLog() {
+    // Resolve the signing key now, so a bad or, in production, missing
+    // KEY_LOG_PRIVATE_KEY stops startup
+    KeyTransparencyService.getSigningKey();
+
+    const entries = await KeyTransparencyService.verifyChain();
+    console.log(`🔑 Key log verified (${entries} entries)`);
+  }
+
+  // Periodically delete attachment blobs that no message points at
+  setupAttachmentGC() {
+    // Resolve the driver now, so a bad storage configuration stops startup
+    getStorage();
+
+    const intervalMinutes = parseInt(process.env.ATTACHMENT_GC_INTERVAL_MINUTES) || 60;
+
+    const collect = async () => {
+      try {
+        const { collected } = await AttachmentService.collectGarbage();
+        if (collected > 0) {
+          console.log(`🧹 Collected ${collected} unused attachments`);
+        }
+      } catch (error) {
+        // Logged by the service; the next run tries again
+      }
+    };
+
+    this.attachmentGCTimer = setInterval(collect, intervalMinutes * 60 * 1000);
+    this.attachmentGCTimer.unref();
+  }
+
+  // Purge messages whose disappearing timer ran out and tell their conversations
+  setupMessageExpiry() {
+    const intervalSeconds = parseInt(process.env.MESSAGE_EXPIRY_INTERVAL_SECONDS) || 10;
+
+    const sweep = async () => {
+      try {
+        // A run clears the whole backlog, one batch at a time
+        for (;;) {
+          const { expired, remaining } = await MessageService.purgeExpiredMessages();
+
+          Object.entries(expired).forEach(([conversationId, messageIds]) => {
+            this.socketHandler.broadcastToConversation(parseInt(conversationId), 'messages_expired', {
+              conversationId: parseInt(conversationId),
+              messageIds
+            });
+          });
+
+          if (!remaining) {
+            break;
+          }
+        }
+      } catch (error) {
+        // Logged by the service; the next run tries again
+      }
+    };
+
+    this.messageExpiryTimer = setInterval(sweep, intervalSeconds * 1000);
+    this.messageExpiryTimer.unref();
+  }
+
   async start() {
     try {
       // Test database connection
@@ -204,6 +347,9 @@ class ChatServer {
       this.setupMiddleware();
       this.setupRoutes();
       this.setupSocketIO();
+      await this.setupKeyLog();
+      this.setupAttachmentGC();
+      this.setupMessageExpiry();
 
       // Start server
       this.server.listen(this.port, () => {
@@ -231,6 +377,9 @@ class ChatServer {
     
     try {
       // Close server
+      clearInterval(this.attachmentGCTimer);
+      clearInterval(this.messageExpiryTimer);
+
       this.server.close(async () => {
         console.log('📡 HTTP server closed');
         
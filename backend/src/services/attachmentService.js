@@ -0,0 +1,382 @@
+/**
+ * Attachment Service
+ * Tracks client-encrypted files stored as numbered chunks in the configured
+ * blob store. The server only sees ciphertext; the file key travels inside
+ * a message.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+const db = require('../database/connection');
+const ConversationService = require('./conversationService');
+const { getStorage } = require('../storage');
+
+// Every chunk but the last is 1 MiB of plaintext plus its 12-byte IV and 16-byte tag
+const CHUNK_SIZE = 1024 * 1024 + 28;
+const MIN_CHUNK_SIZE = 29;
+const MAX_CHUNKS = 100;
+
+const STORAGE_QUOTA = (parseInt(process.env.STORAGE_QUOTA_MB) || 1024) * 1024 * 1024;
+
+// Unsent uploads and attachments no message points at are kept this long
+const GC_GRACE_HOURS = parseInt(process.env.ATTACHMENT_GC_GRACE_HOURS) || 24;
+const GC_BATCH_SIZE = 100;
+
+class AttachmentService {
+
+  /**
+   * Encrypted size of each chunk, which the client cannot choose
+   */
+  static getChunkSizes(size, chunkCount) {
+    const lastChunkSize = size - (chunkCount - 1) * CHUNK_SIZE;
+
+    if (chunkCount > MAX_CHUNKS || lastChunkSize < MIN_CHUNK_SIZE || lastChunkSize > CHUNK_SIZE) {
+      throw new Error('Invalid attachment size');
+    }
+
+    return Array.from({ length: chunkCount }, (_, index) => index === chunkCount - 1 ? lastChunkSize : CHUNK_SIZE);
+  }
+
+  /**
+   * Look up an attachment row by its public ID
+   */
+  static async getAttachment(attachmentId) {
+    const attachments = await db.query(
+      'SELECT * FROM attachments WHERE attachment_id = ?',
+      [attachmentId]
+    );
+
+    if (attachments.length === 0) {
+      throw new Error('Attachment not found');
+    }
+
+    return attachments[0];
+  }
+
+  /**
+   * An attachment whose chunks can still be written
+   */
+  static async getPendingUpload(attachmentId) {
+    const attachment = await AttachmentService.getAttachment(attachmentId);
+
+    if (attachment.status !== 'uploading') {
+      throw new Error('Attachment is already complete');
+    }
+
+    return attachment;
+  }
+
+  /**
+   * A finished attachment the user can see, as a member of the conversation it was shared in
+   */
+  static async getVisibleAttachment(attachmentId, userId) {
+    const attachment = await AttachmentService.getAttachment(attachmentId);
+
+    if (attachment.status !== 'complete') {
+      throw new Error('Attachment not found');
+    }
+
+    const hasAccess = await ConversationService.verifyUserInConversation(attachment.conversation_id, userId);
+    if (!hasAccess) {
+      throw new Error('Access denied to this conversation');
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Bytes a user has stored, finished or not, against their quota
+   */
+  static async getUsage(userId) {
+    const [{ used }] = await db.query(
+      'SELECT COALESCE(SUM(size), 0) as used FROM attachments WHERE uploader_id = ?',
+      [userId]
+    );
+
+    return { used: Number(used), quota: STORAGE_QUOTA };
+  }
+
+  /**
+   * Start an upload of an encrypted file of `size` bytes split into `chunkCount` chunks,
+   * returning a presigned URL for each chunk
+   */
+  static async createUpload(conversationId, uploaderId, size, chunkCount) {
+    try {
+      const hasAccess = await ConversationService.verifyUserInConversation(conversationId, uploaderId);
+      if (!hasAccess) {
+        throw new Error('Access denied to this conversation');
+      }
+
+      const chunkSizes = AttachmentService.getChunkSizes(size, chunkCount);
+
+      const conversation = await ConversationService.getConversation(conversationId);
+      const attachmentId = uuidv4();
+
+      // The user row is held while usage is summed, so parallel uploads
+      // cannot all fit under the quota together
+      await db.transaction(async (connection) => {
+        await connection.execute('SELECT id FROM users WHERE id = ? FOR UPDATE', [uploaderId]);
+
+        const [[{ used }]] = await connection.execute(
+          'SELECT COALESCE(SUM(size), 0) as used FROM attachments WHERE uploader_id = ?',
+          [uploaderId]
+        );
+        if (Number(used) + size > STORAGE_QUOTA) {
+          throw new Error('Storage quota exceeded');
+        }
+
+        await connection.execute(
+          'INSERT INTO attachments (attachment_id, conversation_id, uploader_id, size, chunk_count) VALUES (?, ?, ?, ?, ?)',
+          [attachmentId, conversation.id, uploaderId, size, chunkCount]
+        );
+      });
+
+      const storage = getStorage();
+      const uploadUrls = await Promise.all(
+        chunkSizes.map((chunkSize, index) => storage.getUploadUrl(attachmentId, index, chunkSize))
+      );
+
+      return {
+        attachmentId,
+        conversationId: conversation.id,
+        size,
+        chunkCount,
+        chunkSize: CHUNK_SIZE,
+        uploadUrls
+      };
+
+    } catch (error) {
+      console.error('❌ Error creating attachment upload:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store one encrypted chunk sent to a signed URL; a retried chunk overwrites the earlier attempt
+   */
+  static async writeChunk(attachmentId, index, data, signedSize) {
+    try {
+      const attachment = await AttachmentService.getPendingUpload(attachmentId);
+
+      if (index >= attachment.chunk_count) {
+        throw new Error('Chunk index out of range');
+      }
+
+      const expectedSize = AttachmentService.getChunkSizes(Number(attachment.size), attachment.chunk_count)[index];
+      if (!Buffer.isBuffer(data) || data.length !== expectedSize || data.length !== signedSize) {
+        throw new Error('Invalid chunk size');
+      }
+
+      await getStorage().putChunk(attachment.attachment_id, index, data);
+
+      return { attachmentId: attachment.attachment_id, index, size: data.length };
+
+    } catch (error) {
+      console.error('❌ Error writing attachment chunk:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Seal an upload once every chunk is stored at the size it should be
+   */
+  static async completeUpload(attachmentId, userId) {
+    try {
+      const attachment = await AttachmentService.getPendingUpload(attachmentId);
+
+      if (attachment.uploader_id !== userId) {
+        throw new Error('Attachment not found');
+      }
+
+      const storage = getStorage();
+      const chunkSizes = AttachmentService.getChunkSizes(Number(attachment.size), attachment.chunk_count);
+      const storedSizes = await Promise.all(
+        chunkSizes.map((_, index) => storage.getChunkSize(attachment.attachment_id, index))
+      );
+
+      if (storedSizes.some((storedSize, index) => storedSize !== chunkSizes[index])) {
+        throw new Error('Attachment is incomplete');
+      }
+
+      await db.query(
+        "UPDATE attachments SET status = 'complete', completed_at = CURRENT_TIMESTAMP WHERE id = ?",
+        [attachment.id]
+      );
+
+      return {
+        attachmentId: attachment.attachment_id,
+        conversationId: attachment.conversation_id,
+        size: Number(attachment.size),
+        chunkCount: attachment.chunk_count
+      };
+
+    } catch (error) {
+      console.error('❌ Error completing attachment upload:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A finished attachment the user can stream through the API
+   */
+  static async getDownload(attachmentId, userId) {
+    try {
+      const attachment = await AttachmentService.getVisibleAttachment(attachmentId, userId);
+
+      return {
+        attachmentId: attachment.attachment_id,
+        size: Number(attachment.size),
+        chunkCount: attachment.chunk_count
+      };
+
+    } catch (error) {
+      console.error('❌ Error getting attachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Presigned URLs for fetching each chunk straight from storage
+   */
+  static async getDownloadUrls(attachmentId, userId) {
+    try {
+      const attachment = await AttachmentService.getVisibleAttachment(attachmentId, userId);
+      const storage = getStorage();
+
+      const downloadUrls = await Promise.all(
+        Array.from({ length: attachment.chunk_count }, (_, index) => storage.getDownloadUrl(attachment.attachment_id, index))
+      );
+
+      return {
+        attachmentId: attachment.attachment_id,
+        downloadUrls,
+        expiresIn: storage.urlTtl
+      };
+
+    } catch (error) {
+      console.error('❌ Error getting attachment download URLs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * One chunk of a finished attachment, for a signed download URL
+   */
+  static async getChunkStream(attachmentId, index) {
+    const attachment = await AttachmentService.getAttachment(attachmentId);
+
+    if (attachment.status !== 'complete' || index >= attachment.chunk_count) {
+      throw new Error('Attachment not found');
+    }
+
+    return getStorage().getChunkStream(attachment.attachment_id, index);
+  }
+
+  /**
+   * Pipe the chunks into `output` one after another, without buffering the file
+   */
+  static async streamChunks(download, output) {
+    const storage = getStorage();
+
+    for (let index = 0; index < download.chunkCount; index++) {
+      const input = await storage.getChunkStream(download.attachmentId, index);
+
+      await new Promise((resolve, reject) => {
+        // The client went away mid-download
+        const onClose = () => {
+          input.destroy();
+          resolve();
+        };
+
+        output.once('close', onClose);
+        input.on('end', () => {
+          output.off('close', onClose);
+          resolve();
+        });
+        input.on('error', (error) => {
+          output.off('close', onClose);
+          reject(error);
+        });
+        input.pipe(output, { end: false });
+      });
+
+      if (output.destroyed) {
+        return;
+      }
+    }
+
+    output.end();
+  }
+
+  /**
+   * Delete attachments straight away, such as those of expired messages;
+   * any that fail are left for garbage collection to retry
+   */
+  static async deleteAttachments(attachmentIds) {
+    try {
+      const placeholders = attachmentIds.map(() => '?').join(', ');
+      const attachments = await db.query(
+        `SELECT id, attachment_id, chunk_count FROM attachments WHERE attachment_id IN (${placeholders})`,
+        attachmentIds
+      );
+
+      return await AttachmentService.removeAttachments(attachments);
+
+    } catch (error) {
+      console.error('❌ Error deleting attachments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the blobs and then the row of each attachment, returning how many went
+   */
+  static async removeAttachments(attachments) {
+    const storage = getStorage();
+    let removed = 0;
+
+    // Blobs first, so a failed delete leaves the row for the next run to retry
+    for (const attachment of attachments) {
+      try {
+        await storage.deleteAttachment(attachment.attachment_id, attachment.chunk_count);
+        await db.query('DELETE FROM attachments WHERE id = ?', [attachment.id]);
+        removed++;
+      } catch (error) {
+        console.error(`❌ Error deleting attachment ${attachment.attachment_id}:`, error);
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Delete blobs nobody can reach any more: uploads abandoned part way, and
+   * finished attachments that no message points at, whether they were never
+   * sent or their message was deleted for everyone
+   */
+  static async collectGarbage() {
+    try {
+      const attachments = await db.query(`
+        SELECT a.id, a.attachment_id, a.chunk_count
+        FROM attachments a
+        WHERE (a.status = 'uploading' AND a.created_at < DATE_SUB(NOW(), INTERVAL ? HOUR))
+          OR (
+            a.status = 'complete'
+            AND a.completed_at < DATE_SUB(NOW(), INTERVAL ? HOUR)
+            AND NOT EXISTS (SELECT 1 FROM messages m WHERE m.attachment_id = a.attachment_id)
+          )
+        ORDER BY a.id
+        LIMIT ${GC_BATCH_SIZE}
+      `, [GC_GRACE_HOURS, GC_GRACE_HOURS]);
+
+      const collected = await AttachmentService.removeAttachments(attachments);
+
+      return { collected, remaining: attachments.length === GC_BATCH_SIZE };
+
+    } catch (error) {
+      console.error('❌ Error collecting attachment garbage:', error);
+      throw error;
+    }
+  }
+}
+
+module.exports = AttachmentService;
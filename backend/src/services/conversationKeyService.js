@@ -8,69 +8,358 @@ const db = require('../database/connection');
 class ConversationKeyService {
   
   /**
-   * Store encrypted conversation key for a user
+   * Store encrypted conversation key for one of a user's devices
+   * ephemeralPublicKey is set when the key is wrapped to the device's public
+   * key rather than the owner's master key. The epoch must already exist
+   * with the same key ID: new epochs only come from setup and rotation
    */
-  static async storeConversationKey(conversationId, userId, keyId, encryptedAesKey, iv) {
+  static async storeConversationKey(conversationId, userId, deviceId, keyId, encryptedAesKey, iv, ephemeralPublicKey = null, epoch = 1) {
     try {
-      // Check if key already exists for this user/conversation
-      const existing = await db.query(
-        'SELECT id FROM conversation_keys WHERE user_id = ? AND conversation_id = ?',
-        [userId, conversationId]
+      const epochKeys = await db.query(
+        'SELECT key_id FROM conversation_keys WHERE conversation_id = ? AND epoch = ? LIMIT 1',
+        [conversationId, epoch]
       );
 
-      if (existing.length > 0) {
-        // Update existing key
-        await db.query(
-          'UPDATE conversation_keys SET key_id = ?, encrypted_aes_key = ?, iv = ? WHERE user_id = ? AND conversation_id = ?',
-          [keyId, encryptedAesKey, iv, userId, conversationId]
-        );
-      } else {
-        // Insert new key
-        await db.query(
-          'INSERT INTO conversation_keys (key_id, conversation_id, user_id, encrypted_aes_key, iv) VALUES (?, ?, ?, ?, ?)',
-          [keyId, conversationId, userId, encryptedAesKey, iv]
-        );
+      if (epochKeys.length === 0 || epochKeys[0].key_id !== keyId) {
+        throw new Error('Conversation key is out of date');
       }
 
-      console.log(`✅ Conversation key stored for user ${userId}, conversation ${conversationId}`);
+      await db.query(
+        `INSERT INTO conversation_keys (key_id, conversation_id, user_id, device_id, epoch, encrypted_aes_key, iv, ephemeral_public_key)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          ON DUPLICATE KEY UPDATE encrypted_aes_key = VALUES(encrypted_aes_key), iv = VALUES(iv),
+            ephemeral_public_key = VALUES(ephemeral_public_key)`,
+        [keyId, conversationId, userId, deviceId, epoch, encryptedAesKey, iv, ephemeralPublicKey]
+      );
+
+      console.log(`✅ Conversation key stored for device ${deviceId}, conversation ${conversationId}, epoch ${epoch}`);
       return true;
       
     } catch (error) {
       console.error('❌ Error storing conversation key:', error);
+
+      if (error.message === 'Conversation key is out of date') {
+        throw error;
+      }
+
       throw new Error('Failed to store conversation key');
     }
   }
 
   /**
-   * Get encrypted conversation key for a user
+   * Get a device's copy of the current (latest epoch) conversation key
    */
-  static async getConversationKey(conversationId, userId) {
+  static async getConversationKey(conversationId, deviceId) {
     try {
       const keys = await db.query(
-        'SELECT key_id, encrypted_aes_key, iv, created_at FROM conversation_keys WHERE user_id = ? AND conversation_id = ?',
-        [userId, conversationId]
+        `SELECT key_id, epoch, encrypted_aes_key, iv, ephemeral_public_key, created_at
+          FROM conversation_keys WHERE device_id = ? AND conversation_id = ?
+          ORDER BY epoch DESC LIMIT 1`,
+        [deviceId, conversationId]
       );
 
       if (keys.length === 0) {
-        throw new Error('Conversation key not found for user');
+        throw new Error('Conversation key not found for device');
+      }
+
+      return ConversationKeyService.formatConversationKey(keys[0]);
+      
+    } catch (error) {
+      console.error('❌ Error getting conversation key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every epoch of the conversation key a device holds, oldest first
+   */
+  static async getConversationKeyring(conversationId, deviceId) {
+    try {
+      const keys = await db.query(
+        `SELECT key_id, epoch, encrypted_aes_key, iv, ephemeral_public_key, created_at
+          FROM conversation_keys WHERE device_id = ? AND conversation_id = ?
+          ORDER BY epoch`,
+        [deviceId, conversationId]
+      );
+
+      if (keys.length === 0) {
+        throw new Error('Conversation key not found for device');
+      }
+
+      return keys.map(key => ConversationKeyService.formatConversationKey(key));
+      
+    } catch (error) {
+      console.error('❌ Error getting conversation keyring:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copies a device stores under its owner's master key rather than wrapped
+   * to the device key; a password change has to re-wrap them
+   */
+  static async getMasterWrappedKeys(deviceId) {
+    try {
+      const keys = await db.query(
+        `SELECT conversation_id, key_id, epoch, encrypted_aes_key, iv, ephemeral_public_key, created_at
+          FROM conversation_keys WHERE device_id = ? AND ephemeral_public_key IS NULL
+          ORDER BY conversation_id, epoch`,
+        [deviceId]
+      );
+
+      return keys.map(key => ({
+        conversationId: key.conversation_id,
+        ...ConversationKeyService.formatConversationKey(key)
+      }));
+
+    } catch (error) {
+      console.error('❌ Error getting master-wrapped conversation keys:', error);
+      throw new Error('Failed to get conversation keys');
+    }
+  }
+
+  /**
+   * Swap in re-wrapped copies of every key a user stores under their master
+   * key, inside the caller's transaction
+   * The copies must match the rows exactly; one stored since the client
+   * listed them would otherwise stay under the old master key
+   */
+  static async replaceMasterWrappedKeys(connection, userId, conversationKeys) {
+    const [rows] = await connection.execute(
+      `SELECT id, conversation_id, key_id FROM conversation_keys
+        WHERE user_id = ? AND ephemeral_public_key IS NULL FOR UPDATE`,
+      [userId]
+    );
+
+    const rowIds = new Map(rows.map(row => [`${row.conversation_id}:${row.key_id}`, row.id]));
+    const submitted = new Set(conversationKeys.map(key => `${key.conversationId}:${key.keyId}`));
+    const matches = submitted.size === rows.length && conversationKeys.length === rows.length
+      && [...submitted].every(key => rowIds.has(key));
+
+    if (!matches) {
+      throw new Error('Conversation keys have changed');
+    }
+
+    for (const key of conversationKeys) {
+      await connection.execute(
+        'UPDATE conversation_keys SET encrypted_aes_key = ?, iv = ? WHERE id = ?',
+        [key.encryptedAesKey, key.iv, rowIds.get(`${key.conversationId}:${key.keyId}`)]
+      );
+    }
+  }
+
+  static formatConversationKey(key) {
+    return {
+      keyId: key.key_id,
+      epoch: key.epoch,
+      encryptedAesKey: key.encrypted_aes_key,
+      iv: key.iv,
+      ephemeralPublicKey: key.ephemeral_public_key,
+      createdAt: key.created_at
+    };
+  }
+
+  /**
+   * Latest key epoch of a conversation and whether membership changed since
+   * keyId is null until the conversation key has been set up
+   */
+  static async getCurrentKey(conversationId) {
+    try {
+      const rows = await db.query(`
+        SELECT c.key_rotation_needed, ck.key_id, ck.epoch
+        FROM conversations c
+        LEFT JOIN conversation_keys ck ON ck.conversation_id = c.conversation_id
+        WHERE c.conversation_id = ?
+        ORDER BY ck.epoch DESC, ck.id
+        LIMIT 1
+      `, [conversationId]);
+
+      if (rows.length === 0) {
+        throw new Error('Conversation not found');
       }
 
-      const key = keys[0];
       return {
-        keyId: key.key_id,
-        encryptedAesKey: key.encrypted_aes_key,
-        iv: key.iv,
-        createdAt: key.created_at
+        keyId: rows[0].key_id,
+        epoch: rows[0].epoch || 0,
+        rotationNeeded: !!rows[0].key_rotation_needed
       };
       
     } catch (error) {
-      console.error('❌ Error getting conversation key:', error);
+      console.error('❌ Error getting current conversation key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Active devices of the conversation's members, and whether each already
+   * holds the current key epoch
+   * Each comes with its owner's identity key and signature over the device key
+   */
+  static async getConversationDevices(conversationId) {
+    try {
+      const devices = await db.query(`
+        SELECT d.device_id, d.user_id, d.public_key, d.key_signature, u.public_key as identity_key,
+          EXISTS (
+            SELECT 1 FROM conversation_keys ck
+            WHERE ck.device_id = d.device_id AND ck.conversation_id = c.conversation_id
+              AND ck.epoch = (SELECT MAX(epoch) FROM conversation_keys WHERE conversation_id = c.conversation_id)
+          ) as has_current_key
+        FROM conversations c
+        JOIN conversation_participants cp ON cp.conversation_id = c.id
+        JOIN devices d ON d.user_id = cp.user_id AND d.status = 'active'
+        JOIN users u ON u.id = d.user_id
+        WHERE c.conversation_id = ?
+        ORDER BY d.user_id, d.created_at
+      `, [conversationId]);
+
+      return devices.map(device => ({
+        deviceId: device.device_id,
+        userId: device.user_id,
+        publicKey: device.public_key,
+        keySignature: device.key_signature,
+        identityKey: device.identity_key,
+        hasCurrentKey: !!device.has_current_key
+      }));
+      
+    } catch (error) {
+      console.error('❌ Error getting conversation devices:', error);
+      throw new Error('Failed to get conversation devices');
+    }
+  }
+
+  /**
+   * Store a new key epoch, wrapped for the remaining members' devices
+   * Runs in a transaction holding the conversation row, so two members
+   * rotating at once cannot both create the same epoch
+   */
+  static async rotateConversationKey(conversationId, epoch, keyId, conversationKeys) {
+    try {
+      return await db.transaction(async (connection) => {
+        const [conversations] = await connection.execute(
+          'SELECT id FROM conversations WHERE conversation_id = ? FOR UPDATE',
+          [conversationId]
+        );
+
+        if (conversations.length === 0) {
+          throw new Error('Conversation not found');
+        }
+
+        const [[{ currentEpoch }]] = await connection.execute(
+          'SELECT COALESCE(MAX(epoch), 0) as currentEpoch FROM conversation_keys WHERE conversation_id = ?',
+          [conversationId]
+        );
+
+        if (epoch !== currentEpoch + 1) {
+          throw new Error('Key epoch conflict');
+        }
+
+        const [devices] = await connection.execute(`
+          SELECT d.device_id, d.user_id
+          FROM devices d
+          JOIN conversation_participants cp ON cp.user_id = d.user_id
+          WHERE cp.conversation_id = ? AND d.status = 'active'
+        `, [conversations[0].id]);
+
+        const deviceOwners = new Map(devices.map(device => [device.device_id, device.user_id]));
+        const entries = Object.entries(conversationKeys);
+
+        if (entries.some(([deviceId]) => !deviceOwners.has(deviceId))) {
+          throw new Error('Keys can only be wrapped for devices of current members');
+        }
+
+        for (const [deviceId, deviceKey] of entries) {
+          await connection.execute(
+            `INSERT INTO conversation_keys (key_id, conversation_id, user_id, device_id, epoch, encrypted_aes_key, iv, ephemeral_public_key)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [keyId, conversationId, deviceOwners.get(deviceId), deviceId, epoch, deviceKey.encryptedAesKey, deviceKey.iv,
+              deviceKey.ephemeralPublicKey || null]
+          );
+        }
+
+        await connection.execute(
+          'UPDATE conversations SET key_rotation_needed = FALSE WHERE id = ?',
+          [conversations[0].id]
+        );
+
+        console.log(`✅ Conversation ${conversationId} rotated to key epoch ${epoch}`);
+        return {
+          conversationIntId: conversations[0].id,
+          sharedWith: entries.map(([deviceId]) => deviceId)
+        };
+      });
+      
+    } catch (error) {
+      console.error('❌ Error rotating conversation key:', error);
       throw error;
     }
   }
 
   /**
-   * Get all users who have access to a conversation
+   * Store the first key epoch, wrapped for the given participants' devices
+   * Runs in a transaction holding the conversation row, so when two members
+   * set it up at once the second is turned down instead of storing another key
+   */
+  static async setupConversationKey(conversationId, participantUserIds, conversationKeys) {
+    try {
+      return await db.transaction(async (connection) => {
+        const [conversations] = await connection.execute(
+          'SELECT id FROM conversations WHERE conversation_id = ? FOR UPDATE',
+          [conversationId]
+        );
+
+        if (conversations.length === 0) {
+          throw new Error('Conversation not found');
+        }
+
+        const [existingKeys] = await connection.execute(
+          'SELECT 1 FROM conversation_keys WHERE conversation_id = ? LIMIT 1',
+          [conversationId]
+        );
+
+        if (existingKeys.length > 0) {
+          throw new Error('Conversation key already set up');
+        }
+
+        const [devices] = await connection.execute(`
+          SELECT d.device_id, d.user_id
+          FROM devices d
+          JOIN conversation_participants cp ON cp.user_id = d.user_id
+          WHERE cp.conversation_id = ? AND d.status = 'active'
+        `, [conversations[0].id]);
+
+        const sharedWith = [];
+        for (const device of devices) {
+          const deviceKey = conversationKeys[device.device_id];
+          if (!participantUserIds.includes(device.user_id) || !deviceKey) {
+            continue;
+          }
+
+          await connection.execute(
+            `INSERT INTO conversation_keys (key_id, conversation_id, user_id, device_id, epoch, encrypted_aes_key, iv, ephemeral_public_key)
+              VALUES (?, ?, ?, ?, 1, ?, ?, ?)`,
+            [deviceKey.keyId, conversationId, device.user_id, device.device_id, deviceKey.encryptedAesKey, deviceKey.iv,
+              deviceKey.ephemeralPublicKey || null]
+          );
+          sharedWith.push(device.device_id);
+        }
+
+        await connection.execute(
+          'UPDATE conversations SET key_rotation_needed = FALSE WHERE id = ?',
+          [conversations[0].id]
+        );
+
+        console.log(`✅ Conversation key set up for ${sharedWith.length} devices in conversation ${conversationId}`);
+        return sharedWith;
+      });
+
+    } catch (error) {
+      console.error('❌ Error setting up conversation key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all users who hold the current conversation key
    */
   static async getConversationParticipants(conversationId) {
     try {
@@ -82,7 +371,8 @@ class ConversationKeyService {
         FROM conversation_keys ck
         JOIN users u ON ck.user_id = u.id
         WHERE ck.conversation_id = ?
-      `, [conversationId]);
+          AND ck.epoch = (SELECT MAX(epoch) FROM conversation_keys WHERE conversation_id = ?)
+      `, [conversationId, conversationId]);
 
       return participants.map(p => ({
         userId: p.user_id,
@@ -96,6 +386,24 @@ class ConversationKeyService {
     }
   }
 
+  /**
+   * Check if a device holds a copy of a given conversation key
+   */
+  static async hasConversationKey(conversationId, deviceId, keyId) {
+    try {
+      const keys = await db.query(
+        'SELECT id FROM conversation_keys WHERE device_id = ? AND conversation_id = ? AND key_id = ?',
+        [deviceId, conversationId, keyId]
+      );
+
+      return keys.length > 0;
+      
+    } catch (error) {
+      console.error('❌ Error checking conversation key:', error);
+      return false;
+    }
+  }
+
   /**
    * Check if user has access to conversation
    */
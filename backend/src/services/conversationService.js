@@ -1,6 +1,9 @@
 const db = require('../database/connection');
 const { v4: uuidv4 } = require('uuid');
 
+// Groups are capped so key wrapping and fan-out stay cheap
+const MAX_GROUP_PARTICIPANTS = 50;
+
 class ConversationService {
   static async findOrCreateConversation(user1Id, user2Id) {
     // First, check if the second user exists
@@ -13,98 +16,254 @@ class ConversationService {
       throw new Error('Other user not found');
     }
 
-    // Ensure consistent ordering (smaller ID first)
+    // Ensure consistent ordering (smaller ID first) so each pair has one direct conversation
     const [smallerId, largerId] = user1Id < user2Id ? [user1Id, user2Id] : [user2Id, user1Id];
+    const directKey = `${smallerId}:${largerId}`;
 
     // Check if conversation already exists
-    let conversations = await db.query(
-      'SELECT id, conversation_id FROM conversations WHERE user1_id = ? AND user2_id = ?',
-      [smallerId, largerId]
+    const conversations = await db.query(
+      'SELECT id FROM conversations WHERE direct_key = ?',
+      [directKey]
     );
 
     if (conversations.length > 0) {
       return conversations[0].id;
     }
 
-    // Generate a unique conversation ID
-    const conversationId = uuidv4();
+    try {
+      return await db.transaction(async (connection) => {
+        const [result] = await connection.execute(
+          'INSERT INTO conversations (conversation_id, type, created_by, direct_key) VALUES (?, ?, ?, ?)',
+          [uuidv4(), 'direct', user1Id, directKey]
+        );
+
+        await connection.execute(
+          'INSERT INTO conversation_participants (conversation_id, user_id) VALUES (?, ?), (?, ?)',
+          [result.insertId, smallerId, result.insertId, largerId]
+        );
+
+        return result.insertId;
+      });
+    } catch (error) {
+      // The other user created it at the same moment
+      if (error.code === 'ER_DUP_ENTRY') {
+        const existing = await db.query('SELECT id FROM conversations WHERE direct_key = ?', [directKey]);
+        return existing[0].id;
+      }
+      throw error;
+    }
+  }
+
+  static async createGroupConversation(creatorId, name, participantIds) {
+    const memberIds = [...new Set([creatorId, ...participantIds])];
+
+    if (memberIds.length > MAX_GROUP_PARTICIPANTS) {
+      throw new Error('Group is full');
+    }
+
+    await ConversationService.verifyUsersExist(memberIds);
+
+    return db.transaction(async (connection) => {
+      const [result] = await connection.execute(
+        'INSERT INTO conversations (conversation_id, type, name, created_by) VALUES (?, ?, ?, ?)',
+        [uuidv4(), 'group', name, creatorId]
+      );
+
+      const placeholders = memberIds.map(() => '(?, ?)').join(', ');
+      await connection.execute(
+        `INSERT INTO conversation_participants (conversation_id, user_id) VALUES ${placeholders}`,
+        memberIds.flatMap(memberId => [result.insertId, memberId])
+      );
 
-    // Create new conversation with consistent ordering
-    const result = await db.query(
-      'INSERT INTO conversations (conversation_id, user1_id, user2_id) VALUES (?, ?, ?)',
-      [conversationId, smallerId, largerId]
+      return result.insertId;
+    });
+  }
+
+  static async renameConversation(conversationId, userId, name) {
+    await ConversationService.getGroupForMember(conversationId, userId);
+
+    await db.query(
+      'UPDATE conversations SET name = ? WHERE id = ?',
+      [name, conversationId]
     );
+  }
+
+  static async addParticipants(conversationId, userId, participantIds) {
+    await ConversationService.getGroupForMember(conversationId, userId);
+    await ConversationService.verifyUsersExist(participantIds);
+
+    return db.transaction(async (connection) => {
+      const [existing] = await connection.execute(
+        'SELECT user_id FROM conversation_participants WHERE conversation_id = ? FOR UPDATE',
+        [conversationId]
+      );
+
+      const existingIds = existing.map(row => row.user_id);
+      const newIds = participantIds.filter(participantId => !existingIds.includes(participantId));
+
+      if (existingIds.length + newIds.length > MAX_GROUP_PARTICIPANTS) {
+        throw new Error('Group is full');
+      }
+
+      if (newIds.length > 0) {
+        const placeholders = newIds.map(() => '(?, ?)').join(', ');
+        await connection.execute(
+          `INSERT INTO conversation_participants (conversation_id, user_id) VALUES ${placeholders}`,
+          newIds.flatMap(participantId => [conversationId, participantId])
+        );
+
+        // New members must not read history, so the next sender starts a new key epoch
+        await connection.execute(
+          'UPDATE conversations SET key_rotation_needed = TRUE WHERE id = ?',
+          [conversationId]
+        );
+      }
 
-    return result.insertId;
+      return newIds;
+    });
+  }
+
+  static async removeParticipant(conversationId, userId, participantId) {
+    const conversation = await ConversationService.getGroupForMember(conversationId, userId);
+
+    // Anyone may leave; only the creator may remove someone else
+    if (participantId !== userId && conversation.created_by !== userId) {
+      throw new Error('Only the group creator can remove other members');
+    }
+
+    await db.transaction(async (connection) => {
+      const [result] = await connection.execute(
+        'DELETE FROM conversation_participants WHERE conversation_id = ? AND user_id = ?',
+        [conversationId, participantId]
+      );
+
+      if (result.affectedRows === 0) {
+        throw new Error('User is not a participant');
+      }
+
+      // Removed members lose their copy of the conversation key
+      await connection.execute(
+        'DELETE FROM conversation_keys WHERE conversation_id = ? AND user_id = ?',
+        [conversation.conversation_id, participantId]
+      );
+
+      // They may still hold the current key, so it must not be used again
+      await connection.execute(
+        'UPDATE conversations SET key_rotation_needed = TRUE WHERE id = ?',
+        [conversationId]
+      );
+    });
+  }
+
+  /**
+   * Turn disappearing messages on (a timer in seconds, started when a message
+   * is sent or first read by someone else) or off with null. Any member may
+   * change it; messages already sent keep the timer they were sent with
+   */
+  static async setDisappearingTimer(conversationId, userId, seconds, start = 'sent') {
+    const isParticipant = await ConversationService.verifyUserInConversation(conversationId, userId);
+    if (!isParticipant) {
+      throw new Error('Conversation not found or access denied');
+    }
+
+    await db.query(
+      'UPDATE conversations SET disappearing_seconds = ?, disappearing_start = ? WHERE id = ?',
+      [seconds, start, conversationId]
+    );
   }
 
   static async getUserConversations(userId) {
     const conversations = await db.query(`
-      SELECT 
+      SELECT
         c.id,
+        c.conversation_id,
+        c.type,
+        c.name,
+        c.created_by,
+        c.key_rotation_needed,
+        c.disappearing_seconds,
+        c.disappearing_start,
         c.created_at,
         c.updated_at,
-        CASE 
-          WHEN c.user1_id = ? THEN u2.id
-          ELSE u1.id
-        END as other_user_id,
-        CASE 
-          WHEN c.user1_id = ? THEN u2.username
-          ELSE u1.username
-        END as other_username,
-        CASE 
-          WHEN c.user1_id = ? THEN u2.email
-          ELSE u1.email
-        END as other_email,
-        CASE 
-          WHEN c.user1_id = ? THEN u2.public_key
-          ELSE u1.public_key
-        END as other_public_key,
+        m.id as last_message_id,
         m.encrypted_content as last_message_content,
         m.iv as last_message_iv,
+        m.envelope_version as last_message_envelope_version,
+        m.algorithm as last_message_algorithm,
+        m.key_id as last_message_key_id,
+        m.auth_tag as last_message_auth_tag,
         m.created_at as last_message_time,
-        m.sender_id as last_message_sender_id
-      FROM conversations c
-      JOIN users u1 ON c.user1_id = u1.id
-      JOIN users u2 ON c.user2_id = u2.id
+        m.sender_id as last_message_sender_id,
+        m.message_type as last_message_type
+      FROM conversation_participants cp
+      JOIN conversations c ON cp.conversation_id = c.id
       LEFT JOIN (
-        SELECT 
+        SELECT
+          id,
           conversation_id,
           encrypted_content,
           iv,
+          envelope_version,
+          algorithm,
+          key_id,
+          auth_tag,
           created_at,
           sender_id,
           ROW_NUMBER() OVER (PARTITION BY conversation_id ORDER BY created_at DESC) as rn
         FROM messages
-      ) m ON c.id = m.conversation_id AND m.rn = 1
-      WHERE c.user1_id = ? OR c.user2_id = ?
+        WHERE deleted_at IS NULL
+          AND (expires_at IS NULL OR expires_at > NOW())
+          AND id NOT IN (SELECT message_id FROM hidden_messages WHERE user_id = ?)
+      ) m ON c.conversation_id = m.conversation_id AND m.rn = 1
+      WHERE cp.user_id = ?
       ORDER BY COALESCE(m.created_at, c.created_at) DESC
-    `, [userId, userId, userId, userId, userId, userId]);
+    `, [userId, userId]);
+
+    const conversationIds = conversations.map(conv => conv.id);
+    const [participants, readCursors, unreadCounts] = await Promise.all([
+      ConversationService.getParticipantsByConversation(conversationIds),
+      ConversationService.getReadCursors(conversationIds),
+      ConversationService.getUnreadCounts(userId)
+    ]);
 
     return conversations.map(conv => ({
-      id: conv.id,
-      otherUser: {
-        id: conv.other_user_id,
-        username: conv.other_username,
-        email: conv.other_email,
-        publicKey: conv.other_public_key
-      },
-      lastMessage: conv.last_message_content ? {
-        content: conv.last_message_content,
-        iv: conv.last_message_iv,
+      ...ConversationService.formatConversation(conv, participants[conv.id] || [], readCursors[conv.id] || {}),
+      unreadCount: unreadCounts[conv.id] || 0,
+      lastMessage: conv.last_message_id ? {
+        id: conv.last_message_id,
+        envelope: {
+          v: conv.last_message_envelope_version,
+          alg: conv.last_message_algorithm,
+          keyId: conv.last_message_key_id,
+          iv: conv.last_message_iv,
+          ct: conv.last_message_content,
+          tag: conv.last_message_auth_tag
+        },
         senderId: conv.last_message_sender_id,
+        messageType: conv.last_message_type,
         timestamp: conv.last_message_time
-      } : null,
-      createdAt: conv.created_at,
-      updatedAt: conv.updated_at
+      } : null
     }));
   }
 
   static async getConversationDetails(conversationId, userId) {
     // Verify user is participant in conversation
+    const isParticipant = await ConversationService.verifyUserInConversation(conversationId, userId);
+    if (!isParticipant) {
+      throw new Error('Conversation not found or access denied');
+    }
+
+    return ConversationService.getConversation(conversationId);
+  }
+
+  /**
+   * Conversation with its members, without an access check
+   */
+  static async getConversation(conversationId) {
     const conversations = await db.query(
-      'SELECT id, user1_id, user2_id FROM conversations WHERE id = ? AND (user1_id = ? OR user2_id = ?)',
-      [conversationId, userId, userId]
+      `SELECT id, conversation_id, type, name, created_by, key_rotation_needed, disappearing_seconds, disappearing_start,
+        created_at, updated_at FROM conversations WHERE id = ?`,
+      [conversationId]
     );
 
     if (conversations.length === 0) {
@@ -112,55 +271,182 @@ class ConversationService {
     }
 
     const conversation = conversations[0];
-    const otherUserId = conversation.user1_id === userId ? conversation.user2_id : conversation.user1_id;
+    const [participants, readCursors] = await Promise.all([
+      ConversationService.getParticipantsByConversation([conversation.id]),
+      ConversationService.getReadCursors([conversation.id])
+    ]);
 
-    // Get other user details
-    const otherUsers = await db.query(
-      'SELECT id, username, email, public_key FROM users WHERE id = ?',
-      [otherUserId]
+    return ConversationService.formatConversation(
+      conversation,
+      participants[conversation.id] || [],
+      readCursors[conversation.id] || {}
     );
-
-    if (otherUsers.length === 0) {
-      throw new Error('Other user not found');
-    }
-
-    return {
-      id: conversation.id,
-      otherUser: {
-        id: otherUsers[0].id,
-        username: otherUsers[0].username,
-        email: otherUsers[0].email,
-        publicKey: otherUsers[0].public_key
-      }
-    };
   }
 
   static async verifyUserInConversation(conversationId, userId) {
-    // Check if conversationId is a UUID (string) or integer ID
-    let query;
-    if (typeof conversationId === 'string' && conversationId.includes('-')) {
-      // It's a UUID, query by conversation_id field
-      query = 'SELECT id FROM conversations WHERE conversation_id = ? AND (user1_id = ? OR user2_id = ?)';
-    } else {
-      // It's an integer ID, query by id field
-      query = 'SELECT id FROM conversations WHERE id = ? AND (user1_id = ? OR user2_id = ?)';
-    }
-    
-    const conversations = await db.query(query, [conversationId, userId, userId]);
+    const column = ConversationService.getIdColumn(conversationId);
+
+    const conversations = await db.query(`
+      SELECT c.id
+      FROM conversations c
+      JOIN conversation_participants cp ON cp.conversation_id = c.id
+      WHERE c.${column} = ? AND cp.user_id = ?
+    `, [conversationId, userId]);
+
     return conversations.length > 0;
   }
 
   static async getConversationParticipants(conversationId) {
-    const conversations = await db.query(
-      'SELECT user1_id, user2_id FROM conversations WHERE id = ?',
-      [conversationId]
-    );
+    const column = ConversationService.getIdColumn(conversationId);
+
+    const participants = await db.query(`
+      SELECT cp.user_id
+      FROM conversation_participants cp
+      JOIN conversations c ON cp.conversation_id = c.id
+      WHERE c.${column} = ?
+    `, [conversationId]);
+
+    return participants.map(participant => participant.user_id);
+  }
+
+  /**
+   * Conversations are addressed by UUID (a string with dashes) or integer ID
+   */
+  static getIdColumn(conversationId) {
+    return typeof conversationId === 'string' && conversationId.includes('-')
+      ? 'conversation_id'
+      : 'id';
+  }
+
+  /**
+   * Load a group the user belongs to, for changes to its name or members
+   */
+  static async getGroupForMember(conversationId, userId) {
+    const conversations = await db.query(`
+      SELECT c.id, c.conversation_id, c.type, c.created_by
+      FROM conversations c
+      JOIN conversation_participants cp ON cp.conversation_id = c.id
+      WHERE c.id = ? AND cp.user_id = ?
+    `, [conversationId, userId]);
 
     if (conversations.length === 0) {
-      return [];
+      throw new Error('Conversation not found or access denied');
     }
 
-    return [conversations[0].user1_id, conversations[0].user2_id];
+    if (conversations[0].type !== 'group') {
+      throw new Error('Only group conversations can be changed');
+    }
+
+    return conversations[0];
+  }
+
+  static async verifyUsersExist(userIds) {
+    const placeholders = userIds.map(() => '?').join(', ');
+    const users = await db.query(
+      `SELECT id FROM users WHERE id IN (${placeholders})`,
+      userIds
+    );
+
+    if (users.length !== new Set(userIds).size) {
+      throw new Error('One or more users not found');
+    }
+  }
+
+  /**
+   * Members of each conversation, in the order they joined
+   */
+  static async getParticipantsByConversation(conversationIds) {
+    if (conversationIds.length === 0) {
+      return {};
+    }
+
+    const placeholders = conversationIds.map(() => '?').join(', ');
+    const rows = await db.query(`
+      SELECT cp.conversation_id, u.id, u.username, u.email, u.public_key
+      FROM conversation_participants cp
+      JOIN users u ON cp.user_id = u.id
+      WHERE cp.conversation_id IN (${placeholders})
+      ORDER BY cp.joined_at, cp.id
+    `, conversationIds);
+
+    return rows.reduce((participants, row) => {
+      (participants[row.conversation_id] = participants[row.conversation_id] || []).push({
+        id: row.id,
+        username: row.username,
+        email: row.email,
+        publicKey: row.public_key
+      });
+      return participants;
+    }, {});
+  }
+
+  /**
+   * Last-read message of each member, per conversation
+   */
+  static async getReadCursors(conversationIds) {
+    if (conversationIds.length === 0) {
+      return {};
+    }
+
+    const placeholders = conversationIds.map(() => '?').join(', ');
+    const rows = await db.query(`
+      SELECT rc.conversation_id, rc.user_id, rc.last_read_message_id
+      FROM read_cursors rc
+      JOIN conversation_participants cp
+        ON cp.conversation_id = rc.conversation_id AND cp.user_id = rc.user_id
+      WHERE rc.conversation_id IN (${placeholders})
+    `, conversationIds);
+
+    return rows.reduce((readCursors, row) => {
+      (readCursors[row.conversation_id] = readCursors[row.conversation_id] || {})[row.user_id] = row.last_read_message_id;
+      return readCursors;
+    }, {});
+  }
+
+  /**
+   * Messages from others after the user's read cursor, per conversation
+   */
+  static async getUnreadCounts(userId) {
+    const rows = await db.query(`
+      SELECT cp.conversation_id, COUNT(m.id) as unread_count
+      FROM conversation_participants cp
+      JOIN conversations c ON cp.conversation_id = c.id
+      JOIN messages m ON m.conversation_id = c.conversation_id
+      LEFT JOIN read_cursors rc
+        ON rc.conversation_id = cp.conversation_id AND rc.user_id = cp.user_id
+      WHERE cp.user_id = ?
+        AND m.sender_id <> cp.user_id
+        AND m.id > COALESCE(rc.last_read_message_id, 0)
+        AND m.deleted_at IS NULL
+        AND (m.expires_at IS NULL OR m.expires_at > NOW())
+        AND NOT EXISTS (
+          SELECT 1 FROM hidden_messages hm WHERE hm.message_id = m.id AND hm.user_id = cp.user_id
+        )
+      GROUP BY cp.conversation_id
+    `, [userId]);
+
+    return rows.reduce((unreadCounts, row) => {
+      unreadCounts[row.conversation_id] = row.unread_count;
+      return unreadCounts;
+    }, {});
+  }
+
+  static formatConversation(conversation, participants, readCursors = {}) {
+    return {
+      id: conversation.id,
+      conversationUuid: conversation.conversation_id,
+      type: conversation.type,
+      name: conversation.name,
+      createdBy: conversation.created_by,
+      keyRotationNeeded: !!conversation.key_rotation_needed,
+      disappearingMessages: conversation.disappearing_seconds
+        ? { seconds: conversation.disappearing_seconds, start: conversation.disappearing_start }
+        : null,
+      participants,
+      readCursors,
+      createdAt: conversation.created_at,
+      updatedAt: conversation.updated_at
+    };
   }
 }
 
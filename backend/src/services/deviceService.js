@@ -0,0 +1,367 @@
+/**
+ * Device Service
+ * Tracks the browsers each user signs in from. Every device has its own key
+ * pair and proves it holds the private key before it is given a session;
+ * conversation keys are wrapped per device, so a new device can read nothing
+ * until one of the user's active devices approves it and hands its keys on
+ */
+
+const crypto = require('crypto');
+const db = require('../database/connection');
+
+// How far a device's signed timestamp may be from the server clock
+const SIGNATURE_WINDOW_MS = 5 * 60 * 1000;
+
+class DeviceService {
+
+  /**
+   * The message a device signs to open a session
+   */
+  static getSessionMessage(userId, deviceId, timestamp) {
+    return `encrypted-chat-device:${userId}:${deviceId}:${timestamp}`;
+  }
+
+  /**
+   * The message a user's identity key signs to vouch for one of their devices
+   * Clients check it before wrapping keys for a device, so a device the
+   * server made up is refused by anyone who verified the user's safety number
+   */
+  static getKeySignatureMessage(userId, deviceId, publicKey) {
+    return `encrypted-chat-device-key:${userId}:${deviceId}:${publicKey}`;
+  }
+
+  /**
+   * Check an ECDSA P-256 signature made with Web Crypto (raw r||s encoding)
+   */
+  static verifySignature(publicKey, message, signature) {
+    try {
+      return crypto.verify(
+        'sha256',
+        Buffer.from(message),
+        {
+          key: Buffer.from(publicKey, 'base64'),
+          format: 'der',
+          type: 'spki',
+          dsaEncoding: 'ieee-p1363'
+        },
+        Buffer.from(signature, 'base64')
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Register a device or resume its session, after checking its signature
+   * A user's first device is active straight away; later ones wait for approval.
+   * Runs holding the user row so two first devices cannot both become active
+   */
+  static async openSession(userId, { deviceId, name, publicKey, timestamp, signature, keySignature }) {
+    try {
+      if (Math.abs(Date.now() - timestamp) > SIGNATURE_WINDOW_MS) {
+        throw new Error('Device signature expired');
+      }
+
+      const message = DeviceService.getSessionMessage(userId, deviceId, timestamp);
+
+      return await db.transaction(async (connection) => {
+        await connection.execute('SELECT id FROM users WHERE id = ? FOR UPDATE', [userId]);
+
+        const [existing] = await connection.execute(
+          'SELECT * FROM devices WHERE device_id = ?',
+          [deviceId]
+        );
+
+        if (existing.length > 0) {
+          const device = existing[0];
+
+          if (device.user_id !== userId || device.public_key !== publicKey) {
+            throw new Error('Invalid device signature');
+          }
+          if (!DeviceService.verifySignature(device.public_key, message, signature)) {
+            throw new Error('Invalid device signature');
+          }
+          if (device.status === 'revoked') {
+            throw new Error('Device has been revoked');
+          }
+
+          // Re-signed in case the user's identity key changed
+          await connection.execute(
+            'UPDATE devices SET name = ?, key_signature = ?, last_seen_at = CURRENT_TIMESTAMP WHERE id = ?',
+            [name, keySignature, device.id]
+          );
+
+          return {
+            device: DeviceService.formatDevice({ ...device, name, key_signature: keySignature }),
+            created: false
+          };
+        }
+
+        if (!DeviceService.verifySignature(publicKey, message, signature)) {
+          throw new Error('Invalid device signature');
+        }
+
+        const [[{ activeCount }]] = await connection.execute(
+          `SELECT COUNT(*) as activeCount FROM devices WHERE user_id = ? AND status = 'active'`,
+          [userId]
+        );
+        const status = activeCount > 0 ? 'pending' : 'active';
+
+        await connection.execute(
+          'INSERT INTO devices (device_id, user_id, name, public_key, key_signature, status) VALUES (?, ?, ?, ?, ?, ?)',
+          [deviceId, userId, name, publicKey, keySignature, status]
+        );
+
+        const [created] = await connection.execute('SELECT * FROM devices WHERE device_id = ?', [deviceId]);
+
+        console.log(`✅ Device ${deviceId} registered for user ${userId} (${status})`);
+        return { device: DeviceService.formatDevice(created[0]), created: true };
+      });
+
+    } catch (error) {
+      console.error('❌ Error opening device session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one of a user's devices; revoked devices are still returned
+   */
+  static async getDevice(userId, deviceId) {
+    try {
+      const devices = await db.query(
+        'SELECT * FROM devices WHERE device_id = ? AND user_id = ?',
+        [deviceId, userId]
+      );
+
+      return devices.length > 0 ? DeviceService.formatDevice(devices[0]) : null;
+
+    } catch (error) {
+      console.error('❌ Error getting device:', error);
+      throw new Error('Failed to get device');
+    }
+  }
+
+  /**
+   * A user's pending and active devices, oldest first
+   */
+  static async getUserDevices(userId) {
+    try {
+      const devices = await db.query(
+        `SELECT * FROM devices WHERE user_id = ? AND status != 'revoked' ORDER BY created_at`,
+        [userId]
+      );
+
+      return devices.map(device => DeviceService.formatDevice(device));
+
+    } catch (error) {
+      console.error('❌ Error getting user devices:', error);
+      throw new Error('Failed to get devices');
+    }
+  }
+
+  /**
+   * Whether each of the given users has exactly one active device
+   * Ratchet messages can only be opened by a single device on either side
+   */
+  static async haveSingleDevices(userIds) {
+    try {
+      const placeholders = userIds.map(() => '?').join(',');
+      const counts = await db.query(`
+        SELECT user_id, COUNT(*) as count
+        FROM devices
+        WHERE user_id IN (${placeholders}) AND status = 'active'
+        GROUP BY user_id
+      `, userIds);
+
+      return userIds.every(userId => counts.some(row => row.user_id === userId && Number(row.count) === 1));
+
+    } catch (error) {
+      console.error('❌ Error counting active devices:', error);
+      throw new Error('Failed to get devices');
+    }
+  }
+
+  /**
+   * Activate a pending device with copies of the approver's conversation keys
+   * Each key must be one the approving device holds itself, and keeps that
+   * copy's epoch
+   */
+  static async approveDevice(userId, approverDeviceId, deviceId, conversationKeys) {
+    try {
+      return await db.transaction(async (connection) => {
+        const [devices] = await connection.execute(
+          'SELECT * FROM devices WHERE device_id = ? AND user_id = ? FOR UPDATE',
+          [deviceId, userId]
+        );
+
+        if (devices.length === 0 || devices[0].status === 'revoked') {
+          throw new Error('Device not found');
+        }
+        if (devices[0].status !== 'pending') {
+          throw new Error('Device is not awaiting approval');
+        }
+
+        for (const key of conversationKeys) {
+          const [approverKeys] = await connection.execute(
+            'SELECT epoch FROM conversation_keys WHERE device_id = ? AND conversation_id = ? AND key_id = ?',
+            [approverDeviceId, key.conversationId, key.keyId]
+          );
+
+          if (approverKeys.length === 0) {
+            throw new Error('Only keys this device holds can be shared');
+          }
+
+          await connection.execute(
+            `INSERT IGNORE INTO conversation_keys
+              (key_id, conversation_id, user_id, device_id, epoch, encrypted_aes_key, iv, ephemeral_public_key)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [key.keyId, key.conversationId, userId, deviceId, approverKeys[0].epoch, key.encryptedAesKey, key.iv,
+              key.ephemeralPublicKey]
+          );
+        }
+
+        await connection.execute(
+          `UPDATE devices SET status = 'active', approved_by = ? WHERE device_id = ?`,
+          [approverDeviceId, deviceId]
+        );
+
+        console.log(`✅ Device ${deviceId} approved by ${approverDeviceId} with ${conversationKeys.length} keys`);
+        return DeviceService.formatDevice({ ...devices[0], status: 'active', approved_by: approverDeviceId });
+      });
+
+    } catch (error) {
+      console.error('❌ Error approving device:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a device, or turn down one awaiting approval
+   * Its copies of conversation keys are deleted and every conversation of the
+   * user is flagged for a new key epoch, so it cannot read what is sent next
+   */
+  static async revokeDevice(userId, deviceId) {
+    try {
+      return await db.transaction(async (connection) => {
+        const [devices] = await connection.execute(
+          'SELECT * FROM devices WHERE device_id = ? AND user_id = ? FOR UPDATE',
+          [deviceId, userId]
+        );
+
+        if (devices.length === 0 || devices[0].status === 'revoked') {
+          throw new Error('Device not found');
+        }
+
+        await connection.execute(
+          `UPDATE devices SET status = 'revoked', revoked_at = CURRENT_TIMESTAMP WHERE device_id = ?`,
+          [deviceId]
+        );
+        await connection.execute('DELETE FROM conversation_keys WHERE device_id = ?', [deviceId]);
+        await connection.execute('DELETE FROM signed_prekeys WHERE device_id = ?', [deviceId]);
+        await connection.execute('DELETE FROM one_time_prekeys WHERE device_id = ?', [deviceId]);
+
+        if (devices[0].status === 'active') {
+          await connection.execute(`
+            UPDATE conversations c
+            JOIN conversation_participants cp ON cp.conversation_id = c.id
+            SET c.key_rotation_needed = TRUE
+            WHERE cp.user_id = ?
+          `, [userId]);
+        }
+
+        console.log(`✅ Device ${deviceId} of user ${userId} revoked`);
+        return DeviceService.formatDevice({ ...devices[0], status: 'revoked' });
+      });
+
+    } catch (error) {
+      console.error('❌ Error revoking device:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke all of a user's devices but one, or all of them when keepDeviceId
+   * is null, inside the caller's transaction
+   * Used when a password change or account recovery leaves the devices' keys
+   * sealed under the old master key. Returns the IDs of the revoked devices
+   */
+  static async revokeOtherDevices(connection, userId, keepDeviceId) {
+    const [devices] = await connection.execute(
+      `SELECT device_id, status FROM devices
+        WHERE user_id = ? AND status != 'revoked'${keepDeviceId ? ' AND device_id != ?' : ''} FOR UPDATE`,
+      keepDeviceId ? [userId, keepDeviceId] : [userId]
+    );
+
+    if (devices.length === 0) {
+      return [];
+    }
+
+    const deviceIds = devices.map(device => device.device_id);
+    const placeholders = deviceIds.map(() => '?').join(',');
+
+    await connection.execute(
+      `UPDATE devices SET status = 'revoked', revoked_at = CURRENT_TIMESTAMP WHERE device_id IN (${placeholders})`,
+      deviceIds
+    );
+    await connection.execute(`DELETE FROM conversation_keys WHERE device_id IN (${placeholders})`, deviceIds);
+    await connection.execute(`DELETE FROM signed_prekeys WHERE device_id IN (${placeholders})`, deviceIds);
+    await connection.execute(`DELETE FROM one_time_prekeys WHERE device_id IN (${placeholders})`, deviceIds);
+
+    if (devices.some(device => device.status === 'active')) {
+      await connection.execute(`
+        UPDATE conversations c
+        JOIN conversation_participants cp ON cp.conversation_id = c.id
+        SET c.key_rotation_needed = TRUE
+        WHERE cp.user_id = ?
+      `, [userId]);
+    }
+
+    console.log(`✅ Revoked ${deviceIds.length} devices of user ${userId}`);
+    return deviceIds;
+  }
+
+  /**
+   * Register the device recovering an account as its only active device,
+   * inside the recovery transaction, after checking its signature like
+   * openSession does
+   */
+  static async addRecoveryDevice(connection, userId, { deviceId, name, publicKey, timestamp, signature, keySignature }) {
+    if (Math.abs(Date.now() - timestamp) > SIGNATURE_WINDOW_MS) {
+      throw new Error('Device signature expired');
+    }
+    if (!DeviceService.verifySignature(publicKey, DeviceService.getSessionMessage(userId, deviceId, timestamp), signature)) {
+      throw new Error('Invalid device signature');
+    }
+
+    const [existing] = await connection.execute('SELECT id FROM devices WHERE device_id = ?', [deviceId]);
+    if (existing.length > 0) {
+      throw new Error('Invalid device signature');
+    }
+
+    await connection.execute(
+      `INSERT INTO devices (device_id, user_id, name, public_key, key_signature, status) VALUES (?, ?, ?, ?, ?, 'active')`,
+      [deviceId, userId, name.trim(), publicKey, keySignature]
+    );
+
+    const [created] = await connection.execute('SELECT * FROM devices WHERE device_id = ?', [deviceId]);
+
+    console.log(`✅ Device ${deviceId} registered for user ${userId} on account recovery`);
+    return DeviceService.formatDevice(created[0]);
+  }
+
+  static formatDevice(device) {
+    return {
+      deviceId: device.device_id,
+      name: device.name,
+      publicKey: device.public_key,
+      keySignature: device.key_signature,
+      status: device.status,
+      approvedBy: device.approved_by,
+      createdAt: device.created_at,
+      lastSeenAt: device.last_seen_at
+    };
+  }
+}
+
+module.exports = DeviceService;
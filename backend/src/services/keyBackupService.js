@@ -0,0 +1,278 @@
+/**
+ * Key Backup Service
+ * Each user may keep one encrypted backup of their identity key and every
+ * conversation key they hold, for recovering the account after a forgotten
+ * password. Everything is sealed client-side under a random backup key,
+ * which is stored wrapped under the user's recovery code and master key.
+ * The server only keeps a hash of an authentication value derived from the
+ * code, so it can hand the backup out without being able to open it
+ */
+
+const db = require('../database/connection');
+const AuthUtils = require('../utils/auth');
+const DeviceService = require('./deviceService');
+
+class KeyBackupService {
+
+  /**
+   * Store a new backup for a user inside the caller's transaction, e.g. at
+   * registration
+   */
+  static async createBackup(connection, userId, backup) {
+    const recoveryAuthHash = await AuthUtils.hashPassword(backup.recoveryAuthKey);
+
+    await connection.execute(
+      `INSERT INTO key_backups
+        (user_id, recovery_auth_hash, recovery_wrapped_key, master_wrapped_key, encrypted_identity_key)
+        VALUES (?, ?, ?, ?, ?)`,
+      [userId, recoveryAuthHash, backup.recoveryWrappedKey, backup.masterWrappedKey, backup.encryptedIdentityKey]
+    );
+  }
+
+  /**
+   * Get a user's backup, or null if they have not set one up
+   */
+  static async getBackup(userId) {
+    try {
+      const backups = await db.query('SELECT * FROM key_backups WHERE user_id = ?', [userId]);
+
+      return backups.length > 0 ? KeyBackupService.formatBackup(backups[0]) : null;
+
+    } catch (error) {
+      console.error('❌ Error getting key backup:', error);
+      throw new Error('Failed to get key backup');
+    }
+  }
+
+  /**
+   * Set up a backup under a new recovery code, replacing any earlier one
+   * The keyring is replaced too and its version moves on, so a keyring update
+   * made against the old backup is turned down
+   */
+  static async saveBackup(userId, backup) {
+    try {
+      const recoveryAuthHash = await AuthUtils.hashPassword(backup.recoveryAuthKey);
+
+      await db.query(
+        `INSERT INTO key_backups
+          (user_id, recovery_auth_hash, recovery_wrapped_key, master_wrapped_key, encrypted_identity_key, encrypted_keyring)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON DUPLICATE KEY UPDATE recovery_auth_hash = VALUES(recovery_auth_hash),
+            recovery_wrapped_key = VALUES(recovery_wrapped_key), master_wrapped_key = VALUES(master_wrapped_key),
+            encrypted_identity_key = VALUES(encrypted_identity_key), encrypted_keyring = VALUES(encrypted_keyring),
+            keyring_version = keyring_version + 1`,
+        [userId, recoveryAuthHash, backup.recoveryWrappedKey, backup.masterWrappedKey, backup.encryptedIdentityKey,
+          backup.encryptedKeyring ?? null]
+      );
+
+      console.log(`✅ Key backup saved for user ${userId}`);
+      return await KeyBackupService.getBackup(userId);
+
+    } catch (error) {
+      console.error('❌ Error saving key backup:', error);
+      throw new Error('Failed to save key backup');
+    }
+  }
+
+  /**
+   * Replace the encrypted keyring if it is still at the version the client
+   * read; otherwise the client merges with the newer one and tries again.
+   * Returns the new version
+   */
+  static async updateKeyring(userId, encryptedKeyring, version) {
+    try {
+      const result = await db.query(
+        `UPDATE key_backups SET encrypted_keyring = ?, keyring_version = keyring_version + 1
+          WHERE user_id = ? AND keyring_version = ?`,
+        [encryptedKeyring, userId, version]
+      );
+
+      if (result.affectedRows === 0) {
+        const backups = await db.query('SELECT user_id FROM key_backups WHERE user_id = ?', [userId]);
+        throw new Error(backups.length > 0 ? 'Keyring version is out of date' : 'Key backup not found');
+      }
+
+      return version + 1;
+
+    } catch (error) {
+      console.error('❌ Error updating backed up keyring:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Swap in the backup key wrapped under a new master key, inside the
+   * caller's password change transaction
+   * A backup set up since the client read it would be left under the old
+   * master key, so it must be re-wrapped if one exists
+   */
+  static async replaceMasterWrappedKey(connection, userId, masterWrappedKey) {
+    const [backups] = await connection.execute(
+      'SELECT user_id FROM key_backups WHERE user_id = ? FOR UPDATE',
+      [userId]
+    );
+
+    if (backups.length === 0) {
+      return;
+    }
+    if (!masterWrappedKey) {
+      throw new Error('Key backup has changed');
+    }
+
+    await connection.execute(
+      'UPDATE key_backups SET master_wrapped_key = ? WHERE user_id = ?',
+      [masterWrappedKey, userId]
+    );
+  }
+
+  /**
+   * Hand out a user's backup to someone holding their recovery code
+   * A missing user, missing backup and wrong code all fail alike
+   */
+  static async getRecoveryBackup(username, recoveryAuthKey) {
+    try {
+      const backups = await db.query(
+        `SELECT kb.*, u.public_key FROM key_backups kb
+          JOIN users u ON u.id = kb.user_id
+          WHERE u.username = ?`,
+        [username]
+      );
+
+      if (backups.length === 0 || !await AuthUtils.verifyPassword(recoveryAuthKey, backups[0].recovery_auth_hash)) {
+        throw new Error('Invalid recovery code');
+      }
+
+      return {
+        ...KeyBackupService.formatBackup(backups[0]),
+        userId: backups[0].user_id,
+        publicKey: backups[0].public_key
+      };
+
+    } catch (error) {
+      console.error('❌ Error getting key backup for recovery:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set a new password with the identity key and backup key re-wrapped under
+   * the new master key
+   * Every device is revoked, since their keys stay sealed under the old
+   * master key, and the token version moves on so no earlier token works.
+   * The recovering browser's device takes their place as the only active one,
+   * so a session opened before the recovery cannot claim that slot.
+   * Returns the user ID, the IDs of the revoked devices, the new device and
+   * the new token version
+   */
+  static async completeRecovery(username, recoveryData) {
+    const {
+      recoveryAuthKey,
+      newPassword,
+      masterKeySalt,
+      encryptedPrivateKey,
+      privateKeyIv,
+      masterWrappedKey,
+      device
+    } = recoveryData;
+
+    try {
+      return await db.transaction(async (connection) => {
+        const [backups] = await connection.execute(
+          `SELECT kb.user_id, kb.recovery_auth_hash, u.token_version FROM users u
+            JOIN key_backups kb ON kb.user_id = u.id
+            WHERE u.username = ? FOR UPDATE`,
+          [username]
+        );
+
+        if (backups.length === 0 || !await AuthUtils.verifyPassword(recoveryAuthKey, backups[0].recovery_auth_hash)) {
+          throw new Error('Invalid recovery code');
+        }
+
+        const userId = backups[0].user_id;
+        const revokedDeviceIds = await DeviceService.revokeOtherDevices(connection, userId, null);
+
+        const passwordHash = await AuthUtils.hashPassword(newPassword);
+        await connection.execute(
+          `UPDATE users SET password_hash = ?, master_key_salt = ?, encrypted_private_key = ?, private_key_iv = ?,
+            token_version = token_version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [passwordHash, masterKeySalt, encryptedPrivateKey, privateKeyIv, userId]
+        );
+        await connection.execute(
+          'UPDATE key_backups SET master_wrapped_key = ? WHERE user_id = ?',
+          [masterWrappedKey, userId]
+        );
+        const recoveryDevice = await DeviceService.addRecoveryDevice(connection, userId, device);
+
+        console.log(`✅ Account of user ${userId} recovered`);
+        return {
+          userId,
+          revokedDeviceIds,
+          device: recoveryDevice,
+          tokenVersion: backups[0].token_version + 1
+        };
+      });
+
+    } catch (error) {
+      console.error('❌ Error completing account recovery:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Give a device copies of conversation keys restored from the backup
+   * Only keys of conversations the user is still in are kept, and only key
+   * epochs the conversation still has, each taking that epoch's number.
+   * Returns how many keys were stored
+   */
+  static async restoreConversationKeys(userId, deviceId, conversationKeys) {
+    try {
+      return await db.transaction(async (connection) => {
+        let restored = 0;
+
+        for (const key of conversationKeys) {
+          const [epochs] = await connection.execute(
+            `SELECT ck.epoch FROM conversation_keys ck
+              JOIN conversations c ON c.conversation_id = ck.conversation_id
+              JOIN conversation_participants cp ON cp.conversation_id = c.id AND cp.user_id = ?
+              WHERE ck.conversation_id = ? AND ck.key_id = ?
+              LIMIT 1`,
+            [userId, key.conversationId, key.keyId]
+          );
+
+          if (epochs.length === 0) {
+            continue;
+          }
+
+          const [result] = await connection.execute(
+            `INSERT IGNORE INTO conversation_keys
+              (key_id, conversation_id, user_id, device_id, epoch, encrypted_aes_key, iv, ephemeral_public_key)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [key.keyId, key.conversationId, userId, deviceId, epochs[0].epoch, key.encryptedAesKey, key.iv,
+              key.ephemeralPublicKey]
+          );
+          restored += result.affectedRows;
+        }
+
+        console.log(`✅ Restored ${restored} of ${conversationKeys.length} backed up keys to device ${deviceId}`);
+        return restored;
+      });
+
+    } catch (error) {
+      console.error('❌ Error restoring conversation keys:', error);
+      throw new Error('Failed to restore conversation keys');
+    }
+  }
+
+  static formatBackup(backup) {
+    return {
+      recoveryWrappedKey: backup.recovery_wrapped_key,
+      masterWrappedKey: backup.master_wrapped_key,
+      encryptedIdentityKey: backup.encrypted_identity_key,
+      encryptedKeyring: backup.encrypted_keyring,
+      keyringVersion: backup.keyring_version,
+      updatedAt: backup.updated_at
+    };
+  }
+}
+
+module.exports = KeyBackupService;
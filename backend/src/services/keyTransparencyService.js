@@ -0,0 +1,378 @@
+/**
+ * Key Transparency Service
+ * An append-only log of every identity key users publish. Each entry is
+ * hash-chained to the one before it and is a leaf of a Merkle tree (RFC 6962
+ * hashing); the server signs the tree head, and clients check an inclusion
+ * proof before trusting a key it hands out. Swapping someone's key therefore
+ * means logging the swap where everyone, its owner included, can see it
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const db = require('../database/connection');
+
+// Domain separation between leaves and interior nodes, as in RFC 6962
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+// The chain starts from an all-zero hash
+const CHAIN_SEED = Buffer.alloc(32);
+
+// Leaf hashes of committed entries, in log order; entries never change, so
+// the cache only ever grows
+const leafCache = [];
+
+// Hashes of the complete subtrees over the cached leaves: treeLevels[k][i]
+// covers leaves i * 2^k up to (i + 1) * 2^k, so it never changes either
+const treeLevels = [leafCache];
+
+// The last signed head, reused until the log grows
+let signedHead = null;
+
+// Where a development signing key is kept when KEY_LOG_PRIVATE_KEY is unset
+const DEV_KEY_FILE = process.env.KEY_LOG_KEY_FILE || path.join(__dirname, '../../.key-log-key.pem');
+
+let signingKey = null;
+
+class KeyTransparencyService {
+
+  static sha256(...parts) {
+    return crypto.createHash('sha256').update(Buffer.concat(parts)).digest();
+  }
+
+  /**
+   * The data a log entry commits to
+   */
+  static getLeafData(userId, publicKey) {
+    return `encrypted-chat-key-log:${userId}:${publicKey}`;
+  }
+
+  static hashLeaf(userId, publicKey) {
+    return KeyTransparencyService.sha256(LEAF_PREFIX, Buffer.from(KeyTransparencyService.getLeafData(userId, publicKey)));
+  }
+
+  static hashChildren(left, right) {
+    return KeyTransparencyService.sha256(NODE_PREFIX, left, right);
+  }
+
+  /**
+   * The message the server signs for a tree head
+   */
+  static getTreeHeadMessage(treeSize, rootHash, chainHash, timestamp) {
+    return `encrypted-chat-key-log-head:${treeSize}:${rootHash}:${chainHash}:${timestamp}`;
+  }
+
+  /**
+   * Log a newly published identity key
+   * Must run inside the transaction that stores the key, so a key is never
+   * handed out without its entry; the head row serialises appends
+   */
+  static async appendKey(connection, userId, publicKey) {
+    try {
+      const [heads] = await connection.execute(
+        'SELECT tree_size, chain_hash FROM key_log_head WHERE id = 1 FOR UPDATE'
+      );
+
+      if (heads.length === 0) {
+        throw new Error('Key log is not initialised');
+      }
+
+      const logIndex = heads[0].tree_size;
+      const previousChainHash = heads[0].chain_hash ? Buffer.from(heads[0].chain_hash, 'base64') : CHAIN_SEED;
+      const leafHash = KeyTransparencyService.hashLeaf(userId, publicKey);
+      const chainHash = KeyTransparencyService.sha256(previousChainHash, leafHash).toString('base64');
+
+      await connection.execute(
+        'INSERT INTO key_log (log_index, user_id, public_key, leaf_hash, chain_hash) VALUES (?, ?, ?, ?, ?)',
+        [logIndex, userId, publicKey, leafHash.toString('base64'), chainHash]
+      );
+
+      await connection.execute(
+        'UPDATE key_log_head SET tree_size = ?, chain_hash = ? WHERE id = 1',
+        [logIndex + 1, chainHash]
+      );
+
+      return logIndex;
+    } catch (error) {
+      console.error('❌ Failed to append to key log:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Leaf hashes of the first treeSize entries
+   */
+  static async getLeafHashes(treeSize) {
+    if (leafCache.length < treeSize) {
+      const start = leafCache.length;
+      const rows = await db.query(
+        'SELECT leaf_hash FROM key_log WHERE log_index >= ? AND log_index < ? ORDER BY log_index',
+        [start, treeSize]
+      );
+      // Another request may have filled part of the cache while we were waiting
+      rows.slice(leafCache.length - start).forEach(row => leafCache.push(Buffer.from(row.leaf_hash, 'base64')));
+      KeyTransparencyService.extendTreeLevels();
+    }
+
+    return leafCache.slice(0, treeSize);
+  }
+
+  /**
+   * Hash the complete subtrees the cached leaves now fill
+   */
+  static extendTreeLevels() {
+    for (let level = 1; treeLevels[level - 1].length >= 2; level++) {
+      const below = treeLevels[level - 1];
+      const nodes = treeLevels[level] || (treeLevels[level] = []);
+
+      while (nodes.length < Math.floor(below.length / 2)) {
+        const index = nodes.length;
+        nodes.push(KeyTransparencyService.hashChildren(below[2 * index], below[2 * index + 1]));
+      }
+    }
+  }
+
+  /**
+   * The cached hash of leaves, when they are the log entries from offset on
+   * and make up a complete subtree
+   */
+  static getCachedNode(leaves, offset) {
+    const level = Math.log2(leaves.length);
+    if (offset === null || !Number.isInteger(level) || offset % leaves.length !== 0) {
+      return null;
+    }
+
+    return treeLevels[level]?.[offset / leaves.length] || null;
+  }
+
+  /**
+   * Merkle tree hash of a list of leaves (MTH in RFC 6962)
+   * offset is where the leaves start in the log, or null for other leaves
+   */
+  static computeRoot(leaves, offset = null) {
+    if (leaves.length === 0) {
+      return KeyTransparencyService.sha256(Buffer.alloc(0));
+    }
+    if (leaves.length === 1) {
+      return leaves[0];
+    }
+
+    const cached = KeyTransparencyService.getCachedNode(leaves, offset);
+    if (cached) {
+      return cached;
+    }
+
+    const split = KeyTransparencyService.getSplit(leaves.length);
+    return KeyTransparencyService.hashChildren(
+      KeyTransparencyService.computeRoot(leaves.slice(0, split), offset),
+      KeyTransparencyService.computeRoot(leaves.slice(split), offset === null ? null : offset + split)
+    );
+  }
+
+  /**
+   * Audit path from leaf index up to the root (PATH in RFC 6962)
+   */
+  static getInclusionProof(index, leaves, offset = null) {
+    if (leaves.length <= 1) {
+      return [];
+    }
+
+    const split = KeyTransparencyService.getSplit(leaves.length);
+    const rightOffset = offset === null ? null : offset + split;
+    if (index < split) {
+      return [
+        ...KeyTransparencyService.getInclusionProof(index, leaves.slice(0, split), offset),
+        KeyTransparencyService.computeRoot(leaves.slice(split), rightOffset)
+      ];
+    }
+    return [
+      ...KeyTransparencyService.getInclusionProof(index - split, leaves.slice(split), rightOffset),
+      KeyTransparencyService.computeRoot(leaves.slice(0, split), offset)
+    ];
+  }
+
+  /**
+   * Proof that the first oldSize leaves are unchanged in the larger tree
+   * (PROOF in RFC 6962)
+   */
+  static getConsistencyProof(oldSize, leaves, complete = true, offset = null) {
+    if (oldSize === leaves.length) {
+      return complete ? [] : [KeyTransparencyService.computeRoot(leaves, offset)];
+    }
+
+    const split = KeyTransparencyService.getSplit(leaves.length);
+    const rightOffset = offset === null ? null : offset + split;
+    if (oldSize <= split) {
+      return [
+        ...KeyTransparencyService.getConsistencyProof(oldSize, leaves.slice(0, split), complete, offset),
+        KeyTransparencyService.computeRoot(leaves.slice(split), rightOffset)
+      ];
+    }
+    return [
+      ...KeyTransparencyService.getConsistencyProof(oldSize - split, leaves.slice(split), false, rightOffset),
+      KeyTransparencyService.computeRoot(leaves.slice(0, split), offset)
+    ];
+  }
+
+  /**
+   * Largest power of two smaller than n
+   */
+  static getSplit(n) {
+    let split = 1;
+    while (split * 2 < n) {
+      split *= 2;
+    }
+    return split;
+  }
+
+  /**
+   * The tree head signing key, from KEY_LOG_PRIVATE_KEY (a PEM-encoded P-256 key)
+   * Clients pin its public key, so it must outlive restarts: production
+   * refuses to start without one, and development keeps a generated key on disk
+   */
+  static getSigningKey() {
+    if (!signingKey) {
+      if (process.env.KEY_LOG_PRIVATE_KEY) {
+        signingKey = crypto.createPrivateKey(process.env.KEY_LOG_PRIVATE_KEY.replace(/\\n/g, '\n'));
+      } else if (process.env.NODE_ENV === 'production') {
+        throw new Error('KEY_LOG_PRIVATE_KEY must be set in production');
+      } else {
+        signingKey = KeyTransparencyService.loadDevelopmentKey();
+      }
+    }
+
+    return signingKey;
+  }
+
+  /**
+   * Read the development signing key, generating it on first start
+   */
+  static loadDevelopmentKey() {
+    if (fs.existsSync(DEV_KEY_FILE)) {
+      return crypto.createPrivateKey(fs.readFileSync(DEV_KEY_FILE, 'utf8'));
+    }
+
+    const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    fs.writeFileSync(DEV_KEY_FILE, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    console.warn(`⚠️ KEY_LOG_PRIVATE_KEY is not set, generated a development key log signing key in ${DEV_KEY_FILE}`);
+
+    return privateKey;
+  }
+
+  /**
+   * The tree head verification key, base64 SPKI like users' identity keys
+   */
+  static getPublicKey() {
+    return crypto.createPublicKey(KeyTransparencyService.getSigningKey())
+      .export({ type: 'spki', format: 'der' })
+      .toString('base64');
+  }
+
+  /**
+   * Sign the current head of the log, once per tree size
+   * Signatures are raw r||s so browsers can check them with Web Crypto
+   */
+  static async getSignedTreeHead() {
+    try {
+      const heads = await db.query('SELECT tree_size, chain_hash FROM key_log_head WHERE id = 1');
+      if (heads.length === 0) {
+        throw new Error('Key log is not initialised');
+      }
+
+      const treeSize = heads[0].tree_size;
+      const leaves = await KeyTransparencyService.getLeafHashes(treeSize);
+
+      if (!signedHead || signedHead.treeSize !== treeSize) {
+        const rootHash = KeyTransparencyService.computeRoot(leaves, 0).toString('base64');
+        const chainHash = heads[0].chain_hash || CHAIN_SEED.toString('base64');
+        const timestamp = Date.now();
+
+        const signature = crypto.sign(
+          'sha256',
+          Buffer.from(KeyTransparencyService.getTreeHeadMessage(treeSize, rootHash, chainHash, timestamp)),
+          { key: KeyTransparencyService.getSigningKey(), dsaEncoding: 'ieee-p1363' }
+        ).toString('base64');
+
+        signedHead = { treeSize, rootHash, chainHash, timestamp, signature };
+      }
+
+      return {
+        treeHead: { ...signedHead },
+        leaves
+      };
+    } catch (error) {
+      console.error('❌ Failed to sign key log head:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A user's latest logged key with its inclusion proof against the current
+   * tree head, plus a consistency proof from a head the client saw earlier
+   */
+  static async getKeyProof(userId, sinceTreeSize = 0) {
+    try {
+      const { treeHead, leaves } = await KeyTransparencyService.getSignedTreeHead();
+
+      if (sinceTreeSize > treeHead.treeSize) {
+        throw new Error('Tree size is ahead of the log');
+      }
+
+      const entries = await db.query(
+        'SELECT log_index, public_key, created_at FROM key_log WHERE user_id = ? AND log_index < ? ORDER BY log_index DESC LIMIT 1',
+        [userId, treeHead.treeSize]
+      );
+
+      if (entries.length === 0) {
+        throw new Error('No key log entry for user');
+      }
+
+      const entry = entries[0];
+      const toBase64 = hashes => hashes.map(hash => hash.toString('base64'));
+
+      return {
+        entry: {
+          logIndex: entry.log_index,
+          userId,
+          publicKey: entry.public_key,
+          createdAt: entry.created_at
+        },
+        treeHead,
+        inclusionProof: toBase64(KeyTransparencyService.getInclusionProof(entry.log_index, leaves, 0)),
+        consistencyProof: sinceTreeSize > 0
+          ? toBase64(KeyTransparencyService.getConsistencyProof(sinceTreeSize, leaves, true, 0))
+          : []
+      };
+    } catch (error) {
+      console.error('❌ Failed to get key proof:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute every leaf and chain hash from the stored keys
+   * Run at startup, so rows edited behind the log's back are noticed
+   */
+  static async verifyChain() {
+    const rows = await db.query(
+      'SELECT log_index, user_id, public_key, leaf_hash, chain_hash FROM key_log ORDER BY log_index'
+    );
+
+    let chainHash = CHAIN_SEED;
+    for (const [position, row] of rows.entries()) {
+      const leafHash = KeyTransparencyService.hashLeaf(row.user_id, row.public_key);
+      chainHash = KeyTransparencyService.sha256(chainHash, leafHash);
+
+      if (row.log_index !== position
+        || row.leaf_hash !== leafHash.toString('base64')
+        || row.chain_hash !== chainHash.toString('base64')) {
+        throw new Error(`Key log is broken at entry ${position}`);
+      }
+    }
+
+    return rows.length;
+  }
+}
+
+module.exports = KeyTransparencyService;
@@ -5,32 +5,96 @@
 
 const db = require('../database/connection');
 const ConversationService = require('./conversationService');
+const ConversationKeyService = require('./conversationKeyService');
+const AttachmentService = require('./attachmentService');
+const DeviceService = require('./deviceService');
+
+// Expired messages are purged this many at a time
+const EXPIRY_BATCH_SIZE = 500;
+
+// Messages whose disappearing timer has run out are gone even before the sweeper deletes them
+const NOT_EXPIRED = '(m.expires_at IS NULL OR m.expires_at > NOW())';
 
 class MessageService {
   
   /**
    * Send a message to a conversation
    */
-  static async sendMessage(conversationId, senderId, encryptedContent, iv, messageType = 'text') {
+  static async sendMessage(conversationId, senderId, envelope, messageType = 'text', ratchetHeader = null, replyToMessageId = null, attachmentId = null) {
     try {
       const hasAccess = await ConversationService.verifyUserInConversation(conversationId, senderId);
       if (!hasAccess) {
         throw new Error('Sender does not have access to this conversation');
       }
 
+      if (ratchetHeader) {
+        await MessageService.verifyRatchetDevices(conversationId);
+      } else {
+        await MessageService.verifyCurrentKey(conversationId, envelope);
+      }
+
+      if (replyToMessageId) {
+        const replyTargets = await db.query(
+          `SELECT id FROM messages m WHERE id = ? AND conversation_id = ? AND deleted_at IS NULL AND ${NOT_EXPIRED}`,
+          [replyToMessageId, conversationId]
+        );
+        if (replyTargets.length === 0) {
+          throw new Error('Reply target is not in this conversation');
+        }
+      }
+
+      // Only the uploader can share a finished upload, and only where it was uploaded
+      if (attachmentId) {
+        const attachments = await db.query(`
+          SELECT a.id
+          FROM attachments a
+          JOIN conversations c ON a.conversation_id = c.id
+          WHERE a.attachment_id = ? AND a.uploader_id = ? AND a.status = 'complete' AND c.conversation_id = ?
+        `, [attachmentId, senderId, conversationId]);
+        if (attachments.length === 0) {
+          throw new Error('Attachment not found');
+        }
+      }
+
+      // The conversation's timer applies to messages sent from now on
+      const [timer] = await db.query(
+        'SELECT disappearing_seconds, disappearing_start FROM conversations WHERE conversation_id = ?',
+        [conversationId]
+      );
+      const expiresIn = timer?.disappearing_seconds || null;
+      const startsNow = expiresIn !== null && timer.disappearing_start === 'sent';
+
       const result = await db.query(
-        'INSERT INTO messages (conversation_id, sender_id, encrypted_content, iv, message_type) VALUES (?, ?, ?, ?, ?)',
-        [conversationId, senderId, encryptedContent, iv, messageType]
+        `INSERT INTO messages
+          (conversation_id, sender_id, encrypted_content, iv, envelope_version, algorithm, key_id, auth_tag, ratchet_header, message_type, reply_to_message_id, attachment_id, expires_in, expires_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, IF(?, DATE_ADD(CURRENT_TIMESTAMP, INTERVAL ? SECOND), NULL))`,
+        [
+          conversationId, senderId, envelope.ct, envelope.iv, envelope.v, envelope.alg, envelope.keyId, envelope.tag,
+          ratchetHeader ? JSON.stringify(ratchetHeader) : null, messageType, replyToMessageId, attachmentId,
+          expiresIn, startsNow, expiresIn
+        ]
       );
 
       return {
         id: result.insertId,
         conversationId,
         senderId,
-        encryptedContent,
-        iv,
+        envelope: {
+          v: envelope.v,
+          alg: envelope.alg,
+          keyId: envelope.keyId,
+          iv: envelope.iv,
+          ct: envelope.ct,
+          tag: envelope.tag
+        },
+        ratchetHeader,
         messageType,
-        createdAt: new Date()
+        replyToMessageId,
+        attachmentId,
+        expiresIn,
+        expiresAt: startsNow ? new Date(Date.now() + expiresIn * 1000) : null,
+        createdAt: new Date(),
+        editedAt: null
       };
 
     } catch (error) {
@@ -40,9 +104,235 @@ class MessageService {
   }
 
   /**
-   * Get messages for a conversation
+   * Group messages must use the latest key epoch, and a new one is due
+   * whenever membership changed since it was created
+   */
+  static async verifyCurrentKey(conversationId, envelope) {
+    const currentKey = await ConversationKeyService.getCurrentKey(conversationId);
+    if (currentKey.keyId && (envelope.keyId !== currentKey.keyId || currentKey.rotationNeeded)) {
+      throw new Error('Conversation key is out of date');
+    }
+  }
+
+  /**
+   * Ratchet messages open on a single device, so they are only accepted
+   * while every member has exactly one active device
+   */
+  static async verifyRatchetDevices(conversationId) {
+    const participantIds = await ConversationService.getConversationParticipants(conversationId);
+    if (!(await DeviceService.haveSingleDevices(participantIds))) {
+      throw new Error('Members have several devices, use the conversation key');
+    }
+  }
+
+  /**
+   * Replace a message's ciphertext, keeping the previous one as a revision
+   * Edits are always encrypted with the conversation key: ratchet message
+   * keys are single-use, so there is no key to encrypt a new version with
+   */
+  static async editMessage(messageId, userId, envelope) {
+    try {
+      const messages = await db.query(`
+        SELECT m.sender_id, m.message_type, m.conversation_id, c.id as conversation_int_id
+        FROM messages m
+        JOIN conversations c ON m.conversation_id = c.conversation_id
+        WHERE m.id = ? AND m.deleted_at IS NULL AND ${NOT_EXPIRED}
+      `, [messageId]);
+
+      if (messages.length === 0) {
+        throw new Error('Message not found');
+      }
+
+      if (messages[0].sender_id !== userId) {
+        throw new Error('You can only edit your own messages');
+      }
+
+      // The body of an attachment message carries its file key
+      if (messages[0].message_type !== 'text') {
+        throw new Error('Only text messages can be edited');
+      }
+
+      const { conversation_id: conversationUuid, conversation_int_id: conversationIntId } = messages[0];
+
+      const hasAccess = await ConversationService.verifyUserInConversation(conversationIntId, userId);
+      if (!hasAccess) {
+        throw new Error('Access denied to this conversation');
+      }
+
+      await MessageService.verifyCurrentKey(conversationUuid, envelope);
+
+      await db.transaction(async (connection) => {
+        const [current] = await connection.execute(
+          'SELECT * FROM messages WHERE id = ? FOR UPDATE',
+          [messageId]
+        );
+        const message = current[0];
+
+        const [[{ revision }]] = await connection.execute(
+          'SELECT COUNT(*) as revision FROM message_revisions WHERE message_id = ?',
+          [messageId]
+        );
+
+        await connection.execute(
+          `INSERT INTO message_revisions
+            (message_id, revision, encrypted_content, iv, envelope_version, algorithm, key_id, auth_tag, ratchet_header, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            messageId, revision, message.encrypted_content, message.iv, message.envelope_version, message.algorithm,
+            message.key_id, message.auth_tag, message.ratchet_header, message.edited_at || message.created_at
+          ]
+        );
+
+        await connection.execute(
+          `UPDATE messages
+            SET encrypted_content = ?, iv = ?, envelope_version = ?, algorithm = ?, key_id = ?, auth_tag = ?,
+              ratchet_header = NULL, edited_at = CURRENT_TIMESTAMP
+            WHERE id = ?`,
+          [envelope.ct, envelope.iv, envelope.v, envelope.alg, envelope.keyId, envelope.tag, messageId]
+        );
+      });
+
+      const edited = await MessageService.getMessageById(messageId, userId);
+
+      console.log(`✅ Message ${messageId} edited by user ${userId}`);
+      return { ...edited, conversationId: conversationIntId };
+
+    } catch (error) {
+      console.error('❌ Error editing message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Earlier versions of an edited message, oldest first
    */
-  static async getConversationMessages(conversationId, userId, limit = 50, offset = 0) {
+  static async getMessageRevisions(messageId, userId) {
+    try {
+      // Also checks the user can see the message
+      await MessageService.getMessageById(messageId, userId);
+
+      const revisions = await db.query(`
+        SELECT revision, encrypted_content, iv, envelope_version, algorithm, key_id, auth_tag, ratchet_header, created_at
+        FROM message_revisions
+        WHERE message_id = ?
+        ORDER BY revision
+      `, [messageId]);
+
+      return revisions.map(row => ({
+        revision: row.revision,
+        envelope: MessageService.formatEnvelope(row),
+        ratchetHeader: row.ratchet_header ? JSON.parse(row.ratchet_header) : null,
+        createdAt: row.created_at
+      }));
+
+    } catch (error) {
+      console.error('❌ Error getting message revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replies to a message and replies to those, oldest first
+   * Works for deleted messages too, whose tombstones still anchor a thread
+   */
+  static async getMessageReplies(messageId, userId) {
+    try {
+      const messages = await db.query(`
+        SELECT c.id as conversation_int_id
+        FROM messages m
+        JOIN conversations c ON m.conversation_id = c.conversation_id
+        WHERE m.id = ?
+      `, [messageId]);
+
+      if (messages.length === 0) {
+        throw new Error('Message not found');
+      }
+
+      const conversationId = messages[0].conversation_int_id;
+
+      const hasAccess = await ConversationService.verifyUserInConversation(conversationId, userId);
+      if (!hasAccess) {
+        throw new Error('Access denied to this conversation');
+      }
+
+      const replies = await db.query(`
+        WITH RECURSIVE thread AS (
+          SELECT id FROM messages WHERE reply_to_message_id = ?
+          UNION ALL
+          SELECT r.id FROM messages r JOIN thread t ON r.reply_to_message_id = t.id
+        )
+        SELECT
+          m.id,
+          m.sender_id,
+          m.encrypted_content,
+          m.iv,
+          m.envelope_version,
+          m.algorithm,
+          m.key_id,
+          m.auth_tag,
+          m.ratchet_header,
+          m.message_type,
+          m.created_at,
+          m.edited_at,
+          m.reply_to_message_id,
+          m.attachment_id,
+          m.expires_in,
+          m.expires_at,
+          u.username as sender_username
+        FROM thread t
+        JOIN messages m ON m.id = t.id
+        JOIN users u ON m.sender_id = u.id
+        WHERE m.deleted_at IS NULL
+          AND ${NOT_EXPIRED}
+          AND NOT EXISTS (
+            SELECT 1 FROM hidden_messages hm WHERE hm.message_id = m.id AND hm.user_id = ?
+          )
+        ORDER BY m.id
+      `, [messageId, userId]);
+
+      return replies.map(msg => ({
+        id: msg.id,
+        conversationId,
+        senderId: msg.sender_id,
+        senderUsername: msg.sender_username,
+        envelope: MessageService.formatEnvelope(msg),
+        ratchetHeader: msg.ratchet_header ? JSON.parse(msg.ratchet_header) : null,
+        messageType: msg.message_type,
+        replyToMessageId: msg.reply_to_message_id,
+        attachmentId: msg.attachment_id,
+        expiresIn: msg.expires_in,
+        expiresAt: msg.expires_at,
+        createdAt: msg.created_at,
+        editedAt: msg.edited_at
+      }));
+
+    } catch (error) {
+      console.error('❌ Error getting message replies:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the ciphertext envelope for a messages row
+   * Rows written before envelopes existed read back as version 0 (AES-CBC)
+   */
+  static formatEnvelope(row) {
+    return {
+      v: row.envelope_version,
+      alg: row.algorithm,
+      keyId: row.key_id,
+      iv: row.iv,
+      ct: row.encrypted_content,
+      tag: row.auth_tag
+    };
+  }
+
+  /**
+   * Get a page of messages for a conversation, oldest first
+   * Pages are keyed on message ID: `before` walks back through history,
+   * `after` catches up on newer messages, and neither gives the latest page
+   */
+  static async getConversationMessages(conversationId, userId, limit = 50, { before = null, after = null } = {}) {
     try {
       // Verify user has access to this conversation
       const hasAccess = await ConversationService.verifyUserInConversation(conversationId, userId);
@@ -53,40 +343,80 @@ class MessageService {
       // Get the conversation UUID from the integer ID
       const conversation = await db.query('SELECT conversation_id FROM conversations WHERE id = ?', [conversationId]);
       if (conversation.length === 0) {
-        return [];
+        return { messages: [], hasMore: false };
       }
 
       const conversationUuid = conversation[0].conversation_id;
+      const cursorCondition = before ? 'AND m.id < ?' : after ? 'AND m.id > ?' : '';
+      const cursorParams = before ? [before] : after ? [after] : [];
 
       // Get messages using the UUID
-      const messages = await db.query(`
+      const rows = await db.query(`
         SELECT 
           m.id,
           m.conversation_id,
           m.sender_id,
           m.encrypted_content,
           m.iv,
+          m.envelope_version,
+          m.algorithm,
+          m.key_id,
+          m.auth_tag,
+          m.ratchet_header,
           m.message_type,
           m.created_at,
+          m.edited_at,
+          m.reply_to_message_id,
+          m.attachment_id,
+          m.expires_in,
+          m.expires_at,
           u.username as sender_username,
           u.public_key as sender_public_key
         FROM messages m
         JOIN users u ON m.sender_id = u.id
         WHERE m.conversation_id = ?
-        ORDER BY m.created_at ASC
-        LIMIT ? OFFSET ?
-      `, [conversationUuid, limit, offset]);
+          AND m.deleted_at IS NULL
+          AND ${NOT_EXPIRED}
+          AND NOT EXISTS (
+            SELECT 1 FROM hidden_messages hm WHERE hm.message_id = m.id AND hm.user_id = ?
+          )
+          ${cursorCondition}
+        ORDER BY m.id ${after ? 'ASC' : 'DESC'}
+        LIMIT ?
+      `, [conversationUuid, userId, ...cursorParams, limit + 1]);
 
-      return messages.map(msg => ({
-        id: msg.id,
-        conversationId: conversationId, // Return the integer ID for frontend
-        senderId: msg.sender_id,
-        senderUsername: msg.sender_username,
-        encryptedContent: msg.encrypted_content,
-        iv: msg.iv,
-        messageType: msg.message_type,
-        createdAt: msg.created_at
-      }));
+      // The extra row only tells us whether there is another page
+      const hasMore = rows.length > limit;
+      const messages = rows.slice(0, limit);
+      if (!after) {
+        messages.reverse();
+      }
+
+      const [deliveredTo, reactions] = await Promise.all([
+        MessageService.getDeliveredTo(messages.map(msg => msg.id)),
+        MessageService.getReactionsForMessages(messages.map(msg => msg.id), conversationId)
+      ]);
+
+      return {
+        messages: messages.map(msg => ({
+          id: msg.id,
+          conversationId: conversationId, // Return the integer ID for frontend
+          senderId: msg.sender_id,
+          senderUsername: msg.sender_username,
+          envelope: MessageService.formatEnvelope(msg),
+          ratchetHeader: msg.ratchet_header ? JSON.parse(msg.ratchet_header) : null,
+          messageType: msg.message_type,
+          replyToMessageId: msg.reply_to_message_id,
+          attachmentId: msg.attachment_id,
+          expiresIn: msg.expires_in,
+          expiresAt: msg.expires_at,
+          deliveredTo: deliveredTo[msg.id] || [],
+          reactions: reactions[msg.id] || [],
+          createdAt: msg.created_at,
+          editedAt: msg.edited_at
+        })),
+        hasMore
+      };
 
     } catch (error) {
       console.error('❌ Error getting conversation messages:', error);
@@ -94,6 +424,123 @@ class MessageService {
     }
   }
 
+  /**
+   * Recipients whose device has received each message
+   */
+  static async getDeliveredTo(messageIds) {
+    if (messageIds.length === 0) {
+      return {};
+    }
+
+    const placeholders = messageIds.map(() => '?').join(', ');
+    const rows = await db.query(
+      `SELECT message_id, user_id FROM message_deliveries WHERE message_id IN (${placeholders})`,
+      messageIds
+    );
+
+    return rows.reduce((deliveredTo, row) => {
+      (deliveredTo[row.message_id] = deliveredTo[row.message_id] || []).push(row.user_id);
+      return deliveredTo;
+    }, {});
+  }
+
+  /**
+   * Reactions for a page of messages from one conversation, by message ID
+   */
+  static async getReactionsForMessages(messageIds, conversationId) {
+    if (messageIds.length === 0) {
+      return {};
+    }
+
+    const placeholders = messageIds.map(() => '?').join(', ');
+    const rows = await db.query(`
+      SELECT id, message_id, user_id, encrypted_content, iv, envelope_version, algorithm, key_id, auth_tag, created_at
+      FROM message_reactions
+      WHERE message_id IN (${placeholders})
+      ORDER BY id
+    `, messageIds);
+
+    return rows.reduce((reactions, row) => {
+      (reactions[row.message_id] = reactions[row.message_id] || []).push({
+        id: row.id,
+        messageId: row.message_id,
+        conversationId,
+        userId: row.user_id,
+        envelope: MessageService.formatEnvelope(row),
+        createdAt: row.created_at
+      });
+      return reactions;
+    }, {});
+  }
+
+  /**
+   * Record that a recipient's device received messages
+   * Own messages, messages outside the user's conversations and ones already
+   * acknowledged are skipped; returns the newly delivered messages
+   */
+  static async markMessagesDelivered(messageIds, userId) {
+    try {
+      const placeholders = messageIds.map(() => '?').join(', ');
+      const messages = await db.query(`
+        SELECT m.id, m.sender_id, c.id as conversation_int_id
+        FROM messages m
+        JOIN conversations c ON m.conversation_id = c.conversation_id
+        JOIN conversation_participants cp ON cp.conversation_id = c.id AND cp.user_id = ?
+        LEFT JOIN message_deliveries md ON md.message_id = m.id AND md.user_id = ?
+        WHERE m.id IN (${placeholders})
+          AND m.sender_id <> ?
+          AND md.id IS NULL
+      `, [userId, userId, ...messageIds, userId]);
+
+      if (messages.length === 0) {
+        return [];
+      }
+
+      await db.query(
+        `INSERT IGNORE INTO message_deliveries (message_id, user_id) VALUES ${messages.map(() => '(?, ?)').join(', ')}`,
+        messages.flatMap(message => [message.id, userId])
+      );
+
+      return messages.map(message => ({
+        messageId: message.id,
+        conversationId: message.conversation_int_id,
+        senderId: message.sender_id
+      }));
+
+    } catch (error) {
+      console.error('❌ Error marking messages delivered:', error);
+      throw new Error('Failed to mark messages delivered');
+    }
+  }
+
+  /**
+   * Which of the given messages the user can still see
+   * Clients drop the rest: deleted, hidden or expired while they were offline
+   */
+  static async getVisibleMessageIds(messageIds, userId) {
+    try {
+      const placeholders = messageIds.map(() => '?').join(', ');
+      const messages = await db.query(`
+        SELECT m.id
+        FROM messages m
+        JOIN conversations c ON m.conversation_id = c.conversation_id
+        JOIN conversation_participants cp ON cp.conversation_id = c.id AND cp.user_id = ?
+        WHERE m.id IN (${placeholders})
+          AND m.deleted_at IS NULL
+          AND ${NOT_EXPIRED}
+          AND NOT EXISTS (
+            SELECT 1 FROM hidden_messages hm WHERE hm.message_id = m.id AND hm.user_id = ?
+          )
+      `, [userId, ...messageIds, userId]);
+
+      return messages.map(message => message.id);
+
+    } catch (error) {
+      console.error('❌ Error checking visible messages:', error);
+      throw new Error('Failed to check messages');
+    }
+  }
+
   /**
    * Get a specific message by ID
    */
@@ -106,13 +553,23 @@ class MessageService {
           m.sender_id,
           m.encrypted_content,
           m.iv,
+          m.envelope_version,
+          m.algorithm,
+          m.key_id,
+          m.auth_tag,
+          m.ratchet_header,
           m.message_type,
           m.created_at,
+          m.edited_at,
+          m.reply_to_message_id,
+          m.attachment_id,
+          m.expires_in,
+          m.expires_at,
           u.username as sender_username,
           u.public_key as sender_public_key
         FROM messages m
         JOIN users u ON m.sender_id = u.id
-        WHERE m.id = ?
+        WHERE m.id = ? AND m.deleted_at IS NULL AND ${NOT_EXPIRED}
       `, [messageId]);
 
       if (messages.length === 0) {
@@ -133,10 +590,15 @@ class MessageService {
         senderId: msg.sender_id,
         senderUsername: msg.sender_username,
         senderPublicKey: msg.sender_public_key,
-        encryptedContent: msg.encrypted_content,
-        iv: msg.iv,
+        envelope: MessageService.formatEnvelope(msg),
+        ratchetHeader: msg.ratchet_header ? JSON.parse(msg.ratchet_header) : null,
         messageType: msg.message_type,
-        createdAt: msg.created_at
+        replyToMessageId: msg.reply_to_message_id,
+        attachmentId: msg.attachment_id,
+        expiresIn: msg.expires_in,
+        expiresAt: msg.expires_at,
+        createdAt: msg.created_at,
+        editedAt: msg.edited_at
       };
 
     } catch (error) {
@@ -146,15 +608,19 @@ class MessageService {
   }
 
   /**
-   * Delete a message (only sender can delete)
+   * Delete a message for the user only, or for everyone (only sender)
+   * Deleting for everyone clears the ciphertext, edits and reactions but keeps
+   * the row as a tombstone, so message ids and ordering stay intact
    */
-  static async deleteMessage(messageId, userId) {
+  static async deleteMessage(messageId, userId, mode = 'everyone') {
     try {
       // Get message to verify ownership and conversation access
-      const messages = await db.query(
-        'SELECT conversation_id, sender_id FROM messages WHERE id = ?',
-        [messageId]
-      );
+      const messages = await db.query(`
+        SELECT m.sender_id, c.id as conversation_int_id
+        FROM messages m
+        JOIN conversations c ON m.conversation_id = c.conversation_id
+        WHERE m.id = ? AND m.deleted_at IS NULL AND ${NOT_EXPIRED}
+      `, [messageId]);
 
       if (messages.length === 0) {
         throw new Error('Message not found');
@@ -162,22 +628,44 @@ class MessageService {
 
       const message = messages[0];
 
-      // Verify user is the sender
-      if (message.sender_id !== userId) {
-        throw new Error('You can only delete your own messages');
-      }
-
       // Verify user still has access to conversation
-      const hasAccess = await ConversationService.verifyUserInConversation(message.conversation_id, userId);
+      const hasAccess = await ConversationService.verifyUserInConversation(message.conversation_int_id, userId);
       if (!hasAccess) {
         throw new Error('Access denied to this conversation');
       }
 
-      // Delete the message
-      await db.query('DELETE FROM messages WHERE id = ?', [messageId]);
-      
-      console.log(`✅ Message ${messageId} deleted by user ${userId}`);
-      return true;
+      if (mode === 'me') {
+        await db.query(
+          'INSERT IGNORE INTO hidden_messages (message_id, user_id) VALUES (?, ?)',
+          [messageId, userId]
+        );
+      } else {
+        // Verify user is the sender
+        if (message.sender_id !== userId) {
+          throw new Error('You can only delete your own messages');
+        }
+
+        await db.transaction(async (connection) => {
+          await connection.execute(
+            `UPDATE messages
+              SET encrypted_content = NULL, iv = NULL, key_id = NULL, auth_tag = NULL,
+                ratchet_header = NULL, attachment_id = NULL, deleted_at = CURRENT_TIMESTAMP
+              WHERE id = ?`,
+            [messageId]
+          );
+
+          await connection.execute('DELETE FROM message_revisions WHERE message_id = ?', [messageId]);
+          await connection.execute('DELETE FROM message_reactions WHERE message_id = ?', [messageId]);
+        });
+      }
+
+      console.log(`✅ Message ${messageId} deleted for ${mode} by user ${userId}`);
+      return {
+        messageId,
+        conversationId: message.conversation_int_id,
+        mode,
+        deletedAt: new Date()
+      };
 
     } catch (error) {
       console.error('❌ Error deleting message:', error);
@@ -190,9 +678,8 @@ class MessageService {
    */
   static async getUnreadMessageCount(userId) {
     try {
-      // For now, we'll return 0 since we don't have read receipts yet
-      // This can be enhanced later when we add read status tracking
-      return 0;
+      const unreadCounts = await ConversationService.getUnreadCounts(userId);
+      return Object.values(unreadCounts).reduce((total, count) => total + count, 0);
 
     } catch (error) {
       console.error('❌ Error getting unread count:', error);
@@ -201,80 +688,102 @@ class MessageService {
   }
 
   /**
-   * Search messages in user's conversations
+   * Mark conversation as read up to a message, or its latest message
+   * The read cursor only moves forward; returns null when it did not move
    */
-  static async searchMessages(userId, searchQuery, limit = 20) {
+  static async markConversationAsRead(conversationId, userId, messageId = null) {
     try {
-      // Get all conversations user participates in
-      const userConversations = await db.query(`
-        SELECT id FROM conversations 
-        WHERE user1_id = ? OR user2_id = ?
-      `, [userId, userId]);
+      // Verify user has access to this conversation
+      const hasAccess = await ConversationService.verifyUserInConversation(conversationId, userId);
+      if (!hasAccess) {
+        throw new Error('Access denied to this conversation');
+      }
 
-      const conversationIds = userConversations.map(conv => conv.id);
+      const messages = await db.query(`
+        SELECT MAX(m.id) as message_id
+        FROM messages m
+        JOIN conversations c ON m.conversation_id = c.conversation_id
+        WHERE c.id = ? ${messageId ? 'AND m.id <= ?' : ''}
+      `, messageId ? [conversationId, messageId] : [conversationId]);
 
-      if (conversationIds.length === 0) {
-        return [];
+      const lastReadMessageId = messages[0].message_id;
+      if (!lastReadMessageId) {
+        return null;
       }
 
-      // Create placeholders for conversation IDs
-      const placeholders = conversationIds.map(() => '?').join(',');
+      const cursors = await db.query(
+        'SELECT last_read_message_id FROM read_cursors WHERE conversation_id = ? AND user_id = ?',
+        [conversationId, userId]
+      );
 
-      const messages = await db.query(`
-        SELECT 
-          m.id,
-          m.conversation_id,
-          m.sender_id,
-          m.encrypted_content,
-          m.iv,
-          m.message_type,
-          m.created_at,
-          u.username as sender_username,
-          u.public_key as sender_public_key
-        FROM messages m
-        JOIN users u ON m.sender_id = u.id
-        WHERE m.conversation_id IN (${placeholders})
-        AND m.encrypted_content LIKE ?
-        ORDER BY m.created_at DESC
-        LIMIT ?
-      `, [...conversationIds, `%${searchQuery}%`, limit]);
+      if (cursors.length > 0 && cursors[0].last_read_message_id >= lastReadMessageId) {
+        return null;
+      }
 
-      return messages.map(msg => ({
-        id: msg.id,
-        conversationId: msg.conversation_id,
-        senderId: msg.sender_id,
-        senderUsername: msg.sender_username,
-        senderPublicKey: msg.sender_public_key,
-        encryptedContent: msg.encrypted_content,
-        iv: msg.iv,
-        messageType: msg.message_type,
-        createdAt: msg.created_at
-      }));
+      // GREATEST keeps the cursor from moving back if another request got there first
+      await db.query(
+        `INSERT INTO read_cursors (conversation_id, user_id, last_read_message_id)
+          VALUES (?, ?, ?)
+          ON DUPLICATE KEY UPDATE last_read_message_id = GREATEST(last_read_message_id, VALUES(last_read_message_id))`,
+        [conversationId, userId, lastReadMessageId]
+      );
+
+      // Timers that count from reading start on the first read by someone other than the sender
+      await db.query(`
+        UPDATE messages m
+        JOIN conversations c ON m.conversation_id = c.conversation_id
+        SET m.expires_at = DATE_ADD(CURRENT_TIMESTAMP, INTERVAL m.expires_in SECOND)
+        WHERE c.id = ? AND m.id <= ? AND m.sender_id <> ?
+          AND m.expires_in IS NOT NULL AND m.expires_at IS NULL
+      `, [conversationId, lastReadMessageId, userId]);
+
+      console.log(`✅ Conversation ${conversationId} read up to message ${lastReadMessageId} by user ${userId}`);
+      return lastReadMessageId;
 
     } catch (error) {
-      console.error('❌ Error searching messages:', error);
-      throw new Error('Failed to search messages');
+      console.error('❌ Error marking conversation as read:', error);
+      throw error;
     }
   }
 
   /**
-   * Mark conversation as read
+   * Delete messages whose disappearing timer has run out, along with their
+   * attachments; returns the deleted message IDs by conversation
    */
-  static async markConversationAsRead(conversationId, userId) {
+  static async purgeExpiredMessages() {
     try {
-      // Verify user has access to this conversation
-      const hasAccess = await ConversationService.verifyUserInConversation(conversationId, userId);
-      if (!hasAccess) {
-        throw new Error('Access denied to this conversation');
+      const messages = await db.query(`
+        SELECT m.id, m.attachment_id, c.id as conversation_int_id
+        FROM messages m
+        JOIN conversations c ON m.conversation_id = c.conversation_id
+        WHERE m.expires_at <= NOW()
+        ORDER BY m.expires_at
+        LIMIT ${EXPIRY_BATCH_SIZE}
+      `);
+
+      if (messages.length === 0) {
+        return { expired: {}, remaining: false };
+      }
+
+      // Revisions, reactions, deliveries and hidden markers go with the rows; replies lose their quote
+      const messageIds = messages.map(msg => msg.id);
+      const placeholders = messageIds.map(() => '?').join(', ');
+      await db.query(`DELETE FROM messages WHERE id IN (${placeholders})`, messageIds);
+
+      const attachmentIds = messages.map(msg => msg.attachment_id).filter(Boolean);
+      if (attachmentIds.length > 0) {
+        await AttachmentService.deleteAttachments(attachmentIds);
       }
 
-      // For now, this is a no-op since we don't have read receipts implemented
-      // In the future, we can add a read_receipts table
-      console.log(`✅ Conversation ${conversationId} marked as read by user ${userId}`);
-      return true;
+      const expired = messages.reduce((byConversation, msg) => {
+        (byConversation[msg.conversation_int_id] = byConversation[msg.conversation_int_id] || []).push(msg.id);
+        return byConversation;
+      }, {});
+
+      return { expired, remaining: messages.length === EXPIRY_BATCH_SIZE };
 
     } catch (error) {
-      console.error('❌ Error marking conversation as read:', error);
+      console.error('❌ Error purging expired messages:', error);
       throw error;
     }
   }
@@ -0,0 +1,173 @@
+/**
+ * Prekey Service
+ * Holds each device's signed prekey and a pool of one-time prekeys so peers
+ * can run X3DH against users who are offline
+ * Ratchet sessions are only started with users who have a single active
+ * device, and only by such users: a ratchet message can be opened by one
+ * device, so everyone else uses the conversation key
+ */
+
+const db = require('../database/connection');
+const DeviceService = require('./deviceService');
+
+// One-time prekey pool sizing
+const POOL_TARGET = 100;
+const POOL_LOW_THRESHOLD = 20;
+
+class PreKeyService {
+
+  /**
+   * Publish a device's signed prekey, replacing any earlier one
+   */
+  static async storeSignedPreKey(userId, deviceId, keyId, publicKey, signature) {
+    try {
+      await db.query(
+        `INSERT INTO signed_prekeys (user_id, device_id, key_id, public_key, signature)
+          VALUES (?, ?, ?, ?, ?)
+          ON DUPLICATE KEY UPDATE key_id = VALUES(key_id),
+            public_key = VALUES(public_key), signature = VALUES(signature)`,
+        [userId, deviceId, keyId, publicKey, signature]
+      );
+
+      console.log(`✅ Signed prekey ${keyId} stored for device ${deviceId}`);
+      return true;
+
+    } catch (error) {
+      console.error('❌ Error storing signed prekey:', error);
+      throw new Error('Failed to store signed prekey');
+    }
+  }
+
+  /**
+   * Add one-time prekeys to a device's pool
+   * The pool is capped at its target size and duplicate key IDs are ignored
+   */
+  static async storeOneTimePreKeys(userId, deviceId, preKeys) {
+    try {
+      return await db.transaction(async (connection) => {
+        const [[{ count }]] = await connection.execute(
+          'SELECT COUNT(*) as count FROM one_time_prekeys WHERE device_id = ? FOR UPDATE',
+          [deviceId]
+        );
+
+        const accepted = preKeys.slice(0, Math.max(0, POOL_TARGET - count));
+
+        if (accepted.length > 0) {
+          const placeholders = accepted.map(() => '(?, ?, ?, ?)').join(', ');
+          await connection.execute(
+            `INSERT IGNORE INTO one_time_prekeys (user_id, device_id, key_id, public_key) VALUES ${placeholders}`,
+            accepted.flatMap(preKey => [userId, deviceId, preKey.keyId, preKey.publicKey])
+          );
+        }
+
+        console.log(`✅ Stored ${accepted.length} one-time prekeys for device ${deviceId}`);
+        return accepted.length;
+      });
+
+    } catch (error) {
+      console.error('❌ Error storing one-time prekeys:', error);
+      throw new Error('Failed to store one-time prekeys');
+    }
+  }
+
+  /**
+   * Fetch the prekey bundle of a user's only device and consume one of its
+   * one-time prekeys
+   * There is no bundle when either side has more than one active device.
+   * Runs in a transaction with row locks so no prekey is handed out twice;
+   * the bundle has no one-time prekey once the pool is empty
+   */
+  static async claimPreKeyBundle(userId, claimerId) {
+    try {
+      if (!(await DeviceService.haveSingleDevices([userId, claimerId]))) {
+        throw new Error('Prekey bundle not found');
+      }
+
+      return await db.transaction(async (connection) => {
+        const [signedPreKeys] = await connection.execute(`
+          SELECT
+            sp.device_id,
+            sp.key_id,
+            sp.public_key,
+            sp.signature,
+            u.public_key as identity_key
+          FROM signed_prekeys sp
+          JOIN devices d ON sp.device_id = d.device_id AND d.status = 'active'
+          JOIN users u ON sp.user_id = u.id
+          WHERE sp.user_id = ?
+        `, [userId]);
+
+        if (signedPreKeys.length === 0) {
+          throw new Error('Prekey bundle not found');
+        }
+
+        const signedPreKey = signedPreKeys[0];
+        const deviceId = signedPreKey.device_id;
+
+        const [oneTimePreKeys] = await connection.execute(
+          'SELECT id, key_id, public_key FROM one_time_prekeys WHERE device_id = ? ORDER BY id LIMIT 1 FOR UPDATE SKIP LOCKED',
+          [deviceId]
+        );
+
+        const oneTimePreKey = oneTimePreKeys[0] || null;
+        if (oneTimePreKey) {
+          await connection.execute('DELETE FROM one_time_prekeys WHERE id = ?', [oneTimePreKey.id]);
+        }
+
+        const [[{ count }]] = await connection.execute(
+          'SELECT COUNT(*) as count FROM one_time_prekeys WHERE device_id = ?',
+          [deviceId]
+        );
+
+        return {
+          preKeyBundle: {
+            userId,
+            deviceId,
+            identityKey: signedPreKey.identity_key,
+            signedPreKeyId: signedPreKey.key_id,
+            signedPreKey: signedPreKey.public_key,
+            signature: signedPreKey.signature,
+            oneTimePreKey: oneTimePreKey ? {
+              keyId: oneTimePreKey.key_id,
+              publicKey: oneTimePreKey.public_key
+            } : null
+          },
+          poolStatus: PreKeyService.formatPoolStatus(count)
+        };
+      });
+
+    } catch (error) {
+      console.error('❌ Error claiming prekey bundle:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * How many one-time prekeys a device has left, and whether to top up
+   */
+  static async getPoolStatus(deviceId) {
+    try {
+      const result = await db.query(
+        'SELECT COUNT(*) as count FROM one_time_prekeys WHERE device_id = ?',
+        [deviceId]
+      );
+
+      return PreKeyService.formatPoolStatus(result[0].count);
+
+    } catch (error) {
+      console.error('❌ Error getting prekey pool status:', error);
+      throw new Error('Failed to get prekey pool status');
+    }
+  }
+
+  static formatPoolStatus(count) {
+    return {
+      oneTimePreKeyCount: count,
+      target: POOL_TARGET,
+      lowThreshold: POOL_LOW_THRESHOLD,
+      isLow: count < POOL_LOW_THRESHOLD
+    };
+  }
+}
+
+module.exports = PreKeyService;
@@ -0,0 +1,135 @@
+/**
+ * Reaction Service
+ * Stores emoji reactions as envelopes encrypted with the conversation key,
+ * so the server never sees which emoji was picked
+ */
+
+const db = require('../database/connection');
+const ConversationService = require('./conversationService');
+const MessageService = require('./messageService');
+
+// Each user can leave this many reactions on one message
+const MAX_REACTIONS_PER_USER = 20;
+
+class ReactionService {
+
+  /**
+   * Look up a message the user can see, for reacting to it
+   */
+  static async getReactableMessage(messageId, userId) {
+    const messages = await db.query(`
+      SELECT m.conversation_id, c.id as conversation_int_id
+      FROM messages m
+      JOIN conversations c ON m.conversation_id = c.conversation_id
+      WHERE m.id = ? AND m.deleted_at IS NULL
+        AND (m.expires_at IS NULL OR m.expires_at > NOW())
+    `, [messageId]);
+
+    if (messages.length === 0) {
+      throw new Error('Message not found');
+    }
+
+    const hasAccess = await ConversationService.verifyUserInConversation(messages[0].conversation_int_id, userId);
+    if (!hasAccess) {
+      throw new Error('Access denied to this conversation');
+    }
+
+    return {
+      conversationUuid: messages[0].conversation_id,
+      conversationId: messages[0].conversation_int_id
+    };
+  }
+
+  /**
+   * React to a message with an encrypted emoji
+   */
+  static async addReaction(messageId, userId, envelope) {
+    try {
+      const { conversationUuid, conversationId } = await ReactionService.getReactableMessage(messageId, userId);
+
+      await MessageService.verifyCurrentKey(conversationUuid, envelope);
+
+      const [{ count }] = await db.query(
+        'SELECT COUNT(*) as count FROM message_reactions WHERE message_id = ? AND user_id = ?',
+        [messageId, userId]
+      );
+
+      if (count >= MAX_REACTIONS_PER_USER) {
+        throw new Error('Too many reactions on this message');
+      }
+
+      const result = await db.query(
+        `INSERT INTO message_reactions
+          (message_id, user_id, encrypted_content, iv, envelope_version, algorithm, key_id, auth_tag)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [messageId, userId, envelope.ct, envelope.iv, envelope.v, envelope.alg, envelope.keyId, envelope.tag]
+      );
+
+      return {
+        id: result.insertId,
+        messageId,
+        conversationId,
+        userId,
+        envelope,
+        createdAt: new Date()
+      };
+
+    } catch (error) {
+      console.error('❌ Error adding reaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove one of the user's own reactions
+   */
+  static async removeReaction(messageId, reactionId, userId) {
+    try {
+      const { conversationId } = await ReactionService.getReactableMessage(messageId, userId);
+
+      const reactions = await db.query(
+        'SELECT user_id FROM message_reactions WHERE id = ? AND message_id = ?',
+        [reactionId, messageId]
+      );
+
+      if (reactions.length === 0) {
+        throw new Error('Reaction not found');
+      }
+
+      if (reactions[0].user_id !== userId) {
+        throw new Error('You can only remove your own reactions');
+      }
+
+      await db.query('DELETE FROM message_reactions WHERE id = ?', [reactionId]);
+
+      return {
+        reactionId,
+        messageId,
+        conversationId,
+        userId
+      };
+
+    } catch (error) {
+      console.error('❌ Error removing reaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * All reactions on a message, oldest first
+   */
+  static async getReactions(messageId, userId) {
+    try {
+      const { conversationId } = await ReactionService.getReactableMessage(messageId, userId);
+      const reactions = await MessageService.getReactionsForMessages([messageId], conversationId);
+
+      return reactions[messageId] || [];
+
+    } catch (error) {
+      console.error('❌ Error getting reactions:', error);
+      throw error;
+    }
+  }
+}
+
+module.exports = ReactionService;
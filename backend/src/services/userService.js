@@ -1,12 +1,16 @@
 const db = require('../database/connection');
 const AuthUtils = require('../utils/auth');
+const KeyTransparencyService = require('./keyTransparencyService');
+const ConversationKeyService = require('./conversationKeyService');
+const DeviceService = require('./deviceService');
+const KeyBackupService = require('./keyBackupService');
 
 class UserService {
   /**
    * Create new user with Step 3 encryption support
    */
   static async createUser(userData) {
-    const { username, email, password, publicKey, masterKeySalt } = userData;
+    const { username, email, password, publicKey, encryptedPrivateKey, privateKeyIv, masterKeySalt, keyBackup } = userData;
 
     // Validate required encryption fields
     if (!publicKey) {
@@ -29,11 +33,19 @@ class UserService {
     // Hash password
     const passwordHash = await AuthUtils.hashPassword(password);
 
-    // Insert new user with encryption fields
-    const result = await db.query(
-      'INSERT INTO users (username, email, password_hash, master_key_salt, public_key) VALUES (?, ?, ?, ?, ?)',
-      [username, email, passwordHash, masterKeySalt, publicKey]
-    );
+    // Insert new user with encryption fields, logging the key and storing the key backup in the same transaction
+    const result = await db.transaction(async (connection) => {
+      const [inserted] = await connection.execute(
+        'INSERT INTO users (username, email, password_hash, master_key_salt, public_key, encrypted_private_key, private_key_iv) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [username, email, passwordHash, masterKeySalt, publicKey, encryptedPrivateKey, privateKeyIv]
+      );
+
+      await KeyTransparencyService.appendKey(connection, inserted.insertId, publicKey);
+      if (keyBackup) {
+        await KeyBackupService.createBackup(connection, inserted.insertId, keyBackup);
+      }
+      return inserted;
+    });
 
     console.log(`✅ User created with encryption support: ${username}`);
 
@@ -42,7 +54,10 @@ class UserService {
       username,
       email,
       publicKey,
-      masterKeySalt
+      encryptedPrivateKey,
+      privateKeyIv,
+      masterKeySalt,
+      tokenVersion: 0
     };
   }
 
@@ -52,7 +67,7 @@ class UserService {
   static async authenticateUser(username, password) {
     // Get user by username with encryption fields
     const users = await db.query(
-      'SELECT id, username, email, password_hash, master_key_salt, public_key FROM users WHERE username = ?',
+      'SELECT id, username, email, password_hash, master_key_salt, public_key, encrypted_private_key, private_key_iv, token_version FROM users WHERE username = ?',
       [username]
     );
 
@@ -74,7 +89,10 @@ class UserService {
       username: user.username,
       email: user.email,
       publicKey: user.public_key,
-      masterKeySalt: user.master_key_salt
+      encryptedPrivateKey: user.encrypted_private_key,
+      privateKeyIv: user.private_key_iv,
+      masterKeySalt: user.master_key_salt,
+      tokenVersion: user.token_version
     };
   }
 
@@ -83,7 +101,7 @@ class UserService {
    */
   static async getUserById(userId) {
     const users = await db.query(
-      'SELECT id, username, email, master_key_salt, public_key, created_at FROM users WHERE id = ?',
+      'SELECT id, username, email, master_key_salt, public_key, encrypted_private_key, private_key_iv, created_at FROM users WHERE id = ?',
       [userId]
     );
 
@@ -96,6 +114,8 @@ class UserService {
       username: users[0].username,
       email: users[0].email,
       publicKey: users[0].public_key,
+      encryptedPrivateKey: users[0].encrypted_private_key,
+      privateKeyIv: users[0].private_key_iv,
       masterKeySalt: users[0].master_key_salt,
       createdAt: users[0].created_at
     };
@@ -172,6 +192,83 @@ class UserService {
     return await this.getUserById(userId);
   }
 
+  /**
+   * Replace user's identity key pair
+   * The private key arrives already wrapped under the user's master key
+   */
+  static async updateIdentityKey(userId, publicKey, encryptedPrivateKey, privateKeyIv) {
+    await db.transaction(async (connection) => {
+      const [result] = await connection.execute(
+        'UPDATE users SET public_key = ?, encrypted_private_key = ?, private_key_iv = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [publicKey, encryptedPrivateKey, privateKeyIv, userId]
+      );
+
+      if (result.affectedRows === 0) {
+        throw new Error('User not found');
+      }
+
+      // Every published key goes in the transparency log
+      await KeyTransparencyService.appendKey(connection, userId, publicKey);
+    });
+
+    console.log(`✅ Identity key updated for user ${userId}`);
+    return true;
+  }
+
+  /**
+   * Change a user's password
+   * The client re-wraps everything stored under the old master key; the
+   * wrapped identity key, conversation key copies and key backup are
+   * replaced in the same transaction as the password, and the user's other
+   * devices are revoked because their device keys stay sealed under the old
+   * master key. The token version moves on, so every token issued before the
+   * change is refused.
+   * Returns the IDs of the revoked devices and the new token version
+   */
+  static async changePassword(userId, deviceId, passwordData) {
+    const {
+      currentPassword,
+      newPassword,
+      masterKeySalt,
+      encryptedPrivateKey,
+      privateKeyIv,
+      conversationKeys,
+      masterWrappedKey
+    } = passwordData;
+
+    const result = await db.transaction(async (connection) => {
+      const [users] = await connection.execute(
+        'SELECT password_hash, token_version FROM users WHERE id = ? FOR UPDATE',
+        [userId]
+      );
+
+      if (users.length === 0) {
+        throw new Error('User not found');
+      }
+
+      const isPasswordValid = await AuthUtils.verifyPassword(currentPassword, users[0].password_hash);
+      if (!isPasswordValid) {
+        throw new Error('Current password is incorrect');
+      }
+
+      const revoked = await DeviceService.revokeOtherDevices(connection, userId, deviceId);
+      await ConversationKeyService.replaceMasterWrappedKeys(connection, userId, conversationKeys);
+      await KeyBackupService.replaceMasterWrappedKey(connection, userId, masterWrappedKey);
+
+      const passwordHash = await AuthUtils.hashPassword(newPassword);
+      await connection.execute(
+        `UPDATE users SET password_hash = ?, master_key_salt = ?, encrypted_private_key = ?, private_key_iv = ?,
+          token_version = token_version + 1, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [passwordHash, masterKeySalt, encryptedPrivateKey, privateKeyIv, userId]
+      );
+
+      return { revokedDeviceIds: revoked, tokenVersion: users[0].token_version + 1 };
+    });
+
+    console.log(`✅ Password changed for user ${userId}`);
+    return result;
+  }
+
   /**
    * Get user's master key salt (for key derivation)
    */
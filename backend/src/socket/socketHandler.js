@@ -1,6 +1,9 @@
 const MessageService = require('../services/messageService');
 const ConversationService = require('../services/conversationService');
+const PreKeyService = require('../services/preKeyService');
+const ReactionService = require('../services/reactionService');
 const db = require('../database/connection');
+const { messageValidation, preKeyValidation } = require('../utils/validation');
 
 class SocketHandler {
   constructor(io) {
@@ -12,6 +15,7 @@ class SocketHandler {
     this.io.on('connection', (socket) => {
       this.addUserSocket(socket.user.id, socket.id);
       this.storeSocketSession(socket.user.id, socket.id);
+      this.checkPreKeyPool(socket);
 
       socket.on('join_conversation', (data) => {
         this.handleJoinConversation(socket, data);
@@ -21,8 +25,24 @@ class SocketHandler {
         this.handleLeaveConversation(socket, data);
       });
 
-      socket.on('send_message', (data) => {
-        this.handleSendMessage(socket, data);
+      socket.on('send_message', (data, callback) => {
+        this.handleSendMessage(socket, data, callback);
+      });
+
+      socket.on('edit_message', (data) => {
+        this.handleEditMessage(socket, data);
+      });
+
+      socket.on('add_reaction', (data) => {
+        this.handleAddReaction(socket, data);
+      });
+
+      socket.on('remove_reaction', (data) => {
+        this.handleRemoveReaction(socket, data);
+      });
+
+      socket.on('message_delivered', (data) => {
+        this.handleMessageDelivered(socket, data);
       });
 
       socket.on('typing_start', (data) => {
@@ -37,6 +57,10 @@ class SocketHandler {
         this.handleUserStatus(socket, data);
       });
 
+      socket.on('upload_prekeys', (data) => {
+        this.handleUploadPreKeys(socket, data);
+      });
+
       socket.on('disconnect', () => {
         this.handleDisconnection(socket);
       });
@@ -82,6 +106,47 @@ class SocketHandler {
     }
   }
 
+  async checkPreKeyPool(socket) {
+    try {
+      const poolStatus = await PreKeyService.getPoolStatus(socket.device.deviceId);
+      if (poolStatus.isLow) {
+        socket.emit('prekeys_low', poolStatus);
+      }
+    } catch (error) {
+      // Silent fail, the pool is checked again on the next claim
+    }
+  }
+
+  async handleUploadPreKeys(socket, data) {
+    try {
+      const { error, value } = preKeyValidation.upload.validate(data);
+
+      if (error) {
+        socket.emit('error', { message: error.details[0].message });
+        return;
+      }
+
+      if (value.signedPreKey) {
+        await PreKeyService.storeSignedPreKey(
+          socket.user.id,
+          socket.device.deviceId,
+          value.signedPreKey.keyId,
+          value.signedPreKey.publicKey,
+          value.signedPreKey.signature
+        );
+      }
+
+      if (value.oneTimePreKeys) {
+        await PreKeyService.storeOneTimePreKeys(socket.user.id, socket.device.deviceId, value.oneTimePreKeys);
+      }
+
+      const poolStatus = await PreKeyService.getPoolStatus(socket.device.deviceId);
+      socket.emit('prekeys_uploaded', poolStatus);
+    } catch (error) {
+      socket.emit('error', { message: 'Failed to upload prekeys' });
+    }
+  }
+
   async handleJoinConversation(socket, data) {
     try {
       const { conversationId } = data;
@@ -120,24 +185,47 @@ class SocketHandler {
     }
   }
 
-  async handleSendMessage(socket, data) {
-    try {
-      const { recipientId, encryptedContent, iv, messageType = 'text' } = data;
+  async handleSendMessage(socket, data, callback) {
+    let conversationIntId = null;
 
-      if (!recipientId || !encryptedContent || !iv) {
-        socket.emit('message_error', { message: 'Missing required fields' });
+    // Clients that send with an acknowledgement get the rejection there, so they can resend or hand the text back
+    const reject = (payload) => {
+      if (typeof callback === 'function') {
+        callback({ success: false, ...payload });
         return;
       }
+      reject(payload);
+    };
+
+    try {
+      const { error, value } = messageValidation.send.validate(data);
 
-      if (recipientId === socket.user.id) {
-        socket.emit('message_error', { message: 'Cannot send message to yourself' });
+      if (error) {
+        reject({ message: error.details[0].message });
         return;
       }
 
-      const conversationIntId = await ConversationService.findOrCreateConversation(
-        socket.user.id,
-        recipientId
-      );
+      const { conversationId, recipientId, envelope, ratchetHeader, messageType, replyToMessageId, attachmentId } = value;
+
+      conversationIntId = conversationId;
+
+      if (conversationId) {
+        const hasAccess = await ConversationService.verifyUserInConversation(conversationId, socket.user.id);
+        if (!hasAccess) {
+          reject({ message: 'Access denied to conversation' });
+          return;
+        }
+      } else {
+        if (recipientId === socket.user.id) {
+          reject({ message: 'Cannot send message to yourself' });
+          return;
+        }
+
+        conversationIntId = await ConversationService.findOrCreateConversation(
+          socket.user.id,
+          recipientId
+        );
+      }
 
       const conversationResult = await db.query(
         'SELECT conversation_id FROM conversations WHERE id = ?',
@@ -145,7 +233,7 @@ class SocketHandler {
       );
 
       if (conversationResult.length === 0) {
-        socket.emit('message_error', { message: 'Conversation not found' });
+        reject({ message: 'Conversation not found' });
         return;
       }
 
@@ -154,9 +242,11 @@ class SocketHandler {
       const message = await MessageService.sendMessage(
         conversationUuid,
         socket.user.id,
-        encryptedContent,
-        iv,
-        messageType
+        envelope,
+        messageType,
+        ratchetHeader,
+        replyToMessageId,
+        attachmentId
       );
 
       const messageData = {
@@ -164,27 +254,164 @@ class SocketHandler {
         conversationId: conversationIntId,
         senderId: socket.user.id,
         senderUsername: socket.user.username,
-        recipientId: recipientId,
-        encryptedContent: message.encryptedContent,
-        iv: message.iv,
+        envelope: message.envelope,
+        ratchetHeader: message.ratchetHeader,
         messageType: message.messageType,
+        replyToMessageId: message.replyToMessageId,
+        attachmentId: message.attachmentId,
+        expiresIn: message.expiresIn,
+        expiresAt: message.expiresAt,
         createdAt: message.createdAt
       };
 
       socket.emit('message_sent', messageData);
+      if (typeof callback === 'function') {
+        callback({ success: true, data: messageData });
+      }
 
       const roomName = `conversation_${conversationIntId}`;
       socket.to(roomName).emit('new_message', messageData);
 
-      const recipientSockets = this.getUserSockets(recipientId);
-      recipientSockets.forEach(recipientSocketId => {
-        const recipientSocket = this.io.sockets.sockets.get(recipientSocketId);
-        if (recipientSocket && !recipientSocket.rooms.has(roomName)) {
-          recipientSocket.emit('new_message', messageData);
-        }
+      // Members who have not joined the room still get the message
+      const participantIds = await ConversationService.getConversationParticipants(conversationIntId);
+      participantIds
+        .filter(participantId => participantId !== socket.user.id)
+        .forEach(participantId => {
+          this.getUserSockets(participantId).forEach(recipientSocketId => {
+            const recipientSocket = this.io.sockets.sockets.get(recipientSocketId);
+            if (recipientSocket && !recipientSocket.rooms.has(roomName)) {
+              recipientSocket.emit('new_message', messageData);
+            }
+          });
+        });
+    } catch (error) {
+      // The client needs the conversation to fetch or rotate the key, or look up devices, before resending
+      if (error.message === 'Conversation key is out of date' || error.message === 'Members have several devices, use the conversation key') {
+        reject({ message: error.message, conversationId: conversationIntId });
+        return;
+      }
+
+      const knownErrors = [
+        'Reply target is not in this conversation',
+        'Attachment not found'
+      ];
+
+      if (knownErrors.includes(error.message)) {
+        reject({ message: error.message });
+        return;
+      }
+
+      reject({ message: 'Failed to send message' });
+    }
+  }
+
+  async handleEditMessage(socket, data) {
+    try {
+      const { error, value } = messageValidation.editEvent.validate(data);
+
+      if (error) {
+        socket.emit('message_error', { message: error.details[0].message });
+        return;
+      }
+
+      const message = await MessageService.editMessage(value.messageId, socket.user.id, value.envelope);
+
+      // Every member's sockets, including the sender's other devices
+      await this.broadcastToConversation(message.conversationId, 'message_edited', message);
+    } catch (error) {
+      const knownErrors = [
+        'Message not found',
+        'You can only edit your own messages',
+        'Only text messages can be edited',
+        'Access denied to this conversation',
+        'Conversation key is out of date'
+      ];
+
+      socket.emit('message_error', {
+        message: knownErrors.includes(error.message) ? error.message : 'Failed to edit message'
       });
+    }
+  }
+
+  async handleAddReaction(socket, data) {
+    try {
+      const { error, value } = messageValidation.addReactionEvent.validate(data);
+
+      if (error) {
+        socket.emit('message_error', { message: error.details[0].message });
+        return;
+      }
+
+      const reaction = await ReactionService.addReaction(value.messageId, socket.user.id, value.envelope);
+
+      await this.broadcastToConversation(reaction.conversationId, 'reaction_added', reaction);
     } catch (error) {
-      socket.emit('message_error', { message: 'Failed to send message' });
+      const knownErrors = [
+        'Message not found',
+        'Access denied to this conversation',
+        'Conversation key is out of date',
+        'Too many reactions on this message'
+      ];
+
+      socket.emit('message_error', {
+        message: knownErrors.includes(error.message) ? error.message : 'Failed to add reaction'
+      });
+    }
+  }
+
+  async handleRemoveReaction(socket, data) {
+    try {
+      const { error, value } = messageValidation.removeReactionEvent.validate(data);
+
+      if (error) {
+        socket.emit('message_error', { message: error.details[0].message });
+        return;
+      }
+
+      const removal = await ReactionService.removeReaction(value.messageId, value.reactionId, socket.user.id);
+
+      await this.broadcastToConversation(removal.conversationId, 'reaction_removed', removal);
+    } catch (error) {
+      const knownErrors = [
+        'Message not found',
+        'Access denied to this conversation',
+        'Reaction not found',
+        'You can only remove your own reactions'
+      ];
+
+      socket.emit('message_error', {
+        message: knownErrors.includes(error.message) ? error.message : 'Failed to remove reaction'
+      });
+    }
+  }
+
+  /**
+   * A recipient's device acknowledges messages it received; each sender
+   * hears about it on all of their sockets
+   */
+  async handleMessageDelivered(socket, data) {
+    try {
+      const { error, value } = messageValidation.delivered.validate(data);
+
+      if (error) {
+        socket.emit('error', { message: error.details[0].message });
+        return;
+      }
+
+      const delivered = await MessageService.markMessagesDelivered(value.messageIds, socket.user.id);
+      const deliveredAt = new Date();
+
+      delivered.forEach(({ messageId, conversationId, senderId }) => {
+        this.sendToUser(senderId, 'message_status', {
+          messageId,
+          conversationId,
+          userId: socket.user.id,
+          status: 'delivered',
+          updatedAt: deliveredAt
+        });
+      });
+    } catch (error) {
+      // Silent fail, the client acknowledges again when it next loads the conversation
     }
   }
 
@@ -280,6 +507,44 @@ class SocketHandler {
     });
   }
 
+  // Send to the sockets of one of a user's devices
+  sendToDevice(userId, deviceId, event, data) {
+    this.getUserSockets(userId).forEach(socketId => {
+      const socket = this.io.sockets.sockets.get(socketId);
+      if (socket && socket.device?.deviceId === deviceId) {
+        socket.emit(event, data);
+      }
+    });
+  }
+
+  // Take a removed member out of the conversation room on all their sockets
+  removeUserFromConversation(userId, conversationId) {
+    const roomName = `conversation_${conversationId}`;
+
+    this.getUserSockets(userId).forEach(socketId => {
+      const socket = this.io.sockets.sockets.get(socketId);
+      if (socket) {
+        socket.leave(roomName);
+        socket.emit('conversation_removed', { conversationId });
+      }
+    });
+  }
+
+  // Drop a revoked device's connections; its token is refused from now on
+  disconnectDevice(userId, deviceId) {
+    this.getUserSockets(userId).forEach(socketId => {
+      const socket = this.io.sockets.sockets.get(socketId);
+      if (socket && socket.device?.deviceId === deviceId) {
+        socket.disconnect(true);
+      }
+    });
+  }
+
+  // Send to sockets that opened the conversation; only they have its messages loaded
+  broadcastToRoom(conversationId, event, data) {
+    this.io.to(`conversation_${conversationId}`).emit(event, data);
+  }
+
   // Utility method to broadcast to conversation participants
   async broadcastToConversation(conversationId, event, data, excludeUserId = null) {
     try {
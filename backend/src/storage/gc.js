@@ -0,0 +1,38 @@
+/**
+ * Attachment garbage collection, for running from cron instead of (or as
+ * well as) the server's own schedule
+ */
+
+require('dotenv').config();
+const db = require('../database/connection');
+const AttachmentService = require('../services/attachmentService');
+
+async function collectAll() {
+  let total = 0;
+
+  // Each run handles one batch; keep going until the backlog is cleared
+  for (;;) {
+    const { collected, remaining } = await AttachmentService.collectGarbage();
+    total += collected;
+
+    if (!remaining || collected === 0) {
+      break;
+    }
+  }
+
+  console.log(`🧹 Collected ${total} unused attachments`);
+  return total;
+}
+
+// Run collection if this file is executed directly
+if (require.main === module) {
+  collectAll()
+    .then(() => db.close())
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+module.exports = collectAll;
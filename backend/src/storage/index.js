@@ -0,0 +1,65 @@
+/**
+ * Attachment Storage
+ * Picks the blob store for encrypted attachment chunks from STORAGE_DRIVER.
+ *
+ * Every driver implements:
+ *   putChunk(attachmentId, index, data)
+ *   getChunkSize(attachmentId, index)      -> bytes, or null if missing
+ *   getChunkStream(attachmentId, index)    -> readable stream
+ *   deleteAttachment(attachmentId, chunkCount)
+ *   getUploadUrl(attachmentId, index, size) -> { url, method, headers }
+ *   getDownloadUrl(attachmentId, index)     -> url
+ * URLs may be relative to the API when the API serves the blobs itself.
+ */
+
+const path = require('path');
+const FilesystemDriver = require('./filesystemDriver');
+
+// Presigned URLs stay valid for an hour unless configured otherwise
+const URL_TTL = parseInt(process.env.STORAGE_URL_TTL) || 3600;
+
+let storage = null;
+
+const createStorage = () => {
+  const driver = process.env.STORAGE_DRIVER || 'filesystem';
+
+  if (driver === 's3') {
+    // Only deployments using S3 load the SDK
+    const S3Driver = require('./s3Driver');
+
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET is required when STORAGE_DRIVER is s3');
+    }
+
+    return new S3Driver({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      urlTtl: URL_TTL
+    });
+  }
+
+  if (driver === 'filesystem') {
+    return new FilesystemDriver({
+      directory: process.env.ATTACHMENT_DIR || path.join(__dirname, '../../uploads'),
+      signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET,
+      urlTtl: URL_TTL
+    });
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+};
+
+const getStorage = () => {
+  if (!storage) {
+    storage = createStorage();
+    console.log(`🗄️  Attachment storage: ${storage.name}`);
+  }
+
+  return storage;
+};
+
+module.exports = { getStorage };
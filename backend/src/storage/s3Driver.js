@@ -0,0 +1,105 @@
+/**
+ * S3 Storage Driver
+ * Keeps attachment chunks in an S3-compatible bucket (AWS S3, MinIO, ...).
+ * Browsers upload and download chunks directly with presigned URLs.
+ */
+
+const {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectsCommand
+} = require('@aws-sdk/client-s3');
+const { getSignedUrl } = require('@aws-sdk/s3-request-presigner');
+
+class S3Driver {
+  constructor({ bucket, region, endpoint, accessKeyId, secretAccessKey, forcePathStyle, urlTtl }) {
+    this.name = 's3';
+    this.bucket = bucket;
+    this.urlTtl = urlTtl;
+    this.client = new S3Client({
+      region,
+      endpoint,
+      forcePathStyle,
+      credentials: accessKeyId ? { accessKeyId, secretAccessKey } : undefined
+    });
+  }
+
+  getKey(attachmentId, index) {
+    return `attachments/${attachmentId}/${index}`;
+  }
+
+  async putChunk(attachmentId, index, data) {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.getKey(attachmentId, index),
+      Body: data,
+      ContentType: 'application/octet-stream'
+    }));
+  }
+
+  async getChunkSize(attachmentId, index) {
+    try {
+      const head = await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: this.getKey(attachmentId, index)
+      }));
+      return head.ContentLength;
+    } catch (error) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getChunkStream(attachmentId, index) {
+    const object = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.getKey(attachmentId, index)
+    }));
+    return object.Body;
+  }
+
+  async deleteAttachment(attachmentId, chunkCount) {
+    const objects = Array.from({ length: chunkCount }, (_, index) => ({ Key: this.getKey(attachmentId, index) }));
+
+    await this.client.send(new DeleteObjectsCommand({
+      Bucket: this.bucket,
+      Delete: { Objects: objects, Quiet: true }
+    }));
+  }
+
+  async getUploadUrl(attachmentId, index, size) {
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.getKey(attachmentId, index),
+      ContentLength: size,
+      ContentType: 'application/octet-stream'
+    });
+
+    // Signing the length stops a client from storing more than it declared
+    const url = await getSignedUrl(this.client, command, {
+      expiresIn: this.urlTtl,
+      signableHeaders: new Set(['content-length', 'content-type'])
+    });
+
+    return {
+      url,
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' }
+    };
+  }
+
+  async getDownloadUrl(attachmentId, index) {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.getKey(attachmentId, index)
+    });
+
+    return getSignedUrl(this.client, command, { expiresIn: this.urlTtl });
+  }
+}
+
+module.exports = S3Driver;
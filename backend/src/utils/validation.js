@@ -1,5 +1,29 @@
 const Joi = require('joi');
 
+// A key backup as the client seals it; recoveryAuthKey is derived from the
+// recovery code and only its hash is stored
+const keyBackupSchema = Joi.object({
+  recoveryAuthKey: Joi.string()
+    .hex()
+    .length(64)
+    .required()
+    .messages({
+      'any.required': 'Recovery key is required'
+    }),
+
+  recoveryWrappedKey: Joi.string()
+    .max(1000)
+    .required(),
+
+  masterWrappedKey: Joi.string()
+    .max(1000)
+    .required(),
+
+  encryptedIdentityKey: Joi.string()
+    .max(5000)
+    .required()
+});
+
 const userValidation = {
   register: Joi.object({
     username: Joi.string()
@@ -38,11 +62,30 @@ const userValidation = {
         'any.required': 'Public key is required for encryption'
       }),
     
+    encryptedPrivateKey: Joi.string()
+      .required()
+      .messages({
+        'any.required': 'Encrypted private key is required for encryption'
+      }),
+    
+    privateKeyIv: Joi.string()
+      .hex()
+      .max(32)
+      .required()
+      .messages({
+        'string.hex': 'Private key IV must be hex encoded',
+        'string.max': 'Private key IV must be at most 32 characters long',
+        'any.required': 'Private key IV is required for encryption'
+      }),
+    
     masterKeySalt: Joi.string()
       .required()
       .messages({
         'any.required': 'Master key salt is required for encryption'
-      })
+      }),
+
+    // Recovery code backup of the identity key, set up with the account
+    keyBackup: keyBackupSchema
   }),
 
   login: Joi.object({
@@ -57,38 +100,654 @@ const userValidation = {
       .messages({
         'any.required': 'Password is required'
       })
+  }),
+
+  changePassword: Joi.object({
+    currentPassword: Joi.string()
+      .required()
+      .messages({
+        'any.required': 'Current password is required'
+      }),
+
+    newPassword: Joi.string()
+      .min(8)
+      .pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*[0-9])(?=.*[!@#\\$%\\^&\\*])'))
+      .required()
+      .messages({
+        'string.min': 'Password must be at least 8 characters long',
+        'string.pattern.base': 'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character',
+        'any.required': 'New password is required'
+      }),
+
+    masterKeySalt: Joi.string()
+      .required()
+      .messages({
+        'any.required': 'Master key salt is required for encryption'
+      }),
+
+    encryptedPrivateKey: Joi.string()
+      .required()
+      .messages({
+        'any.required': 'Encrypted private key is required for encryption'
+      }),
+
+    privateKeyIv: Joi.string()
+      .hex()
+      .max(32)
+      .required(),
+
+    // Every conversation key copy stored under the old master key, re-wrapped
+    conversationKeys: Joi.array()
+      .items(Joi.object({
+        conversationId: Joi.string().max(64).required(),
+        keyId: Joi.string().max(32).required(),
+        encryptedAesKey: Joi.string().required(),
+        iv: Joi.string().required()
+      }))
+      .default([]),
+
+    // The key backup's key re-wrapped under the new master key, if there is a backup
+    masterWrappedKey: Joi.string()
+      .max(1000)
   })
 };
 
+// Versioned ciphertext envelope; only AES-256-GCM (v1) is accepted for new messages
+const envelopeSchema = Joi.object({
+  v: Joi.number()
+    .valid(1)
+    .required()
+    .messages({
+      'any.only': 'Unsupported envelope version',
+      'any.required': 'Envelope version is required'
+    }),
+
+  alg: Joi.string()
+    .valid('A256GCM')
+    .required()
+    .messages({
+      'any.only': 'Unsupported encryption algorithm',
+      'any.required': 'Encryption algorithm is required'
+    }),
+
+  keyId: Joi.string()
+    .max(32)
+    .allow(null)
+    .required()
+    .messages({
+      'string.max': 'Key ID must be at most 32 characters long',
+      'any.required': 'Key ID is required'
+    }),
+
+  iv: Joi.string()
+    .hex()
+    .length(24)
+    .required()
+    .messages({
+      'string.length': 'IV must be exactly 24 characters long',
+      'any.required': 'IV is required for encryption'
+    }),
+
+  ct: Joi.string()
+    .base64()
+    .required()
+    .messages({
+      'string.base64': 'Ciphertext must be base64 encoded',
+      'any.required': 'Message content is required'
+    }),
+
+  tag: Joi.string()
+    .hex()
+    .length(32)
+    .required()
+    .messages({
+      'string.length': 'Authentication tag must be exactly 32 characters long',
+      'any.required': 'Authentication tag is required'
+    })
+});
+
+// Double Ratchet header; preKey carries the X3DH setup until the peer replies
+const ratchetHeaderSchema = Joi.object({
+  dh: Joi.string()
+    .base64()
+    .required()
+    .messages({
+      'any.required': 'Ratchet public key is required'
+    }),
+
+  pn: Joi.number()
+    .integer()
+    .min(0)
+    .required(),
+
+  n: Joi.number()
+    .integer()
+    .min(0)
+    .required(),
+
+  preKey: Joi.object({
+    identityKey: Joi.string().base64().required(),
+    ephemeralKey: Joi.string().base64().required(),
+    signedPreKeyId: Joi.number().integer().required(),
+    oneTimePreKeyId: Joi.number().integer()
+  })
+});
+
+// A reaction is a single emoji, so its ciphertext stays small
+const reactionEnvelopeSchema = envelopeSchema.keys({
+  ct: Joi.string()
+    .base64()
+    .max(256)
+    .required()
+    .messages({
+      'string.base64': 'Ciphertext must be base64 encoded',
+      'string.max': 'Reaction is too long',
+      'any.required': 'Reaction content is required'
+    })
+});
+
+// File, image and voice messages point at a finished upload; text messages never do
+const attachmentIdSchema = Joi.string()
+  .guid()
+  .when('messageType', {
+    is: Joi.valid('file', 'image', 'audio'),
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  })
+  .messages({
+    'string.guid': 'Attachment ID must be a valid ID',
+    'any.required': 'Attachment ID is required for file, image and voice messages',
+    'any.unknown': 'Text messages cannot have an attachment'
+  });
+
 const messageValidation = {
   send: Joi.object({
+    conversationId: Joi.number()
+      .integer()
+      .positive()
+      .messages({
+        'number.integer': 'Conversation ID must be a valid integer',
+        'number.positive': 'Conversation ID must be positive'
+      }),
+
     recipientId: Joi.number()
       .integer()
       .positive()
-      .required()
       .messages({
         'number.integer': 'Recipient ID must be a valid integer',
-        'number.positive': 'Recipient ID must be positive',
-        'any.required': 'Recipient ID is required'
+        'number.positive': 'Recipient ID must be positive'
       }),
     
-    encryptedContent: Joi.string()
+    envelope: envelopeSchema
       .required()
       .messages({
-        'any.required': 'Message content is required'
+        'any.required': 'Encrypted message envelope is required'
+      }),
+
+    ratchetHeader: ratchetHeaderSchema
+      .allow(null)
+      .default(null),
+
+    replyToMessageId: Joi.number()
+      .integer()
+      .positive()
+      .allow(null)
+      .default(null)
+      .messages({
+        'number.positive': 'Reply target must be a valid message ID'
       }),
     
-    iv: Joi.string()
-      .length(32)
+    messageType: Joi.string()
+      .valid('text', 'file', 'image', 'audio')
+      .default('text'),
+
+    attachmentId: attachmentIdSchema
+  })
+    .xor('conversationId', 'recipientId')
+    .messages({
+      'object.missing': 'Conversation ID or recipient ID is required',
+      'object.xor': 'Provide either a conversation ID or a recipient ID, not both'
+    }),
+
+  // Query string for a page of history; at most one cursor
+  page: Joi.object({
+    limit: Joi.number()
+      .integer()
+      .min(1)
+      .max(100)
+      .default(50)
+      .messages({
+        'number.max': 'At most 100 messages can be loaded at once'
+      }),
+
+    before: Joi.number()
+      .integer()
+      .positive(),
+
+    after: Joi.number()
+      .integer()
+      .positive()
+  })
+    .oxor('before', 'after')
+    .messages({
+      'object.oxor': 'Provide either a before or an after cursor, not both'
+    }),
+
+  // Edits are never ratchet messages, see MessageService.editMessage
+  edit: Joi.object({
+    envelope: envelopeSchema
+      .required()
+      .messages({
+        'any.required': 'Encrypted message envelope is required'
+      })
+  }),
+
+  editEvent: Joi.object({
+    messageId: Joi.number()
+      .integer()
+      .positive()
       .required()
       .messages({
-        'string.length': 'IV must be exactly 32 characters long',
-        'any.required': 'IV is required for encryption'
+        'any.required': 'Message ID is required'
       }),
-    
+
+    envelope: envelopeSchema
+      .required()
+      .messages({
+        'any.required': 'Encrypted message envelope is required'
+      })
+  }),
+
+  reaction: Joi.object({
+    envelope: reactionEnvelopeSchema
+      .required()
+      .messages({
+        'any.required': 'Encrypted reaction envelope is required'
+      })
+  }),
+
+  addReactionEvent: Joi.object({
+    messageId: Joi.number()
+      .integer()
+      .positive()
+      .required()
+      .messages({
+        'any.required': 'Message ID is required'
+      }),
+
+    envelope: reactionEnvelopeSchema
+      .required()
+      .messages({
+        'any.required': 'Encrypted reaction envelope is required'
+      })
+  }),
+
+  removeReactionEvent: Joi.object({
+    messageId: Joi.number()
+      .integer()
+      .positive()
+      .required()
+      .messages({
+        'any.required': 'Message ID is required'
+      }),
+
+    reactionId: Joi.number()
+      .integer()
+      .positive()
+      .required()
+      .messages({
+        'any.required': 'Reaction ID is required'
+      })
+  }),
+
+  // "me" hides the message for the caller, "everyone" (sender only) leaves a tombstone
+  delete: Joi.object({
+    mode: Joi.string()
+      .valid('me', 'everyone')
+      .default('everyone')
+      .messages({
+        'any.only': 'Delete mode must be "me" or "everyone"'
+      })
+  }),
+
+  delivered: Joi.object({
+    messageIds: Joi.array()
+      .items(Joi.number().integer().positive())
+      .min(1)
+      .max(100)
+      .unique()
+      .required()
+      .messages({
+        'array.max': 'At most 100 messages can be acknowledged at once',
+        'any.required': 'Message IDs are required'
+      })
+  }),
+
+  // Loaded messages a client checks are still there after being offline
+  visible: Joi.object({
+    messageIds: Joi.array()
+      .items(Joi.number().integer().positive())
+      .min(1)
+      .max(500)
+      .unique()
+      .required()
+      .messages({
+        'array.max': 'At most 500 messages can be checked at once',
+        'any.required': 'Message IDs are required'
+      })
+  }),
+
+  create: Joi.object({
+    conversationId: Joi.alternatives()
+      .try(Joi.number().integer().positive(), Joi.string())
+      .required()
+      .messages({
+        'any.required': 'Conversation ID is required'
+      }),
+
+    envelope: envelopeSchema
+      .required()
+      .messages({
+        'any.required': 'Encrypted message envelope is required'
+      }),
+
+    ratchetHeader: ratchetHeaderSchema
+      .allow(null)
+      .default(null),
+
+    replyToMessageId: Joi.number()
+      .integer()
+      .positive()
+      .allow(null)
+      .default(null)
+      .messages({
+        'number.positive': 'Reply target must be a valid message ID'
+      }),
+
     messageType: Joi.string()
-      .valid('text')
-      .default('text')
+      .valid('text', 'file', 'image', 'audio')
+      .default('text'),
+
+    attachmentId: attachmentIdSchema
+  })
+};
+
+const preKeyValidation = {
+  upload: Joi.object({
+    signedPreKey: Joi.object({
+      keyId: Joi.number().integer().min(0).required(),
+      publicKey: Joi.string().base64().required(),
+      signature: Joi.string().base64().required()
+    }),
+
+    oneTimePreKeys: Joi.array()
+      .items(Joi.object({
+        keyId: Joi.number().integer().min(0).required(),
+        publicKey: Joi.string().base64().required()
+      }))
+      .min(1)
+      .max(100)
+      .messages({
+        'array.max': 'At most 100 one-time prekeys can be uploaded at once'
+      })
+  })
+    .or('signedPreKey', 'oneTimePreKeys')
+    .messages({
+      'object.missing': 'A signed prekey or one-time prekeys are required'
+    })
+};
+
+const groupNameSchema = Joi.string()
+  .trim()
+  .min(1)
+  .max(100)
+  .required()
+  .messages({
+    'string.empty': 'Group name is required',
+    'string.max': 'Group name must not exceed 100 characters',
+    'any.required': 'Group name is required'
+  });
+
+const participantIdsSchema = Joi.array()
+  .items(Joi.number().integer().positive())
+  .min(1)
+  .max(49)
+  .unique()
+  .required()
+  .messages({
+    'array.min': 'At least one participant is required',
+    'array.max': 'Groups can have at most 50 members',
+    'array.unique': 'Participants must not be repeated',
+    'any.required': 'Participant IDs are required'
+  });
+
+const conversationKeyValidation = {
+  rotate: Joi.object({
+    conversationId: Joi.string()
+      .guid()
+      .required()
+      .messages({
+        'any.required': 'Conversation ID is required'
+      }),
+
+    epoch: Joi.number()
+      .integer()
+      .min(2)
+      .required()
+      .messages({
+        'number.min': 'Rotation must start a new key epoch',
+        'any.required': 'Key epoch is required'
+      }),
+
+    keyId: Joi.string()
+      .hex()
+      .max(32)
+      .required(),
+
+    conversationKeys: Joi.object()
+      .pattern(Joi.string().guid(), Joi.object({
+        keyId: Joi.string(),
+        encryptedAesKey: Joi.string().required(),
+        iv: Joi.string().required(),
+        ephemeralPublicKey: Joi.string().base64()
+      }))
+      .min(1)
+      .required()
+      .messages({
+        'object.min': 'The new key must be wrapped for at least one device'
+      })
+  })
+};
+
+const deviceValidation = {
+  session: Joi.object({
+    deviceId: Joi.string()
+      .guid()
+      .required()
+      .messages({
+        'any.required': 'Device ID is required'
+      }),
+
+    name: Joi.string()
+      .trim()
+      .min(1)
+      .max(100)
+      .required()
+      .messages({
+        'string.max': 'Device name must not exceed 100 characters',
+        'any.required': 'Device name is required'
+      }),
+
+    publicKey: Joi.string()
+      .base64()
+      .max(500)
+      .required()
+      .messages({
+        'any.required': 'Device public key is required'
+      }),
+
+    timestamp: Joi.number()
+      .integer()
+      .positive()
+      .required(),
+
+    signature: Joi.string()
+      .base64()
+      .max(200)
+      .required()
+      .messages({
+        'any.required': 'Device signature is required'
+      }),
+
+    // The user's identity key signing this device's public key
+    keySignature: Joi.string()
+      .base64()
+      .max(200)
+      .required()
+      .messages({
+        'any.required': 'Device key signature is required'
+      })
+  }),
+
+  approve: Joi.object({
+    conversationKeys: Joi.array()
+      .items(Joi.object({
+        conversationId: Joi.string().guid().required(),
+        keyId: Joi.string().hex().max(32).required(),
+        encryptedAesKey: Joi.string().required(),
+        iv: Joi.string().required(),
+        ephemeralPublicKey: Joi.string().base64().required()
+      }))
+      .max(10000)
+      .required()
+      .messages({
+        'array.max': 'At most 10000 conversation keys can be shared at once'
+      })
+  })
+};
+
+const keyBackupValidation = {
+  // Set up a backup under a new recovery code, with the keyring so far
+  backup: keyBackupSchema.keys({
+    encryptedKeyring: Joi.string()
+      .max(10 * 1024 * 1024)
+      .allow(null)
+      .default(null)
+  }),
+
+  keyring: Joi.object({
+    encryptedKeyring: Joi.string()
+      .max(10 * 1024 * 1024)
+      .required()
+      .messages({
+        'any.required': 'Encrypted keyring is required'
+      }),
+
+    // The version the client read and merged into
+    version: Joi.number()
+      .integer()
+      .min(0)
+      .required()
+  }),
+
+  recover: Joi.object({
+    username: Joi.string()
+      .required()
+      .messages({
+        'any.required': 'Username is required'
+      }),
+
+    recoveryAuthKey: Joi.string()
+      .hex()
+      .length(64)
+      .required()
+      .messages({
+        'any.required': 'Recovery key is required'
+      })
+  }),
+
+  completeRecovery: Joi.object({
+    username: Joi.string()
+      .required()
+      .messages({
+        'any.required': 'Username is required'
+      }),
+
+    recoveryAuthKey: Joi.string()
+      .hex()
+      .length(64)
+      .required()
+      .messages({
+        'any.required': 'Recovery key is required'
+      }),
+
+    newPassword: Joi.string()
+      .min(8)
+      .pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*[0-9])(?=.*[!@#\\$%\\^&\\*])'))
+      .required()
+      .messages({
+        'string.min': 'Password must be at least 8 characters long',
+        'string.pattern.base': 'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character',
+        'any.required': 'New password is required'
+      }),
+
+    masterKeySalt: Joi.string()
+      .required()
+      .messages({
+        'any.required': 'Master key salt is required for encryption'
+      }),
+
+    encryptedPrivateKey: Joi.string()
+      .required()
+      .messages({
+        'any.required': 'Encrypted private key is required for encryption'
+      }),
+
+    privateKeyIv: Joi.string()
+      .hex()
+      .max(32)
+      .required(),
+
+    masterWrappedKey: Joi.string()
+      .max(1000)
+      .required(),
+
+    // The recovering browser, registered as the account's only device
+    device: deviceValidation.session
+      .required()
+      .messages({
+        'any.required': 'Device is required'
+      })
+  }),
+
+  // Backed up keys wrapped to the recovering device's key
+  restore: Joi.object({
+    conversationKeys: Joi.array()
+      .items(Joi.object({
+        conversationId: Joi.string().max(64).required(),
+        keyId: Joi.string().hex().max(32).required(),
+        encryptedAesKey: Joi.string().required(),
+        iv: Joi.string().required(),
+        ephemeralPublicKey: Joi.string().base64().required()
+      }))
+      .max(10000)
+      .required()
+      .messages({
+        'array.max': 'At most 10000 conversation keys can be restored at once'
+      })
+  })
+};
+
+const keyLogValidation = {
+  // Query string for a key proof; since is the size of the last tree head the client checked
+  proof: Joi.object({
+    since: Joi.number()
+      .integer()
+      .min(0)
+      .default(0)
+      .messages({
+        'number.base': 'Tree size must be a number'
+      })
   })
 };
 
@@ -103,6 +762,86 @@ const conversationValidation = {
         'number.positive': 'Participant ID must be positive',
         'any.required': 'Participant ID is required'
       })
+  }),
+
+  createGroup: Joi.object({
+    name: groupNameSchema,
+
+    participantIds: participantIdsSchema
+  }),
+
+  rename: Joi.object({
+    name: groupNameSchema
+  }),
+
+  addParticipants: Joi.object({
+    participantIds: participantIdsSchema
+  }),
+
+  // Between five seconds and four weeks, or null to turn disappearing messages off
+  disappearing: Joi.object({
+    seconds: Joi.number()
+      .integer()
+      .min(5)
+      .max(4 * 7 * 24 * 60 * 60)
+      .allow(null)
+      .required()
+      .messages({
+        'number.integer': 'Timer must be a whole number of seconds',
+        'number.min': 'Timer must be at least 5 seconds',
+        'number.max': 'Timer can be at most 4 weeks',
+        'any.required': 'Timer is required'
+      }),
+
+    start: Joi.string()
+      .valid('sent', 'read')
+      .default('sent')
+      .messages({
+        'any.only': 'Timer must start when a message is sent or read'
+      })
+  }),
+
+  markRead: Joi.object({
+    messageId: Joi.number()
+      .integer()
+      .positive()
+      .messages({
+        'number.integer': 'Message ID must be a valid integer',
+        'number.positive': 'Message ID must be positive'
+      })
+  })
+};
+
+const attachmentValidation = {
+  create: Joi.object({
+    conversationId: Joi.number()
+      .integer()
+      .positive()
+      .required()
+      .messages({
+        'number.integer': 'Conversation ID must be a valid integer',
+        'number.positive': 'Conversation ID must be positive',
+        'any.required': 'Conversation ID is required'
+      }),
+
+    // Encrypted size in bytes
+    size: Joi.number()
+      .integer()
+      .positive()
+      .required()
+      .messages({
+        'any.required': 'Attachment size is required'
+      }),
+
+    chunkCount: Joi.number()
+      .integer()
+      .min(1)
+      .max(100)
+      .required()
+      .messages({
+        'number.max': 'Attachments can have at most 100 chunks',
+        'any.required': 'Chunk count is required'
+      })
   })
 };
 
@@ -128,6 +867,12 @@ function validateRequest(schema) {
 module.exports = {
   userValidation,
   messageValidation,
+  preKeyValidation,
+  conversationKeyValidation,
+  deviceValidation,
+  keyBackupValidation,
+  keyLogValidation,
   conversationValidation,
+  attachmentValidation,
   validateRequest
 };
@@ -3,16 +3,20 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { Toaster } from 'react-hot-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useSocket } from '@/hooks/useSocket';
+import { useLockStore } from '@/store/lockStore';
 
 // Pages
 import LoginPage from '@/pages/LoginPage';
 import RegisterPage from '@/pages/RegisterPage';
+import RecoverAccountPage from '@/pages/RecoverAccountPage';
 import ChatPage from '@/pages/ChatPage';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import LockScreen from '@/components/LockScreen';
 
 function App() {
   const { isAuthenticated, isLoading, verifyToken } = useAuth();
   const { isConnected } = useSocket();
+  const isLocked = useLockStore(state => state.isLocked);
 
   useEffect(() => {
     // Verify token on app start
@@ -43,10 +47,16 @@ function App() {
               isAuthenticated ? <Navigate to="/chat" replace /> : <RegisterPage />
             } 
           />
+          <Route
+            path="/recover"
+            element={
+              isAuthenticated ? <Navigate to="/chat" replace /> : <RecoverAccountPage />
+            }
+          />
           <Route 
             path="/chat" 
             element={
-              isAuthenticated ? <ChatPage /> : <Navigate to="/login" replace />
+              isAuthenticated ? (isLocked ? <LockScreen /> : <ChatPage />) : <Navigate to="/login" replace />
             } 
           />
           <Route 
@@ -91,7 +101,7 @@ function App() {
         />
 
         {/* Connection status indicator */}
-        {isAuthenticated && !isConnected && (
+        {isAuthenticated && !isLocked && !isConnected && (
           <div className="fixed bottom-4 left-4 bg-yellow-100 border border-yellow-300 text-yellow-800 px-4 py-2 rounded-lg shadow-lg flex items-center space-x-2 z-50">
             <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse"></div>
             <span className="text-sm font-medium">Reconnecting...</span>
@@ -0,0 +1,130 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { validatePassword } from '@/utils/password';
+
+interface ChangePasswordProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ChangePasswordFormData {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+const ChangePassword: React.FC<ChangePasswordProps> = ({ isOpen, onClose }) => {
+  const { changePassword } = useAuth();
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting }
+  } = useForm<ChangePasswordFormData>();
+  const watchNewPassword = watch('newPassword');
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    try {
+      await changePassword(data.currentPassword, data.newPassword);
+      toast.success('Password changed. Your other devices have been signed out.');
+      onClose();
+    } catch (error) {
+      console.error('Failed to change password:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change password');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Change password</h3>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+          >
+            <XMarkIcon className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="p-4 space-y-4">
+          <div>
+            <input
+              {...register('currentPassword', { required: 'Current password is required' })}
+              type="password"
+              className="form-input"
+              placeholder="Current password"
+              autoComplete="current-password"
+            />
+            {errors.currentPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.currentPassword.message}</p>
+            )}
+          </div>
+
+          <div>
+            <input
+              {...register('newPassword', {
+                required: 'New password is required',
+                validate: validatePassword
+              })}
+              type="password"
+              className="form-input"
+              placeholder="New password"
+              autoComplete="new-password"
+            />
+            {errors.newPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.newPassword.message}</p>
+            )}
+          </div>
+
+          <div>
+            <input
+              {...register('confirmPassword', {
+                required: 'Please confirm your new password',
+                validate: (value) =>
+                  value === watchNewPassword || 'Passwords do not match'
+              })}
+              type="password"
+              className="form-input"
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+            />
+            {errors.confirmPassword && (
+              <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Your keys are re-encrypted under the new password. Your other devices are signed out and
+            need to be approved again after signing in.
+          </p>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="btn-primary w-full flex items-center justify-center"
+          >
+            {isSubmitting ? (
+              <>
+                <LoadingSpinner size="sm" className="mr-2" />
+                Re-encrypting keys...
+              </>
+            ) : (
+              'Change password'
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePassword;
@@ -1,54 +1,237 @@
-import React from 'react';
-import { InformationCircleIcon } from '@heroicons/react/24/outline';
-import type { Conversation } from '@shared/types';
-import EncryptionService from '@/utils/encryption';
+import React, { useState, useEffect } from 'react';
+import {
+  ClockIcon,
+  ExclamationTriangleIcon,
+  ShieldCheckIcon,
+  InformationCircleIcon,
+  UserGroupIcon,
+  UserPlusIcon,
+  UserMinusIcon,
+  PencilIcon,
+  ArrowRightOnRectangleIcon
+} from '@heroicons/react/24/outline';
+import type { Conversation, User } from '@shared/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useChatStore } from '@/store/chatStore';
+import { useContactKeyStore } from '@/store/contactKeyStore';
+import { formatTimer, getConversationTitle, getMemberList, getOtherParticipants } from '@/utils/conversation';
+import UserSearch from '@/components/UserSearch';
+import VerifyContact from '@/components/VerifyContact';
+import toast from 'react-hot-toast';
+
+// Timers offered in the disappearing messages menu
+const TIMER_OPTIONS = [
+  { seconds: 30, label: '30 seconds' },
+  { seconds: 5 * 60, label: '5 minutes' },
+  { seconds: 60 * 60, label: '1 hour' },
+  { seconds: 24 * 60 * 60, label: '1 day' },
+  { seconds: 7 * 24 * 60 * 60, label: '1 week' }
+];
 
 interface ChatHeaderProps {
   conversation: Conversation;
 }
 
 const ChatHeader: React.FC<ChatHeaderProps> = ({ conversation }) => {
-  const { otherUser } = conversation;
+  const { user } = useAuth();
+  const { renameConversation, removeParticipant, setDisappearingMessages, ratchetUnavailable } = useChatStore();
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [isTimerOpen, setIsTimerOpen] = useState(false);
+  const [isAddingMembers, setIsAddingMembers] = useState(false);
+  const [editedName, setEditedName] = useState<string | null>(null);
+  const [verifyingContact, setVerifyingContact] = useState<User | null>(null);
+  const { contacts, checkKeys } = useContactKeyStore();
+
+  const isGroup = conversation.type === 'group';
+  const isCreator = conversation.createdBy === user?.id;
+  const title = getConversationTitle(conversation, user?.id);
+  const [otherUser] = getOtherParticipants(conversation, user?.id);
+  const disappearing = conversation.disappearingMessages;
+  const changedContacts = getOtherParticipants(conversation, user?.id)
+    .filter(participant => contacts[participant.id]?.changedKey);
+  const unloggedContacts = getOtherParticipants(conversation, user?.id)
+    .filter(participant => contacts[participant.id]?.unlogged && !contacts[participant.id]?.changedKey);
+  const warningContacts = [...changedContacts, ...unloggedContacts];
+
+  // Pin members' keys the first time we see them; a different key than the pin, or one missing from
+  // the key log, raises the warning below
+  useEffect(() => {
+    checkKeys(conversation.participants)
+      .catch(error => console.error('Failed to check contact keys:', error));
+  }, [conversation.participants]);
+
+  const getVerificationLabel = (participant: User) => {
+    const pin = contacts[participant.id];
+    if (pin?.changedKey) return 'Security key changed';
+    if (pin?.unlogged) return 'Key not in key log';
+    return pin?.verified ? 'Verified' : 'Not verified';
+  };
+
+  const hasKeyWarning = (participant: User) =>
+    Boolean(contacts[participant.id]?.changedKey || contacts[participant.id]?.unlogged);
+
+  const handleRename = async () => {
+    const name = editedName?.trim();
+    setEditedName(null);
+
+    if (!name || name === conversation.name) return;
 
-  const getKeyFingerprint = () => {
     try {
-      return EncryptionService.generateKeyFingerprint(otherUser.publicKey);
+      await renameConversation(conversation.id, name);
     } catch (error) {
-      return 'Invalid key';
+      toast.error('Failed to rename group');
+    }
+  };
+
+  const handleTimerChange = async (seconds: number | null, start: 'sent' | 'read' = disappearing?.start ?? 'sent') => {
+    try {
+      await setDisappearingMessages(conversation.id, seconds, start);
+    } catch (error) {
+      toast.error('Failed to change disappearing messages');
+    }
+  };
+
+  const handleRemove = async (participant: User) => {
+    const isSelf = participant.id === user?.id;
+
+    try {
+      await removeParticipant(conversation.id, participant.id);
+      toast.success(isSelf ? `Left ${title}` : `Removed ${participant.username}`);
+    } catch (error) {
+      toast.error(isSelf ? 'Failed to leave group' : 'Failed to remove member');
     }
   };
 
   return (
-    <div className="bg-white border-b border-gray-200 px-4 py-3">
+    <div className="relative bg-white border-b border-gray-200 px-4 py-3">
       <div className="flex items-center justify-between">
-        <div className="flex items-center space-x-3">
+        <div className="flex items-center space-x-3 min-w-0">
           {/* Avatar */}
-          <div className="w-10 h-10 bg-primary-600 rounded-full flex items-center justify-center">
-            <span className="text-white font-semibold text-sm">
-              {otherUser.username.charAt(0).toUpperCase()}
-            </span>
+          <div className="w-10 h-10 flex-shrink-0 bg-primary-600 rounded-full flex items-center justify-center">
+            {isGroup ? (
+              <UserGroupIcon className="w-5 h-5 text-white" />
+            ) : (
+              <span className="text-white font-semibold text-sm">
+                {title.charAt(0).toUpperCase()}
+              </span>
+            )}
           </div>
 
-          {/* User Info */}
-          <div>
-            <h2 className="font-semibold text-gray-900">
-              {otherUser.username}
-            </h2>
+          {/* Conversation Info */}
+          <div className="min-w-0">
+            {editedName !== null ? (
+              <input
+                type="text"
+                value={editedName}
+                onChange={(e) => setEditedName(e.target.value)}
+                onBlur={handleRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setEditedName(null);
+                }}
+                className="form-input py-1 text-sm"
+                maxLength={100}
+                autoFocus
+              />
+            ) : (
+              <h2 className="font-semibold text-gray-900 truncate">
+                {title}
+              </h2>
+            )}
             <div className="flex items-center space-x-2 text-xs text-gray-500">
-              <span className="flex items-center">
+              <span className="flex items-center flex-shrink-0">
                 🔒 End-to-end encrypted
               </span>
+              {disappearing && (
+                <>
+                  <span>•</span>
+                  <span
+                    className="flex items-center flex-shrink-0 text-amber-600"
+                    title={`Messages disappear ${formatTimer(disappearing.seconds)} after they are ${disappearing.start === 'read' ? 'read' : 'sent'}`}
+                  >
+                    ⏳ {formatTimer(disappearing.seconds)}
+                  </span>
+                </>
+              )}
+              {!isGroup && ratchetUnavailable[conversation.id] && (
+                <>
+                  <span>•</span>
+                  <span
+                    className="flex items-center flex-shrink-0 text-amber-600"
+                    title={`You or ${title} use more than one device, so messages are encrypted with the shared conversation key instead of a Double Ratchet session, without forward secrecy`}
+                  >
+                    <ExclamationTriangleIcon className="w-3 h-3 mr-0.5" />
+                    No forward secrecy
+                  </span>
+                </>
+              )}
               <span>•</span>
-              <span title={`Key fingerprint: ${getKeyFingerprint()}`}>
-                Key: {getKeyFingerprint()}
-              </span>
+              {isGroup ? (
+                <span className="truncate" title={getMemberList(conversation, user?.id)}>
+                  {conversation.participants.length} members: {getMemberList(conversation, user?.id)}
+                </span>
+              ) : otherUser && (
+                <button
+                  onClick={() => setVerifyingContact(otherUser)}
+                  className={`flex items-center flex-shrink-0 hover:underline ${
+                    hasKeyWarning(otherUser) ? 'text-red-600'
+                      : contacts[otherUser.id]?.verified ? 'text-green-600' : ''
+                  }`}
+                >
+                  {contacts[otherUser.id]?.verified && !hasKeyWarning(otherUser) && (
+                    <ShieldCheckIcon className="w-3 h-3 mr-0.5" />
+                  )}
+                  {getVerificationLabel(otherUser)}
+                </button>
+              )}
             </div>
           </div>
         </div>
 
         {/* Actions */}
         <div className="flex items-center space-x-2">
+          {isGroup && (
+            <>
+              <button
+                onClick={() => setEditedName(conversation.name ?? '')}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Rename group"
+              >
+                <PencilIcon className="w-5 h-5 text-gray-600" />
+              </button>
+              <button
+                onClick={() => setIsAddingMembers(true)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Add members"
+              >
+                <UserPlusIcon className="w-5 h-5 text-gray-600" />
+              </button>
+            </>
+          )}
+          {!isGroup && otherUser && (
+            <button
+              onClick={() => setVerifyingContact(otherUser)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Verify contact"
+            >
+              <ShieldCheckIcon className={`w-5 h-5 ${contacts[otherUser.id]?.verified ? 'text-green-600' : 'text-gray-600'}`} />
+            </button>
+          )}
           <button
+            onClick={() => {
+              setIsTimerOpen(!isTimerOpen);
+              setIsMembersOpen(false);
+            }}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Disappearing messages"
+          >
+            <ClockIcon className={`w-5 h-5 ${disappearing ? 'text-amber-600' : 'text-gray-600'}`} />
+          </button>
+          <button
+            onClick={() => {
+              setIsMembersOpen(!isMembersOpen);
+              setIsTimerOpen(false);
+            }}
             className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
             title="Conversation info"
           >
@@ -56,6 +239,155 @@ const ChatHeader: React.FC<ChatHeaderProps> = ({ conversation }) => {
           </button>
         </div>
       </div>
+
+      {/* Key Change Warning */}
+      {warningContacts.length > 0 && (
+        <div className="mt-3 -mx-4 -mb-3 px-4 py-2 bg-red-50 border-t border-red-200 flex items-center justify-between text-sm text-red-800">
+          <span className="flex items-center min-w-0">
+            <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0 text-red-600" />
+            <span className="truncate">
+              {changedContacts.length > 0 && (
+                <>
+                  {changedContacts.map(participant => participant.username).join(', ')}
+                  {changedContacts.length === 1 ? "'s security key has" : "'s security keys have"} changed.{' '}
+                </>
+              )}
+              {unloggedContacts.length > 0 && (
+                <>
+                  {unloggedContacts.map(participant => participant.username).join(', ')}
+                  {unloggedContacts.length === 1 ? "'s security key is" : "'s security keys are"} missing from the key log.{' '}
+                </>
+              )}
+              Verify before sending anything sensitive.
+            </span>
+          </span>
+          <button
+            onClick={() => setVerifyingContact(warningContacts[0])}
+            className="ml-3 flex-shrink-0 font-medium underline"
+          >
+            Review
+          </button>
+        </div>
+      )}
+
+      {/* Disappearing Messages */}
+      {isTimerOpen && (
+        <div className="absolute right-4 top-full mt-1 w-64 bg-white rounded-lg shadow-lg border border-gray-200 z-40">
+          <div className="px-4 py-2 border-b border-gray-100">
+            <p className="text-sm font-medium text-gray-900">Disappearing messages</p>
+            <p className="text-xs text-gray-500">Applies to new messages, for everyone in this chat</p>
+          </div>
+          <div className="py-1">
+            <button
+              onClick={() => handleTimerChange(null)}
+              className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-50 ${!disappearing ? 'font-medium text-primary-700' : 'text-gray-700'}`}
+            >
+              Off
+            </button>
+            {TIMER_OPTIONS.map(option => (
+              <button
+                key={option.seconds}
+                onClick={() => handleTimerChange(option.seconds)}
+                className={`w-full px-4 py-2 text-left text-sm hover:bg-gray-50 ${
+                  disappearing?.seconds === option.seconds ? 'font-medium text-primary-700' : 'text-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {disappearing && (
+            <div className="px-4 py-2 border-t border-gray-100 flex items-center justify-between text-xs text-gray-600">
+              <span>Start the timer</span>
+              <select
+                value={disappearing.start}
+                onChange={(e) => handleTimerChange(disappearing.seconds, e.target.value as 'sent' | 'read')}
+                className="border border-gray-300 rounded px-1 py-0.5"
+              >
+                <option value="sent">when sent</option>
+                <option value="read">when read</option>
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Member List */}
+      {isMembersOpen && (
+        <div className="absolute right-4 top-full mt-1 w-72 bg-white rounded-lg shadow-lg border border-gray-200 z-40">
+          <div className="px-4 py-2 text-sm font-medium text-gray-900 border-b border-gray-100">
+            Members ({conversation.participants.length})
+          </div>
+          <div className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+            {conversation.participants.map((participant) => (
+              <div key={participant.id} className="px-4 py-2 flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900 truncate">
+                    {participant.id === user?.id ? 'You' : participant.username}
+                    {participant.id === conversation.createdBy && isGroup && (
+                      <span className="ml-1 text-xs text-gray-500">(creator)</span>
+                    )}
+                  </p>
+                  {participant.id === user?.id ? (
+                    <p className="text-xs text-gray-500 truncate">Your key</p>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        setVerifyingContact(participant);
+                        setIsMembersOpen(false);
+                      }}
+                      className={`text-xs hover:underline ${
+                        hasKeyWarning(participant) ? 'text-red-600'
+                          : contacts[participant.id]?.verified ? 'text-green-600' : 'text-gray-500'
+                      }`}
+                    >
+                      {getVerificationLabel(participant)}
+                    </button>
+                  )}
+                </div>
+
+                {isGroup && isCreator && participant.id !== user?.id && (
+                  <button
+                    onClick={() => handleRemove(participant)}
+                    className="p-1 hover:bg-red-50 rounded transition-colors"
+                    title={`Remove ${participant.username}`}
+                  >
+                    <UserMinusIcon className="w-4 h-4 text-red-600" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {isGroup && user && (
+            <button
+              onClick={() => handleRemove(user)}
+              className="w-full px-4 py-2 text-left text-sm text-red-600 hover:bg-red-50 flex items-center border-t border-gray-100"
+            >
+              <ArrowRightOnRectangleIcon className="w-4 h-4 mr-2" />
+              Leave group
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Verify Contact Modal */}
+      {verifyingContact && (
+        <VerifyContact
+          contact={verifyingContact}
+          isOpen={!!verifyingContact}
+          onClose={() => setVerifyingContact(null)}
+        />
+      )}
+
+      {/* Add Members Modal */}
+      {isAddingMembers && (
+        <UserSearch
+          isOpen={isAddingMembers}
+          onClose={() => setIsAddingMembers(false)}
+          conversation={conversation}
+        />
+      )}
     </div>
   );
 };
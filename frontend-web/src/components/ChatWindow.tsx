@@ -2,6 +2,7 @@ import React, { useEffect, useRef } from 'react';
 import type { Conversation } from '@shared/types';
 import { useChatStore } from '@/store/chatStore';
 import { useTyping } from '@/hooks/useTyping';
+import { getParticipantName } from '@/utils/conversation';
 import ChatHeader from '@/components/ChatHeader';
 import MessageList from '@/components/MessageList';
 import MessageInput from '@/components/MessageInput';
@@ -16,16 +17,31 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ conversation }) => {
   const { 
     messages, 
     isLoadingMessages,
+    markConversationRead,
     error 
   } = useChatStore();
 
-  const { isOthersTyping } = useTyping(conversation.id);
+  const { isOthersTyping, typingUserIds } = useTyping(conversation.id);
+  const typingNames = typingUserIds.map(userId => getParticipantName(conversation, userId));
   const conversationMessages = messages[conversation.id] || [];
+  const latestMessageId = conversationMessages[conversationMessages.length - 1]?.id;
 
   useEffect(() => {
-    // Auto scroll to bottom when new messages arrive
+    // Auto scroll to bottom when new messages arrive, not when older ones load
     scrollToBottom();
-  }, [conversationMessages.length]);
+  }, [latestMessageId]);
+
+  useEffect(() => {
+    // Messages that arrived while the tab was hidden are read once it is shown
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        markConversationRead(conversation.id);
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [conversation.id, markConversationRead]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -58,7 +74,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ conversation }) => {
                     <div className="typing-dot"></div>
                     <div className="typing-dot"></div>
                   </div>
-                  <span>{conversation.otherUser.username} is typing...</span>
+                  <span>
+                    {typingNames.join(', ')} {typingNames.length > 1 ? 'are' : 'is'} typing...
+                  </span>
                 </div>
               </div>
             )}
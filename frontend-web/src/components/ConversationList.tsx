@@ -1,7 +1,9 @@
 import React from 'react';
 import { formatDistanceToNow } from 'date-fns';
+import { UserGroupIcon } from '@heroicons/react/24/outline';
 import { useChatStore } from '@/store/chatStore';
 import { useAuth } from '@/hooks/useAuth';
+import { getConversationTitle, getMessagePreview, getParticipantName } from '@/utils/conversation';
 import type { Conversation } from '@shared/types';
 
 const ConversationList: React.FC = () => {
@@ -10,7 +12,7 @@ const ConversationList: React.FC = () => {
     conversations, 
     currentConversation, 
     selectConversation,
-    decryptMessage 
+    decryptedContents
   } = useChatStore();
 
   const handleSelectConversation = (conversation: Conversation) => {
@@ -22,37 +24,11 @@ const ConversationList: React.FC = () => {
       return 'No messages yet';
     }
 
-    // If we don't have an IV, we can't decrypt - show generic message
-    if (!conversation.lastMessage.iv) {
-      return '🔒 Encrypted message';
-    }
-
-    // Check if we have the otherUser data needed for decryption
-    if (!conversation.otherUser?.publicKey) {
-      return '🔒 Encrypted message';
-    }
-
-    // Try to decrypt the last message for preview
-    try {
-      const decrypted = decryptMessage(
-        {
-          id: 0,
-          conversationId: conversation.id,
-          senderId: conversation.lastMessage.senderId,
-          senderUsername: '',
-          encryptedContent: conversation.lastMessage.content,
-          iv: conversation.lastMessage.iv,
-          messageType: 'text',
-          createdAt: conversation.lastMessage.timestamp
-        },
-        conversation.otherUser.publicKey
-      );
-      
-      if (decrypted) {
-        return decrypted.length > 50 ? `${decrypted.substring(0, 50)}...` : decrypted;
-      }
-    } catch (error) {
-      console.warn('Failed to decrypt last message preview:', error);
+    // Previews come from messages already decrypted in this session
+    const decrypted = decryptedContents[conversation.lastMessage.id];
+    if (decrypted) {
+      const preview = getMessagePreview(conversation.lastMessage.messageType, decrypted);
+      return preview.length > 50 ? `${preview.substring(0, 50)}...` : preview;
     }
     
     return '🔒 Encrypted message';
@@ -65,6 +41,11 @@ const ConversationList: React.FC = () => {
       return 'You: ';
     }
     
+    // Group previews say who sent the message
+    if (conversation.type === 'group') {
+      return `${getParticipantName(conversation, conversation.lastMessage.senderId)}: `;
+    }
+    
     return '';
   };
 
@@ -87,9 +68,7 @@ const ConversationList: React.FC = () => {
   return (
     <div className="h-full overflow-y-auto scrollbar-thin">
       <div className="divide-y divide-gray-200">
-        {conversations
-          .filter(conversation => conversation.otherUser) // Filter out conversations with undefined otherUser
-          .map((conversation) => (
+        {conversations.map((conversation) => (
           <div
             key={conversation.id}
             onClick={() => handleSelectConversation(conversation)}
@@ -103,9 +82,13 @@ const ConversationList: React.FC = () => {
               {/* Avatar */}
               <div className="flex-shrink-0">
                 <div className="w-12 h-12 bg-primary-600 rounded-full flex items-center justify-center">
-                  <span className="text-white font-semibold">
-                    {conversation.otherUser?.username?.charAt(0).toUpperCase() || '?'}
-                  </span>
+                  {conversation.type === 'group' ? (
+                    <UserGroupIcon className="w-6 h-6 text-white" />
+                  ) : (
+                    <span className="text-white font-semibold">
+                      {getConversationTitle(conversation, user?.id).charAt(0).toUpperCase()}
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -113,7 +96,7 @@ const ConversationList: React.FC = () => {
               <div className="flex-1 min-w-0">
                 <div className="flex items-center justify-between">
                   <h3 className="font-semibold text-gray-900 truncate">
-                    {conversation.otherUser?.username || 'Unknown User'}
+                    {getConversationTitle(conversation, user?.id)}
                   </h3>
                   {conversation.lastMessage && (
                     <span className="text-xs text-gray-500 flex-shrink-0">
@@ -124,11 +107,16 @@ const ConversationList: React.FC = () => {
                   )}
                 </div>
                 
-                <div className="flex items-center mt-1">
-                  <p className="text-sm text-gray-600 truncate">
+                <div className="flex items-center justify-between mt-1">
+                  <p className={`text-sm truncate ${conversation.unreadCount ? 'text-gray-900 font-medium' : 'text-gray-600'}`}>
                     {getMessageSenderName(conversation)}
                     {getLastMessagePreview(conversation)}
                   </p>
+                  {!!conversation.unreadCount && (
+                    <span className="ml-2 flex-shrink-0 min-w-[1.25rem] px-1.5 py-0.5 bg-primary-600 text-white text-xs font-semibold rounded-full text-center">
+                      {conversation.unreadCount > 99 ? '99+' : conversation.unreadCount}
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,54 @@
+import React, { useState, useEffect } from 'react';
+import { DevicePhoneMobileIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline';
+import encryptionManager from '@/services/encryptionManager';
+import { useAuth } from '@/hooks/useAuth';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+// Shown on a new device until one of the user's other devices approves it
+const DeviceApprovalPending: React.FC = () => {
+  const [verificationCode, setVerificationCode] = useState<string | null>(null);
+  const { logout } = useAuth();
+  const device = encryptionManager.getCurrentSession()?.device;
+
+  useEffect(() => {
+    if (!device) return;
+
+    encryptionManager.getDeviceVerificationCode(device.keyPair.publicKey)
+      .then(setVerificationCode)
+      .catch(error => console.error('Failed to derive verification code:', error));
+  }, [device?.deviceId]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 text-center">
+        <div className="w-16 h-16 bg-primary-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <DevicePhoneMobileIcon className="w-8 h-8 text-primary-600" />
+        </div>
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">Approve this device</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Your messages are encrypted for the devices you already use. Open EncryptedChat on one of them,
+          go to Settings → Devices and approve <span className="font-medium">{device?.name}</span> if it shows this code:
+        </p>
+
+        <div className="text-3xl font-mono tracking-widest text-gray-900 mb-4">
+          {verificationCode ? `${verificationCode.slice(0, 3)} ${verificationCode.slice(3)}` : <LoadingSpinner size="sm" className="mx-auto" />}
+        </div>
+
+        <div className="flex items-center justify-center text-sm text-gray-500 mb-6">
+          <LoadingSpinner size="sm" className="mr-2" />
+          Waiting for approval...
+        </div>
+
+        <button
+          onClick={logout}
+          className="inline-flex items-center px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+        >
+          <ArrowRightOnRectangleIcon className="w-4 h-4 mr-2" />
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceApprovalPending;
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { XMarkIcon, ComputerDesktopIcon, CheckIcon, TrashIcon } from '@heroicons/react/24/outline';
+import encryptionManager from '@/services/encryptionManager';
+import { useDeviceStore } from '@/store/deviceStore';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import type { Device } from '@shared/types';
+import toast from 'react-hot-toast';
+
+interface DeviceManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DeviceManager: React.FC<DeviceManagerProps> = ({ isOpen, onClose }) => {
+  const [verificationCodes, setVerificationCodes] = useState<Record<string, string>>({});
+  const [busyDeviceId, setBusyDeviceId] = useState<string | null>(null);
+  const { devices, isLoadingDevices, loadDevices, approveDevice, revokeDevice } = useDeviceStore();
+
+  useEffect(() => {
+    if (isOpen) {
+      loadDevices();
+    }
+  }, [isOpen]);
+
+  // Pending devices show the same code as the screen of the device asking to join
+  useEffect(() => {
+    devices
+      .filter(device => device.status === 'pending' && !verificationCodes[device.deviceId])
+      .forEach(device => {
+        encryptionManager.getDeviceVerificationCode(device.publicKey)
+          .then(code => setVerificationCodes(codes => ({ ...codes, [device.deviceId]: code })))
+          .catch(error => console.error('Failed to derive verification code:', error));
+      });
+  }, [devices]);
+
+  const handleApprove = async (device: Device) => {
+    try {
+      setBusyDeviceId(device.deviceId);
+      await approveDevice(device);
+      toast.success(`${device.name} linked`);
+    } catch (error) {
+      console.error('Failed to approve device:', error);
+      toast.error('Failed to approve device');
+    } finally {
+      setBusyDeviceId(null);
+    }
+  };
+
+  const handleRevoke = async (device: Device) => {
+    try {
+      setBusyDeviceId(device.deviceId);
+      await revokeDevice(device.deviceId);
+      toast.success(device.status === 'pending' ? 'Request declined' : `${device.name} signed out`);
+    } catch (error) {
+      console.error('Failed to revoke device:', error);
+      toast.error('Failed to revoke device');
+    } finally {
+      setBusyDeviceId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[32rem] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Devices</h3>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+          >
+            <XMarkIcon className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Device List */}
+        <div className="flex-1 overflow-y-auto">
+          {isLoadingDevices && devices.length === 0 ? (
+            <div className="p-4 flex justify-center">
+              <LoadingSpinner size="md" />
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {devices.map((device) => (
+                <div key={device.deviceId} className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <ComputerDesktopIcon className="w-6 h-6 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">
+                          {device.name}
+                          {device.current && <span className="ml-2 text-xs text-primary-600">This device</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {device.status === 'pending'
+                            ? `Asked to join ${formatDistanceToNow(new Date(device.createdAt), { addSuffix: true })}`
+                            : `Last active ${formatDistanceToNow(new Date(device.lastSeenAt), { addSuffix: true })}`}
+                        </p>
+                      </div>
+                    </div>
+
+                    {busyDeviceId === device.deviceId ? (
+                      <LoadingSpinner size="sm" />
+                    ) : !device.current && (
+                      <div className="flex items-center space-x-1 flex-shrink-0">
+                        {device.status === 'pending' && (
+                          <button
+                            onClick={() => handleApprove(device)}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded transition-colors"
+                            title="Approve"
+                          >
+                            <CheckIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleRevoke(device)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                          title={device.status === 'pending' ? 'Decline' : 'Sign out device'}
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {device.status === 'pending' && !device.current && (
+                    <p className="mt-2 text-xs text-gray-600">
+                      Approve only if the new device shows{' '}
+                      <span className="font-mono font-semibold text-gray-900">
+                        {verificationCodes[device.deviceId] ?? '······'}
+                      </span>
+                      . It will be able to read all of your conversations.
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceManager;
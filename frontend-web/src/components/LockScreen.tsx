@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { LockClosedIcon, ArrowRightOnRectangleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useLockStore } from '@/store/lockStore';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+// Shown while the encryption keys are wiped; the password or this device's PIN reopens them
+const LockScreen: React.FC = () => {
+  const [secret, setSecret] = useState('');
+  const [usePassword, setUsePassword] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const { user, logout } = useAuth();
+  const { hasPin, unlockWithPassword, unlockWithPin } = useLockStore();
+  const withPin = hasPin && !usePassword;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!secret) return;
+
+    try {
+      setIsUnlocking(true);
+      if (withPin) {
+        await unlockWithPin(secret);
+      } else {
+        await unlockWithPassword(secret);
+      }
+    } catch (error) {
+      console.error('Failed to unlock:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock');
+      setSecret('');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-sm w-full space-y-8">
+        <div className="text-center">
+          <div className="mx-auto h-16 w-16 bg-primary-600 rounded-full flex items-center justify-center">
+            <LockClosedIcon className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="mt-6 text-2xl font-bold text-gray-900">
+            EncryptedChat is locked
+          </h2>
+          {user && (
+            <p className="mt-2 text-sm text-gray-600">
+              Signed in as <span className="font-medium">{user.username}</span>
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="unlock-secret" className="block text-sm font-medium text-gray-700 mb-2">
+                {withPin ? 'PIN' : 'Password'}
+              </label>
+              <input
+                id="unlock-secret"
+                type="password"
+                inputMode={withPin ? 'numeric' : undefined}
+                value={secret}
+                onChange={(event) => setSecret(event.target.value)}
+                className="form-input"
+                placeholder={withPin ? 'Enter your PIN' : 'Enter your password'}
+                autoComplete={withPin ? 'off' : 'current-password'}
+                autoFocus
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isUnlocking || !secret}
+              className="btn-primary w-full flex items-center justify-center"
+            >
+              {isUnlocking ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Unlocking...
+                </>
+              ) : (
+                'Unlock'
+              )}
+            </button>
+          </form>
+
+          <div className="mt-4 flex items-center justify-between text-sm">
+            {hasPin ? (
+              <button
+                onClick={() => {
+                  setUsePassword(!usePassword);
+                  setSecret('');
+                }}
+                className="text-primary-600 hover:text-primary-500 transition-colors"
+              >
+                {usePassword ? 'Use PIN instead' : 'Use password instead'}
+              </button>
+            ) : <span />}
+
+            <button
+              onClick={logout}
+              className="inline-flex items-center text-red-600 hover:text-red-500 transition-colors"
+            >
+              <ArrowRightOnRectangleIcon className="w-4 h-4 mr-1" />
+              Sign out
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
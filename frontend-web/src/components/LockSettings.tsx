@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { XMarkIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import { useLockStore } from '@/store/lockStore';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface LockSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TIMEOUT_OPTIONS = [1, 5, 15, 30];
+const PIN_PATTERN = /^\d{4,8}$/;
+
+const LockSettings: React.FC<LockSettingsProps> = ({ isOpen, onClose }) => {
+  const [password, setPassword] = useState('');
+  const [pin, setPin] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { settings, hasPin, updateSettings, setPin: savePin, removePin, lock } = useLockStore();
+
+  const handleSetPin = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!PIN_PATTERN.test(pin)) {
+      toast.error('PIN must be 4 to 8 digits');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await savePin(password, pin);
+      setPassword('');
+      setPin('');
+      toast.success('PIN set for this device');
+    } catch (error) {
+      console.error('Failed to set PIN:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to set PIN');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemovePin = async () => {
+    try {
+      await removePin();
+      toast.success('PIN removed');
+    } catch (error) {
+      console.error('Failed to remove PIN:', error);
+      toast.error('Failed to remove PIN');
+    }
+  };
+
+  const handleLockNow = async () => {
+    onClose();
+    try {
+      await lock();
+    } catch (error) {
+      console.error('Failed to lock session:', error);
+      toast.error('Failed to lock');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Screen lock</h3>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+          >
+            <XMarkIcon className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="divide-y divide-gray-200">
+          {/* Idle lock */}
+          <div className="p-4 space-y-3">
+            <label className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-900">Lock when idle</span>
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(event) => updateSettings({ ...settings, enabled: event.target.checked })}
+                className="h-4 w-4 text-primary-600 rounded border-gray-300"
+              />
+            </label>
+
+            {settings.enabled && (
+              <label className="flex items-center justify-between">
+                <span className="text-sm text-gray-700">After</span>
+                <select
+                  value={settings.timeoutMinutes}
+                  onChange={(event) => updateSettings({ ...settings, timeoutMinutes: Number(event.target.value) })}
+                  className="form-input w-40 py-1"
+                >
+                  {TIMEOUT_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 1 ? '1 minute' : `${minutes} minutes`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Locking wipes your keys from this browser until you unlock it with your password or PIN.
+            </p>
+          </div>
+
+          {/* PIN */}
+          <div className="p-4">
+            {hasPin ? (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-700">A PIN unlocks this device</span>
+                <button
+                  onClick={handleRemovePin}
+                  className="text-sm text-red-600 hover:bg-red-50 px-2 py-1 rounded transition-colors"
+                >
+                  Remove PIN
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleSetPin} className="space-y-3">
+                <p className="text-sm font-medium text-gray-900">Unlock with a PIN</p>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                  className="form-input"
+                  placeholder="Current password"
+                  autoComplete="current-password"
+                />
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={pin}
+                  onChange={(event) => setPin(event.target.value)}
+                  className="form-input"
+                  placeholder="New PIN (4-8 digits)"
+                  autoComplete="off"
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving || !password || !pin}
+                  className="btn-primary w-full flex items-center justify-center"
+                >
+                  {isSaving ? <LoadingSpinner size="sm" /> : 'Set PIN'}
+                </button>
+                <p className="text-xs text-gray-500">
+                  The PIN stays on this device. After 5 wrong tries it is removed and your password is needed.
+                </p>
+              </form>
+            )}
+          </div>
+
+          {/* Lock now */}
+          <div className="p-4">
+            <button
+              onClick={handleLockNow}
+              className="w-full flex items-center justify-center px-4 py-2 text-sm text-gray-700 border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors"
+            >
+              <LockClosedIcon className="w-4 h-4 mr-2" />
+              Lock now
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LockSettings;
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, DocumentIcon, PauseIcon, PlayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import type { AttachmentPayload, Message } from '@shared/types';
+import attachmentService from '@/services/attachments';
+import { formatDuration } from '@/utils/conversation';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+interface MessageAttachmentProps {
+  message: Message;
+  payload: AttachmentPayload;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const saveBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Images are decrypted as soon as they render; other files only on request
+const ImagePreview: React.FC<{ payload: AttachmentPayload }> = ({ payload }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    attachmentService.download(payload)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => !cancelled && setFailed(true));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [payload.attachmentId]);
+
+  if (failed) {
+    return <p className="text-sm italic opacity-75">Image could not be decrypted</p>;
+  }
+
+  if (!url) {
+    return (
+      <div className="w-48 h-32 flex items-center justify-center">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  return (
+    <button onClick={() => window.open(url, '_blank', 'noopener')} className="block" title={payload.name}>
+      <img src={url} alt={payload.name} className="max-h-64 max-w-full rounded" />
+    </button>
+  );
+};
+
+// The waveform comes from the sender, so only well-formed bars are drawn
+const getWaveform = (payload: AttachmentPayload): number[] => {
+  if (!Array.isArray(payload.waveform)) {
+    return [];
+  }
+
+  return payload.waveform
+    .slice(0, 64)
+    .map(level => typeof level === 'number' && Number.isFinite(level) ? Math.min(100, Math.max(0, level)) : 0);
+};
+
+// Voice messages are only downloaded and decrypted once played
+const VoiceNotePlayer: React.FC<{ payload: AttachmentPayload }> = ({ payload }) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const waveform = getWaveform(payload);
+  const duration = typeof payload.duration === 'number' ? payload.duration : 0;
+
+  useEffect(() => {
+    return () => {
+      const audio = audioRef.current;
+      if (audio) {
+        audio.pause();
+        URL.revokeObjectURL(audio.src);
+      }
+    };
+  }, [payload.attachmentId]);
+
+  const loadAudio = async (): Promise<HTMLAudioElement> => {
+    if (audioRef.current) {
+      return audioRef.current;
+    }
+
+    const audio = new Audio(URL.createObjectURL(await attachmentService.download(payload)));
+    audio.ontimeupdate = () => {
+      setCurrentTime(audio.currentTime);
+      // MediaRecorder output often reports an infinite duration, so fall back to the sender's
+      const total = Number.isFinite(audio.duration) ? audio.duration : duration;
+      setProgress(total > 0 ? Math.min(1, audio.currentTime / total) : 0);
+    };
+    audio.onended = () => {
+      setIsPlaying(false);
+      setProgress(0);
+      setCurrentTime(0);
+    };
+    audioRef.current = audio;
+
+    return audio;
+  };
+
+  const handleToggle = async () => {
+    if (isPlaying) {
+      audioRef.current?.pause();
+      setIsPlaying(false);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const audio = await loadAudio();
+      await audio.play();
+      setIsPlaying(true);
+    } catch (error) {
+      toast.error('Failed to play voice message');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-3">
+      <button
+        onClick={handleToggle}
+        disabled={isLoading}
+        className="w-9 h-9 flex-shrink-0 flex items-center justify-center rounded-full bg-black bg-opacity-10 hover:bg-opacity-20 transition-colors"
+        title={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isLoading ? (
+          <LoadingSpinner size="sm" />
+        ) : isPlaying ? (
+          <PauseIcon className="w-5 h-5" />
+        ) : (
+          <PlayIcon className="w-5 h-5" />
+        )}
+      </button>
+      <div className="flex items-center h-8 space-x-px" aria-hidden="true">
+        {waveform.map((level, index) => (
+          <span
+            key={index}
+            className={`w-1 rounded-full ${index / waveform.length < progress ? 'bg-current' : 'bg-current opacity-40'}`}
+            style={{ height: `${Math.max(10, level)}%` }}
+          />
+        ))}
+      </div>
+      <span className="text-xs opacity-75 tabular-nums">
+        {formatDuration(isPlaying || currentTime > 0 ? currentTime : duration)}
+      </span>
+    </div>
+  );
+};
+
+const MessageAttachment: React.FC<MessageAttachmentProps> = ({ message, payload }) => {
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+
+    try {
+      saveBlob(await attachmentService.download(payload), payload.name);
+    } catch (error) {
+      toast.error('Failed to download file');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (message.messageType === 'image') {
+    return <ImagePreview payload={payload} />;
+  }
+
+  if (message.messageType === 'audio') {
+    return <VoiceNotePlayer payload={payload} />;
+  }
+
+  return (
+    <button
+      onClick={handleDownload}
+      disabled={isDownloading}
+      className="flex items-center space-x-3 text-left"
+      title="Download"
+    >
+      <DocumentIcon className="w-8 h-8 flex-shrink-0 opacity-75" />
+      <span className="min-w-0">
+        <span className="block text-sm font-medium truncate">{payload.name}</span>
+        <span className="block text-xs opacity-75">{formatFileSize(payload.size)}</span>
+      </span>
+      {isDownloading ? (
+        <LoadingSpinner size="sm" />
+      ) : (
+        <ArrowDownTrayIcon className="w-5 h-5 flex-shrink-0 opacity-75" />
+      )}
+    </button>
+  );
+};
+
+export default MessageAttachment;
@@ -1,10 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { PaperAirplaneIcon } from '@heroicons/react/24/solid';
+import { MicrophoneIcon, PaperClipIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import type { Conversation } from '@shared/types';
 import { useChatStore } from '@/store/chatStore';
 import { useTyping } from '@/hooks/useTyping';
+import { useAuth } from '@/hooks/useAuth';
+import { useVoiceRecorder, VoiceRecording } from '@/hooks/useVoiceRecorder';
+import { formatDuration, getConversationTitle, getMessagePreview } from '@/utils/conversation';
+import { MAX_ATTACHMENT_SIZE } from '@/services/attachments';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import toast from 'react-hot-toast';
+import { isAxiosError } from 'axios';
 
 interface MessageInputProps {
   conversation: Conversation;
@@ -16,10 +22,41 @@ const MessageInput: React.FC<MessageInputProps> = ({
   onMessageSent 
 }) => {
   const [message, setMessage] = useState('');
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const { sendMessage, isSendingMessage } = useChatStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+  const { sendMessage, sendAttachment, sendVoiceMessage, isSendingMessage, replyingTo, setReplyingTo, decryptMessage } = useChatStore();
   const { startTyping, stopTyping } = useTyping(conversation.id);
 
+  const sendRecording = async (recording: VoiceRecording | null) => {
+    if (!recording) {
+      return;
+    }
+
+    setUploadProgress(0);
+
+    try {
+      const { audio, ...voiceNote } = recording;
+      await sendVoiceMessage(audio, voiceNote, setUploadProgress);
+      onMessageSent?.();
+    } catch (error) {
+      console.error('Failed to send voice message:', error);
+      const quotaExceeded = isAxiosError(error) && error.response?.status === 413;
+      toast.error(quotaExceeded ? 'Your attachment storage is full' : 'Failed to send voice message');
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const voiceRecorder = useVoiceRecorder(sendRecording);
+
+  useEffect(() => {
+    if (replyingTo) {
+      textareaRef.current?.focus();
+    }
+  }, [replyingTo]);
+
   useEffect(() => {
     // Auto-resize textarea
     if (textareaRef.current) {
@@ -30,6 +67,11 @@ const MessageInput: React.FC<MessageInputProps> = ({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (voiceRecorder.isRecording) {
+      await sendRecording(await voiceRecorder.stop());
+      return;
+    }
     
     if (!message.trim() || isSendingMessage) {
       return;
@@ -60,6 +102,48 @@ const MessageInput: React.FC<MessageInputProps> = ({
     }
   };
 
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after a failure
+    e.target.value = '';
+
+    if (!file || isSendingMessage) {
+      return;
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast.error('Files can be at most 100 MB');
+      return;
+    }
+
+    setUploadProgress(0);
+
+    try {
+      await sendAttachment(file, setUploadProgress);
+      onMessageSent?.();
+    } catch (error) {
+      console.error('Failed to send attachment:', error);
+      const quotaExceeded = isAxiosError(error) && error.response?.status === 413;
+      toast.error(quotaExceeded ? 'Your attachment storage is full' : 'Failed to send attachment');
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleStartRecording = async () => {
+    if (isSendingMessage) {
+      return;
+    }
+
+    try {
+      await voiceRecorder.start();
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      const denied = error instanceof DOMException && error.name === 'NotAllowedError';
+      toast.error(denied ? 'Microphone access was denied' : 'Could not start recording');
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -83,41 +167,131 @@ const MessageInput: React.FC<MessageInputProps> = ({
     stopTyping();
   };
 
+  const replyContent = replyingTo ? decryptMessage(replyingTo) : null;
+
   return (
     <div className="bg-white border-t border-gray-200 p-4">
-      <form onSubmit={handleSubmit} className="flex items-end space-x-3">
-        {/* Message Input */}
-        <div className="flex-1">
-          <textarea
-            ref={textareaRef}
-            value={message}
-            onChange={handleInputChange}
-            onKeyPress={handleKeyPress}
-            onBlur={handleBlur}
-            placeholder={`Message ${conversation.otherUser.username}...`}
-            className="w-full resize-none border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 max-h-32"
-            rows={1}
-            disabled={isSendingMessage}
-          />
+      {/* Reply Preview */}
+      {replyingTo && (
+        <div className="mb-2 flex items-center justify-between bg-gray-50 border-l-2 border-primary-500 rounded px-3 py-2">
+          <div className="min-w-0 text-xs">
+            <p className="font-medium text-primary-700">
+              Replying to {replyingTo.senderId === user?.id ? 'yourself' : replyingTo.senderUsername}
+            </p>
+            <p className="text-gray-600 truncate">
+              {replyContent === null ? '🔒 Decrypting...' : getMessagePreview(replyingTo.messageType, replyContent)}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setReplyingTo(null)}
+            className="p-1 hover:bg-gray-200 rounded transition-colors"
+            title="Cancel reply"
+          >
+            <XMarkIcon className="w-4 h-4 text-gray-500" />
+          </button>
         </div>
+      )}
 
-        {/* Send Button */}
+      {/* Upload Progress */}
+      {uploadProgress !== null && (
+        <div className="mb-2">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>Encrypting and uploading...</span>
+            <span>{Math.round(uploadProgress * 100)}%</span>
+          </div>
+          <div className="h-1 bg-gray-200 rounded">
+            <div
+              className="h-1 bg-primary-600 rounded transition-all duration-200"
+              style={{ width: `${uploadProgress * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex items-end space-x-3">
+        {/* Attach Button */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleFileChange}
+        />
         <button
-          type="submit"
-          disabled={!message.trim() || isSendingMessage}
-          className={`p-3 rounded-lg transition-all duration-200 ${
-            message.trim() && !isSendingMessage
-              ? 'bg-primary-600 hover:bg-primary-700 text-white shadow-sm hover:shadow-md'
-              : 'bg-gray-200 text-gray-400 cursor-not-allowed'
-          }`}
-          title="Send message (Enter)"
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSendingMessage || voiceRecorder.isRecording}
+          className="p-3 rounded-lg text-gray-500 hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Attach a file"
         >
-          {isSendingMessage ? (
-            <LoadingSpinner size="sm" />
-          ) : (
-            <PaperAirplaneIcon className="w-5 h-5" />
-          )}
+          <PaperClipIcon className="w-5 h-5" />
         </button>
+
+        {/* Message Input, or the recording in progress */}
+        {voiceRecorder.isRecording ? (
+          <div className="flex-1 flex items-center justify-between border border-red-200 bg-red-50 rounded-lg px-4 py-3">
+            <div className="flex items-center space-x-2 text-sm text-red-700">
+              <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+              <span>Recording {formatDuration(voiceRecorder.elapsed)}</span>
+            </div>
+            <button
+              type="button"
+              onClick={voiceRecorder.cancel}
+              className="p-1 hover:bg-red-100 rounded transition-colors"
+              title="Discard recording"
+            >
+              <TrashIcon className="w-4 h-4 text-red-600" />
+            </button>
+          </div>
+        ) : (
+          <div className="flex-1">
+            <textarea
+              ref={textareaRef}
+              value={message}
+              onChange={handleInputChange}
+              onKeyPress={handleKeyPress}
+              onBlur={handleBlur}
+              placeholder={`Message ${getConversationTitle(conversation, user?.id)}...`}
+              className="w-full resize-none border border-gray-300 rounded-lg px-4 py-3 focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-colors duration-200 max-h-32"
+              rows={1}
+              disabled={isSendingMessage}
+            />
+          </div>
+        )}
+
+        {/* Record Button, until there is text to send */}
+        {!message.trim() && !voiceRecorder.isRecording ? (
+          <button
+            type="button"
+            onClick={handleStartRecording}
+            disabled={isSendingMessage}
+            className="p-3 rounded-lg bg-primary-600 hover:bg-primary-700 text-white shadow-sm hover:shadow-md transition-all duration-200 disabled:bg-gray-200 disabled:text-gray-400 disabled:shadow-none disabled:cursor-not-allowed"
+            title="Record a voice message"
+          >
+            {isSendingMessage ? (
+              <LoadingSpinner size="sm" />
+            ) : (
+              <MicrophoneIcon className="w-5 h-5" />
+            )}
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={(!message.trim() && !voiceRecorder.isRecording) || isSendingMessage}
+            className={`p-3 rounded-lg transition-all duration-200 ${
+              (message.trim() || voiceRecorder.isRecording) && !isSendingMessage
+                ? 'bg-primary-600 hover:bg-primary-700 text-white shadow-sm hover:shadow-md'
+                : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+            }`}
+            title="Send message (Enter)"
+          >
+            {isSendingMessage ? (
+              <LoadingSpinner size="sm" />
+            ) : (
+              <PaperAirplaneIcon className="w-5 h-5" />
+            )}
+          </button>
+        )}
       </form>
 
       {/* Encryption Notice */}
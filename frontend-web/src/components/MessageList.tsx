@@ -1,9 +1,16 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useLayoutEffect, useState } from 'react';
 import { format, isToday, isYesterday } from 'date-fns';
-import type { Message, Conversation } from '@shared/types';
+import { ArrowUturnLeftIcon, FaceSmileIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import type { Message, MessageDeleteMode, MessageStatus, Conversation } from '@shared/types';
 import { useAuth } from '@/hooks/useAuth';
 import { useTyping } from '@/hooks/useTyping';
 import { useChatStore } from '@/store/chatStore';
+import { getConversationTitle, getMessagePreview, getMessageStatus, parseAttachmentPayload } from '@/utils/conversation';
+import MessageAttachment from '@/components/MessageAttachment';
+import MessageRevisions from '@/components/MessageRevisions';
+import MessageThread from '@/components/MessageThread';
+import LoadingSpinner from '@/components/LoadingSpinner';
 
 interface MessageListProps {
   messages: Message[];
@@ -27,21 +34,241 @@ const TypingIndicator: React.FC = () => (
   </div>
 );
 
+const STATUS_LABELS: Record<MessageStatus, string> = {
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read'
+};
+
+const MessageStatusTicks: React.FC<{ status: MessageStatus }> = ({ status }) => (
+  <span
+    className={`ml-1 text-xs font-semibold ${status === 'read' ? 'text-primary-600' : 'text-gray-400'}`}
+    title={STATUS_LABELS[status]}
+  >
+    {status === 'sent' ? '✓' : '✓✓'}
+  </span>
+);
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+interface ReactionsBarProps {
+  message: Message;
+  currentUserId?: number;
+  onToggle: (emoji: string) => void;
+}
+
+// Reactions grouped by emoji, in the order they were first used
+const ReactionsBar: React.FC<ReactionsBarProps> = ({ message, currentUserId, onToggle }) => {
+  const { decryptedReactions } = useChatStore();
+  const groups = new Map<string, { count: number; reactedByMe: boolean }>();
+
+  message.reactions?.forEach(reaction => {
+    const emoji = decryptedReactions[reaction.id];
+    if (!emoji) return;
+
+    const group = groups.get(emoji) ?? { count: 0, reactedByMe: false };
+    groups.set(emoji, {
+      count: group.count + 1,
+      reactedByMe: group.reactedByMe || reaction.userId === currentUserId
+    });
+  });
+
+  if (groups.size === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {Array.from(groups, ([emoji, { count, reactedByMe }]) => (
+        <button
+          key={emoji}
+          onClick={() => onToggle(emoji)}
+          className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+            reactedByMe
+              ? 'bg-primary-50 border-primary-300 text-primary-700'
+              : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {emoji} {count}
+        </button>
+      ))}
+    </div>
+  );
+};
+
 const MessageList: React.FC<MessageListProps> = ({ messages, conversation }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const { user } = useAuth();
   const { isOthersTyping } = useTyping(conversation.id);
-  const { decryptMessage } = useChatStore();
+  const {
+    decryptMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    setReplyingTo,
+    loadOlderMessages,
+    hasMoreMessages,
+    isLoadingOlderMessages,
+    focusedMessage,
+    clearFocusedMessage
+  } = useChatStore();
+  // Scroll height and offset before older messages were prepended
+  const scrollAnchor = useRef<{ height: number; top: number } | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [editedText, setEditedText] = useState('');
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [deleteMenuMessageId, setDeleteMenuMessageId] = useState<number | null>(null);
+  const [reactionPickerMessageId, setReactionPickerMessageId] = useState<number | null>(null);
+  const [threadMessage, setThreadMessage] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+
+  const firstMessageId = messages[0]?.id;
+  const lastMessageId = messages[messages.length - 1]?.id;
 
   useEffect(() => {
-    // Scroll to bottom when messages change or when typing status changes
+    // Scroll to bottom when a new message arrives or when typing status changes
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages.length, isOthersTyping]);
+  }, [lastMessageId, isOthersTyping]);
+
+  useLayoutEffect(() => {
+    // Keep the same messages on screen after an older page is prepended
+    const anchor = scrollAnchor.current;
+    if (scrollRef.current && anchor) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight - anchor.height + anchor.top;
+      scrollAnchor.current = null;
+    }
+  }, [firstMessageId]);
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+
+    if (!container || container.scrollTop > 100 || !hasMoreMessages[conversation.id] || isLoadingOlderMessages) {
+      return;
+    }
+
+    scrollAnchor.current = { height: container.scrollHeight, top: container.scrollTop };
+    loadOlderMessages(conversation.id).catch(() => {
+      scrollAnchor.current = null;
+      toast.error('Failed to load older messages');
+    });
+  };
 
   const getDecryptedContent = (message: Message): string => {
-    return decryptMessage(message) || '[Failed to decrypt]';
+    return decryptMessage(message) ?? '🔒 Decrypting...';
+  };
+
+  // File and image messages show the attachment once their payload is decrypted
+  const renderMessageBody = (message: Message) => {
+    const payload = message.messageType !== 'text' ? parseAttachmentPayload(decryptMessage(message)) : null;
+
+    if (payload) {
+      return <MessageAttachment message={message} payload={payload} />;
+    }
+
+    return (
+      <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+        {getDecryptedContent(message)}
+      </p>
+    );
+  };
+
+  // Direct replies to each loaded message
+  const replyCounts = messages.reduce<Record<number, number>>((counts, message) => {
+    if (message.replyToMessageId) {
+      counts[message.replyToMessageId] = (counts[message.replyToMessageId] ?? 0) + 1;
+    }
+    return counts;
+  }, {});
+
+  const getQuotedMessage = (messageId: number) => messages.find(message => message.id === messageId);
+
+  // Older pages are loaded until the message turns up, within a limit
+  const jumpToMessage = async (
+    messageId: number,
+    { maxPages = 10, notFound = 'The original message is not available' } = {}
+  ) => {
+    let element = document.getElementById(`message-${messageId}`);
+
+    for (let page = 0; !element && page < maxPages; page++) {
+      const { hasMoreMessages: hasMore, messages: loaded } = useChatStore.getState();
+      const conversationMessages = loaded[conversation.id] || [];
+
+      if (!hasMore[conversation.id] || conversationMessages[0]?.id < messageId) {
+        break;
+      }
+
+      try {
+        await loadOlderMessages(conversation.id);
+      } catch (error) {
+        break;
+      }
+
+      // Let React render the new page before looking again
+      await new Promise(resolve => requestAnimationFrame(resolve));
+      element = document.getElementById(`message-${messageId}`);
+    }
+
+    if (!element) {
+      toast.error(notFound);
+      return;
+    }
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(current => current === messageId ? null : current), 2000);
+  };
+
+  // A search result picked elsewhere; search can reach much further back than quotes
+  useEffect(() => {
+    if (focusedMessage?.conversationId !== conversation.id) {
+      return;
+    }
+
+    clearFocusedMessage();
+    jumpToMessage(focusedMessage.messageId, {
+      maxPages: 100,
+      notFound: 'That message is no longer available'
+    });
+  }, [focusedMessage, conversation.id]);
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditedText(decryptMessage(message) ?? '');
+  };
+
+  const handleSaveEdit = async (message: Message) => {
+    const text = editedText.trim();
+    setEditingMessageId(null);
+
+    if (!text || text === decryptMessage(message)) return;
+
+    try {
+      await editMessage(message, text);
+    } catch (error) {
+      toast.error('Failed to edit message');
+    }
+  };
+
+  const handleDelete = async (message: Message, mode: MessageDeleteMode) => {
+    setDeleteMenuMessageId(null);
+
+    try {
+      await deleteMessage(message, mode);
+    } catch (error) {
+      toast.error('Failed to delete message');
+    }
+  };
+
+  const handleReaction = async (message: Message, emoji: string) => {
+    setReactionPickerMessageId(null);
+
+    try {
+      await toggleReaction(message, emoji);
+    } catch (error) {
+      toast.error('Failed to react to message');
+    }
   };
 
   const formatMessageTime = (timestamp: string): string => {
@@ -91,7 +318,7 @@ const MessageList: React.FC<MessageListProps> = ({ messages, conversation }) =>
             Start the conversation
           </h3>
           <p className="text-gray-500 max-w-sm">
-            Send a message to {conversation.otherUser.username} to begin your encrypted conversation.
+            Send a message to {getConversationTitle(conversation, user?.id)} to begin your encrypted conversation.
           </p>
         </div>
       </div>
@@ -101,15 +328,27 @@ const MessageList: React.FC<MessageListProps> = ({ messages, conversation }) =>
   return (
     <div 
       ref={scrollRef}
+      onScroll={handleScroll}
       className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin"
     >
+      {/* Older Messages; fixed height so the scroll position holds while a page loads */}
+      <div className="h-5 flex items-center justify-center">
+        {isLoadingOlderMessages ? (
+          <LoadingSpinner size="sm" />
+        ) : !hasMoreMessages[conversation.id] && (
+          <span className="text-xs text-gray-400">Beginning of conversation</span>
+        )}
+      </div>
+
       {messages.map((message, index) => {
         const isOwnMessage = message.senderId === user?.id;
         const previousMessage = index > 0 ? messages[index - 1] : undefined;
         const showDateSeparator = shouldShowDateSeparator(message, previousMessage);
 
+        const quotedMessage = message.replyToMessageId ? getQuotedMessage(message.replyToMessageId) : undefined;
+
         return (
-          <div key={message.id}>
+          <div key={message.id} id={`message-${message.id}`}>
             {/* Date Separator */}
             {showDateSeparator && (
               <div className="flex items-center justify-center my-4">
@@ -124,15 +363,154 @@ const MessageList: React.FC<MessageListProps> = ({ messages, conversation }) =>
             {/* Message */}
             <div className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
               <div className={`max-w-xs lg:max-w-md ${isOwnMessage ? 'order-1' : 'order-2'}`}>
+                {/* Sender name, for group conversations */}
+                {conversation.type === 'group' && !isOwnMessage && message.senderId !== previousMessage?.senderId && (
+                  <div className="mb-1 text-xs font-medium text-gray-600">
+                    {message.senderUsername}
+                  </div>
+                )}
+
                 {/* Message Bubble */}
-                <div 
-                  className={`message-bubble animate-message-in ${
-                    isOwnMessage ? 'sent' : 'received'
-                  }`}
-                >
-                  <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">
-                    {getDecryptedContent(message)}
-                  </p>
+                <div className="group relative">
+                  <div 
+                    className={`message-bubble animate-message-in ${
+                      isOwnMessage ? 'sent' : 'received'
+                    } ${highlightedMessageId === message.id ? 'ring-2 ring-primary-400' : ''}`}
+                  >
+                    {/* Quoted Reply */}
+                    {message.replyToMessageId && (
+                      <button
+                        onClick={() => jumpToMessage(message.replyToMessageId!)}
+                        className="block w-full mb-1 pl-2 border-l-2 border-current text-left text-xs opacity-75 hover:opacity-100"
+                      >
+                        {quotedMessage ? (
+                          <>
+                            <span className="font-medium">
+                              {quotedMessage.senderId === user?.id ? 'You' : quotedMessage.senderUsername}
+                            </span>
+                            <span className="block truncate">
+                              {getMessagePreview(quotedMessage.messageType, getDecryptedContent(quotedMessage))}
+                            </span>
+                          </>
+                        ) : (
+                          <span className="italic">Earlier message</span>
+                        )}
+                      </button>
+                    )}
+
+                    {editingMessageId === message.id ? (
+                      <textarea
+                        value={editedText}
+                        onChange={(e) => setEditedText(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleSaveEdit(message);
+                          }
+                          if (e.key === 'Escape') setEditingMessageId(null);
+                        }}
+                        onBlur={() => setEditingMessageId(null)}
+                        className="w-full min-w-[12rem] bg-transparent text-sm leading-relaxed resize-none focus:outline-none"
+                        rows={Math.min(6, editedText.split('\n').length)}
+                        maxLength={10000}
+                        autoFocus
+                      />
+                    ) : (
+                      renderMessageBody(message)
+                    )}
+                  </div>
+
+                  {/* Message Actions */}
+                  {editingMessageId !== message.id && (
+                    <div
+                      className={`absolute top-1/2 -translate-y-1/2 flex items-center opacity-0 group-hover:opacity-100 transition-opacity ${
+                        isOwnMessage ? 'right-full mr-1 flex-row-reverse' : 'left-full ml-1'
+                      }`}
+                    >
+                      <button
+                        onClick={() => setReplyingTo(message)}
+                        className="p-1 rounded hover:bg-gray-100"
+                        title="Reply"
+                      >
+                        <ArrowUturnLeftIcon className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button
+                        onClick={() => setReactionPickerMessageId(reactionPickerMessageId === message.id ? null : message.id)}
+                        className="p-1 rounded hover:bg-gray-100"
+                        title="React"
+                      >
+                        <FaceSmileIcon className="w-4 h-4 text-gray-500" />
+                      </button>
+                      <button
+                        onClick={() => setDeleteMenuMessageId(deleteMenuMessageId === message.id ? null : message.id)}
+                        className="p-1 rounded hover:bg-gray-100"
+                        title="Delete message"
+                      >
+                        <TrashIcon className="w-4 h-4 text-gray-500" />
+                      </button>
+                      {isOwnMessage && message.messageType === 'text' && decryptMessage(message) !== null && (
+                        <button
+                          onClick={() => startEditing(message)}
+                          className="p-1 rounded hover:bg-gray-100"
+                          title="Edit message"
+                        >
+                          <PencilIcon className="w-4 h-4 text-gray-500" />
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Reaction Picker */}
+                  {reactionPickerMessageId === message.id && (
+                    <div
+                      className={`absolute bottom-full mb-1 flex bg-white rounded-full shadow-lg border border-gray-200 px-1 z-30 ${
+                        isOwnMessage ? 'right-0' : 'left-0'
+                      }`}
+                    >
+                      {QUICK_REACTIONS.map(emoji => (
+                        <button
+                          key={emoji}
+                          onClick={() => handleReaction(message, emoji)}
+                          className="p-1 text-lg hover:scale-125 transition-transform"
+                        >
+                          {emoji}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Delete Menu */}
+                  {deleteMenuMessageId === message.id && (
+                    <div
+                      className={`absolute top-full mt-1 w-44 bg-white rounded-lg shadow-lg border border-gray-200 z-30 ${
+                        isOwnMessage ? 'right-0' : 'left-0'
+                      }`}
+                    >
+                      <button
+                        onClick={() => handleDelete(message, 'me')}
+                        className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        Delete for me
+                      </button>
+                      {isOwnMessage && (
+                        <button
+                          onClick={() => handleDelete(message, 'everyone')}
+                          className="w-full px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50 border-t border-gray-100"
+                        >
+                          Delete for everyone
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* Reactions */}
+                <div className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
+                  <ReactionsBar
+                    message={message}
+                    currentUserId={user?.id}
+                    onToggle={(emoji) => handleReaction(message, emoji)}
+                  />
                 </div>
 
                 {/* Message Time */}
@@ -140,6 +518,27 @@ const MessageList: React.FC<MessageListProps> = ({ messages, conversation }) =>
                   <span className="text-xs text-gray-500">
                     {formatMessageTime(message.createdAt)}
                   </span>
+                  {message.editedAt && (
+                    <button
+                      onClick={() => setHistoryMessage(message)}
+                      className="ml-1 text-xs text-gray-500 hover:underline"
+                      title="View edit history"
+                    >
+                      · edited
+                    </button>
+                  )}
+                  {replyCounts[message.id] > 0 && (
+                    <button
+                      onClick={() => setThreadMessage(message)}
+                      className="ml-1 text-xs text-primary-600 hover:underline"
+                      title="View thread"
+                    >
+                      · {replyCounts[message.id]} {replyCounts[message.id] === 1 ? 'reply' : 'replies'}
+                    </button>
+                  )}
+                  {isOwnMessage && (
+                    <MessageStatusTicks status={getMessageStatus(conversation, message, user?.id)} />
+                  )}
                 </div>
               </div>
             </div>
@@ -149,6 +548,23 @@ const MessageList: React.FC<MessageListProps> = ({ messages, conversation }) =>
 
       {/* Typing Indicator */}
       {isOthersTyping && <TypingIndicator />}
+
+      {/* Thread */}
+      {threadMessage && (
+        <MessageThread
+          message={threadMessage}
+          onClose={() => setThreadMessage(null)}
+          onJump={messageId => jumpToMessage(messageId)}
+        />
+      )}
+
+      {/* Edit History */}
+      {historyMessage && (
+        <MessageRevisions
+          message={messages.find(message => message.id === historyMessage.id) ?? historyMessage}
+          onClose={() => setHistoryMessage(null)}
+        />
+      )}
     </div>
   );
 };
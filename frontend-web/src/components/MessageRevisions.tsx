@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import type { Message } from '@shared/types';
+import { useChatStore } from '@/store/chatStore';
+import type { DecryptedRevision } from '@/store/chatStore';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+interface MessageRevisionsProps {
+  message: Message;
+  onClose: () => void;
+}
+
+const MessageRevisions: React.FC<MessageRevisionsProps> = ({ message, onClose }) => {
+  const { getMessageRevisions, decryptMessage } = useChatStore();
+  const [revisions, setRevisions] = useState<DecryptedRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMessageRevisions(message)
+      .then(setRevisions)
+      .catch(() => setError('Failed to load edit history'));
+  }, [message.id, message.editedAt, getMessageRevisions]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[32rem] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Edit History
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+          >
+            <XMarkIcon className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Revisions, newest first */}
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          <div className="p-4">
+            <p className="text-xs font-medium text-gray-500 mb-1">
+              Current{message.editedAt && ` · ${format(new Date(message.editedAt), 'MMM dd, HH:mm')}`}
+            </p>
+            <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">
+              {decryptMessage(message) ?? '🔒 Decrypting...'}
+            </p>
+          </div>
+
+          {error ? (
+            <div className="p-4 text-center text-sm text-red-600">{error}</div>
+          ) : !revisions ? (
+            <div className="p-4 flex justify-center">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : (
+            [...revisions].reverse().map((revision) => (
+              <div key={revision.revision} className="p-4">
+                <p className="text-xs font-medium text-gray-500 mb-1">
+                  {revision.revision === 0 ? 'Original' : `Edit ${revision.revision}`}
+                  {` · ${format(new Date(revision.createdAt), 'MMM dd, HH:mm')}`}
+                </p>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+                  {revision.content}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageRevisions;
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { XMarkIcon, DocumentMagnifyingGlassIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import searchIndex, { tokenize } from '@/services/searchIndex';
+import type { IndexedMessage } from '@/services/searchIndex';
+import { useAuth } from '@/hooks/useAuth';
+import { useChatStore } from '@/store/chatStore';
+import { getConversationTitle } from '@/utils/conversation';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import toast from 'react-hot-toast';
+
+interface MessageSearchProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SNIPPET_CONTEXT = 40;
+
+// The part of the text around the first query word, so long messages show where they matched
+const getSnippet = (text: string, query: string): string => {
+  const [word] = tokenize(query);
+  const position = word ? text.toLowerCase().indexOf(word) : -1;
+
+  if (position < 0 || text.length <= SNIPPET_CONTEXT * 2) {
+    return text.length > SNIPPET_CONTEXT * 2 ? `${text.slice(0, SNIPPET_CONTEXT * 2)}…` : text;
+  }
+
+  const start = Math.max(0, position - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, position + word.length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const MessageSearch: React.FC<MessageSearchProps> = ({ isOpen, onClose }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<IndexedMessage[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [indexProgress, setIndexProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const { user } = useAuth();
+  const { conversations, indexHistory, openSearchResult } = useChatStore();
+
+  // Older history becomes searchable once this device has read it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isActive = true;
+    setIndexProgress({ done: 0, total: conversations.length });
+
+    indexHistory((done, total) => {
+      if (isActive) setIndexProgress({ done, total });
+    })
+      .catch(error => console.error('Failed to index history:', error))
+      .finally(() => {
+        if (isActive) setIndexProgress(null);
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    const delayedSearch = setTimeout(() => {
+      if (searchQuery.trim().length >= 2) {
+        performSearch(searchQuery.trim());
+      } else {
+        setSearchResults([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(delayedSearch);
+  }, [searchQuery, indexProgress?.done]);
+
+  const performSearch = async (query: string) => {
+    try {
+      setIsSearching(true);
+      const results = await searchIndex.search(query);
+      setSearchResults(results);
+    } catch (error) {
+      console.error('Search failed:', error);
+      toast.error('Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleOpenResult = async (result: IndexedMessage) => {
+    try {
+      await openSearchResult(result.conversationId, result.messageId);
+      onClose();
+    } catch (error) {
+      console.error('Failed to open search result:', error);
+      toast.error('That conversation is no longer available');
+    }
+  };
+
+  const getResultTitle = (result: IndexedMessage): string => {
+    const conversation = conversations.find(conv => conv.id === result.conversationId);
+    return conversation ? getConversationTitle(conversation, user?.id) : 'Unknown conversation';
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[32rem] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Search Messages</h3>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+          >
+            <XMarkIcon className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Search Input */}
+        <div className="p-4 border-b border-gray-200">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <DocumentMagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="form-input pl-10"
+              placeholder="Search your messages..."
+              autoFocus
+            />
+            {isSearching && (
+              <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
+                <LoadingSpinner size="sm" />
+              </div>
+            )}
+          </div>
+          <p className="mt-2 text-xs text-gray-500 flex items-center">
+            <LockClosedIcon className="w-3 h-3 mr-1 flex-shrink-0" />
+            {indexProgress
+              ? `Indexing conversations on this device (${indexProgress.done}/${indexProgress.total})...`
+              : 'Searched on this device; nothing is sent to the server'}
+          </p>
+        </div>
+
+        {/* Search Results */}
+        <div className="flex-1 overflow-y-auto">
+          {searchQuery.trim().length < 2 ? (
+            <div className="p-4 text-center text-gray-500">
+              <DocumentMagnifyingGlassIcon className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+              <p>Type at least 2 characters to search</p>
+            </div>
+          ) : searchResults.length === 0 && !isSearching ? (
+            <div className="p-4 text-center text-gray-500">
+              <DocumentMagnifyingGlassIcon className="w-8 h-8 mx-auto mb-2 text-gray-300" />
+              <p>No messages found</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {searchResults.map((result) => (
+                <button
+                  key={result.messageId}
+                  onClick={() => handleOpenResult(result)}
+                  className="w-full p-4 text-left hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="font-medium text-gray-900 truncate mr-2">{getResultTitle(result)}</p>
+                    <span className="text-xs text-gray-500 flex-shrink-0">
+                      {format(new Date(result.createdAt), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 break-words">
+                    <span className="font-medium">
+                      {result.senderId === user?.id ? 'You' : result.senderUsername}:
+                    </span>{' '}
+                    {result.messageType === 'text' ? getSnippet(result.text, searchQuery) : `📎 ${result.text}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageSearch;
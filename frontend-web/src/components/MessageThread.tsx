@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import type { Message } from '@shared/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useChatStore } from '@/store/chatStore';
+import { getMessagePreview } from '@/utils/conversation';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+interface MessageThreadProps {
+  message: Message;
+  onClose: () => void;
+  onJump: (messageId: number) => void;
+}
+
+const MessageThread: React.FC<MessageThreadProps> = ({ message, onClose, onJump }) => {
+  const { user } = useAuth();
+  const { getMessageReplies, decryptMessage } = useChatStore();
+  const [replies, setReplies] = useState<Message[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMessageReplies(message)
+      .then(setReplies)
+      .catch(() => setError('Failed to load replies'));
+  }, [message.id, getMessageReplies]);
+
+  const getPreview = (threadMessage: Message): string => {
+    const content = decryptMessage(threadMessage);
+    return content === null ? '🔒 Decrypting...' : getMessagePreview(threadMessage.messageType, content);
+  };
+
+  const handleJump = (messageId: number) => {
+    onClose();
+    onJump(messageId);
+  };
+
+  const renderMessage = (threadMessage: Message) => (
+    <button
+      key={threadMessage.id}
+      onClick={() => handleJump(threadMessage.id)}
+      className="w-full p-4 text-left hover:bg-gray-50 transition-colors"
+    >
+      <p className="text-xs font-medium text-gray-500 mb-1">
+        {threadMessage.senderId === user?.id ? 'You' : threadMessage.senderUsername}
+        {` · ${format(new Date(threadMessage.createdAt), 'MMM dd, HH:mm')}`}
+      </p>
+      <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">
+        {getPreview(threadMessage)}
+      </p>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[32rem] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Thread
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+          >
+            <XMarkIcon className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Original message, then replies oldest first */}
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          <div className="bg-gray-50">
+            {renderMessage(message)}
+          </div>
+
+          {error ? (
+            <div className="p-4 text-center text-sm text-red-600">{error}</div>
+          ) : !replies ? (
+            <div className="p-4 flex justify-center">
+              <LoadingSpinner size="sm" />
+            </div>
+          ) : replies.length === 0 ? (
+            <div className="p-4 text-center text-sm text-gray-500">No replies yet</div>
+          ) : (
+            replies.map(renderMessage)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageThread;
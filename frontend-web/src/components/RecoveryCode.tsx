@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { XMarkIcon, ClipboardDocumentIcon, LifebuoyIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+interface RecoveryCodeProps {
+  isOpen: boolean;
+  onClose: () => void;
+  code?: string | null; // A code just created, e.g. at registration
+}
+
+const RecoveryCode: React.FC<RecoveryCodeProps> = ({ isOpen, onClose, code = null }) => {
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(code);
+  const [isCreating, setIsCreating] = useState(false);
+  const { createRecoveryCode } = useAuth();
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      setRecoveryCode(await createRecoveryCode());
+    } catch (error) {
+      console.error('Failed to create recovery code:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create recovery code');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCode!);
+      toast.success('Recovery code copied');
+    } catch (error) {
+      toast.error('Could not copy, please write the code down');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Recovery code</h3>
+          <button
+            onClick={onClose}
+            disabled={isCreating}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+          >
+            <XMarkIcon className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {recoveryCode ? (
+          <div className="p-4 space-y-4">
+            <p className="text-sm text-gray-600">
+              If you forget your password, this code lets you set a new one and get your keys back.
+              Write it down and keep it somewhere safe. It is shown only once.
+            </p>
+
+            <div className="grid grid-cols-4 gap-2 font-mono text-center text-gray-900 bg-gray-50 rounded-lg p-3">
+              {recoveryCode.split('-').map((group, index) => (
+                <span key={index}>{group}</span>
+              ))}
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                onClick={handleCopy}
+                className="btn-secondary flex-1 flex items-center justify-center"
+              >
+                <ClipboardDocumentIcon className="w-4 h-4 mr-2" />
+                Copy
+              </button>
+              <button
+                onClick={onClose}
+                className="btn-primary flex-1"
+              >
+                I've saved it
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 space-y-4">
+            <div className="flex items-start space-x-3">
+              <LifebuoyIcon className="w-6 h-6 text-primary-600 flex-shrink-0" />
+              <p className="text-sm text-gray-600">
+                A recovery code gets you back into your account if you forget your password. Your keys
+                are backed up encrypted so that only the code opens them. A new code replaces the old
+                one, which stops working.
+              </p>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Direct messages from before a recovery, and the contacts you verified, cannot be
+              restored.
+            </p>
+
+            <button
+              onClick={handleCreate}
+              disabled={isCreating}
+              className="btn-primary w-full flex items-center justify-center"
+            >
+              {isCreating ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Backing up keys...
+                </>
+              ) : (
+                'Create new recovery code'
+              )}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCode;
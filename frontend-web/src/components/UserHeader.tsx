@@ -2,11 +2,22 @@ import React, { useState } from 'react';
 import { 
   Cog6ToothIcon, 
   ArrowRightOnRectangleIcon,
-  MagnifyingGlassIcon 
+  MagnifyingGlassIcon,
+  DocumentMagnifyingGlassIcon,
+  ComputerDesktopIcon,
+  LockClosedIcon,
+  KeyIcon,
+  LifebuoyIcon
 } from '@heroicons/react/24/outline';
 import type { User } from '@shared/types';
 import { useAuth } from '@/hooks/useAuth';
 import UserSearch from '@/components/UserSearch';
+import MessageSearch from '@/components/MessageSearch';
+import DeviceManager from '@/components/DeviceManager';
+import LockSettings from '@/components/LockSettings';
+import ChangePassword from '@/components/ChangePassword';
+import RecoveryCode from '@/components/RecoveryCode';
+import { useDeviceStore } from '@/store/deviceStore';
 
 interface UserHeaderProps {
   user: User;
@@ -14,8 +25,16 @@ interface UserHeaderProps {
 
 const UserHeader: React.FC<UserHeaderProps> = ({ user }) => {
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isMessageSearchOpen, setIsMessageSearchOpen] = useState(false);
+  const [isDevicesOpen, setIsDevicesOpen] = useState(false);
+  const [isLockSettingsOpen, setIsLockSettingsOpen] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isRecoveryCodeOpen, setIsRecoveryCodeOpen] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { logout } = useAuth();
+  const pendingDeviceCount = useDeviceStore(state =>
+    state.devices.filter(device => device.status === 'pending' && !device.current).length
+  );
 
   const handleLogout = async () => {
     try {
@@ -49,13 +68,24 @@ const UserHeader: React.FC<UserHeaderProps> = ({ user }) => {
             <MagnifyingGlassIcon className="w-5 h-5 text-gray-600" />
           </button>
 
+          <button
+            onClick={() => setIsMessageSearchOpen(true)}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Search messages"
+          >
+            <DocumentMagnifyingGlassIcon className="w-5 h-5 text-gray-600" />
+          </button>
+
           <div className="relative">
             <button
               onClick={() => setIsMenuOpen(!isMenuOpen)}
-              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              className="relative p-2 hover:bg-gray-100 rounded-lg transition-colors"
               title="Settings"
             >
               <Cog6ToothIcon className="w-5 h-5 text-gray-600" />
+              {pendingDeviceCount > 0 && (
+                <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full" />
+              )}
             </button>
 
             {isMenuOpen && (
@@ -65,6 +95,53 @@ const UserHeader: React.FC<UserHeaderProps> = ({ user }) => {
                     <div className="font-medium">{user.username}</div>
                     <div className="truncate">{user.email}</div>
                   </div>
+
+                  <button
+                    onClick={() => {
+                      setIsMenuOpen(false);
+                      setIsDevicesOpen(true);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+                  >
+                    <ComputerDesktopIcon className="w-4 h-4 mr-2" />
+                    Devices
+                    {pendingDeviceCount > 0 && (
+                      <span className="ml-auto px-1.5 text-xs text-white bg-red-500 rounded-full">{pendingDeviceCount}</span>
+                    )}
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setIsMenuOpen(false);
+                      setIsLockSettingsOpen(true);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+                  >
+                    <LockClosedIcon className="w-4 h-4 mr-2" />
+                    Screen lock
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setIsMenuOpen(false);
+                      setIsChangePasswordOpen(true);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+                  >
+                    <KeyIcon className="w-4 h-4 mr-2" />
+                    Change password
+                  </button>
+
+                  <button
+                    onClick={() => {
+                      setIsMenuOpen(false);
+                      setIsRecoveryCodeOpen(true);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center"
+                  >
+                    <LifebuoyIcon className="w-4 h-4 mr-2" />
+                    Recovery code
+                  </button>
                   
                   <button
                     onClick={handleLogout}
@@ -88,6 +165,46 @@ const UserHeader: React.FC<UserHeaderProps> = ({ user }) => {
         />
       )}
 
+      {/* Message Search Modal */}
+      {isMessageSearchOpen && (
+        <MessageSearch
+          isOpen={isMessageSearchOpen}
+          onClose={() => setIsMessageSearchOpen(false)}
+        />
+      )}
+
+      {/* Device Manager Modal */}
+      {isDevicesOpen && (
+        <DeviceManager
+          isOpen={isDevicesOpen}
+          onClose={() => setIsDevicesOpen(false)}
+        />
+      )}
+
+      {/* Screen Lock Modal */}
+      {isLockSettingsOpen && (
+        <LockSettings
+          isOpen={isLockSettingsOpen}
+          onClose={() => setIsLockSettingsOpen(false)}
+        />
+      )}
+
+      {/* Change Password Modal */}
+      {isChangePasswordOpen && (
+        <ChangePassword
+          isOpen={isChangePasswordOpen}
+          onClose={() => setIsChangePasswordOpen(false)}
+        />
+      )}
+
+      {/* Recovery Code Modal */}
+      {isRecoveryCodeOpen && (
+        <RecoveryCode
+          isOpen={isRecoveryCodeOpen}
+          onClose={() => setIsRecoveryCodeOpen(false)}
+        />
+      )}
+
       {/* Click outside to close menu */}
       {isMenuOpen && (
         <div 
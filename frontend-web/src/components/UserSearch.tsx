@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { XMarkIcon, MagnifyingGlassIcon, UserPlusIcon } from '@heroicons/react/24/outline';
-import type { User } from '@shared/types';
+import { XMarkIcon, MagnifyingGlassIcon, UserPlusIcon, UserGroupIcon, CheckIcon } from '@heroicons/react/24/outline';
+import type { User, Conversation } from '@shared/types';
 import apiService from '@/services/api';
 import { useChatStore } from '@/store/chatStore';
 import LoadingSpinner from '@/components/LoadingSpinner';
@@ -9,15 +9,20 @@ import toast from 'react-hot-toast';
 interface UserSearchProps {
   isOpen: boolean;
   onClose: () => void;
+  conversation?: Conversation; // Pick members to add to this group instead
 }
 
-const UserSearch: React.FC<UserSearchProps> = ({ isOpen, onClose }) => {
+const UserSearch: React.FC<UserSearchProps> = ({ isOpen, onClose, conversation }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<User[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [isCreatingConversation, setIsCreatingConversation] = useState<number | null>(null);
+  const [isGroupMode, setIsGroupMode] = useState(!!conversation);
+  const [groupName, setGroupName] = useState('');
+  const [selectedUsers, setSelectedUsers] = useState<User[]>([]);
+  const [isSubmittingGroup, setIsSubmittingGroup] = useState(false);
   
-  const { createConversation, selectConversation } = useChatStore();
+  const { createConversation, createGroupConversation, addParticipants, selectConversation } = useChatStore();
 
   useEffect(() => {
     const delayedSearch = setTimeout(() => {
@@ -61,22 +66,92 @@ const UserSearch: React.FC<UserSearchProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  const isMember = (user: User): boolean => {
+    return !!conversation?.participants.some(participant => participant.id === user.id);
+  };
+
+  const isSelected = (user: User): boolean => {
+    return selectedUsers.some(selected => selected.id === user.id);
+  };
+
+  const toggleSelected = (user: User) => {
+    setSelectedUsers(isSelected(user)
+      ? selectedUsers.filter(selected => selected.id !== user.id)
+      : [...selectedUsers, user]);
+  };
+
+  const handleSubmitGroup = async () => {
+    const userIds = selectedUsers.map(selected => selected.id);
+
+    try {
+      setIsSubmittingGroup(true);
+
+      if (conversation) {
+        await addParticipants(conversation.id, userIds);
+        toast.success(`Added ${selectedUsers.map(selected => selected.username).join(', ')}`);
+      } else {
+        const group = await createGroupConversation(groupName.trim(), userIds);
+        await selectConversation(group);
+        toast.success(`Created ${group.name}`);
+      }
+
+      onClose();
+    } catch (error) {
+      console.error('Failed to update group:', error);
+      toast.error(conversation ? 'Failed to add members' : 'Failed to create group');
+    } finally {
+      setIsSubmittingGroup(false);
+    }
+  };
+
+  const canSubmitGroup = selectedUsers.length > 0 && (!!conversation || groupName.trim().length > 0);
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-96 flex flex-col">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[32rem] flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-gray-200">
-          <h3 className="text-lg font-semibold text-gray-900">Find Users</h3>
-          <button
-            onClick={onClose}
-            className="p-1 hover:bg-gray-100 rounded transition-colors"
-          >
-            <XMarkIcon className="w-5 h-5 text-gray-400" />
-          </button>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {conversation ? 'Add Members' : isGroupMode ? 'New Group' : 'Find Users'}
+          </h3>
+          <div className="flex items-center space-x-1">
+            {!conversation && (
+              <button
+                onClick={() => {
+                  setIsGroupMode(!isGroupMode);
+                  setSelectedUsers([]);
+                }}
+                className="px-2 py-1 text-sm text-primary-600 hover:bg-primary-50 rounded transition-colors flex items-center"
+              >
+                <UserGroupIcon className="w-4 h-4 mr-1" />
+                {isGroupMode ? 'Direct chat' : 'New group'}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1 hover:bg-gray-100 rounded transition-colors"
+            >
+              <XMarkIcon className="w-5 h-5 text-gray-400" />
+            </button>
+          </div>
         </div>
 
+        {/* Group Name */}
+        {isGroupMode && !conversation && (
+          <div className="px-4 pt-4">
+            <input
+              type="text"
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+              className="form-input"
+              placeholder="Group name"
+              maxLength={100}
+            />
+          </div>
+        )}
+
         {/* Search Input */}
         <div className="p-4 border-b border-gray-200">
           <div className="relative">
@@ -131,29 +206,70 @@ const UserSearch: React.FC<UserSearchProps> = ({ isOpen, onClose }) => {
                       </div>
                     </div>
                     
-                    <button
-                      onClick={() => handleStartConversation(user)}
-                      disabled={isCreatingConversation === user.id}
-                      className="btn-primary py-2 px-4 text-sm flex items-center"
-                    >
-                      {isCreatingConversation === user.id ? (
-                        <>
-                          <LoadingSpinner size="sm" className="mr-2" />
-                          Starting...
-                        </>
-                      ) : (
-                        <>
-                          <UserPlusIcon className="w-4 h-4 mr-2" />
-                          Chat
-                        </>
-                      )}
-                    </button>
+                    {isGroupMode ? (
+                      <button
+                        onClick={() => toggleSelected(user)}
+                        disabled={isMember(user)}
+                        className={`${isSelected(user) ? 'btn-primary' : 'btn-secondary'} py-2 px-4 text-sm flex items-center`}
+                      >
+                        {isMember(user) ? (
+                          'Member'
+                        ) : isSelected(user) ? (
+                          <>
+                            <CheckIcon className="w-4 h-4 mr-2" />
+                            Added
+                          </>
+                        ) : (
+                          <>
+                            <UserPlusIcon className="w-4 h-4 mr-2" />
+                            Add
+                          </>
+                        )}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleStartConversation(user)}
+                        disabled={isCreatingConversation === user.id}
+                        className="btn-primary py-2 px-4 text-sm flex items-center"
+                      >
+                        {isCreatingConversation === user.id ? (
+                          <>
+                            <LoadingSpinner size="sm" className="mr-2" />
+                            Starting...
+                          </>
+                        ) : (
+                          <>
+                            <UserPlusIcon className="w-4 h-4 mr-2" />
+                            Chat
+                          </>
+                        )}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
             </div>
           )}
         </div>
+
+        {/* Group Footer */}
+        {isGroupMode && (
+          <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+            <p className="text-sm text-gray-500 truncate mr-3">
+              {selectedUsers.length === 0
+                ? 'Select members'
+                : selectedUsers.map(selected => selected.username).join(', ')}
+            </p>
+            <button
+              onClick={handleSubmitGroup}
+              disabled={!canSubmitGroup || isSubmittingGroup}
+              className="btn-primary py-2 px-4 text-sm flex items-center flex-shrink-0"
+            >
+              {isSubmittingGroup && <LoadingSpinner size="sm" className="mr-2" />}
+              {conversation ? 'Add members' : 'Create group'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
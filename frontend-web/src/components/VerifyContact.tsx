@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { XMarkIcon, ShieldCheckIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import EncryptionService from '@/utils/encryption';
+import encryptionManager from '@/services/encryptionManager';
+import { useContactKeyStore } from '@/store/contactKeyStore';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import type { User } from '@shared/types';
+import toast from 'react-hot-toast';
+
+interface VerifyContactProps {
+  contact: User;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// 60 digits shown as twelve groups of five, like Signal
+const formatSafetyNumber = (safetyNumber: string): string[] => safetyNumber.match(/.{5}/g) ?? [];
+
+const VerifyContact: React.FC<VerifyContactProps> = ({ contact, isOpen, onClose }) => {
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const { contacts, markVerified, clearVerification, acceptKeyChange } = useContactKeyStore();
+
+  const pin = contacts[contact.id];
+  // The key the server hands out now, which is what gets compared
+  const currentKey = pin?.changedKey ?? pin?.publicKey ?? contact.publicKey;
+
+  useEffect(() => {
+    const session = encryptionManager.getCurrentSession();
+    if (!isOpen || !session) return;
+
+    let isActive = true;
+    setSafetyNumber(null);
+    setQrCode(null);
+
+    EncryptionService.computeSafetyNumber(session.user.id, session.userKeyPair.publicKey, contact.id, currentKey)
+      .then(async number => {
+        const image = await QRCode.toDataURL(number, { margin: 1, width: 160 });
+        if (isActive) {
+          setSafetyNumber(number);
+          setQrCode(image);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to compute safety number:', error);
+        toast.error('This contact has no valid security key');
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [isOpen, contact.id, currentKey]);
+
+  const handleToggleVerified = async () => {
+    try {
+      if (pin?.verified && !pin.changedKey) {
+        await clearVerification(contact.id);
+      } else {
+        await markVerified(contact.id, currentKey);
+        toast.success(`${contact.username} marked as verified`);
+      }
+    } catch (error) {
+      console.error('Failed to update verification:', error);
+      toast.error('Failed to update verification');
+    }
+  };
+
+  const handleAcceptKeyChange = async () => {
+    try {
+      await acceptKeyChange(contact.id);
+    } catch (error) {
+      console.error('Failed to accept key change:', error);
+      toast.error('Failed to accept the new key');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md max-h-[36rem] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Verify {contact.username}</h3>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+          >
+            <XMarkIcon className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {pin?.changedKey && (
+            <div className="bg-red-50 border border-red-300 rounded-lg p-3 text-sm text-red-800">
+              <p className="font-medium flex items-center">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                {contact.username}'s security key has changed
+              </p>
+              <p className="mt-1">
+                They may have reinstalled or reset their account, or someone may be intercepting your messages.
+                Compare the new safety number with them before trusting it.
+              </p>
+              <button
+                onClick={handleAcceptKeyChange}
+                className="mt-2 text-xs font-medium text-red-700 underline"
+              >
+                Accept the new key without verifying
+              </button>
+            </div>
+          )}
+
+          {pin?.unlogged && (
+            <div className="bg-red-50 border border-red-300 rounded-lg p-3 text-sm text-red-800">
+              <p className="font-medium flex items-center">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                This key is missing from the key log
+              </p>
+              <p className="mt-1">
+                The server handed out a key for {contact.username} that is not the latest one in its public key log,
+                so it may not be theirs. Compare safety numbers before trusting it.
+              </p>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Compare this number with the one on {contact.username}'s screen, in person or over a call you trust,
+            or let them scan the code. If they match, your conversation is end-to-end encrypted with the right keys.
+          </p>
+
+          {safetyNumber ? (
+            <>
+              <div className="grid grid-cols-4 gap-2 font-mono text-center text-gray-900">
+                {formatSafetyNumber(safetyNumber).map((group, index) => (
+                  <span key={index}>{group}</span>
+                ))}
+              </div>
+              {qrCode && (
+                <img src={qrCode} alt="Safety number QR code" className="mx-auto w-40 h-40" />
+              )}
+            </>
+          ) : (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner size="md" />
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200">
+          <button
+            onClick={handleToggleVerified}
+            disabled={!safetyNumber}
+            className={`w-full flex items-center justify-center px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+              pin?.verified && !pin.changedKey
+                ? 'text-gray-700 bg-gray-100 hover:bg-gray-200'
+                : 'text-white bg-primary-600 hover:bg-primary-700'
+            }`}
+          >
+            <ShieldCheckIcon className="w-4 h-4 mr-2" />
+            {pin?.verified && !pin.changedKey ? 'Clear verification' : 'Mark as verified'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyContact;
@@ -6,20 +6,31 @@
 import { useEffect } from 'react';
 import { useAuthStore } from '@/store/authStore';
 import { useChatStore } from '@/store/chatStore';
+import { useDeviceStore } from '@/store/deviceStore';
+import { useLockStore } from '@/store/lockStore';
 
 export const useAuth = () => {
   const authStore = useAuthStore();
 
+  // The encryption session is restored, possibly locked, while the token is checked
+  const verifyToken = async () => {
+    await authStore.verifyToken();
+    await useLockStore.getState().sync();
+    useDeviceStore.getState().syncCurrentDevice();
+  };
+
   useEffect(() => {
     // Auto-verify token on mount if token exists
     if (authStore.token && !authStore.isAuthenticated) {
-      authStore.verifyToken();
+      verifyToken();
     }
   }, []);
 
   const loginWithCredentials = async (username: string, password: string) => {
     try {
       await authStore.login(username, password);
+      useDeviceStore.getState().syncCurrentDevice();
+      await useLockStore.getState().sync();
       // Load conversations after successful login
       const chatStore = useChatStore.getState();
       await chatStore.loadConversations();
@@ -35,6 +46,8 @@ export const useAuth = () => {
   }) => {
     try {
       await authStore.register(userData);
+      useDeviceStore.getState().syncCurrentDevice();
+      await useLockStore.getState().sync();
       // Load conversations after successful registration
       const chatStore = useChatStore.getState();
       await chatStore.loadConversations();
@@ -48,24 +61,50 @@ export const useAuth = () => {
       // Reset chat store
       const chatStore = useChatStore.getState();
       chatStore.reset();
+      useDeviceStore.getState().reset();
       
       // Logout from auth store
       await authStore.logout();
+      await useLockStore.getState().sync();
     } catch (error) {
       console.error('Logout error:', error);
     }
   };
 
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    await authStore.changePassword(currentPassword, newPassword);
+    // The PIN wrapped the old master key and is gone
+    await useLockStore.getState().sync();
+  };
+
+  const recoverAccount = async (username: string, recoveryCode: string, newPassword: string) => {
+    await authStore.recoverAccount(username, recoveryCode, newPassword);
+    useDeviceStore.getState().syncCurrentDevice();
+    await useLockStore.getState().sync();
+    await useChatStore.getState().loadConversations();
+  };
+
+  // Backs up the keys of every conversation we are in under the new code
+  const createRecoveryCode = async () => {
+    const conversations = useChatStore.getState().conversations;
+    return authStore.createRecoveryCode(conversations.map(conversation => conversation.conversationUuid));
+  };
+
   return {
     user: authStore.user,
     token: authStore.token,
     isAuthenticated: authStore.isAuthenticated,
     isLoading: authStore.isLoading,
     error: authStore.error,
+    recoveryCode: authStore.recoveryCode,
     login: loginWithCredentials,
     register: registerWithCredentials,
     logout: logoutUser,
-    verifyToken: authStore.verifyToken,
+    changePassword,
+    recoverAccount,
+    createRecoveryCode,
+    dismissRecoveryCode: authStore.dismissRecoveryCode,
+    verifyToken,
     clearError: authStore.clearError
   };
 };
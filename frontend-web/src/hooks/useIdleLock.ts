@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { useLockStore } from '@/store/lockStore';
+import encryptionManager from '@/services/encryptionManager';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+const CHECK_INTERVAL = 10 * 1000;
+// How often activity is written down, so a reload knows how long we were idle
+const RECORD_INTERVAL = 30 * 1000;
+
+/**
+ * Lock the app once the user has been idle for the configured timeout
+ */
+export const useIdleLock = () => {
+  const { isLocked, settings, lock } = useLockStore();
+
+  useEffect(() => {
+    if (!settings.enabled || isLocked) return;
+
+    let lastActivity = Date.now();
+    let lastRecorded = 0;
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      if (lastActivity - lastRecorded > RECORD_INTERVAL) {
+        lastRecorded = lastActivity;
+        encryptionManager.recordActivity();
+      }
+    };
+
+    // Timers are slowed in background tabs, so compare against the clock
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity > settings.timeoutMinutes * 60 * 1000) {
+        lock().catch(error => console.error('Failed to lock session:', error));
+      }
+    }, CHECK_INTERVAL);
+
+    handleActivity();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [settings.enabled, settings.timeoutMinutes, isLocked, lock]);
+};
@@ -1,13 +1,18 @@
 import { useEffect, useState } from 'react';
 import { useAuthStore } from '@/store/authStore';
+import { useLockStore } from '@/store/lockStore';
 import socketService from '@/services/socket';
+import encryptionManager from '@/services/encryptionManager';
 
 export const useSocket = () => {
   const [isConnected, setIsConnected] = useState(false);
   const { token, isAuthenticated } = useAuthStore();
+  const isLocked = useLockStore(state => state.isLocked);
 
   useEffect(() => {
-    if (isAuthenticated && token && !socketService.isConnected()) {
+    // A locked session cannot decrypt anything it would receive
+    if (isAuthenticated && token && !isLocked && encryptionManager.hasActiveSession()
+      && !socketService.isConnected()) {
       socketService.connect(token)
         .then(() => setIsConnected(true))
         .catch(console.error);
@@ -19,7 +24,7 @@ export const useSocket = () => {
 
     const interval = setInterval(checkConnection, 1000);
     return () => clearInterval(interval);
-  }, [isAuthenticated, token]);
+  }, [isAuthenticated, token, isLocked]);
 
   return {
     isConnected,
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+
+export interface VoiceRecording {
+  audio: Blob;
+  duration: number;
+  waveform: number[];
+}
+
+// Recordings stop on their own after five minutes
+export const MAX_RECORDING_SECONDS = 5 * 60;
+const WAVEFORM_BARS = 48;
+const SAMPLE_INTERVAL_MS = 100;
+
+// The first format the browser can record in; Safari only does MP4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+// Squeeze loudness samples into at most WAVEFORM_BARS bars scaled to 0-100
+const toWaveform = (samples: number[]): number[] => {
+  const barCount = Math.min(WAVEFORM_BARS, samples.length);
+  const bars = Array.from({ length: barCount }, (_, bar) => {
+    const start = Math.floor(bar * samples.length / barCount);
+    const end = Math.floor((bar + 1) * samples.length / barCount);
+    return Math.max(...samples.slice(start, end));
+  });
+  const peak = Math.max(0, ...bars) || 1;
+
+  return bars.map(level => Math.round(level / peak * 100));
+};
+
+/**
+ * Record a voice message from the microphone, sampling its loudness for a waveform.
+ * `onLimitReached` receives the recording when it is stopped by the time limit.
+ */
+export const useVoiceRecorder = (onLimitReached?: (recording: VoiceRecording | null) => void) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const samplerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const samplesRef = useRef<number[]>([]);
+  const startedAtRef = useRef(0);
+  const onLimitReachedRef = useRef(onLimitReached);
+  onLimitReachedRef.current = onLimitReached;
+
+  // Release the microphone and stop sampling
+  const release = useCallback(() => {
+    if (samplerRef.current) {
+      clearInterval(samplerRef.current);
+      samplerRef.current = null;
+    }
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    recorderRef.current = null;
+    setIsRecording(false);
+  }, []);
+
+  const finish = useCallback((keep: boolean): Promise<VoiceRecording | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') {
+      return Promise.resolve(null);
+    }
+
+    const duration = Math.round((Date.now() - startedAtRef.current) / 1000);
+
+    // Sampling stops straight away so the time limit cannot fire twice
+    if (samplerRef.current) {
+      clearInterval(samplerRef.current);
+      samplerRef.current = null;
+    }
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const audio = new Blob(chunksRef.current, { type: recorder.mimeType });
+        release();
+        resolve(keep && duration > 0 && audio.size > 0
+          ? { audio, duration, waveform: toWaveform(samplesRef.current) }
+          : null);
+      };
+      recorder.stop();
+    });
+  }, [release]);
+
+  const stop = useCallback(() => finish(true), [finish]);
+
+  const cancel = useCallback(() => {
+    finish(false);
+  }, [finish]);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      throw new Error('Voice recording is not supported in this browser');
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const buffer = new Uint8Array(analyser.fftSize);
+
+    chunksRef.current = [];
+    samplesRef.current = [];
+    startedAtRef.current = Date.now();
+    streamRef.current = stream;
+    audioContextRef.current = audioContext;
+    recorderRef.current = recorder;
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunksRef.current.push(event.data);
+      }
+    };
+
+    // RMS loudness of the latest audio frame
+    samplerRef.current = setInterval(() => {
+      analyser.getByteTimeDomainData(buffer);
+      let sum = 0;
+      for (const value of buffer) {
+        const level = (value - 128) / 128;
+        sum += level * level;
+      }
+      samplesRef.current.push(Math.sqrt(sum / buffer.length));
+
+      const seconds = Math.floor((Date.now() - startedAtRef.current) / 1000);
+      setElapsed(seconds);
+
+      if (seconds >= MAX_RECORDING_SECONDS) {
+        finish(true).then(recording => onLimitReachedRef.current?.(recording));
+      }
+    }, SAMPLE_INTERVAL_MS);
+
+    recorder.start(1000);
+    setElapsed(0);
+    setIsRecording(true);
+  }, [finish]);
+
+  // Never leave the microphone on after unmounting
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      release();
+    };
+  }, [release]);
+
+  return {
+    isRecording,
+    elapsed,
+    start,
+    stop,
+    cancel
+  };
+};
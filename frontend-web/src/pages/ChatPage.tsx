@@ -7,13 +7,19 @@ import React, { useEffect } from 'react';
 import { useChatStore } from '@/store/chatStore';
 import { useAuth } from '@/hooks/useAuth';
 import { useSocket } from '@/hooks/useSocket';
+import { useIdleLock } from '@/hooks/useIdleLock';
 import ConversationList from '@/components/ConversationList';
 import ChatWindow from '@/components/ChatWindow';
 import UserHeader from '@/components/UserHeader';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import DeviceApprovalPending from '@/components/DeviceApprovalPending';
+import RecoveryCode from '@/components/RecoveryCode';
+import { useDeviceStore } from '@/store/deviceStore';
+import encryptionManager from '@/services/encryptionManager';
+import toast from 'react-hot-toast';
 
 const ChatPage: React.FC = () => {
-  const { user } = useAuth();
+  const { user, recoveryCode, dismissRecoveryCode } = useAuth();
   const { isConnected } = useSocket();
   const { 
     currentConversation,
@@ -23,14 +29,39 @@ const ChatPage: React.FC = () => {
     restoreSelectedConversation,
     error 
   } = useChatStore();
+  const { currentDeviceStatus, loadDevices } = useDeviceStore();
+  useIdleLock();
 
   useEffect(() => {
+    // Picks up an approval that happened while this device was offline
+    loadDevices();
+  }, [loadDevices]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // The log's latest key for us should be our own; any other was published without us
+    encryptionManager.checkOwnKey()
+      .then(logged => {
+        if (!logged) {
+          toast.error('Your security key is not the latest one in the key log. Someone may have replaced it.', {
+            duration: 10000
+          });
+        }
+      })
+      .catch(error => console.error('Failed to check own key in key log:', error));
+  }, [user?.id]);
+
+  useEffect(() => {
+    // A device awaiting approval holds no conversation keys yet
+    if (currentDeviceStatus !== 'active') return;
+
     // Load conversations on mount
     loadConversations().then(() => {
       // After conversations are loaded, try to restore the selected conversation
       restoreSelectedConversation();
     });
-  }, [loadConversations, restoreSelectedConversation]);
+  }, [currentDeviceStatus, loadConversations, restoreSelectedConversation]);
 
   if (!user) {
     return (
@@ -40,6 +71,10 @@ const ChatPage: React.FC = () => {
     );
   }
 
+  if (currentDeviceStatus === 'pending') {
+    return <DeviceApprovalPending />;
+  }
+
   // Get current conversation details - it's already available from the store
 
   return (
@@ -81,6 +116,15 @@ const ChatPage: React.FC = () => {
         )}
       </div>
 
+      {/* Recovery code of a new account, shown once */}
+      {recoveryCode && (
+        <RecoveryCode
+          isOpen={true}
+          code={recoveryCode}
+          onClose={dismissRecoveryCode}
+        />
+      )}
+
       {/* WebSocket Connection Status */}
       <div className="fixed top-4 right-4 z-50">
         <div className={`px-2 py-1 rounded-full text-xs font-medium ${
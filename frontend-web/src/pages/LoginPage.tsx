@@ -133,7 +133,16 @@ const LoginPage: React.FC = () => {
             </button>
           </form>
 
-          <div className="mt-6 text-center">
+          <div className="mt-6 text-center space-y-2">
+            <p className="text-sm text-gray-600">
+              Forgot your password?{' '}
+              <Link
+                to="/recover"
+                className="font-medium text-primary-600 hover:text-primary-500 transition-colors"
+              >
+                Recover account
+              </Link>
+            </p>
             <p className="text-sm text-gray-600">
               Don't have an account?{' '}
               <Link 
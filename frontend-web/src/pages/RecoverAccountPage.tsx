@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { EyeIcon, EyeSlashIcon, LifebuoyIcon, LockClosedIcon, UserIcon, KeyIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { EncryptionService } from '@/utils/encryption';
+import { validatePassword } from '@/utils/password';
+
+interface RecoverAccountFormData {
+  username: string;
+  recoveryCode: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+const validateRecoveryCode = (value: string) => {
+  try {
+    EncryptionService.normalizeRecoveryCode(value);
+    return true;
+  } catch (error) {
+    return 'Recovery code should be 32 letters and digits';
+  }
+};
+
+const RecoverAccountPage: React.FC = () => {
+  const [showPassword, setShowPassword] = useState(false);
+  const { recoverAccount, isLoading } = useAuth();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting }
+  } = useForm<RecoverAccountFormData>();
+
+  const watchNewPassword = watch('newPassword');
+
+  const onSubmit = async (data: RecoverAccountFormData) => {
+    try {
+      await recoverAccount(data.username, data.recoveryCode, data.newPassword);
+      toast.success('Account recovered. Your other devices have been signed out.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Account recovery failed');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="mx-auto h-16 w-16 bg-primary-600 rounded-full flex items-center justify-center">
+            <LifebuoyIcon className="h-8 w-8 text-white" />
+          </div>
+          <h2 className="mt-6 text-3xl font-bold text-gray-900">
+            Recover account
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Use your recovery code to set a new password and restore your keys
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                Username
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <UserIcon className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  {...register('username', {
+                    required: 'Username is required'
+                  })}
+                  type="text"
+                  id="username"
+                  className="form-input pl-10"
+                  placeholder="Enter your username"
+                  autoComplete="username"
+                />
+              </div>
+              {errors.username && (
+                <p className="mt-1 text-sm text-red-600">{errors.username.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="recoveryCode" className="block text-sm font-medium text-gray-700 mb-2">
+                Recovery code
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <KeyIcon className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  {...register('recoveryCode', {
+                    required: 'Recovery code is required',
+                    validate: validateRecoveryCode
+                  })}
+                  type="text"
+                  id="recoveryCode"
+                  className="form-input pl-10 font-mono uppercase"
+                  placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                  autoComplete="off"
+                  spellCheck={false}
+                />
+              </div>
+              {errors.recoveryCode && (
+                <p className="mt-1 text-sm text-red-600">{errors.recoveryCode.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                New password
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <LockClosedIcon className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  {...register('newPassword', {
+                    required: 'New password is required',
+                    validate: validatePassword
+                  })}
+                  type={showPassword ? 'text' : 'password'}
+                  id="newPassword"
+                  className="form-input pl-10 pr-10"
+                  placeholder="Choose a new password"
+                  autoComplete="new-password"
+                />
+                <button
+                  type="button"
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                  onClick={() => setShowPassword(!showPassword)}
+                >
+                  {showPassword ? (
+                    <EyeSlashIcon className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                  ) : (
+                    <EyeIcon className="h-5 w-5 text-gray-400 hover:text-gray-600" />
+                  )}
+                </button>
+              </div>
+              {errors.newPassword && (
+                <p className="mt-1 text-sm text-red-600">{errors.newPassword.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm new password
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <LockClosedIcon className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  {...register('confirmPassword', {
+                    required: 'Please confirm your new password',
+                    validate: (value) =>
+                      value === watchNewPassword || 'Passwords do not match'
+                  })}
+                  type={showPassword ? 'text' : 'password'}
+                  id="confirmPassword"
+                  className="form-input pl-10"
+                  placeholder="Confirm your new password"
+                  autoComplete="new-password"
+                />
+              </div>
+              {errors.confirmPassword && (
+                <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+              )}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Every device signed in to your account is signed out, and this browser becomes your
+              first device again. Direct messages from before the recovery cannot be restored.
+            </p>
+
+            <button
+              type="submit"
+              disabled={isSubmitting || isLoading}
+              className="btn-primary w-full flex items-center justify-center"
+            >
+              {(isSubmitting || isLoading) ? (
+                <>
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Restoring keys...
+                </>
+              ) : (
+                'Recover account'
+              )}
+            </button>
+          </form>
+
+          <div className="mt-6 text-center">
+            <p className="text-sm text-gray-600">
+              Remembered it?{' '}
+              <Link
+                to="/login"
+                className="font-medium text-primary-600 hover:text-primary-500 transition-colors"
+              >
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoverAccountPage;
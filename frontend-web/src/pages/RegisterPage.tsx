@@ -12,6 +12,7 @@ import {
 import toast from 'react-hot-toast';
 import { useAuth } from '@/hooks/useAuth';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import { validatePassword } from '@/utils/password';
 
 interface RegisterFormData {
   username: string;
@@ -48,25 +49,6 @@ const RegisterPage: React.FC = () => {
     }
   };
 
-  const validatePassword = (value: string) => {
-    if (value.length < 8) {
-      return 'Password must be at least 8 characters';
-    }
-    if (!/(?=.*[a-z])/.test(value)) {
-      return 'Password must contain at least one lowercase letter';
-    }
-    if (!/(?=.*[A-Z])/.test(value)) {
-      return 'Password must contain at least one uppercase letter';
-    }
-    if (!/(?=.*[0-9])/.test(value)) {
-      return 'Password must contain at least one number';
-    }
-    if (!/(?=.*[!@#$%^&*])/.test(value)) {
-      return 'Password must contain at least one special character (!@#$%^&*)';
-    }
-    return true;
-  };
-
   return (
     <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-br from-blue-50 to-indigo-100">
       <div className="max-w-md w-full space-y-8">
@@ -4,6 +4,20 @@
  */
 
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import type {
+  ConversationDevice,
+  Device,
+  EncryptedEnvelope,
+  KeyLogProof,
+  MessageCursor,
+  MessageDeleteMode,
+  MessageDeletion,
+  MessagePage,
+  MessageRevision,
+  PreKeyPoolStatus,
+  RatchetHeader,
+  SignedTreeHead
+} from '@shared/types';
 
 // Step 4: Updated types for encryption support
 interface User {
@@ -12,6 +26,8 @@ interface User {
   email: string;
   publicKey: string;
   masterKeySalt?: string; // Only included for current user
+  encryptedPrivateKey?: string; // Only included for current user
+  privateKeyIv?: string; // Only included for current user
   createdAt?: string;
 }
 
@@ -32,25 +48,106 @@ interface Message {
   senderId: number;
   senderUsername: string;
   senderPublicKey: string;
-  encryptedContent: string;
-  iv: string;
+  envelope: EncryptedEnvelope;
+  ratchetHeader: RatchetHeader | null;
   messageType: 'text';
   createdAt: string;
 }
 
 interface ConversationKey {
   keyId: string;
+  epoch: number; // Increases each time the key is rotated
   encryptedAesKey: string;
   iv: string;
+  ephemeralPublicKey: string | null; // Set when wrapped to our device key
   createdAt: string;
 }
 
+interface WrappedConversationKey {
+  keyId: string;
+  encryptedAesKey: string;
+  iv: string;
+  ephemeralPublicKey?: string;
+}
+
+// A copy of one key epoch stored under the owner's master key
+interface MasterWrappedKey {
+  conversationId: string;
+  keyId: string;
+  encryptedAesKey: string;
+  iv: string;
+}
+
+// The encrypted backup of a user's keys, sealed under a random backup key
+// that is itself wrapped under the recovery code and the master key
+interface KeyBackup {
+  recoveryWrappedKey: string;
+  masterWrappedKey: string;
+  encryptedIdentityKey: string;
+  encryptedKeyring: string | null; // Every conversation key epoch held, once any are backed up
+  keyringVersion: number;
+  updatedAt: string;
+}
+
+interface KeyBackupUpload {
+  recoveryAuthKey: string; // Derived from the recovery code; the server keeps a hash
+  recoveryWrappedKey: string;
+  masterWrappedKey: string;
+  encryptedIdentityKey: string;
+  encryptedKeyring?: string | null;
+}
+
+// A backup as handed out for account recovery
+interface RecoveryBackup extends KeyBackup {
+  userId: number;
+  publicKey: string;
+}
+
+// A device proving it holds its key, to open a session or recover an account
+interface DeviceSessionRequest {
+  deviceId: string;
+  name: string;
+  publicKey: string;
+  timestamp: number;
+  signature: string;
+  keySignature: string;
+}
+
+// A copy of one key epoch handed to a device being linked
+interface DeviceConversationKey extends WrappedConversationKey {
+  conversationId: string;
+  ephemeralPublicKey: string;
+}
+
+interface PreKeyBundle {
+  userId: number;
+  deviceId: string;
+  identityKey: string;
+  signedPreKeyId: number;
+  signedPreKey: string;
+  signature: string;
+  oneTimePreKey: { keyId: number; publicKey: string } | null;
+}
+
 interface ConversationParticipant {
   userId: number;
   username: string;
   publicKey: string;
 }
 
+// A presigned request for one chunk of an attachment
+interface PresignedUpload {
+  url: string; // absolute, or relative to the API
+  method: 'PUT';
+  headers: Record<string, string>;
+}
+
+interface AttachmentUpload {
+  attachmentId: string;
+  chunkSize: number; // encrypted bytes in every chunk but the last
+  uploadUrls: PresignedUpload[]; // one per chunk
+}
+
 interface ConversationInfo {
   conversationId: string;
   messageCount: number;
@@ -124,7 +221,10 @@ class ApiService {
     email: string;
     password: string;
     publicKey: string;
+    encryptedPrivateKey: string;
+    privateKeyIv: string;
     masterKeySalt: string;
+    keyBackup: KeyBackupUpload;
   }): Promise<AuthResponse> {
     const response = await this.api.post<ApiResponse<AuthResponse>>('/api/auth/register', userData);
     
@@ -154,6 +254,54 @@ class ApiService {
     this.clearStoredToken();
   }
 
+  // ===== DEVICE ENDPOINTS =====
+
+  /**
+   * Register this device or resume its session; the token returned is bound
+   * to the device and replaces the one from login
+   */
+  async openDeviceSession(deviceData: DeviceSessionRequest): Promise<Device> {
+    const response = await this.api.post<ApiResponse<{ device: Device; token: string }>>('/api/devices', deviceData);
+
+    if (response.data.success && response.data.data) {
+      this.setStoredToken(response.data.data.token);
+      return response.data.data.device;
+    }
+
+    throw new Error(response.data.message || 'Failed to open device session');
+  }
+
+  async getDevices(): Promise<Device[]> {
+    const response = await this.api.get<ApiResponse<{ devices: Device[] }>>('/api/devices');
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.devices;
+    }
+
+    throw new Error(response.data.message || 'Failed to get devices');
+  }
+
+  async approveDevice(deviceId: string, conversationKeys: DeviceConversationKey[]): Promise<Device> {
+    const response = await this.api.post<ApiResponse<{ device: Device }>>(
+      `/api/devices/${deviceId}/approve`,
+      { conversationKeys }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.device;
+    }
+
+    throw new Error(response.data.message || 'Failed to approve device');
+  }
+
+  async revokeDevice(deviceId: string): Promise<void> {
+    const response = await this.api.delete<ApiResponse>(`/api/devices/${deviceId}`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to revoke device');
+    }
+  }
+
   async getProfile(): Promise<User> {
     const response = await this.api.get<ApiResponse<{ user: User }>>('/api/auth/profile');
     
@@ -198,6 +346,143 @@ class ApiService {
     throw new Error(response.data.message || 'User not found');
   }
 
+  async updatePublicKey(publicKey: string, encryptedPrivateKey: string, privateKeyIv: string): Promise<void> {
+    const response = await this.api.put<ApiResponse>('/api/auth/public-key', {
+      publicKey,
+      encryptedPrivateKey,
+      privateKeyIv
+    });
+    
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to update public key');
+    }
+  }
+
+  async getMasterWrappedKeys(): Promise<MasterWrappedKey[]> {
+    const response = await this.api.get<ApiResponse<{ conversationKeys: MasterWrappedKey[] }>>(
+      '/api/auth/wrapped-keys'
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.conversationKeys;
+    }
+
+    throw new Error(response.data.message || 'Failed to get wrapped keys');
+  }
+
+  /**
+   * Tokens issued before the change are refused, so the new one returned for
+   * this device replaces ours
+   */
+  async changePassword(passwordData: {
+    currentPassword: string;
+    newPassword: string;
+    masterKeySalt: string;
+    encryptedPrivateKey: string;
+    privateKeyIv: string;
+    conversationKeys: MasterWrappedKey[];
+    masterWrappedKey?: string;
+  }): Promise<string[]> {
+    const response = await this.api.post<ApiResponse<{ revokedDeviceIds: string[]; token: string }>>(
+      '/api/auth/change-password',
+      passwordData
+    );
+
+    if (response.data.success && response.data.data) {
+      this.setStoredToken(response.data.data.token);
+      return response.data.data.revokedDeviceIds;
+    }
+
+    throw new Error(response.data.message || 'Failed to change password');
+  }
+
+  // ===== KEY BACKUP ENDPOINTS =====
+
+  async getKeyBackup(): Promise<KeyBackup> {
+    const response = await this.api.get<ApiResponse<{ backup: KeyBackup }>>('/api/key-backup');
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.backup;
+    }
+
+    throw new Error(response.data.message || 'Failed to get key backup');
+  }
+
+  async saveKeyBackup(backup: KeyBackupUpload): Promise<KeyBackup> {
+    const response = await this.api.put<ApiResponse<{ backup: KeyBackup }>>('/api/key-backup', backup);
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.backup;
+    }
+
+    throw new Error(response.data.message || 'Failed to save key backup');
+  }
+
+  /**
+   * Replace the backed up keyring; rejected with 409 if it moved on from
+   * the version given
+   */
+  async updateBackedUpKeyring(encryptedKeyring: string, version: number): Promise<number> {
+    const response = await this.api.put<ApiResponse<{ keyringVersion: number }>>('/api/key-backup/keyring', {
+      encryptedKeyring,
+      version
+    });
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.keyringVersion;
+    }
+
+    throw new Error(response.data.message || 'Failed to update keyring');
+  }
+
+  async getRecoveryBackup(username: string, recoveryAuthKey: string): Promise<RecoveryBackup> {
+    const response = await this.api.post<ApiResponse<{ backup: RecoveryBackup }>>('/api/key-backup/recover', {
+      username,
+      recoveryAuthKey
+    });
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.backup;
+    }
+
+    throw new Error(response.data.message || 'Account recovery failed');
+  }
+
+  async completeRecovery(recoveryData: {
+    username: string;
+    recoveryAuthKey: string;
+    newPassword: string;
+    masterKeySalt: string;
+    encryptedPrivateKey: string;
+    privateKeyIv: string;
+    masterWrappedKey: string;
+    device: DeviceSessionRequest;
+  }): Promise<Device> {
+    const response = await this.api.post<ApiResponse<{ device: Device; token: string }>>(
+      '/api/key-backup/recover/complete',
+      recoveryData
+    );
+
+    if (response.data.success && response.data.data) {
+      this.setStoredToken(response.data.data.token);
+      return response.data.data.device;
+    }
+
+    throw new Error(response.data.message || 'Account recovery failed');
+  }
+
+  async restoreConversationKeys(conversationKeys: DeviceConversationKey[]): Promise<number> {
+    const response = await this.api.post<ApiResponse<{ restored: number }>>('/api/key-backup/restore', {
+      conversationKeys
+    });
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.restored;
+    }
+
+    throw new Error(response.data.message || 'Failed to restore conversation keys');
+  }
+
   // ===== CONVERSATION ENDPOINTS =====
 
   async getConversations(): Promise<import('@shared/types').Conversation[]> {
@@ -225,13 +510,102 @@ class ApiService {
     throw new Error(response.data.message || 'Failed to create conversation');
   }
 
-  async getMessages(conversationId: number): Promise<import('@shared/types').Message[]> {
-    const response = await this.api.get<ApiResponse<{ messages: import('@shared/types').Message[] }>>(
-      `/api/conversations/${conversationId}/messages`
+  async createGroupConversation(name: string, participantIds: number[]): Promise<import('@shared/types').Conversation> {
+    const response = await this.api.post<ApiResponse<{ conversation: import('@shared/types').Conversation }>>(
+      '/api/conversations/groups',
+      { name, participantIds }
     );
     
     if (response.data.success && response.data.data) {
-      return response.data.data.messages;
+      return response.data.data.conversation;
+    }
+    
+    throw new Error(response.data.message || 'Failed to create group');
+  }
+
+  async renameConversation(conversationId: number, name: string): Promise<import('@shared/types').Conversation> {
+    const response = await this.api.patch<ApiResponse<{ conversation: import('@shared/types').Conversation }>>(
+      `/api/conversations/${conversationId}`,
+      { name }
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.conversation;
+    }
+    
+    throw new Error(response.data.message || 'Failed to rename group');
+  }
+
+  async setDisappearingMessages(
+    conversationId: number,
+    seconds: number | null,
+    start: 'sent' | 'read' = 'sent'
+  ): Promise<import('@shared/types').Conversation> {
+    const response = await this.api.put<ApiResponse<{ conversation: import('@shared/types').Conversation }>>(
+      `/api/conversations/${conversationId}/disappearing`,
+      { seconds, start }
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.conversation;
+    }
+    
+    throw new Error(response.data.message || 'Failed to change disappearing messages');
+  }
+
+  async addConversationParticipants(
+    conversationId: number,
+    participantIds: number[]
+  ): Promise<import('@shared/types').Conversation> {
+    const response = await this.api.post<ApiResponse<{ conversation: import('@shared/types').Conversation }>>(
+      `/api/conversations/${conversationId}/participants`,
+      { participantIds }
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.conversation;
+    }
+    
+    throw new Error(response.data.message || 'Failed to add members');
+  }
+
+  async removeConversationParticipant(conversationId: number, userId: number): Promise<void> {
+    const response = await this.api.delete<ApiResponse>(
+      `/api/conversations/${conversationId}/participants/${userId}`
+    );
+    
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to remove member');
+    }
+  }
+
+  async markConversationRead(conversationId: number, messageId?: number): Promise<number | null> {
+    const response = await this.api.post<ApiResponse<{ lastReadMessageId: number | null }>>(
+      `/api/conversations/${conversationId}/read`,
+      messageId ? { messageId } : {}
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.lastReadMessageId;
+    }
+    
+    throw new Error(response.data.message || 'Failed to mark conversation as read');
+  }
+
+  async getMessages(conversationId: number, cursor: MessageCursor = {}): Promise<MessagePage> {
+    const response = await this.api.get<ApiResponse<{
+      messages: import('@shared/types').Message[];
+      pagination: { hasMore: boolean };
+    }>>(
+      `/api/conversations/${conversationId}/messages`,
+      { params: cursor }
+    );
+    
+    if (response.data.success && response.data.data) {
+      return {
+        messages: response.data.data.messages,
+        hasMore: response.data.data.pagination.hasMore
+      };
     }
     
     throw new Error(response.data.message || 'Failed to get messages');
@@ -255,24 +629,6 @@ class ApiService {
 
   // ===== CONVERSATION KEY ENDPOINTS - Step 4 New =====
 
-  async storeConversationKey(
-    conversationId: string,
-    keyId: string,
-    encryptedAesKey: string,
-    iv: string
-  ): Promise<void> {
-    const response = await this.api.post<ApiResponse>('/api/conversation-keys/store', {
-      conversationId,
-      keyId,
-      encryptedAesKey,
-      iv
-    });
-    
-    if (!response.data.success) {
-      throw new Error(response.data.message || 'Failed to store conversation key');
-    }
-  }
-
   async getConversationKey(conversationId: string): Promise<ConversationKey> {
     const response = await this.api.get<ApiResponse<{ conversationKey: ConversationKey }>>(
       `/api/conversation-keys/${conversationId}`
@@ -285,6 +641,18 @@ class ApiService {
     throw new Error(response.data.message || 'Failed to get conversation key');
   }
 
+  async getConversationKeyring(conversationId: string): Promise<ConversationKey[]> {
+    const response = await this.api.get<ApiResponse<{ keyring: ConversationKey[] }>>(
+      `/api/conversation-keys/${conversationId}/keyring`
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.keyring;
+    }
+    
+    throw new Error(response.data.message || 'Failed to get conversation keyring');
+  }
+
   async getConversationParticipants(conversationId: string): Promise<ConversationParticipant[]> {
     const response = await this.api.get<ApiResponse<{ participants: ConversationParticipant[] }>>(
       `/api/conversation-keys/${conversationId}/participants`
@@ -297,6 +665,18 @@ class ApiService {
     throw new Error(response.data.message || 'Failed to get conversation participants');
   }
 
+  async getConversationDevices(conversationId: string): Promise<ConversationDevice[]> {
+    const response = await this.api.get<ApiResponse<{ devices: ConversationDevice[] }>>(
+      `/api/conversation-keys/${conversationId}/devices`
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.devices;
+    }
+
+    throw new Error(response.data.message || 'Failed to get conversation devices');
+  }
+
   async getUserConversations(): Promise<ConversationInfo[]> {
     const response = await this.api.get<ApiResponse<{ conversations: ConversationInfo[] }>>(
       '/api/conversation-keys/conversations/list'
@@ -312,7 +692,7 @@ class ApiService {
   async setupConversation(
     conversationId: string,
     participantUserIds: number[],
-    conversationKeys: Record<number, { keyId: string; encryptedAesKey: string; iv: string }>
+    conversationKeys: Record<string, WrappedConversationKey> // deviceId -> wrapped key
   ): Promise<void> {
     const response = await this.api.post<ApiResponse>('/api/conversation-keys/setup', {
       conversationId,
@@ -325,6 +705,104 @@ class ApiService {
     }
   }
 
+  async shareConversationKey(
+    conversationId: string,
+    conversationKeys: Record<string, WrappedConversationKey> // deviceId -> wrapped key
+  ): Promise<void> {
+    const response = await this.api.post<ApiResponse>('/api/conversation-keys/share', {
+      conversationId,
+      conversationKeys
+    });
+    
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to share conversation key');
+    }
+  }
+
+  async rotateConversationKey(
+    conversationId: string,
+    epoch: number,
+    keyId: string,
+    conversationKeys: Record<string, WrappedConversationKey> // deviceId -> wrapped key
+  ): Promise<void> {
+    const response = await this.api.post<ApiResponse>('/api/conversation-keys/rotate', {
+      conversationId,
+      epoch,
+      keyId,
+      conversationKeys
+    });
+    
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to rotate conversation key');
+    }
+  }
+
+  async publishPreKeyBundle(bundle: {
+    signedPreKey?: { keyId: number; publicKey: string; signature: string };
+    oneTimePreKeys?: Array<{ keyId: number; publicKey: string }>;
+  }): Promise<PreKeyPoolStatus> {
+    const response = await this.api.post<ApiResponse<{ poolStatus: PreKeyPoolStatus }>>(
+      '/api/conversation-keys/prekeys',
+      bundle
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.poolStatus;
+    }
+    
+    throw new Error(response.data.message || 'Failed to publish prekey bundle');
+  }
+
+  async claimPreKeyBundle(userId: number): Promise<PreKeyBundle> {
+    const response = await this.api.post<ApiResponse<{ preKeyBundle: PreKeyBundle }>>(
+      `/api/conversation-keys/prekeys/${userId}/claim`
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.preKeyBundle;
+    }
+    
+    throw new Error(response.data.message || 'Failed to claim prekey bundle');
+  }
+
+  async getKeyLogHead(): Promise<{ treeHead: SignedTreeHead; publicKey: string }> {
+    const response = await this.api.get<ApiResponse<{ treeHead: SignedTreeHead; publicKey: string }>>(
+      '/api/key-log/head'
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to get key log head');
+  }
+
+  // since is the size of the last tree head we checked, for a consistency proof
+  async getKeyLogProof(userId: number, since = 0): Promise<KeyLogProof> {
+    const response = await this.api.get<ApiResponse<KeyLogProof>>(
+      `/api/key-log/users/${userId}/proof`,
+      { params: { since } }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to get key proof');
+  }
+
+  async getPreKeyStatus(): Promise<PreKeyPoolStatus> {
+    const response = await this.api.get<ApiResponse<{ poolStatus: PreKeyPoolStatus }>>(
+      '/api/conversation-keys/prekeys/status'
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.poolStatus;
+    }
+    
+    throw new Error(response.data.message || 'Failed to get prekey status');
+  }
+
   async checkConversationAccess(conversationId: string): Promise<boolean> {
     const response = await this.api.get<ApiResponse<{ hasAccess: boolean }>>(
       `/api/conversation-keys/${conversationId}/access`
@@ -340,15 +818,17 @@ class ApiService {
   // ===== MESSAGE ENDPOINTS - Step 4 Updated =====
 
   async sendMessage(messageData: {
-    conversationId: number;
-    content: string;
+    conversationId: number | string;
+    envelope: EncryptedEnvelope;
+    ratchetHeader?: RatchetHeader | null;
     messageType?: 'text';
-  }): Promise<import('@shared/types').Message> {
-    const response = await this.api.post<ApiResponse<{ message: import('@shared/types').Message }>>(
+  }): Promise<Message> {
+    const response = await this.api.post<ApiResponse<{ message: Message }>>(
       '/api/messages',
       {
         conversationId: messageData.conversationId,
-        content: messageData.content,
+        envelope: messageData.envelope,
+        ratchetHeader: messageData.ratchetHeader ?? null,
         messageType: messageData.messageType || 'text'
       }
     );
@@ -372,15 +852,52 @@ class ApiService {
     throw new Error(response.data.message || 'Failed to get message');
   }
 
+  async editMessage(messageId: number, envelope: EncryptedEnvelope): Promise<Message> {
+    const response = await this.api.put<ApiResponse<{ message: Message }>>(
+      `/api/messages/${messageId}`,
+      { envelope }
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.message;
+    }
+    
+    throw new Error(response.data.message || 'Failed to edit message');
+  }
+
+  async getMessageRevisions(messageId: number): Promise<MessageRevision[]> {
+    const response = await this.api.get<ApiResponse<{ revisions: MessageRevision[] }>>(
+      `/api/messages/${messageId}/revisions`
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.revisions;
+    }
+    
+    throw new Error(response.data.message || 'Failed to get message revisions');
+  }
+
+  async getMessageReplies(messageId: number): Promise<import('@shared/types').Message[]> {
+    const response = await this.api.get<ApiResponse<{ replies: import('@shared/types').Message[] }>>(
+      `/api/messages/${messageId}/replies`
+    );
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.replies;
+    }
+    
+    throw new Error(response.data.message || 'Failed to get message replies');
+  }
+
   async getConversationMessages(
     conversationId: string,
-    limit: number = 50,
-    offset: number = 0
+    cursor: MessageCursor = {}
   ): Promise<Message[]> {
     // For now, we'll use a direct endpoint for messages by conversation
     // This might need to be added to the backend if not already there
     const response = await this.api.get<ApiResponse<{ messages: Message[] }>>(
-      `/api/messages/conversation/${conversationId}?limit=${limit}&offset=${offset}`
+      `/api/messages/conversation/${conversationId}`,
+      { params: cursor }
     );
     
     if (response.data.success && response.data.data) {
@@ -391,26 +908,28 @@ class ApiService {
     throw new Error(response.data.message || 'Failed to get conversation messages');
   }
 
-  async deleteMessage(messageId: number): Promise<void> {
-    const response = await this.api.delete<ApiResponse>(
-      `/api/messages/${messageId}`
-    );
+  // Which of these messages we can still see; the rest went while we were away
+  async getVisibleMessageIds(messageIds: number[]): Promise<number[]> {
+    const response = await this.api.post<ApiResponse<{ messageIds: number[] }>>('/api/messages/visible', { messageIds });
     
-    if (!response.data.success) {
-      throw new Error(response.data.message || 'Failed to delete message');
+    if (response.data.success && response.data.data) {
+      return response.data.data.messageIds;
     }
+    
+    throw new Error(response.data.message || 'Failed to check messages');
   }
 
-  async searchMessages(query: string, limit: number = 20): Promise<Message[]> {
-    const response = await this.api.get<ApiResponse<{ messages: Message[] }>>(
-      `/api/messages/search/${encodeURIComponent(query)}?limit=${limit}`
+  async deleteMessage(messageId: number, mode: MessageDeleteMode = 'everyone'): Promise<MessageDeletion> {
+    const response = await this.api.delete<ApiResponse<MessageDeletion>>(
+      `/api/messages/${messageId}`,
+      { data: { mode } }
     );
     
     if (response.data.success && response.data.data) {
-      return response.data.data.messages;
+      return response.data.data;
     }
     
-    throw new Error(response.data.message || 'Search failed');
+    throw new Error(response.data.message || 'Failed to delete message');
   }
 
   async getUnreadMessageCount(): Promise<number> {
@@ -425,6 +944,77 @@ class ApiService {
     throw new Error(response.data.message || 'Failed to get unread count');
   }
 
+  // ===== ATTACHMENT ENDPOINTS =====
+
+  async createAttachment(conversationId: number, size: number, chunkCount: number): Promise<AttachmentUpload> {
+    const response = await this.api.post<ApiResponse<AttachmentUpload>>(
+      '/api/attachments',
+      { conversationId, size, chunkCount }
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to start upload');
+  }
+
+  // Presigned URLs may point at the API or straight at the blob store, and
+  // carry their own authorization, so they are sent without our token
+  async uploadAttachmentChunk(upload: PresignedUpload, chunk: Uint8Array): Promise<void> {
+    await axios.request({
+      url: new URL(upload.url, this.baseURL).toString(),
+      method: upload.method,
+      headers: upload.headers,
+      data: chunk,
+      timeout: 60000
+    });
+  }
+
+  async completeAttachment(attachmentId: string): Promise<void> {
+    const response = await this.api.post<ApiResponse>(
+      `/api/attachments/${attachmentId}/complete`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to complete upload');
+    }
+  }
+
+  async getAttachmentDownloadUrls(attachmentId: string): Promise<string[]> {
+    const response = await this.api.get<ApiResponse<{ downloadUrls: string[] }>>(
+      `/api/attachments/${attachmentId}/urls`
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data.downloadUrls;
+    }
+
+    throw new Error(response.data.message || 'Failed to get attachment');
+  }
+
+  // One encrypted chunk, exactly as uploaded
+  async downloadAttachmentChunk(url: string): Promise<ArrayBuffer> {
+    const response = await axios.get<ArrayBuffer>(new URL(url, this.baseURL).toString(), {
+      responseType: 'arraybuffer',
+      timeout: 60000
+    });
+
+    return response.data;
+  }
+
+  async getStorageUsage(): Promise<{ used: number; quota: number }> {
+    const response = await this.api.get<ApiResponse<{ used: number; quota: number }>>(
+      '/api/attachments/usage'
+    );
+
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+
+    throw new Error(response.data.message || 'Failed to get storage usage');
+  }
+
   // ===== TEST ENDPOINTS - Step 4 =====
 
   async testHealthCheck(): Promise<any> {
@@ -439,7 +1029,7 @@ class ApiService {
 
   async testConversationSetup(
     conversationId: string,
-    testMessage: { encryptedContent: string; iv: string },
+    testMessage: EncryptedEnvelope,
     encryptedKeys: Record<number, { keyId: string; encryptedAesKey: string; iv: string }>
   ): Promise<any> {
     const response = await this.api.post<ApiResponse>('/api/test/setup-conversation', {
@@ -491,4 +1081,21 @@ export default apiService;
 
 // Also export the class and types
 export { ApiService };
-export type { User, AuthResponse, Message, ConversationKey, ConversationParticipant, ConversationInfo };
+export type {
+  User,
+  AuthResponse,
+  Message,
+  ConversationKey,
+  WrappedConversationKey,
+  MasterWrappedKey,
+  KeyBackup,
+  KeyBackupUpload,
+  RecoveryBackup,
+  DeviceSessionRequest,
+  DeviceConversationKey,
+  PreKeyBundle,
+  ConversationParticipant,
+  ConversationInfo,
+  PresignedUpload,
+  AttachmentUpload
+};
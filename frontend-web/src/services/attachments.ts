@@ -0,0 +1,153 @@
+/**
+ * Attachment Service
+ * Encrypts files in the browser with a fresh key per file and moves the
+ * ciphertext chunk by chunk through presigned URLs from /api/attachments.
+ * The key and digest only ever travel inside an encrypted message.
+ */
+
+import { EncryptionService } from '../utils/encryption';
+import apiService, { PresignedUpload } from './api';
+import type { AttachmentPayload, MessageType } from '@shared/types';
+
+// Plaintext bytes per chunk; each encrypted chunk adds a 12-byte IV and 16-byte tag.
+// The server expects every chunk but the last to be exactly this full
+export const ATTACHMENT_CHUNK_SIZE = 1024 * 1024;
+export const MAX_ATTACHMENT_SIZE = 100 * ATTACHMENT_CHUNK_SIZE;
+const CHUNK_OVERHEAD = 28;
+const UPLOAD_ATTEMPTS = 3;
+
+// Formats the browser can preview inline; anything else is offered as a download
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+class AttachmentService {
+  // Decrypted files by attachment ID, so scrolling back does not download again
+  private files = new Map<string, Promise<Blob>>();
+
+  getMessageType(mimeType: string): MessageType {
+    return IMAGE_TYPES.includes(mimeType) ? 'image' : 'file';
+  }
+
+  /**
+   * Encrypt and upload a file, returning the payload to send as the message body
+   */
+  async upload(
+    file: File,
+    conversationId: number,
+    onProgress?: (fraction: number) => void
+  ): Promise<AttachmentPayload> {
+    if (file.size === 0) {
+      throw new Error('File is empty');
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error('Files can be at most 100 MB');
+    }
+
+    const key = EncryptionService.generateSecureRandom(32);
+    const chunkCount = Math.ceil(file.size / ATTACHMENT_CHUNK_SIZE);
+    const { attachmentId, uploadUrls } = await apiService.createAttachment(
+      conversationId,
+      file.size + chunkCount * CHUNK_OVERHEAD,
+      chunkCount
+    );
+
+    // One chunk in memory at a time; the file digest is taken over the chunk digests
+    const chunkDigests: string[] = [];
+    for (let index = 0; index < chunkCount; index++) {
+      const start = index * ATTACHMENT_CHUNK_SIZE;
+      const plaintext = new Uint8Array(await file.slice(start, start + ATTACHMENT_CHUNK_SIZE).arrayBuffer());
+      const chunk = await EncryptionService.encryptChunk(plaintext, key, index, chunkCount);
+
+      chunkDigests.push(await EncryptionService.sha256(chunk));
+      await this.uploadChunk(uploadUrls[index], chunk);
+      onProgress?.((index + 1) / chunkCount);
+    }
+
+    await apiService.completeAttachment(attachmentId);
+
+    return {
+      attachmentId,
+      key,
+      digest: await this.getFileDigest(chunkDigests),
+      name: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      chunkSize: ATTACHMENT_CHUNK_SIZE,
+      chunkCount
+    };
+  }
+
+  /**
+   * Download, verify and decrypt an attachment
+   */
+  download(payload: AttachmentPayload): Promise<Blob> {
+    let file = this.files.get(payload.attachmentId);
+
+    if (!file) {
+      file = this.fetchFile(payload);
+      this.files.set(payload.attachmentId, file);
+      // A failed download can be retried
+      file.catch(() => this.files.delete(payload.attachmentId));
+    }
+
+    return file;
+  }
+
+  /**
+   * Forget a decrypted file, such as one whose message has disappeared
+   */
+  evict(attachmentId: string): void {
+    this.files.delete(attachmentId);
+  }
+
+  clearCache(): void {
+    this.files.clear();
+  }
+
+  private async uploadChunk(upload: PresignedUpload, chunk: Uint8Array): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await apiService.uploadAttachmentChunk(upload, chunk);
+        return;
+      } catch (error) {
+        if (attempt >= UPLOAD_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async fetchFile(payload: AttachmentPayload): Promise<Blob> {
+    const downloadUrls = await apiService.getAttachmentDownloadUrls(payload.attachmentId);
+    if (downloadUrls.length !== payload.chunkCount) {
+      throw new Error('Attachment does not match its digest');
+    }
+
+    const chunkDigests: string[] = [];
+    const parts: ArrayBuffer[] = [];
+
+    // Chunk by chunk, so only one encrypted chunk is held at a time
+    for (let index = 0; index < payload.chunkCount; index++) {
+      const chunk = new Uint8Array(await apiService.downloadAttachmentChunk(downloadUrls[index]));
+
+      chunkDigests.push(await EncryptionService.sha256(chunk));
+      parts.push(await EncryptionService.decryptChunk(chunk, payload.key, index, payload.chunkCount));
+    }
+
+    if (await this.getFileDigest(chunkDigests) !== payload.digest) {
+      throw new Error('Attachment does not match its digest');
+    }
+
+    return new Blob(parts, { type: payload.mimeType });
+  }
+
+  private getFileDigest(chunkDigests: string[]): Promise<string> {
+    return EncryptionService.sha256(new TextEncoder().encode(chunkDigests.join('')));
+  }
+}
+
+// Create and export a singleton instance
+const attachmentService = new AttachmentService();
+export default attachmentService;
+
+// Also export the class
+export { AttachmentService };
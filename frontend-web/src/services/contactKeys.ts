@@ -0,0 +1,251 @@
+/**
+ * Contact Keys
+ * Identity keys of the people we talk to, pinned the first time we see them.
+ * Public keys come from the server, so one that differs from the pin may mean
+ * the server swapped it for its own; the new key is set aside until the user
+ * compares safety numbers or accepts it. Every key is also checked against
+ * the key transparency log, and one that is not its owner's latest entry is
+ * flagged. Pins are kept in localStorage, encrypted under the master key.
+ */
+
+import { EncryptionService, MasterKeyHandle } from '../utils/encryption';
+import keyTransparency from './keyTransparency';
+
+export interface ContactKey {
+  userId: number;
+  username: string;
+  publicKey: string; // Pinned identity key
+  verified: boolean; // Safety number compared out of band
+  changedKey: string | null; // Different key the server has since returned
+  unlogged?: boolean; // The key the server returned last failed the key log check
+  pinnedAt: number;
+}
+
+export type ContactKeys = Record<number, ContactKey>; // userId -> pin
+
+type ContactKeysListener = (contacts: ContactKeys) => void;
+
+interface KeyOwner {
+  userId: number;
+  masterKey: MasterKeyHandle;
+}
+
+const STORAGE_PREFIX = 'contact_keys_';
+const ASSOCIATED_DATA = 'contact-keys';
+
+class ContactKeyService {
+  private owner: KeyOwner | null = null;
+  private contacts: Promise<ContactKeys> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private listeners: Set<ContactKeysListener> = new Set();
+
+  /**
+   * Use the pins of the signed-in user
+   */
+  open(userId: number, masterKey: MasterKeyHandle): void {
+    if (this.owner?.userId === userId && this.owner.masterKey === masterKey) {
+      return;
+    }
+
+    this.owner = { userId, masterKey };
+    this.contacts = null;
+    this.getContacts().then(contacts => this.notify(contacts));
+  }
+
+  /**
+   * Seal the pins under a new master key, after a password change
+   */
+  rekey(masterKey: MasterKeyHandle): Promise<void> {
+    const result = this.queue.then(async () => {
+      if (!this.owner) {
+        return;
+      }
+
+      const contacts = await this.getContacts();
+      this.owner = { ...this.owner, masterKey };
+      await this.save(this.owner, contacts);
+    });
+
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  close(): void {
+    this.owner = null;
+    this.contacts = null;
+    this.notify({});
+  }
+
+  subscribe(listener: ContactKeysListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getContacts(): Promise<ContactKeys> {
+    if (!this.owner) {
+      return Promise.resolve({});
+    }
+
+    if (!this.contacts) {
+      this.contacts = this.load(this.owner);
+    }
+    return this.contacts;
+  }
+
+  /**
+   * Pin keys seen for the first time and set aside ones that changed, after
+   * checking each against the key log
+   * Rejects when the log cannot be reached
+   */
+  async checkKeys(users: Array<{ id: number; username: string; publicKey: string }>): Promise<ContactKeys> {
+    const contactUsers = users.filter(user => user.id !== this.owner?.userId && user.publicKey);
+    const unlogged = await keyTransparency.findUnloggedKeys(contactUsers);
+
+    return this.update(contacts => {
+      let changed = false;
+
+      for (const user of contactUsers) {
+        const contact = contacts[user.id];
+        if (!contact) {
+          contacts[user.id] = {
+            userId: user.id,
+            username: user.username,
+            publicKey: user.publicKey,
+            verified: false,
+            changedKey: null,
+            unlogged: unlogged.has(user.id),
+            pinnedAt: Date.now()
+          };
+          changed = true;
+          continue;
+        }
+
+        // A key matching the pin again clears an earlier change
+        const changedKey = user.publicKey === contact.publicKey ? null : user.publicKey;
+        const username = user.username || contact.username;
+        const isUnlogged = unlogged.has(user.id);
+        if (changedKey !== contact.changedKey || username !== contact.username || isUnlogged !== !!contact.unlogged) {
+          contacts[user.id] = { ...contact, username, changedKey, unlogged: isUnlogged };
+          changed = true;
+        }
+      }
+
+      return changed;
+    });
+  }
+
+  /**
+   * Record that the user compared safety numbers for this key
+   */
+  markVerified(userId: number, publicKey: string): Promise<ContactKeys> {
+    return this.update(contacts => {
+      const contact = contacts[userId];
+      if (!contact) {
+        return false;
+      }
+
+      contacts[userId] = { ...contact, publicKey, verified: true, changedKey: null, pinnedAt: Date.now() };
+      return true;
+    });
+  }
+
+  clearVerification(userId: number): Promise<ContactKeys> {
+    return this.update(contacts => {
+      const contact = contacts[userId];
+      if (!contact?.verified) {
+        return false;
+      }
+
+      contacts[userId] = { ...contact, verified: false };
+      return true;
+    });
+  }
+
+  /**
+   * Pin the new key without verifying it; the contact shows as unverified
+   */
+  acceptKeyChange(userId: number): Promise<ContactKeys> {
+    return this.update(contacts => {
+      const contact = contacts[userId];
+      if (!contact?.changedKey) {
+        return false;
+      }
+
+      contacts[userId] = {
+        ...contact,
+        publicKey: contact.changedKey,
+        verified: false,
+        changedKey: null,
+        pinnedAt: Date.now()
+      };
+      return true;
+    });
+  }
+
+  /**
+   * Apply a change to the pins one at a time, saving when it reports a change
+   */
+  private update(mutate: (contacts: ContactKeys) => boolean): Promise<ContactKeys> {
+    const result = this.queue.then(async () => {
+      const owner = this.owner;
+      if (!owner) {
+        return {};
+      }
+
+      const contacts = { ...(await this.getContacts()) };
+      if (!mutate(contacts)) {
+        return contacts;
+      }
+
+      // Signed out while we were waiting
+      if (this.owner !== owner) {
+        return contacts;
+      }
+
+      this.contacts = Promise.resolve(contacts);
+      await this.save(owner, contacts);
+      this.notify(contacts);
+      return contacts;
+    });
+
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(owner: KeyOwner): Promise<ContactKeys> {
+    const stored = localStorage.getItem(STORAGE_PREFIX + owner.userId);
+    if (!stored) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(await EncryptionService.decryptData(JSON.parse(stored), owner.masterKey, ASSOCIATED_DATA));
+    } catch (error) {
+      // Sealed under a master key we no longer have; keys are pinned afresh
+      console.error('❌ Failed to open pinned contact keys:', error);
+      return {};
+    }
+  }
+
+  private async save(owner: KeyOwner, contacts: ContactKeys): Promise<void> {
+    const envelope = await EncryptionService.encryptData(
+      JSON.stringify(contacts),
+      owner.masterKey,
+      null,
+      ASSOCIATED_DATA
+    );
+    localStorage.setItem(STORAGE_PREFIX + owner.userId, JSON.stringify(envelope));
+  }
+
+  private notify(contacts: ContactKeys): void {
+    this.listeners.forEach(listener => listener(contacts));
+  }
+}
+
+// Create and export singleton instance
+const contactKeys = new ContactKeyService();
+export default contactKeys;
+
+export { ContactKeyService };
@@ -1,286 +1,2148 @@
 /**
  * Encryption Manager - Step 6 Simplified: Simple Session Management
- * Stores session data including master key for seamless experience
+ * Keeps the master key and private keys as non-extractable keys in IndexedDB
+ * for a seamless experience, and wipes them when the app locks
  */
 
-import { EncryptionService } from '../utils/encryption';
-import apiService, { User, Message, ConversationKey } from './api';
+import { isAxiosError } from 'axios';
+import {
+  EncryptionService,
+  ConversationKey,
+  UserKeyPair,
+  HeldKeyPair,
+  MasterKeyHandle,
+  SignedPreKey,
+  OneTimePreKey,
+  EncryptedEnvelope
+} from '../utils/encryption';
+import { DoubleRatchet, RatchetSession } from '../utils/ratchet';
+import apiService, {
+  User,
+  Message,
+  WrappedConversationKey,
+  ConversationKey as StoredConversationKey,
+  DeviceConversationKey,
+  DeviceSessionRequest,
+  KeyBackup,
+  KeyBackupUpload,
+  RecoveryBackup
+} from './api';
+import contactKeys from './contactKeys';
+import keyTransparency from './keyTransparency';
+import keyStore, { SessionKeys, StoredSession } from './keyStore';
+import type { ConversationDevice, Device, DeviceStatus, RatchetHeader } from '@shared/types';
+
+// This browser's device; conversation keys are wrapped to its key pair, and
+// it reads nothing until another of the user's devices approves it
+interface DeviceSession {
+  deviceId: string;
+  name: string;
+  status: DeviceStatus;
+  keyPair: HeldKeyPair;
+}
 
 interface UserSession {
   user: User;
-  masterKey: string;
-  userKeyPair: any;
+  masterKey: MasterKeyHandle;
+  userKeyPair: HeldKeyPair;
+  device: DeviceSession;
+}
+
+// This browser's device as kept between logins, private key under the master key
+interface StoredDevice {
+  deviceId: string;
+  name: string;
+  publicKey: string;
+  encryptedPrivateKey: string;
+  privateKeyIv: string;
+}
+
+// Every epoch of a conversation key we hold; messages name the key they
+// were encrypted with, so history stays readable after a rotation
+interface ConversationKeyring {
+  epoch: number;
+  currentKeyId: string;
+  keys: Record<string, ConversationKey>; // keyId -> key
 }
 
 interface ConversationData {
   conversationId: string;
-  participants: User[];
+  participants: User[]; // Holders of the current key
   conversationKey: any;
+  keyring: ConversationKeyring;
   messages: Message[];
 }
 
-interface SessionStorage {
-  userId: number;
-  masterKey: string;
-  masterKeySalt: string;
-  userKeyPair: any;
-  lastActivity: number;
+// Ratchet state, kept in localStorage encrypted under the master key so it
+// survives logout
+interface RatchetStore {
+  signedPreKeys: SignedPreKey[]; // Newest first
+  oneTimePreKeys: OneTimePreKey[]; // Uploaded and not yet used, oldest first
+  nextOneTimePreKeyId: number;
+  sessions: Record<string, RatchetSession[]>; // conversationId -> sessions, active first
+  sessionDevices: Record<string, string>; // conversationId -> peer device we last sent to
+  plaintexts: Record<string, string>; // Envelope IV -> plaintext of ratchet messages
+  plaintextExpiry: Record<string, number>; // Envelope IV -> when a disappearing message's plaintext goes
+}
+
+interface EncryptedMessageData {
+  envelope: EncryptedEnvelope;
+  ratchetHeader: RatchetHeader | null;
+}
+
+// Every conversation key epoch we hold, as sealed in the key backup
+type BackedUpKeyring = Record<string, Record<string, string>>; // conversationId -> keyId -> AES key
+
+// Idle lock preferences, per user; nothing secret in them
+interface LockSettings {
+  enabled: boolean;
+  timeoutMinutes: number;
 }
 
 class EncryptionManager {
   private currentSession: UserSession | null = null;
+  // The session as kept in IndexedDB; its keys are null while locked
+  private storedSession: StoredSession | null = null;
+  private restored: Promise<void>;
   private conversationCache: Map<string, ConversationData> = new Map();
-  private readonly SESSION_STORAGE_KEY = 'encryption_session';
+  // Where earlier versions kept the raw master key and private keys
+  private readonly LEGACY_SESSION_STORAGE_KEY = 'encryption_session';
+  private readonly ACTIVITY_STORAGE_KEY = 'encryption_session_activity';
+  private readonly LOCK_SETTINGS_PREFIX = 'lock_settings_';
   private readonly SESSION_TIMEOUT = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private readonly DEFAULT_LOCK_TIMEOUT_MINUTES = 5;
+  private readonly MAX_PIN_ATTEMPTS = 5;
+  private ratchetStore: Promise<RatchetStore> | null = null;
+  private ratchetQueue: Promise<unknown> = Promise.resolve();
+  private preKeyBundleMisses: Map<number, number> = new Map(); // userId -> time of last 404
+  private missingKeyIds: Set<string> = new Set(); // Key epochs still missing after a reload
+  private ratchetDevices: Map<string, { deviceId: string | null; checkedAt: number }> = new Map(); // conversationId -> peer device
+  private readonly RATCHET_STORE_KEY = 'ratchet_store';
+  private readonly DEVICE_STORAGE_PREFIX = 'device_';
+  private readonly SIGNED_PREKEY_ROTATION = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private readonly PREKEY_BUNDLE_RETRY = 5 * 60 * 1000; // 5 minutes
+  private readonly RATCHET_DEVICES_TTL = 5 * 60 * 1000; // Peers' device changes are not pushed to us
+  private readonly MAX_SIGNED_PREKEYS = 3;
+  private readonly MAX_ONE_TIME_PREKEYS = 200;
+  private readonly ONE_TIME_PREKEY_BATCH = 100;
+  private readonly MAX_RATCHET_SESSIONS = 4;
+  private readonly MAX_CACHED_PLAINTEXTS = 5000;
+  private readonly KEY_BACKUP_DELAY = 5 * 1000; // Batches keyring changes into one backup
+  private readonly KEY_BACKUP_DATA = 'key-backup';
+  private readonly KEY_BACKUP_IDENTITY_DATA = 'key-backup-identity';
+  private readonly KEY_BACKUP_KEYRING_DATA = 'key-backup-keyring';
+  private keyBackupTimer: ReturnType<typeof setTimeout> | null = null;
+  private keyBackupQueue: Promise<unknown> = Promise.resolve();
+  private keyBackupMissing = false; // No backup set up, so there is nothing to keep current
+  private backedUpKeyIds: Set<string> = new Set(); // conversationId:keyId known to be backed up
 
   constructor() {
+    localStorage.removeItem(this.LEGACY_SESSION_STORAGE_KEY);
+
     // Try to restore session on initialization
-    this.tryRestoreSession();
+    this.restored = this.tryRestoreSession();
+  }
+
+  /**
+   * Resolves once the stored session has been restored, found locked, or
+   * found missing
+   */
+  ready(): Promise<void> {
+    return this.restored;
+  }
+
+  /**
+   * Step 6: Try to restore session from storage
+   */
+  private async tryRestoreSession(): Promise<void> {
+    try {
+      const storedSession = await keyStore.getSession();
+      if (!storedSession) {
+        console.log('🔍 No stored session found');
+        return;
+      }
+
+      // Check if session is expired
+      const lastActivity = Number(localStorage.getItem(this.ACTIVITY_STORAGE_KEY)) || 0;
+      if (Date.now() - lastActivity > this.SESSION_TIMEOUT) {
+        console.log('🕐 Session expired, clearing...');
+        await this.clearStoredSession(storedSession.userId);
+        return;
+      }
+
+      // Left idle past the lock timeout while the page was closed
+      const lockSettings = this.getLockSettings(storedSession.userId);
+      const idleTime = Date.now() - lastActivity;
+      if (storedSession.keys && lockSettings.enabled && idleTime > lockSettings.timeoutMinutes * 60 * 1000) {
+        storedSession.keys = null;
+        await keyStore.putSession(storedSession);
+      }
+
+      this.storedSession = storedSession;
+      if (!storedSession.keys) {
+        console.log('🔒 Session restored locked');
+        return;
+      }
+
+      this.openSession(storedSession.keys);
+
+    } catch (error) {
+      console.error('❌ Failed to restore session:', error);
+      this.storedSession = null;
+      await this.clearStoredSession().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Make the stored session's keys the current session
+   */
+  private openSession(keys: SessionKeys): void {
+    const { userId, masterKeySalt, identity, device } = this.storedSession!;
+
+    this.currentSession = {
+      user: {
+        id: userId,
+        username: '',
+        email: '',
+        publicKey: identity.publicKey,
+        masterKeySalt
+      },
+      masterKey: keys.masterKey,
+      userKeyPair: { keyId: identity.keyId, publicKey: identity.publicKey, privateKey: keys.identityKey },
+      device: {
+        deviceId: device.deviceId,
+        name: device.name,
+        status: device.status,
+        keyPair: { keyId: device.keyId, publicKey: device.publicKey, privateKey: keys.deviceKey }
+      }
+    };
+    this.ratchetStore = null;
+    contactKeys.open(userId, keys.masterKey);
+  }
+
+  /**
+   * Step 6: Store complete session data
+   * The keys are saved as the non-extractable objects the session holds
+   */
+  private async storeSessionData(identity?: StoredSession['identity']): Promise<void> {
+    if (!this.currentSession) {
+      return;
+    }
+
+    try {
+      const { user, masterKey, userKeyPair, device } = this.currentSession;
+
+      this.storedSession = {
+        userId: user.id,
+        masterKeySalt: user.masterKeySalt ?? this.storedSession!.masterKeySalt,
+        identity: identity ?? this.storedSession!.identity,
+        device: {
+          deviceId: device.deviceId,
+          name: device.name,
+          status: device.status,
+          keyId: device.keyPair.keyId,
+          publicKey: device.keyPair.publicKey
+        },
+        keys: {
+          masterKey,
+          identityKey: userKeyPair.privateKey,
+          deviceKey: device.keyPair.privateKey
+        }
+      };
+
+      await keyStore.putSession(this.storedSession);
+      localStorage.setItem(this.ACTIVITY_STORAGE_KEY, Date.now().toString());
+      console.log('💾 Complete session data stored');
+
+    } catch (error) {
+      console.error('❌ Failed to store session data:', error);
+    }
+  }
+
+  /**
+   * Step 6: Clear stored session
+   */
+  private async clearStoredSession(userId?: number): Promise<void> {
+    localStorage.removeItem(this.ACTIVITY_STORAGE_KEY);
+    await keyStore.deleteSession();
+    if (userId !== undefined) {
+      await keyStore.deletePin(userId);
+    }
+    console.log('🗑️ Stored session cleared');
+  }
+
+  /**
+   * Step 6: Update session activity
+   */
+  private updateSessionActivity(): void {
+    if (!this.currentSession) {
+      return;
+    }
+
+    localStorage.setItem(this.ACTIVITY_STORAGE_KEY, Date.now().toString());
+  }
+
+  /**
+   * Note user activity, such as typing or moving the mouse, which holds off
+   * the idle lock
+   */
+  recordActivity(): void {
+    this.updateSessionActivity();
+  }
+
+  /**
+   * Step 6: Register user with persistent session
+   * Returns the new account's recovery code, to be shown once
+   */
+  async registerUser(userData: {
+    username: string;
+    email: string;
+    password: string;
+  }): Promise<{ user: User; recoveryCode: string }> {
+    try {
+      console.log('🔐 Starting encrypted user registration...');
+
+      // Step 1: Derive master key from password; only the non-extractable copy is kept
+      const masterKeyResult = await EncryptionService.deriveMasterKey(userData.password);
+      const masterKey = await EncryptionService.importMasterKey(masterKeyResult.masterKey);
+
+      // Step 2: Generate user key pair and wrap the private key under the master key
+      const userKeyPair = await EncryptionService.generateUserKeyPair();
+      const encryptedPrivateKey = await EncryptionService.encryptData(
+        userKeyPair.privateKey,
+        masterKey,
+        userKeyPair.keyId
+      );
+      const identity = {
+        keyId: userKeyPair.keyId,
+        publicKey: userKeyPair.publicKey,
+        encryptedPrivateKey: EncryptionService.serializeEnvelope(encryptedPrivateKey),
+        privateKeyIv: encryptedPrivateKey.iv
+      };
+
+      // Step 3: Back up the private key under a new recovery code
+      const { recoveryCode, keyBackup } = await this.createKeyBackup(userKeyPair.privateKey, masterKey);
+
+      // Step 4: Register with backend
+      const authResponse = await apiService.register({
+        username: userData.username,
+        email: userData.email,
+        password: userData.password,
+        publicKey: userKeyPair.publicKey,
+        encryptedPrivateKey: identity.encryptedPrivateKey,
+        privateKeyIv: identity.privateKeyIv,
+        masterKeySalt: masterKeyResult.salt,
+        keyBackup
+      });
+      const heldKeyPair = await EncryptionService.importKeyPair(userKeyPair);
+
+      // Step 5: Register this browser as the account's first device
+      const device = await this.openDeviceSession(authResponse.user, masterKey, heldKeyPair);
+
+      // Step 6: Store session data
+      this.currentSession = {
+        user: authResponse.user,
+        masterKey,
+        userKeyPair: heldKeyPair,
+        device
+      };
+      this.ratchetStore = null;
+      contactKeys.open(this.currentSession.user.id, this.currentSession.masterKey);
+
+      // Step 7: Persist complete session data
+      await this.storeSessionData(identity);
+
+      // Step 8: Let peers start ratchet sessions with us
+      await this.publishPreKeyBundle();
+
+      console.log('✅ User registered with persistent encryption session');
+      return { user: authResponse.user, recoveryCode };
+
+    } catch (error) {
+      console.error('❌ Registration with encryption failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Step 6: Login user with session restoration
+   */
+  async loginUser(credentials: {
+    username: string;
+    password: string;
+  }): Promise<User> {
+    try {
+      console.log('🔐 Starting encrypted user login...');
+
+      // Step 1: Login with backend
+      const authResponse = await apiService.login(credentials);
+
+      // Step 2: Derive master key using stored salt; only the non-extractable copy is kept
+      const masterKeyResult = await EncryptionService.deriveMasterKey(
+        credentials.password,
+        authResponse.user.masterKeySalt
+      );
+      const masterKey = await EncryptionService.importMasterKey(masterKeyResult.masterKey);
+
+      // Step 3: Unwrap our identity key pair, or create one for older accounts
+      const { user, userKeyPair, isNew } = await this.restoreUserKeyPair(authResponse.user, masterKey);
+
+      // Step 4: Resume this browser's device, or register it for approval
+      const device = await this.openDeviceSession(user, masterKey, userKeyPair);
+
+      // A new identity key is published with the device's token, as the login
+      // token only opens a device session
+      if (isNew) {
+        await apiService.updatePublicKey(user.publicKey, user.encryptedPrivateKey!, user.privateKeyIv!);
+      }
+
+      // Step 5: Store session data
+      this.currentSession = {
+        user,
+        masterKey,
+        userKeyPair,
+        device
+      };
+      this.ratchetStore = null;
+      contactKeys.open(this.currentSession.user.id, this.currentSession.masterKey);
+
+      // Step 6: Persist complete session data
+      await this.storeSessionData({
+        keyId: userKeyPair.keyId,
+        publicKey: userKeyPair.publicKey,
+        encryptedPrivateKey: user.encryptedPrivateKey!,
+        privateKeyIv: user.privateKeyIv!
+      });
+
+      // Step 7: Let peers start ratchet sessions with us
+      await this.publishPreKeyBundle();
+
+      console.log('✅ User logged in with persistent encryption session');
+      return user;
+
+    } catch (error) {
+      console.error('❌ Login with encryption failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the session is locked, waiting for the password or PIN
+   */
+  isLocked(): boolean {
+    return this.currentSession === null && this.storedSession !== null;
+  }
+
+  getLockSettings(userId?: number): LockSettings {
+    const id = userId ?? this.storedSession?.userId;
+    const stored = id !== undefined ? localStorage.getItem(this.LOCK_SETTINGS_PREFIX + id) : null;
+
+    return stored
+      ? JSON.parse(stored)
+      : { enabled: false, timeoutMinutes: this.DEFAULT_LOCK_TIMEOUT_MINUTES };
+  }
+
+  setLockSettings(settings: LockSettings): void {
+    if (!this.storedSession) {
+      throw new Error('No active encryption session');
+    }
+
+    localStorage.setItem(this.LOCK_SETTINGS_PREFIX + this.storedSession.userId, JSON.stringify(settings));
+  }
+
+  /**
+   * Wipe the keys from memory and IndexedDB; the password or PIN brings them back
+   */
+  async lock(): Promise<void> {
+    if (!this.currentSession || !this.storedSession) {
+      return;
+    }
+
+    this.clearSessionState();
+    this.storedSession = { ...this.storedSession, keys: null };
+    await keyStore.putSession(this.storedSession);
+    console.log('🔒 Session locked');
+  }
+
+  async unlockWithPassword(password: string): Promise<void> {
+    if (!this.storedSession) {
+      throw new Error('No locked session');
+    }
+
+    const { masterKey } = await EncryptionService.deriveMasterKey(password, this.storedSession.masterKeySalt);
+    await this.unlockWithMasterKey(masterKey);
+  }
+
+  /**
+   * Unlock with the PIN set on this device; too many wrong guesses remove
+   * the PIN, so the password is needed again
+   */
+  async unlockWithPin(pin: string): Promise<void> {
+    if (!this.storedSession) {
+      throw new Error('No locked session');
+    }
+
+    const storedPin = await keyStore.getPin(this.storedSession.userId);
+    if (!storedPin) {
+      throw new Error('No PIN is set, unlock with your password');
+    }
+
+    let keys: SessionKeys;
+    try {
+      const pinKey = await EncryptionService.derivePinKey(pin, storedPin.salt, storedPin.secret);
+      keys = await EncryptionService.unwrapSessionKeys(pinKey, storedPin.keys);
+    } catch (error) {
+      const failedAttempts = storedPin.failedAttempts + 1;
+      if (failedAttempts >= this.MAX_PIN_ATTEMPTS) {
+        await keyStore.deletePin(storedPin.userId);
+        throw new Error('Too many wrong PINs, unlock with your password');
+      }
+
+      await keyStore.putPin({ ...storedPin, failedAttempts });
+      throw new Error('Incorrect PIN');
+    }
+
+    if (storedPin.deviceId !== this.storedSession.device.deviceId) {
+      await keyStore.deletePin(storedPin.userId);
+      throw new Error('This PIN was set for another device, unlock with your password');
+    }
+
+    await this.resumeSession(keys);
+    await keyStore.putPin({ ...storedPin, failedAttempts: 0 });
+  }
+
+  /**
+   * Reopen the identity and device keys with the master key, and hold them
+   * as non-extractable keys again
+   */
+  private async unlockWithMasterKey(rawMasterKey: string): Promise<void> {
+    const storedSession = this.storedSession!;
+    const masterKey = await EncryptionService.importMasterKey(rawMasterKey);
+
+    let identityKeyPair: UserKeyPair;
+    try {
+      identityKeyPair = await EncryptionService.decryptUserKeyPair(
+        storedSession.identity.publicKey,
+        EncryptionService.parseStoredEnvelope(storedSession.identity.encryptedPrivateKey, storedSession.identity.privateKeyIv),
+        masterKey
+      );
+    } catch (error) {
+      throw new Error('Incorrect password');
+    }
+
+    const device = await this.loadStoredDevice(storedSession.userId, masterKey);
+    if (!device || device.deviceId !== storedSession.device.deviceId) {
+      throw new Error('This device key is missing, please log in again');
+    }
+
+    const userKeyPair = await EncryptionService.importKeyPair(identityKeyPair);
+    await this.resumeSession({
+      masterKey,
+      identityKey: userKeyPair.privateKey,
+      deviceKey: device.keyPair.privateKey
+    });
+  }
+
+  /**
+   * Hold the unlocked keys again, in memory and in IndexedDB
+   */
+  private async resumeSession(keys: SessionKeys): Promise<void> {
+    this.storedSession = { ...this.storedSession!, keys };
+    await keyStore.putSession(this.storedSession);
+    localStorage.setItem(this.ACTIVITY_STORAGE_KEY, Date.now().toString());
+    this.openSession(keys);
+    console.log('🔓 Session unlocked');
+  }
+
+  async hasPin(): Promise<boolean> {
+    return this.storedSession ? (await keyStore.getPin(this.storedSession.userId)) !== null : false;
+  }
+
+  /**
+   * Let this device be unlocked with a PIN as well as the password
+   * The session keys, never the raw master key, are wrapped under a key
+   * derived from the PIN and a secret held only by this browser, so a copy of
+   * the store cannot be guessed at elsewhere. A short PIN still only keeps out
+   * someone at the keyboard, not script running in the page
+   */
+  async setPin(password: string, pin: string): Promise<void> {
+    if (!this.currentSession || !this.storedSession) {
+      throw new Error('No active encryption session');
+    }
+
+    const { masterKey } = await EncryptionService.deriveMasterKey(password, this.storedSession.masterKeySalt);
+
+    // Check the password by opening our identity key with it
+    let identityPrivateKey: string;
+    try {
+      identityPrivateKey = await EncryptionService.decryptData(
+        EncryptionService.parseStoredEnvelope(
+          this.storedSession.identity.encryptedPrivateKey,
+          this.storedSession.identity.privateKeyIv
+        ),
+        masterKey
+      );
+    } catch (error) {
+      throw new Error('Incorrect password');
+    }
+
+    const storedDevice = localStorage.getItem(this.DEVICE_STORAGE_PREFIX + this.storedSession.userId);
+    const device: StoredDevice | null = storedDevice ? JSON.parse(storedDevice) : null;
+    if (!device || device.deviceId !== this.storedSession.device.deviceId) {
+      throw new Error('This device key is missing, please log in again');
+    }
+    const devicePrivateKey = await EncryptionService.decryptData(
+      EncryptionService.parseStoredEnvelope(device.encryptedPrivateKey, device.privateKeyIv),
+      masterKey
+    );
+
+    const salt = EncryptionService.generateSecureRandom(32);
+    const secret = await EncryptionService.generatePinSecret();
+    const pinKey = await EncryptionService.derivePinKey(pin, salt, secret);
+
+    await keyStore.putPin({
+      userId: this.storedSession.userId,
+      deviceId: device.deviceId,
+      salt,
+      secret,
+      keys: await EncryptionService.wrapSessionKeys(pinKey, masterKey, identityPrivateKey, devicePrivateKey),
+      failedAttempts: 0
+    });
+  }
+
+  async removePin(): Promise<void> {
+    if (this.storedSession) {
+      await keyStore.deletePin(this.storedSession.userId);
+    }
+  }
+
+  /**
+   * Change the account password
+   * Everything sealed under the old master key is sealed again under the new
+   * one: the identity key, conversation keys stored directly under it, the
+   * key backup's key, this device's key, pinned contact keys and ratchet state. The server swaps in
+   * the new copies with the password in one transaction and signs out our
+   * other devices. Runs in the ratchet queue so no ratchet state is saved
+   * under the old key meanwhile
+   */
+  changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    const session = this.currentSession;
+    const storedSession = this.storedSession;
+    if (!session || !storedSession) {
+      return Promise.reject(new Error('No active encryption session'));
+    }
+
+    const result = this.ratchetQueue.then(async () => {
+      const { identity, userId } = storedSession;
+
+      // The old master key as a string also opens envelopes from before AES-GCM
+      const { masterKey: oldMasterKey } = await EncryptionService.deriveMasterKey(
+        currentPassword,
+        storedSession.masterKeySalt
+      );
+
+      const masterKeyResult = await EncryptionService.deriveMasterKey(newPassword);
+      const masterKey = await EncryptionService.importMasterKey(masterKeyResult.masterKey);
+
+      const reseal = async (envelope: EncryptedEnvelope) => EncryptionService.encryptData(
+        await EncryptionService.decryptData(envelope, oldMasterKey),
+        masterKey,
+        envelope.keyId
+      );
+
+      // Seal everything anew before the server commits, so a failure leaves nothing half done
+      let identityEnvelope: EncryptedEnvelope;
+      try {
+        identityEnvelope = await reseal(
+          EncryptionService.parseStoredEnvelope(identity.encryptedPrivateKey, identity.privateKeyIv)
+        );
+      } catch (error) {
+        throw new Error('Current password is incorrect');
+      }
+      const newIdentity = {
+        ...identity,
+        encryptedPrivateKey: EncryptionService.serializeEnvelope(identityEnvelope),
+        privateKeyIv: identityEnvelope.iv
+      };
+
+      const conversationKeys = await Promise.all((await apiService.getMasterWrappedKeys()).map(async key => {
+        const envelope = await reseal(EncryptionService.parseStoredEnvelope(key.encryptedAesKey, key.iv));
+        return {
+          conversationId: key.conversationId,
+          keyId: key.keyId,
+          encryptedAesKey: EncryptionService.serializeEnvelope(envelope),
+          iv: envelope.iv
+        };
+      }));
+
+      const storedDevice: StoredDevice = JSON.parse(localStorage.getItem(this.DEVICE_STORAGE_PREFIX + userId)!);
+      const deviceEnvelope = await reseal(
+        EncryptionService.parseStoredEnvelope(storedDevice.encryptedPrivateKey, storedDevice.privateKeyIv)
+      );
+
+      const ratchetStore = await this.loadRatchetStore();
+      const ratchetEnvelope = await EncryptionService.encryptData(JSON.stringify(ratchetStore), masterKey);
+
+      // The key backup's key, if there is a backup
+      const keyBackup = await this.fetchKeyBackup();
+      const masterWrappedKey = keyBackup && await EncryptionService.encryptData(
+        await EncryptionService.decryptData(JSON.parse(keyBackup.masterWrappedKey), oldMasterKey, this.KEY_BACKUP_DATA),
+        masterKey,
+        null,
+        this.KEY_BACKUP_DATA
+      );
+
+      try {
+        await apiService.changePassword({
+          currentPassword,
+          newPassword,
+          masterKeySalt: masterKeyResult.salt,
+          encryptedPrivateKey: newIdentity.encryptedPrivateKey,
+          privateKeyIv: newIdentity.privateKeyIv,
+          conversationKeys,
+          masterWrappedKey: masterWrappedKey ? EncryptionService.serializeEnvelope(masterWrappedKey) : undefined
+        });
+      } catch (error) {
+        if (isAxiosError(error) && error.response?.status === 409) {
+          throw new Error('Your keys changed meanwhile, please try again');
+        }
+        if (isAxiosError(error) && error.response?.status === 400) {
+          throw new Error('Current password is incorrect');
+        }
+        throw error;
+      }
+
+      localStorage.setItem(this.DEVICE_STORAGE_PREFIX + userId, JSON.stringify({
+        ...storedDevice,
+        encryptedPrivateKey: EncryptionService.serializeEnvelope(deviceEnvelope),
+        privateKeyIv: deviceEnvelope.iv
+      }));
+      localStorage.setItem(
+        `${this.RATCHET_STORE_KEY}_${userId}`,
+        EncryptionService.serializeEnvelope(ratchetEnvelope)
+      );
+      await contactKeys.rekey(masterKey);
+
+      session.masterKey = masterKey;
+      session.user = {
+        ...session.user,
+        masterKeySalt: masterKeyResult.salt,
+        encryptedPrivateKey: newIdentity.encryptedPrivateKey,
+        privateKeyIv: newIdentity.privateKeyIv
+      };
+      await this.storeSessionData(newIdentity);
+
+      // The PIN wraps the keys under the old master key
+      await keyStore.deletePin(userId);
+      console.log('🔑 Password changed and keys re-wrapped');
+    });
+
+    this.ratchetQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Unwrap the stored identity key pair for a user
+   * Accounts created before identity keys were real have none, so a new pair
+   * is generated, for the caller to publish in place of the old placeholder key
+   */
+  private async restoreUserKeyPair(user: User, masterKey: MasterKeyHandle): Promise<{
+    user: User;
+    userKeyPair: HeldKeyPair;
+    isNew: boolean;
+  }> {
+    if (user.encryptedPrivateKey && user.privateKeyIv) {
+      const userKeyPair = await EncryptionService.decryptUserKeyPair(
+        user.publicKey,
+        EncryptionService.parseStoredEnvelope(user.encryptedPrivateKey, user.privateKeyIv),
+        masterKey
+      );
+
+      return { user, userKeyPair: await EncryptionService.importKeyPair(userKeyPair), isNew: false };
+    }
+
+    console.log('🔑 No identity key on record, creating a new one...');
+
+    const userKeyPair = await EncryptionService.generateUserKeyPair();
+    const encryptedPrivateKey = await EncryptionService.encryptData(
+      userKeyPair.privateKey,
+      masterKey,
+      userKeyPair.keyId
+    );
+    const serializedPrivateKey = EncryptionService.serializeEnvelope(encryptedPrivateKey);
+
+    return {
+      user: {
+        ...user,
+        publicKey: userKeyPair.publicKey,
+        encryptedPrivateKey: serializedPrivateKey,
+        privateKeyIv: encryptedPrivateKey.iv
+      },
+      userKeyPair: await EncryptionService.importKeyPair(userKeyPair),
+      isNew: true
+    };
+  }
+
+  /**
+   * Open a session for this browser's device by signing a timestamp with its
+   * key, which swaps the login token for one bound to the device
+   * The device is created on first login here; a revoked one is replaced.
+   * Our identity key signs the device key so contacts can tell it is ours
+   */
+  private async openDeviceSession(
+    user: User,
+    masterKey: MasterKeyHandle,
+    userKeyPair: HeldKeyPair
+  ): Promise<DeviceSession> {
+    let device = await this.loadStoredDevice(user.id, masterKey);
+
+    for (let attempt = 0; ; attempt++) {
+      if (!device) {
+        device = await this.createDevice(user.id, masterKey);
+      }
+
+      try {
+        const { status } = await apiService.openDeviceSession(
+          await this.signDeviceSession(user.id, device, userKeyPair)
+        );
+
+        console.log(`📱 Device session opened (${status})`);
+        return { ...device, status };
+      } catch (error) {
+        if (attempt > 0 || !isAxiosError(error) || error.response?.status !== 403) {
+          throw error;
+        }
+
+        console.log('📱 This device was revoked, registering a new one...');
+        localStorage.removeItem(this.DEVICE_STORAGE_PREFIX + user.id);
+        device = null;
+      }
+    }
+  }
+
+  /**
+   * A device's proof that it holds its key, a signed timestamp, along with
+   * our identity key's signature over the device key
+   */
+  private async signDeviceSession(
+    userId: number,
+    device: DeviceSession,
+    userKeyPair: HeldKeyPair
+  ): Promise<DeviceSessionRequest> {
+    const timestamp = Date.now();
+
+    return {
+      deviceId: device.deviceId,
+      name: device.name,
+      publicKey: device.keyPair.publicKey,
+      timestamp,
+      signature: await EncryptionService.signData(
+        device.keyPair.privateKey,
+        `encrypted-chat-device:${userId}:${device.deviceId}:${timestamp}`
+      ),
+      keySignature: await EncryptionService.signData(
+        userKeyPair.privateKey,
+        this.getDeviceKeyMessage(userId, device.deviceId, device.keyPair.publicKey)
+      )
+    };
+  }
+
+  private getDeviceKeyMessage(userId: number, deviceId: string, publicKey: string): string {
+    return `encrypted-chat-device-key:${userId}:${deviceId}:${publicKey}`;
+  }
+
+  private async loadStoredDevice(userId: number, masterKey: MasterKeyHandle): Promise<DeviceSession | null> {
+    const storedDevice = localStorage.getItem(this.DEVICE_STORAGE_PREFIX + userId);
+    if (!storedDevice) {
+      return null;
+    }
+
+    try {
+      const device: StoredDevice = JSON.parse(storedDevice);
+      const keyPair = await EncryptionService.decryptUserKeyPair(
+        device.publicKey,
+        EncryptionService.parseStoredEnvelope(device.encryptedPrivateKey, device.privateKeyIv),
+        masterKey
+      );
+
+      return {
+        deviceId: device.deviceId,
+        name: device.name,
+        status: 'pending',
+        keyPair: await EncryptionService.importKeyPair(keyPair)
+      };
+    } catch (error) {
+      // Sealed under a master key we no longer have
+      console.warn('⚠️ Stored device key could not be opened:', error);
+      return null;
+    }
+  }
+
+  private async createDevice(userId: number, masterKey: MasterKeyHandle): Promise<DeviceSession> {
+    const keyPair = await EncryptionService.generateUserKeyPair();
+    const encryptedPrivateKey = await EncryptionService.encryptData(keyPair.privateKey, masterKey, keyPair.keyId);
+
+    const device: DeviceSession = {
+      deviceId: crypto.randomUUID(),
+      name: this.getDeviceName(),
+      status: 'pending',
+      keyPair: await EncryptionService.importKeyPair(keyPair)
+    };
+
+    const storedDevice: StoredDevice = {
+      deviceId: device.deviceId,
+      name: device.name,
+      publicKey: keyPair.publicKey,
+      encryptedPrivateKey: EncryptionService.serializeEnvelope(encryptedPrivateKey),
+      privateKeyIv: encryptedPrivateKey.iv
+    };
+    localStorage.setItem(this.DEVICE_STORAGE_PREFIX + userId, JSON.stringify(storedDevice));
+
+    return device;
+  }
+
+  /**
+   * A readable name for this browser, e.g. "Firefox on Windows"
+   */
+  private getDeviceName(): string {
+    const agent = navigator.userAgent;
+    const browser = agent.includes('Edg/') ? 'Edge'
+      : agent.includes('Firefox/') ? 'Firefox'
+      : agent.includes('Chrome/') ? 'Chrome'
+      : agent.includes('Safari/') ? 'Safari'
+      : 'Browser';
+    const platform = /iPhone|iPad/.test(agent) ? 'iOS'
+      : agent.includes('Android') ? 'Android'
+      : agent.includes('Windows') ? 'Windows'
+      : agent.includes('Mac OS') ? 'macOS'
+      : agent.includes('Linux') ? 'Linux'
+      : 'unknown system';
+
+    return `${browser} on ${platform}`;
+  }
+
+  /**
+   * Short code derived from a device's public key; the new device and the
+   * one approving it both show it, so the user can tell they are linking
+   * the device they expect
+   */
+  async getDeviceVerificationCode(publicKey: string): Promise<string> {
+    const digest = await EncryptionService.sha256(new Uint8Array(EncryptionService.base64ToBuffer(publicKey)));
+    return (parseInt(digest.slice(0, 8), 16) % 1000000).toString().padStart(6, '0');
+  }
+
+  /**
+   * Follow the server's view of this device, e.g. after it was approved
+   */
+  setDeviceStatus(status: DeviceStatus): void {
+    if (this.currentSession) {
+      this.currentSession.device.status = status;
+      this.storeSessionData();
+    }
+  }
+
+  /**
+   * Link a pending device by wrapping every key epoch we hold, in every
+   * conversation, to its public key
+   */
+  async approveDevice(device: Device, conversationIds: string[]): Promise<Device> {
+    if (!this.currentSession) {
+      throw new Error('No active encryption session');
+    }
+
+    const signedByUs = await EncryptionService.verifyData(
+      this.currentSession.userKeyPair.publicKey,
+      this.getDeviceKeyMessage(this.currentSession.user.id, device.deviceId, device.publicKey),
+      device.keySignature
+    );
+    if (!signedByUs) {
+      throw new Error('This device was not signed by your account');
+    }
+
+    const conversationKeys = [];
+    for (const conversationId of conversationIds) {
+      // Not set up yet, or we never got a copy - nothing to hand on
+      const keyring = await this.getHeldKeyring(conversationId);
+      if (!keyring) {
+        continue;
+      }
+
+      for (const conversationKey of Object.values(keyring.keys)) {
+        const wrappedKey = await EncryptionService.wrapKeyForRecipient(conversationKey.aesKey, device.publicKey);
+        conversationKeys.push({
+          conversationId,
+          keyId: conversationKey.keyId,
+          encryptedAesKey: EncryptionService.serializeEnvelope(wrappedKey.envelope),
+          iv: wrappedKey.envelope.iv,
+          ephemeralPublicKey: wrappedKey.ephemeralPublicKey
+        });
+      }
+    }
+
+    const approvedDevice = await apiService.approveDevice(device.deviceId, conversationKeys);
+    console.log(`✅ Device ${device.deviceId} linked with ${conversationKeys.length} keys`);
+    return approvedDevice;
+  }
+
+  /**
+   * The keyring we hold for a conversation, or null if it has not been set up
+   * or we were never given a copy
+   */
+  private async getHeldKeyring(conversationId: string): Promise<ConversationKeyring | null> {
+    const cached = this.conversationCache.get(conversationId);
+    if (cached) {
+      return cached.keyring;
+    }
+
+    try {
+      return (await this.loadConversation(conversationId)).keyring;
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Set up the key backup under a new recovery code, or give an existing
+   * backup a new code; keys already backed up are kept, and the keys of the
+   * given conversations are added. Returns the code, which is never stored
+   */
+  createRecoveryCode(conversationIds: string[]): Promise<string> {
+    const session = this.currentSession;
+    const storedSession = this.storedSession;
+    if (!session || !storedSession) {
+      return Promise.reject(new Error('No active encryption session'));
+    }
+
+    const result = this.keyBackupQueue.then(async () => {
+      const { identity } = storedSession;
+      const identityPrivateKey = await EncryptionService.decryptData(
+        EncryptionService.parseStoredEnvelope(identity.encryptedPrivateKey, identity.privateKeyIv),
+        session.masterKey
+      );
+
+      // Keep the backup key of an existing backup, so its keyring still opens
+      let backupKey: string | undefined;
+      let keyring: BackedUpKeyring = {};
+      const existing = await this.fetchKeyBackup();
+      if (existing) {
+        try {
+          backupKey = await this.openBackupKey(existing, session.masterKey);
+          keyring = await this.openBackedUpKeyring(existing, backupKey);
+        } catch (error) {
+          console.warn('⚠️ Existing key backup could not be opened, starting a new one:', error);
+          backupKey = undefined;
+        }
+      }
+
+      for (const conversationId of conversationIds) {
+        await this.getHeldKeyring(conversationId);
+      }
+      this.mergeCachedKeyrings(keyring);
+
+      const { recoveryCode, keyBackup } = await this.createKeyBackup(
+        identityPrivateKey,
+        session.masterKey,
+        backupKey,
+        keyring
+      );
+      await apiService.saveKeyBackup(keyBackup);
+
+      this.keyBackupMissing = false;
+      this.rememberBackedUpKeys(keyring);
+      console.log('🔑 Key backup set up under a new recovery code');
+      return recoveryCode;
+    });
+
+    this.keyBackupQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Seal the identity private key, and optionally a keyring, under a backup
+   * key wrapped both under a new recovery code and under the master key
+   * A new backup key is made unless one is given
+   */
+  private async createKeyBackup(
+    identityPrivateKey: string,
+    masterKey: MasterKeyHandle,
+    backupKey: string = EncryptionService.generateSecureRandom(32),
+    keyring: BackedUpKeyring | null = null
+  ): Promise<{ recoveryCode: string; keyBackup: KeyBackupUpload }> {
+    const recoveryCode = EncryptionService.generateRecoveryCode();
+    const recoveryKeys = await EncryptionService.deriveRecoveryKeys(recoveryCode);
+
+    const seal = async (plaintext: string, key: string | MasterKeyHandle, associatedData: string) =>
+      EncryptionService.serializeEnvelope(await EncryptionService.encryptData(plaintext, key, null, associatedData));
+
+    return {
+      recoveryCode,
+      keyBackup: {
+        recoveryAuthKey: recoveryKeys.authKey,
+        recoveryWrappedKey: await seal(backupKey, recoveryKeys.wrappingKey, this.KEY_BACKUP_DATA),
+        masterWrappedKey: await seal(backupKey, masterKey, this.KEY_BACKUP_DATA),
+        encryptedIdentityKey: await seal(identityPrivateKey, backupKey, this.KEY_BACKUP_IDENTITY_DATA),
+        encryptedKeyring: keyring && await seal(JSON.stringify(keyring), backupKey, this.KEY_BACKUP_KEYRING_DATA)
+      }
+    };
+  }
+
+  private async fetchKeyBackup(): Promise<KeyBackup | null> {
+    try {
+      return await apiService.getKeyBackup();
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private openBackupKey(backup: KeyBackup, masterKey: MasterKeyHandle): Promise<string> {
+    return EncryptionService.decryptData(JSON.parse(backup.masterWrappedKey), masterKey, this.KEY_BACKUP_DATA);
+  }
+
+  /**
+   * Open the backed up keyring; one that cannot be opened counts as empty,
+   * and is replaced by the next backup
+   */
+  private async openBackedUpKeyring(backup: KeyBackup, backupKey: string): Promise<BackedUpKeyring> {
+    if (!backup.encryptedKeyring) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(await EncryptionService.decryptData(
+        JSON.parse(backup.encryptedKeyring),
+        backupKey,
+        this.KEY_BACKUP_KEYRING_DATA
+      ));
+    } catch (error) {
+      console.warn('⚠️ Backed up keyring could not be opened:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Add every cached key epoch to a backed up keyring
+   * Returns whether any were new
+   */
+  private mergeCachedKeyrings(keyring: BackedUpKeyring): boolean {
+    let added = false;
+
+    for (const { conversationId, keyring: cachedKeyring } of this.conversationCache.values()) {
+      const keys = keyring[conversationId] || (keyring[conversationId] = {});
+      for (const conversationKey of Object.values(cachedKeyring.keys)) {
+        if (!keys[conversationKey.keyId]) {
+          keys[conversationKey.keyId] = conversationKey.aesKey;
+          added = true;
+        }
+      }
+    }
+
+    return added;
+  }
+
+  private rememberBackedUpKeys(keyring: BackedUpKeyring): void {
+    for (const [conversationId, keys] of Object.entries(keyring)) {
+      Object.keys(keys).forEach(keyId => this.backedUpKeyIds.add(`${conversationId}:${keyId}`));
+    }
+  }
+
+  private hasKeysToBackUp(): boolean {
+    return !this.keyBackupMissing && Array.from(this.conversationCache.values()).some(({ conversationId, keyring }) =>
+      Object.keys(keyring.keys).some(keyId => !this.backedUpKeyIds.has(`${conversationId}:${keyId}`))
+    );
+  }
+
+  /**
+   * Back up newly held conversation keys shortly, so a burst of
+   * conversations loading is backed up at once
+   */
+  private scheduleKeyBackup(): void {
+    if (!this.hasKeysToBackUp()) {
+      return;
+    }
+
+    if (this.keyBackupTimer) {
+      clearTimeout(this.keyBackupTimer);
+    }
+    this.keyBackupTimer = setTimeout(() => {
+      this.keyBackupTimer = null;
+      this.backUpConversationKeys().catch(error => {
+        console.error('❌ Failed to back up conversation keys:', error);
+      });
+    }, this.KEY_BACKUP_DELAY);
+  }
+
+  /**
+   * Merge the cached keyrings into the key backup
+   * Another device may update the backup between our read and write, in
+   * which case we read its version and merge again
+   */
+  private backUpConversationKeys(): Promise<void> {
+    const result = this.keyBackupQueue.then(async () => {
+      const session = this.currentSession;
+
+      for (let attempt = 0; attempt < 3 && session && this.hasKeysToBackUp(); attempt++) {
+        const backup = await this.fetchKeyBackup();
+        if (this.currentSession !== session) {
+          return;
+        }
+        if (!backup) {
+          this.keyBackupMissing = true;
+          return;
+        }
+
+        const backupKey = await this.openBackupKey(backup, session.masterKey);
+        const keyring = await this.openBackedUpKeyring(backup, backupKey);
+
+        if (this.mergeCachedKeyrings(keyring)) {
+          const envelope = await EncryptionService.encryptData(
+            JSON.stringify(keyring),
+            backupKey,
+            null,
+            this.KEY_BACKUP_KEYRING_DATA
+          );
+
+          try {
+            await apiService.updateBackedUpKeyring(EncryptionService.serializeEnvelope(envelope), backup.keyringVersion);
+          } catch (error) {
+            if (isAxiosError(error) && error.response?.status === 409) {
+              continue;
+            }
+            throw error;
+          }
+          console.log('💾 Conversation keys backed up');
+        }
+
+        if (this.currentSession === session) {
+          this.rememberBackedUpKeys(keyring);
+        }
+      }
+    });
+
+    this.keyBackupQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Recover an account with its recovery code and set a new password
+   * The backup is opened here, the identity key and backup key are wrapped
+   * under the new master key, and the server swaps them in with the password,
+   * signs out every device and registers a new one for this browser as the
+   * only active device. We then sign in on it and give it back every backed
+   * up conversation key
+   */
+  async recoverAccount(username: string, recoveryCode: string, newPassword: string): Promise<User> {
+    try {
+      console.log('🔐 Starting account recovery...');
+
+      const recoveryKeys = await EncryptionService.deriveRecoveryKeys(recoveryCode);
+
+      let backup: RecoveryBackup;
+      let backupKey: string;
+      let identityPrivateKey: string;
+      try {
+        backup = await apiService.getRecoveryBackup(username, recoveryKeys.authKey);
+        backupKey = await EncryptionService.decryptData(
+          JSON.parse(backup.recoveryWrappedKey),
+          recoveryKeys.wrappingKey,
+          this.KEY_BACKUP_DATA
+        );
+        identityPrivateKey = await EncryptionService.decryptData(
+          JSON.parse(backup.encryptedIdentityKey),
+          backupKey,
+          this.KEY_BACKUP_IDENTITY_DATA
+        );
+      } catch (error) {
+        if (isAxiosError(error) && error.response?.status !== 400) {
+          throw error;
+        }
+        throw new Error('Invalid username or recovery code');
+      }
+      const keyring = await this.openBackedUpKeyring(backup, backupKey);
+
+      // Wrap the identity key and backup key under the new master key
+      const masterKeyResult = await EncryptionService.deriveMasterKey(newPassword);
+      const masterKey = await EncryptionService.importMasterKey(masterKeyResult.masterKey);
+      const encryptedPrivateKey = await EncryptionService.encryptData(
+        identityPrivateKey,
+        masterKey,
+        EncryptionService.getKeyId(backup.publicKey)
+      );
+      const masterWrappedKey = await EncryptionService.encryptData(backupKey, masterKey, null, this.KEY_BACKUP_DATA);
+
+      // A new device key, sealed under the new master key for the login below
+      const identityKeyPair = await EncryptionService.importKeyPair({
+        publicKey: backup.publicKey,
+        privateKey: identityPrivateKey,
+        keyId: EncryptionService.getKeyId(backup.publicKey)
+      });
+      const device = await this.createDevice(backup.userId, masterKey);
+
+      await apiService.completeRecovery({
+        username,
+        recoveryAuthKey: recoveryKeys.authKey,
+        newPassword,
+        masterKeySalt: masterKeyResult.salt,
+        encryptedPrivateKey: EncryptionService.serializeEnvelope(encryptedPrivateKey),
+        privateKeyIv: encryptedPrivateKey.iv,
+        masterWrappedKey: EncryptionService.serializeEnvelope(masterWrappedKey),
+        device: await this.signDeviceSession(backup.userId, device, identityKeyPair)
+      });
+
+      const user = await this.loginUser({ username, password: newPassword });
+
+      // A PIN set on this browser wraps the old master key
+      await keyStore.deletePin(user.id);
+      await this.restoreBackedUpKeys(keyring);
+
+      console.log('✅ Account recovered');
+      return user;
+
+    } catch (error) {
+      console.error('❌ Account recovery failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Give this device copies of every backed up conversation key, wrapped to
+   * its key; the server keeps those of conversations we are still in
+   */
+  private async restoreBackedUpKeys(keyring: BackedUpKeyring): Promise<void> {
+    const session = this.currentSession;
+    if (!session || session.device.status !== 'active') {
+      return;
+    }
+
+    const conversationKeys: DeviceConversationKey[] = [];
+    for (const [conversationId, keys] of Object.entries(keyring)) {
+      for (const [keyId, aesKey] of Object.entries(keys)) {
+        const wrappedKey = await EncryptionService.wrapKeyForRecipient(aesKey, session.device.keyPair.publicKey);
+        conversationKeys.push({
+          conversationId,
+          keyId,
+          encryptedAesKey: EncryptionService.serializeEnvelope(wrappedKey.envelope),
+          iv: wrappedKey.envelope.iv,
+          ephemeralPublicKey: wrappedKey.ephemeralPublicKey
+        });
+      }
+    }
+
+    if (conversationKeys.length === 0) {
+      return;
+    }
+
+    const restored = await apiService.restoreConversationKeys(conversationKeys);
+    this.rememberBackedUpKeys(keyring);
+    console.log(`🔑 Restored ${restored} of ${conversationKeys.length} backed up conversation keys`);
+  }
+
+  /**
+   * Step 6: Update session with user data (called after token verification)
+   */
+  updateSessionUser(user: User): void {
+    if (this.currentSession) {
+      this.currentSession.user = user;
+      this.updateSessionActivity();
+    }
+  }
+
+  /**
+   * Get the current key for a conversation, setting it up on first use
+   */
+  async getConversationKey(conversationId: string, participants: User[]): Promise<ConversationKey> {
+    const keyring = await this.getConversationKeyring(conversationId, participants);
+    return keyring.keys[keyring.currentKeyId];
+  }
+
+  /**
+   * Get every key epoch we hold for a conversation, setting it up on first use
+   * Our wrapped copies are fetched and unwrapped; if nobody has set the
+   * conversation up yet, a fresh random key is created instead
+   */
+  async getConversationKeyring(conversationId: string, participants: User[]): Promise<ConversationKeyring> {
+    if (!this.currentSession) {
+      throw new Error('No active encryption session');
+    }
+
+    const cachedConversation = this.conversationCache.get(conversationId);
+    if (cachedConversation) {
+      // Members may have joined since the key was loaded
+      await this.shareConversationKey(cachedConversation, participants);
+      return cachedConversation.keyring;
+    }
+
+    try {
+      const conversationData = await this.loadConversation(conversationId);
+      await this.shareConversationKey(conversationData, participants);
+      return conversationData.keyring;
+    } catch (error) {
+      if (!isAxiosError(error) || error.response?.status !== 404) {
+        throw error;
+      }
+    }
+
+    try {
+      return (await this.setupConversationKey(conversationId, participants)).keyring;
+    } catch (error) {
+      // Another participant set the conversation up before us - use their key
+      if (!isAxiosError(error) || error.response?.status !== 409) {
+        throw error;
+      }
+
+      const conversationData = await this.loadConversation(conversationId);
+      return conversationData.keyring;
+    }
+  }
+
+  /**
+   * Replace the conversation key with a new epoch wrapped only for the
+   * given members, so anyone removed cannot read what is sent next
+   * If another member rotated first, their key is loaded and we rotate on
+   * top of it once, since theirs may predate the latest membership change
+   */
+  async rotateConversationKey(conversationId: string, participants: User[]): Promise<ConversationKeyring> {
+    if (!this.currentSession) {
+      throw new Error('No active encryption session');
+    }
+
+    let conversationData = this.conversationCache.get(conversationId);
+    if (!conversationData) {
+      try {
+        conversationData = await this.loadConversation(conversationId);
+      } catch (error) {
+        // Never set up, so a fresh key is as good as a rotated one
+        if (isAxiosError(error) && error.response?.status === 404) {
+          return this.getConversationKeyring(conversationId, participants);
+        }
+        throw error;
+      }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const conversationKey = EncryptionService.generateConversationKey(
+        conversationId,
+        participants.map(participant => participant.id.toString())
+      );
+      const epoch = conversationData.keyring.epoch + 1;
+      const devices = await this.getParticipantDevices(conversationId, participants);
+      const wrappedKeys = await this.wrapConversationKeyForDevices(conversationKey, devices);
+
+      try {
+        await apiService.rotateConversationKey(conversationId, epoch, conversationKey.keyId, wrappedKeys);
+      } catch (error) {
+        if (attempt > 0 || !isAxiosError(error) || error.response?.status !== 409) {
+          throw error;
+        }
+
+        conversationData = await this.loadConversation(conversationId);
+        continue;
+      }
+
+      conversationData.conversationKey = conversationKey;
+      conversationData.keyring = {
+        epoch,
+        currentKeyId: conversationKey.keyId,
+        keys: { ...conversationData.keyring.keys, [conversationKey.keyId]: conversationKey }
+      };
+      conversationData.participants = participants.filter(participant =>
+        devices.some(device => device.userId === participant.id && wrappedKeys[device.deviceId])
+      );
+      this.scheduleKeyBackup();
+
+      console.log(`✅ Conversation key for ${conversationId} rotated to epoch ${epoch}`);
+      return conversationData.keyring;
+    }
+  }
+
+  /**
+   * Fetch the keyring again, e.g. after another member rotated the key
+   */
+  async refreshConversationKeyring(conversationId: string): Promise<ConversationKeyring> {
+    return (await this.loadConversation(conversationId)).keyring;
+  }
+
+  /**
+   * Drop cached keys for a conversation we are no longer a member of
+   */
+  forgetConversationKeys(conversationId: string): void {
+    this.conversationCache.delete(conversationId);
+  }
+
+  /**
+   * Generate a random conversation key and store a wrapped copy per
+   * participant device
+   */
+  private async setupConversationKey(conversationId: string, participants: User[]): Promise<ConversationData> {
+    console.log(`🔐 Setting up conversation key for ${conversationId}...`);
+
+    const conversationKey = EncryptionService.generateConversationKey(
+      conversationId,
+      participants.map(participant => participant.id.toString())
+    );
+
+    const devices = await this.getParticipantDevices(conversationId, participants);
+    const wrappedKeys = await this.wrapConversationKeyForDevices(conversationKey, devices);
+
+    await apiService.setupConversation(
+      conversationId,
+      participants.map(participant => participant.id),
+      wrappedKeys
+    );
+
+    const conversationData: ConversationData = {
+      conversationId,
+      participants: participants.filter(participant => devices.some(device => device.userId === participant.id)),
+      conversationKey,
+      keyring: this.createKeyring(1, conversationKey),
+      messages: []
+    };
+    this.conversationCache.set(conversationId, conversationData);
+    this.scheduleKeyBackup();
+
+    console.log(`✅ Conversation key set up for ${conversationId}`);
+    return conversationData;
   }
 
   /**
-   * Step 6: Try to restore session from storage
+   * Give a copy of the conversation key to participants who are missing one,
+   * e.g. because they had no active device when it was set up
+   * Every member device without the current key is covered while we are at it
    */
-  private tryRestoreSession(): void {
+  private async shareConversationKey(conversationData: ConversationData, participants: User[]): Promise<void> {
+    const missingParticipants = participants.filter(participant =>
+      !conversationData.participants.some(keyHolder => keyHolder.id === participant.id)
+    );
+
+    if (missingParticipants.length === 0) {
+      return;
+    }
+
     try {
-      const storedSession = localStorage.getItem(this.SESSION_STORAGE_KEY);
-      if (!storedSession) {
-        console.log('🔍 No stored session found');
+      const devices = await this.verifyDevices(
+        (await apiService.getConversationDevices(conversationData.conversationId)).filter(device => !device.hasCurrentKey)
+      );
+
+      if (devices.length === 0) {
         return;
       }
 
-      const sessionData: SessionStorage = JSON.parse(storedSession);
-      
-      // Check if session is expired
-      if (Date.now() - sessionData.lastActivity > this.SESSION_TIMEOUT) {
-        console.log('🕐 Session expired, clearing...');
-        this.clearStoredSession();
-        return;
+      const wrappedKeys = await this.wrapConversationKeyForDevices(conversationData.conversationKey, devices);
+
+      await apiService.shareConversationKey(conversationData.conversationId, wrappedKeys);
+      conversationData.participants.push(
+        ...missingParticipants.filter(participant => devices.some(device => device.userId === participant.id))
+      );
+    } catch (error) {
+      // Sharing is retried the next time the conversation is loaded
+      console.error('❌ Failed to share conversation key:', error);
+    }
+  }
+
+  /**
+   * Active devices of the given participants, which the next key is wrapped for
+   */
+  private async getParticipantDevices(conversationId: string, participants: User[]): Promise<ConversationDevice[]> {
+    const devices = await apiService.getConversationDevices(conversationId);
+    return this.verifyDevices(
+      devices.filter(device => participants.some(participant => participant.id === device.userId))
+    );
+  }
+
+  /**
+   * Keep only devices whose key is signed by their owner's identity key
+   * Ours must carry our own signature; other members' identity keys must be
+   * in the key log and are checked against their pins, so a swapped one
+   * raises a warning
+   */
+  private async verifyDevices(devices: ConversationDevice[]): Promise<ConversationDevice[]> {
+    const session = this.currentSession!;
+    const verifiedDevices: ConversationDevice[] = [];
+
+    for (const device of devices) {
+      const isOwnDevice = device.userId === session.user.id;
+      const validSignature = (!isOwnDevice || device.identityKey === session.userKeyPair.publicKey)
+        && await EncryptionService.verifyData(
+          device.identityKey,
+          this.getDeviceKeyMessage(device.userId, device.deviceId, device.publicKey),
+          device.keySignature
+        );
+
+      if (!validSignature) {
+        console.warn(`⚠️ Device ${device.deviceId} is not signed by its owner, not sharing keys with it`);
+        continue;
       }
+      verifiedDevices.push(device);
+    }
 
-      // Restore session from stored data
-      this.currentSession = {
-        user: {
-          id: sessionData.userId,
-          username: '',
-          email: '',
-          publicKey: sessionData.userKeyPair.publicKey,
-          masterKeySalt: sessionData.masterKeySalt
-        },
-        masterKey: sessionData.masterKey,
-        userKeyPair: sessionData.userKeyPair
-      };
+    const loggedUsers = await this.checkContactKeys(verifiedDevices.map(device => ({
+      id: device.userId,
+      username: '',
+      publicKey: device.identityKey
+    })));
 
+    return verifiedDevices.filter(device => {
+      if (device.userId !== session.user.id && !loggedUsers.has(device.userId)) {
+        console.warn(`⚠️ Owner of device ${device.deviceId} has a key outside the key log, not sharing keys with it`);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Check contacts' identity keys against the key log, pinning them the
+   * first time we see them and flagging any that differ from the pin
+   * Returns the IDs of users whose key is their latest logged one
+   */
+  private async checkContactKeys(users: Array<{ id: number; username: string; publicKey: string }>): Promise<Set<number>> {
+    try {
+      const contacts = await contactKeys.checkKeys(users);
+      return new Set(
+        users.filter(user => contacts[user.id] && !contacts[user.id].unlogged).map(user => user.id)
+      );
     } catch (error) {
-      console.error('❌ Failed to restore session:', error);
-      this.clearStoredSession();
+      console.error('❌ Failed to check contact keys:', error);
+      return new Set();
     }
   }
 
   /**
-   * Step 6: Store complete session data
+   * Whether our own key is the latest one the key log holds for us
+   * Anything else means a key was published for us that we did not make
    */
-  private storeSessionData(): void {
+  async checkOwnKey(): Promise<boolean> {
     if (!this.currentSession) {
-      return;
+      throw new Error('No active encryption session');
     }
 
-    try {
-      const sessionData: SessionStorage = {
-        userId: this.currentSession.user.id,
-        masterKey: this.currentSession.masterKey,
-        masterKeySalt: this.currentSession.user.masterKeySalt!,
-        userKeyPair: this.currentSession.userKeyPair,
-        lastActivity: Date.now()
+    const { user, userKeyPair } = this.currentSession;
+    return keyTransparency.verifyKey(user.id, userKeyPair.publicKey);
+  }
+
+  /**
+   * Wrap a conversation key separately for each device, ours included, to
+   * the device's public key
+   */
+  private async wrapConversationKeyForDevices(
+    conversationKey: ConversationKey,
+    devices: ConversationDevice[]
+  ): Promise<Record<string, WrappedConversationKey>> {
+    const wrappedKeys: Record<string, WrappedConversationKey> = {};
+
+    for (const device of devices) {
+      const wrappedKey = await EncryptionService.wrapKeyForRecipient(conversationKey.aesKey, device.publicKey);
+
+      wrappedKeys[device.deviceId] = {
+        keyId: conversationKey.keyId,
+        encryptedAesKey: EncryptionService.serializeEnvelope(wrappedKey.envelope),
+        iv: wrappedKey.envelope.iv,
+        ephemeralPublicKey: wrappedKey.ephemeralPublicKey
       };
+    }
 
-      localStorage.setItem(this.SESSION_STORAGE_KEY, JSON.stringify(sessionData));
-      console.log('💾 Complete session data stored');
-      
-    } catch (error) {
-      console.error('❌ Failed to store session data:', error);
+    return wrappedKeys;
+  }
+
+  /**
+   * Encrypt a message for a conversation
+   * Direct conversations use the Double Ratchet, setting a session up from
+   * the peer's prekey bundle on first use; peers without a bundle, and
+   * users with several devices, get messages encrypted with the
+   * conversation key instead
+   */
+  async encryptMessage(conversationId: string, participants: User[], plaintext: string): Promise<EncryptedMessageData> {
+    if (!this.currentSession) {
+      throw new Error('No active encryption session');
+    }
+
+    const peer = this.getDirectPeer(participants);
+    const peerDeviceId = peer && await this.getRatchetDevice(conversationId, peer);
+
+    if (peer && peerDeviceId) {
+      const ratchetMessage = await this.withRatchetStore(async store => {
+        let sessions = store.sessions[conversationId] || [];
+        const sessionDeviceId = store.sessionDevices[conversationId];
+
+        // A peer who replaced their device cannot open the old device's sessions
+        if (sessions.length === 0 || (sessionDeviceId && sessionDeviceId !== peerDeviceId)) {
+          const newSession = await this.startRatchetSession(peer, peerDeviceId);
+          if (!newSession) {
+            return null;
+          }
+          sessions = [newSession, ...sessions].slice(0, this.MAX_RATCHET_SESSIONS);
+        }
+
+        const { session, header, envelope } = await DoubleRatchet.encrypt(sessions[0], plaintext);
+
+        store.sessions[conversationId] = [session, ...sessions.slice(1)];
+        store.sessionDevices[conversationId] = peerDeviceId;
+        this.cachePlaintext(store, envelope.iv, plaintext);
+
+        return { envelope, ratchetHeader: header };
+      });
+
+      if (ratchetMessage) {
+        return ratchetMessage;
+      }
     }
+
+    return {
+      envelope: await this.encryptWithConversationKey(conversationId, participants, plaintext),
+      ratchetHeader: null
+    };
   }
 
   /**
-   * Step 6: Clear stored session
+   * Encrypt with the current conversation key, never the ratchet
+   * Used for message edits: ratchet keys are single-use, so a new version
+   * of a message cannot be sent on the original message's key
    */
-  private clearStoredSession(): void {
-    localStorage.removeItem(this.SESSION_STORAGE_KEY);
-    console.log('🗑️ Stored session cleared');
+  async encryptWithConversationKey(conversationId: string, participants: User[], plaintext: string): Promise<EncryptedEnvelope> {
+    const conversationKey = await this.getConversationKey(conversationId, participants);
+    return EncryptionService.encryptData(plaintext, conversationKey.aesKey, conversationKey.keyId);
   }
 
   /**
-   * Step 6: Update session activity
+   * Decrypt a message for a conversation
+   * Ratchet message keys are single-use, so plaintexts are cached by IV and
+   * served from the cache when history is loaded again
    */
-  private updateSessionActivity(): void {
+  async decryptMessage(
+    conversationId: string,
+    participants: User[],
+    message: Pick<Message, 'senderId' | 'envelope' | 'ratchetHeader'> & { expiresAt?: string | null }
+  ): Promise<string> {
     if (!this.currentSession) {
-      return;
+      throw new Error('No active encryption session');
     }
 
-    try {
-      const storedSession = localStorage.getItem(this.SESSION_STORAGE_KEY);
-      if (storedSession) {
-        const sessionData: SessionStorage = JSON.parse(storedSession);
-        sessionData.lastActivity = Date.now();
-        localStorage.setItem(this.SESSION_STORAGE_KEY, JSON.stringify(sessionData));
+    if (!message.ratchetHeader) {
+      const conversationKey = await this.getKeyForEnvelope(conversationId, participants, message.envelope);
+      return EncryptionService.decryptData(message.envelope, conversationKey.aesKey);
+    }
+
+    const cachedStore = await this.loadRatchetStore();
+    const cachedPlaintext = cachedStore.plaintexts[message.envelope.iv];
+    if (cachedPlaintext !== undefined) {
+      // Our own messages were cached before the server set their timer
+      if (message.expiresAt && cachedStore.plaintextExpiry[message.envelope.iv] === undefined) {
+        await this.withRatchetStore(async store => this.setPlaintextExpiry(store, message.envelope.iv, message.expiresAt));
       }
-    } catch (error) {
-      console.error('❌ Failed to update session activity:', error);
+      return cachedPlaintext;
+    }
+
+    if (message.senderId === this.currentSession.user.id) {
+      throw new Error('Sent message is no longer in the local cache');
+    }
+
+    const peer = participants.find(participant => participant.id === message.senderId);
+    if (!peer) {
+      throw new Error('Sender is not a conversation participant');
     }
+
+    const header = message.ratchetHeader;
+
+    return this.withRatchetStore(async store => {
+      // Another caller may have decrypted it while we waited
+      if (store.plaintexts[message.envelope.iv] !== undefined) {
+        return store.plaintexts[message.envelope.iv];
+      }
+
+      const sessions = store.sessions[conversationId] || [];
+      const { session, plaintext } = await this.decryptWithSessions(store, sessions, peer, header, message.envelope);
+
+      // Whichever session decrypted the message becomes the active one
+      store.sessions[conversationId] = [
+        session,
+        ...sessions.filter(existing => existing.baseKey !== session.baseKey)
+      ].slice(0, this.MAX_RATCHET_SESSIONS);
+      this.cachePlaintext(store, message.envelope.iv, plaintext);
+      this.setPlaintextExpiry(store, message.envelope.iv, message.expiresAt);
+
+      return plaintext;
+    });
   }
 
   /**
-   * Step 6: Register user with persistent session
+   * Pick the key epoch an envelope was encrypted with
+   * A key we do not know yet may come from a rotation since the keyring was
+   * loaded, so the keyring is fetched again once per missing key
    */
-  async registerUser(userData: {
-    username: string;
-    email: string;
-    password: string;
-  }): Promise<User> {
-    try {
-      console.log('🔐 Starting encrypted user registration...');
+  private async getKeyForEnvelope(
+    conversationId: string,
+    participants: User[],
+    envelope: EncryptedEnvelope
+  ): Promise<ConversationKey> {
+    let keyring = await this.getConversationKeyring(conversationId, participants);
+
+    // Envelopes from before key IDs were recorded use the only key there was
+    const keyId = envelope.keyId ?? keyring.currentKeyId;
+
+    if (!keyring.keys[keyId] && !this.missingKeyIds.has(keyId)) {
+      keyring = await this.refreshConversationKeyring(conversationId);
+      if (!keyring.keys[keyId]) {
+        this.missingKeyIds.add(keyId);
+      }
+    }
 
-      // Step 1: Derive master key from password
-      const masterKeyResult = await EncryptionService.deriveMasterKey(userData.password);
-      
-      // Step 2: Generate user key pair
-      const userKeyPair = EncryptionService.generateUserKeyPair();
+    if (!keyring.keys[keyId]) {
+      throw new Error('Conversation key for this message is not available');
+    }
 
-      // Step 3: Register with backend
-      const authResponse = await apiService.register({
-        username: userData.username,
-        email: userData.email,
-        password: userData.password,
-        publicKey: userKeyPair.publicKey,
-        masterKeySalt: masterKeyResult.salt
-      });
+    return keyring.keys[keyId];
+  }
 
-      // Step 4: Store session data
-      this.currentSession = {
-        user: authResponse.user,
-        masterKey: masterKeyResult.masterKey,
-        userKeyPair
-      };
+  /**
+   * Try each known session, then fall back to building one from the X3DH
+   * data a peer sends until we reply
+   * When both sides start a session at once, each ends up holding both and
+   * they converge on whichever one is used next
+   */
+  private async decryptWithSessions(
+    store: RatchetStore,
+    sessions: RatchetSession[],
+    peer: User,
+    header: RatchetHeader,
+    envelope: EncryptedEnvelope
+  ): Promise<{ session: RatchetSession; plaintext: string }> {
+    for (const session of sessions) {
+      try {
+        return await DoubleRatchet.decrypt(session, header, envelope);
+      } catch (error) {
+        // Not this session - try the next one
+      }
+    }
 
-      // Step 5: Persist complete session data
-      this.storeSessionData();
+    const preKey = header.preKey;
+    if (!preKey || sessions.some(session => session.baseKey === preKey.ephemeralKey)) {
+      throw new Error('No ratchet session can decrypt this message');
+    }
 
-      console.log('✅ User registered with persistent encryption session');
-      return authResponse.user;
+    if (preKey.identityKey !== peer.publicKey) {
+      throw new Error('Sender identity key does not match');
+    }
 
-    } catch (error) {
-      console.error('❌ Registration with encryption failed:', error);
-      throw error;
+    const signedPreKey = store.signedPreKeys.find(key => key.keyId === preKey.signedPreKeyId);
+    if (!signedPreKey) {
+      throw new Error('Signed prekey is no longer available');
     }
+
+    let oneTimePreKey: OneTimePreKey | null = null;
+    if (preKey.oneTimePreKeyId !== undefined) {
+      oneTimePreKey = store.oneTimePreKeys.find(key => key.keyId === preKey.oneTimePreKeyId) ?? null;
+      if (!oneTimePreKey) {
+        throw new Error('One-time prekey is no longer available');
+      }
+    }
+
+    const { sharedKey, associatedData } = await EncryptionService.x3dhRespond(
+      this.currentSession!.userKeyPair,
+      signedPreKey,
+      preKey.identityKey,
+      preKey.ephemeralKey,
+      oneTimePreKey
+    );
+
+    const result = await DoubleRatchet.decrypt(
+      DoubleRatchet.initReceiver(sharedKey, associatedData, signedPreKey, preKey.ephemeralKey),
+      header,
+      envelope
+    );
+
+    // One-time prekeys open exactly one session
+    if (oneTimePreKey) {
+      store.oneTimePreKeys = store.oneTimePreKeys.filter(key => key !== oneTimePreKey);
+    }
+
+    return result;
   }
 
   /**
-   * Step 6: Login user with session restoration
+   * Run X3DH against the prekey bundle of the peer's device, consuming one
+   * of its one-time prekeys when any are left
+   * Returns null when the device has not published one
    */
-  async loginUser(credentials: {
-    username: string;
-    password: string;
-  }): Promise<User> {
+  private async startRatchetSession(peer: User, deviceId: string): Promise<RatchetSession | null> {
+    const lastMiss = this.preKeyBundleMisses.get(peer.id);
+    if (lastMiss && Date.now() - lastMiss < this.PREKEY_BUNDLE_RETRY) {
+      return null;
+    }
+
+    let bundle;
     try {
-      console.log('🔐 Starting encrypted user login...');
+      bundle = await apiService.claimPreKeyBundle(peer.id);
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        this.preKeyBundleMisses.set(peer.id, Date.now());
+        return null;
+      }
+      throw error;
+    }
 
-      // Step 1: Login with backend
-      const authResponse = await apiService.login(credentials);
+    // The peer's devices changed since we looked
+    if (bundle.deviceId !== deviceId) {
+      return null;
+    }
 
-      // Step 2: Derive master key using stored salt
-      const masterKeyResult = await EncryptionService.deriveMasterKey(
-        credentials.password,
-        authResponse.user.masterKeySalt
-      );
+    const loggedUsers = await this.checkContactKeys([{ id: peer.id, username: peer.username, publicKey: bundle.identityKey }]);
+    if (!loggedUsers.has(peer.id)) {
+      // The conversation key still works; its devices went through the same check
+      console.warn(`⚠️ ${peer.username}'s identity key is not in the key log, not starting a ratchet session`);
+      this.preKeyBundleMisses.set(peer.id, Date.now());
+      return null;
+    }
 
-      // Step 3: Generate user key pair (for now, we generate new each time)
-      const userKeyPair = EncryptionService.generateUserKeyPair();
+    console.log(`🤝 Starting ratchet session with ${peer.username}...`);
 
-      // Step 4: Store session data
-      this.currentSession = {
-        user: authResponse.user,
-        masterKey: masterKeyResult.masterKey,
-        userKeyPair
-      };
+    const userKeyPair = this.currentSession!.userKeyPair;
+    const { sharedKey, associatedData, ephemeralKeyPair } = await EncryptionService.x3dhInitiate(userKeyPair, bundle);
 
-      // Step 5: Persist complete session data
-      this.storeSessionData();
+    return DoubleRatchet.initSender(sharedKey, associatedData, bundle.signedPreKey, {
+      identityKey: userKeyPair.publicKey,
+      ephemeralKey: ephemeralKeyPair.publicKey,
+      signedPreKeyId: bundle.signedPreKeyId,
+      ...(bundle.oneTimePreKey ? { oneTimePreKeyId: bundle.oneTimePreKey.keyId } : {})
+    });
+  }
 
-      console.log('✅ User logged in with persistent encryption session');
-      return authResponse.user;
+  /**
+   * Generate one-time prekeys to top up our pool on the server
+   * The private halves stay in the ratchet store until a peer uses them
+   */
+  async generateOneTimePreKeys(count: number): Promise<Array<{ keyId: number; publicKey: string }>> {
+    return this.withRatchetStore(async store => {
+      const preKeys: OneTimePreKey[] = [];
+
+      for (let i = 0; i < Math.min(count, this.ONE_TIME_PREKEY_BATCH); i++) {
+        const keyPair = await EncryptionService.generateDHKeyPair();
+        preKeys.push({ ...keyPair, keyId: store.nextOneTimePreKeyId++ });
+      }
+
+      // Keys the server never handed out are eventually dropped
+      store.oneTimePreKeys = [...store.oneTimePreKeys, ...preKeys].slice(-this.MAX_ONE_TIME_PREKEYS);
+
+      return preKeys.map(({ keyId, publicKey }) => ({ keyId, publicKey }));
+    });
+  }
+
+  /**
+   * Publish our signed prekey, rotating it weekly or when our identity key
+   * changed; older prekeys are kept so sessions already in flight still open
+   */
+  private async publishPreKeyBundle(): Promise<void> {
+    try {
+      await this.withRatchetStore(async store => {
+        const userKeyPair = this.currentSession!.userKeyPair;
+        let [signedPreKey] = store.signedPreKeys;
+
+        const needsRotation = !signedPreKey
+          || Date.now() - signedPreKey.createdAt > this.SIGNED_PREKEY_ROTATION
+          || !(await EncryptionService.verifySignedPreKey(
+            userKeyPair.publicKey,
+            signedPreKey.publicKey,
+            signedPreKey.signature
+          ));
+
+        if (needsRotation) {
+          signedPreKey = await EncryptionService.generateSignedPreKey(
+            (signedPreKey?.keyId ?? 0) + 1,
+            userKeyPair.privateKey
+          );
+          store.signedPreKeys = [signedPreKey, ...store.signedPreKeys].slice(0, this.MAX_SIGNED_PREKEYS);
+        }
 
+        await apiService.publishPreKeyBundle({
+          signedPreKey: {
+            keyId: signedPreKey.keyId,
+            publicKey: signedPreKey.publicKey,
+            signature: signedPreKey.signature
+          }
+        });
+      });
     } catch (error) {
-      console.error('❌ Login with encryption failed:', error);
-      throw error;
+      // Peers use the conversation key until a bundle is published
+      console.error('❌ Failed to publish prekey bundle:', error);
     }
   }
 
   /**
-   * Step 6: Update session with user data (called after token verification)
+   * The peer's device to run the ratchet with
+   * A ratchet message opens on one device, so this is null unless both of
+   * us have exactly one active device
    */
-  updateSessionUser(user: User): void {
-    if (this.currentSession) {
-      this.currentSession.user = user;
-      this.updateSessionActivity();
+  private async getRatchetDevice(conversationId: string, peer: User): Promise<string | null> {
+    const cached = this.ratchetDevices.get(conversationId);
+    if (cached && Date.now() - cached.checkedAt < this.RATCHET_DEVICES_TTL) {
+      return cached.deviceId;
     }
+
+    const devices = await apiService.getConversationDevices(conversationId);
+    const ownDevices = devices.filter(device => device.userId === this.currentSession!.user.id);
+    const peerDevices = devices.filter(device => device.userId === peer.id);
+    const deviceId = ownDevices.length === 1 && peerDevices.length === 1 ? peerDevices[0].deviceId : null;
+
+    this.ratchetDevices.set(conversationId, { deviceId, checkedAt: Date.now() });
+    return deviceId;
   }
 
   /**
-   * Step 6: Start conversation with session management
+   * Whether a direct conversation has lost forward secrecy because one of
+   * us has several devices, so messages use the conversation key
    */
-  async startConversation(participantUsername: string): Promise<string> {
-    try {
-      if (!this.currentSession) {
-        throw new Error('No active encryption session');
-      }
+  async isRatchetUnavailable(conversationId: string, participants: User[]): Promise<boolean> {
+    const peer = this.getDirectPeer(participants);
+    return peer !== null && (await this.getRatchetDevice(conversationId, peer)) === null;
+  }
 
-      // Update activity
-      this.updateSessionActivity();
+  /**
+   * Look devices up again, e.g. after one of ours was approved or revoked
+   */
+  forgetRatchetDevices(conversationId?: string): void {
+    if (conversationId) {
+      this.ratchetDevices.delete(conversationId);
+    } else {
+      this.ratchetDevices.clear();
+    }
+  }
+
+  /**
+   * The other participant of a direct conversation, if it is one
+   */
+  private getDirectPeer(participants: User[]): User | null {
+    const others = participants.filter(participant => participant.id !== this.currentSession!.user.id);
+    return others.length === 1 ? others[0] : null;
+  }
+
+  /**
+   * Drop cached plaintexts of ratchet messages that no longer exist, such as
+   * disappearing messages whose timer ran out
+   */
+  async forgetPlaintexts(ivs: string[]): Promise<void> {
+    const store = await this.loadRatchetStore();
+    if (!ivs.some(iv => store.plaintexts[iv] !== undefined)) {
+      return;
+    }
 
-      console.log(`💬 Starting conversation with ${participantUsername}...`);
+    await this.withRatchetStore(async store => {
+      ivs.forEach(iv => {
+        delete store.plaintexts[iv];
+        delete store.plaintextExpiry[iv];
+      });
+    });
+  }
 
-      // Get participant user data
-      const participant = await apiService.getUserByUsername(participantUsername);
+  private cachePlaintext(store: RatchetStore, iv: string, plaintext: string): void {
+    store.plaintexts[iv] = plaintext;
 
-      // Generate conversation ID and key
-      const conversationId = `conv_${Date.now()}_${EncryptionService.generateSecureRandom(8)}`;
-      const participants = [this.currentSession.user.id, participant.id];
-      
-      const conversationKey = EncryptionService.generateConversationKey(
-        conversationId,
-        participants.map(id => id.toString())
-      );
+    const cachedIvs = Object.keys(store.plaintexts);
+    cachedIvs.slice(0, Math.max(0, cachedIvs.length - this.MAX_CACHED_PLAINTEXTS)).forEach(cachedIv => {
+      delete store.plaintexts[cachedIv];
+      delete store.plaintextExpiry[cachedIv];
+    });
+  }
 
-      // Encrypt conversation key for current user
-      const currentUserEncryptedKey = EncryptionService.encryptConversationKey(
-        conversationKey,
-        this.currentSession.masterKey
-      );
+  private setPlaintextExpiry(store: RatchetStore, iv: string, expiresAt: string | null | undefined): void {
+    if (expiresAt && store.plaintexts[iv] !== undefined) {
+      store.plaintextExpiry[iv] = new Date(expiresAt).getTime();
+    }
+  }
 
-      // Store conversation key
-      await apiService.storeConversationKey(
-        conversationId,
-        currentUserEncryptedKey.keyId,
-        currentUserEncryptedKey.encryptedKey.encryptedContent,
-        currentUserEncryptedKey.encryptedKey.iv
-      );
+  /**
+   * Drop plaintexts of disappearing messages whose time ran out, including
+   * ones that expired while this browser was closed
+   * Returns whether anything was dropped
+   */
+  private purgeExpiredPlaintexts(store: RatchetStore): boolean {
+    const now = Date.now();
+    const expiredIvs = Object.keys(store.plaintextExpiry).filter(iv => store.plaintextExpiry[iv] <= now);
 
-      // Cache conversation data
-      this.conversationCache.set(conversationId, {
-        conversationId,
-        participants: [this.currentSession.user, participant],
-        conversationKey,
-        messages: []
-      });
+    expiredIvs.forEach(iv => {
+      delete store.plaintexts[iv];
+      delete store.plaintextExpiry[iv];
+    });
 
-      console.log(`✅ Conversation ${conversationId} started`);
-      return conversationId;
+    return expiredIvs.length > 0;
+  }
 
-    } catch (error) {
-      console.error('❌ Failed to start conversation:', error);
-      throw error;
+  /**
+   * Run ratchet work one operation at a time and persist the result
+   * Sessions must never be advanced by two operations at once
+   */
+  private withRatchetStore<T>(operation: (store: RatchetStore) => Promise<T>): Promise<T> {
+    const session = this.currentSession;
+    if (!session) {
+      return Promise.reject(new Error('No active encryption session'));
+    }
+
+    const result = this.ratchetQueue.then(async () => {
+      const store = await this.loadRatchetStore();
+      const value = await operation(store);
+      await this.saveRatchetStore(store, session);
+      return value;
+    });
+
+    this.ratchetQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private loadRatchetStore(): Promise<RatchetStore> {
+    if (!this.ratchetStore) {
+      const session = this.currentSession;
+      if (!session) {
+        return Promise.reject(new Error('No active encryption session'));
+      }
+
+      this.ratchetStore = (async () => {
+        const storedRatchetStore = localStorage.getItem(`${this.RATCHET_STORE_KEY}_${session.user.id}`);
+
+        if (storedRatchetStore) {
+          try {
+            const envelope = EncryptionService.parseStoredEnvelope(storedRatchetStore, '');
+            const store = {
+              ...this.createRatchetStore(),
+              ...JSON.parse(await EncryptionService.decryptData(envelope, session.masterKey))
+            } as RatchetStore;
+
+            if (this.purgeExpiredPlaintexts(store)) {
+              await this.saveRatchetStore(store, session);
+            }
+            return store;
+          } catch (error) {
+            console.error('❌ Failed to restore ratchet sessions, starting fresh:', error);
+          }
+        }
+
+        return this.createRatchetStore();
+      })();
     }
+
+    return this.ratchetStore;
+  }
+
+  private createRatchetStore(): RatchetStore {
+    return {
+      signedPreKeys: [],
+      oneTimePreKeys: [],
+      nextOneTimePreKeyId: 1,
+      sessions: {},
+      sessionDevices: {},
+      plaintexts: {},
+      plaintextExpiry: {}
+    };
+  }
+
+  private async saveRatchetStore(store: RatchetStore, session: UserSession): Promise<void> {
+    const envelope = await EncryptionService.encryptData(JSON.stringify(store), session.masterKey);
+    localStorage.setItem(
+      `${this.RATCHET_STORE_KEY}_${session.user.id}`,
+      EncryptionService.serializeEnvelope(envelope)
+    );
   }
 
   /**
@@ -305,7 +2167,7 @@ class EncryptionManager {
       }
 
       // Encrypt message with conversation key
-      const encryptedMessage = EncryptionService.encryptMessage(
+      const envelope = await EncryptionService.encryptMessage(
         messageText,
         conversationData.conversationKey
       );
@@ -313,8 +2175,7 @@ class EncryptionManager {
       // Send to backend
       const message = await apiService.sendMessage({
         conversationId,
-        encryptedContent: encryptedMessage.encryptedContent,
-        iv: encryptedMessage.iv,
+        envelope,
         messageType: 'text'
       });
 
@@ -358,13 +2219,10 @@ class EncryptionManager {
       const messages: Message[] = [];
 
       // Decrypt messages
-      const decryptedMessages = messages.map(message => {
+      const decryptedMessages = await Promise.all(messages.map(async message => {
         try {
-          const decryptedContent = EncryptionService.decryptMessage(
-            {
-              encryptedContent: message.encryptedContent,
-              iv: message.iv
-            },
+          const decryptedContent = await EncryptionService.decryptMessage(
+            message.envelope,
             conversationData!.conversationKey
           );
 
@@ -379,7 +2237,7 @@ class EncryptionManager {
             decryptedContent: '[Failed to decrypt]'
           };
         }
-      });
+      }));
 
       console.log(`✅ Retrieved and decrypted ${decryptedMessages.length} messages`);
       
@@ -405,26 +2263,26 @@ class EncryptionManager {
 
       console.log(`🔄 Loading conversation ${conversationId}...`);
 
-      // Get encrypted conversation key
-      const encryptedConversationKey = await apiService.getConversationKey(conversationId);
-
-      // Decrypt conversation key
-      const conversationKey = EncryptionService.decryptConversationKey(
-        {
-          keyId: encryptedConversationKey.keyId,
-          conversationId: conversationId,
-          encryptedKey: {
-            encryptedContent: encryptedConversationKey.encryptedAesKey,
-            iv: encryptedConversationKey.iv
-          },
-          participants: [],
-          createdAt: new Date(encryptedConversationKey.createdAt)
-        },
-        this.currentSession.masterKey
+      // Get every epoch of the conversation key we were given, oldest first
+      const encryptedKeyring = await apiService.getConversationKeyring(conversationId);
+      const conversationKeys = await Promise.all(
+        encryptedKeyring.map(encryptedConversationKey => this.unwrapConversationKey(conversationId, encryptedConversationKey))
       );
 
+      const conversationKey = conversationKeys[conversationKeys.length - 1];
+      const keyring: ConversationKeyring = {
+        epoch: encryptedKeyring[encryptedKeyring.length - 1].epoch,
+        currentKeyId: conversationKey.keyId,
+        keys: Object.fromEntries(conversationKeys.map(key => [key.keyId, key]))
+      };
+
       // Get conversation participants
       const participants = await apiService.getConversationParticipants(conversationId);
+      await this.checkContactKeys(participants.map(participant => ({
+        id: participant.userId,
+        username: participant.username,
+        publicKey: participant.publicKey
+      })));
 
       // Create conversation data
       const conversationData: ConversationData = {
@@ -436,11 +2294,13 @@ class EncryptionManager {
           publicKey: p.publicKey
         })),
         conversationKey,
+        keyring,
         messages: []
       };
 
-      // Cache the conversation
+      // Cache the conversation and back up any key epochs new to us
       this.conversationCache.set(conversationId, conversationData);
+      this.scheduleKeyBackup();
 
       console.log('✅ Conversation loaded and cached');
       return conversationData;
@@ -451,6 +2311,54 @@ class EncryptionManager {
     }
   }
 
+  /**
+   * Decrypt this device's copy of one conversation key epoch - copies are
+   * wrapped to the device key, except ones stored directly under our master
+   * key when a conversation is started
+   */
+  private async unwrapConversationKey(
+    conversationId: string,
+    encryptedConversationKey: StoredConversationKey
+  ): Promise<ConversationKey> {
+    const session = this.currentSession!;
+    const encryptedKey = EncryptionService.parseStoredEnvelope(
+      encryptedConversationKey.encryptedAesKey,
+      encryptedConversationKey.iv
+    );
+
+    if (encryptedConversationKey.ephemeralPublicKey) {
+      return {
+        keyId: encryptedConversationKey.keyId,
+        conversationId,
+        aesKey: await EncryptionService.unwrapKey(
+          { envelope: encryptedKey, ephemeralPublicKey: encryptedConversationKey.ephemeralPublicKey },
+          session.device.keyPair.privateKey
+        ),
+        participants: [],
+        createdAt: new Date(encryptedConversationKey.createdAt)
+      };
+    }
+
+    return EncryptionService.decryptConversationKey(
+      {
+        keyId: encryptedConversationKey.keyId,
+        conversationId,
+        encryptedKey,
+        participants: [],
+        createdAt: new Date(encryptedConversationKey.createdAt)
+      },
+      session.masterKey
+    );
+  }
+
+  private createKeyring(epoch: number, conversationKey: ConversationKey): ConversationKeyring {
+    return {
+      epoch,
+      currentKeyId: conversationKey.keyId,
+      keys: { [conversationKey.keyId]: conversationKey }
+    };
+  }
+
   /**
    * Get current user session
    */
@@ -469,10 +2377,34 @@ class EncryptionManager {
    * Step 6: Enhanced logout with session cleanup
    */
   logout(): void {
+    const userId = this.storedSession?.userId;
+    this.clearSessionState();
+    this.storedSession = null;
+    this.clearStoredSession(userId).catch(error => {
+      console.error('❌ Failed to clear stored session:', error);
+    });
+    console.log('🚪 Encryption session cleared completely');
+  }
+
+  /**
+   * Drop every key and decrypted conversation held in memory
+   */
+  private clearSessionState(): void {
     this.currentSession = null;
     this.conversationCache.clear();
-    this.clearStoredSession();
-    console.log('🚪 Encryption session cleared completely');
+    // The encrypted ratchet store stays in localStorage for the next login
+    this.ratchetStore = null;
+    this.preKeyBundleMisses.clear();
+    this.missingKeyIds.clear();
+    this.ratchetDevices.clear();
+    if (this.keyBackupTimer) {
+      clearTimeout(this.keyBackupTimer);
+      this.keyBackupTimer = null;
+    }
+    this.keyBackupMissing = false;
+    this.backedUpKeyIds.clear();
+    contactKeys.close();
+    keyTransparency.reset();
   }
 
   /**
@@ -489,4 +2421,4 @@ export default encryptionManager;
 
 // Also export class and types
 export { EncryptionManager };
-export type { UserSession, ConversationData };
+export type { UserSession, ConversationData, ConversationKeyring, LockSettings };
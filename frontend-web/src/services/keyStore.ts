@@ -0,0 +1,138 @@
+/**
+ * Key Store
+ * The encryption session kept in IndexedDB between page loads. Keys are
+ * stored as non-extractable CryptoKey objects, so script running in the page
+ * can use them but cannot copy them out. While the app is locked the keys
+ * are deleted and only what is needed to unlock it stays: the master key
+ * salt, the identity key wrapped under the master key, and optionally the
+ * session keys wrapped under a key derived from a PIN and a secret that
+ * never leaves this browser.
+ */
+
+import type { DeviceStatus } from '@shared/types';
+import type { MasterKeyHandle, PinWrappedKeys, PrivateKeyHandle } from '../utils/encryption';
+
+export interface SessionKeys {
+  masterKey: MasterKeyHandle;
+  identityKey: PrivateKeyHandle;
+  deviceKey: PrivateKeyHandle;
+}
+
+export interface StoredSession {
+  userId: number;
+  masterKeySalt: string;
+  identity: {
+    keyId: string;
+    publicKey: string;
+    encryptedPrivateKey: string; // Wrapped under the master key, as on the server
+    privateKeyIv: string;
+  };
+  device: {
+    deviceId: string;
+    name: string;
+    status: DeviceStatus;
+    keyId: string;
+    publicKey: string;
+  };
+  keys: SessionKeys | null; // null while locked
+}
+
+export interface StoredPin {
+  userId: number;
+  deviceId: string;
+  salt: string;
+  secret: CryptoKey; // Non-extractable HMAC key mixed into the PIN key
+  keys: PinWrappedKeys; // Session keys under the PIN-derived key
+  failedAttempts: number;
+}
+
+const DB_NAME = 'encrypted-chat-keys';
+// Version 2 drops PINs from version 1, which sealed the raw master key
+const DB_VERSION = 2;
+const SESSION_RECORD = 'current';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+class KeyStoreService {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async getSession(): Promise<StoredSession | null> {
+    const record = await this.get<{ name: string; session: StoredSession }>('session', SESSION_RECORD);
+    return record?.session ?? null;
+  }
+
+  async putSession(session: StoredSession): Promise<void> {
+    await this.put('session', { name: SESSION_RECORD, session });
+  }
+
+  async deleteSession(): Promise<void> {
+    await this.delete('session', SESSION_RECORD);
+  }
+
+  async getPin(userId: number): Promise<StoredPin | null> {
+    return (await this.get<StoredPin>('pins', userId)) ?? null;
+  }
+
+  async putPin(pin: StoredPin): Promise<void> {
+    await this.put('pins', pin);
+  }
+
+  async deletePin(userId: number): Promise<void> {
+    await this.delete('pins', userId);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          if (event.oldVersion < 1) {
+            db.createObjectStore('session', { keyPath: 'name' });
+          }
+          if (event.oldVersion < 2) {
+            if (db.objectStoreNames.contains('pins')) {
+              db.deleteObjectStore('pins');
+            }
+            db.createObjectStore('pins', { keyPath: 'userId' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.db = db;
+      // Let the next call try again rather than caching the failure
+      db.catch(() => {
+        if (this.db === db) {
+          this.db = null;
+        }
+      });
+    }
+
+    return this.db;
+  }
+
+  private async get<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+    const db = await this.open();
+    return requestToPromise<T | undefined>(db.transaction(storeName).objectStore(storeName).get(key));
+  }
+
+  private async put(storeName: string, value: unknown): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+  }
+
+  private async delete(storeName: string, key: IDBValidKey): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+  }
+}
+
+// Create and export singleton instance
+const keyStore = new KeyStoreService();
+export default keyStore;
+
+export { KeyStoreService };
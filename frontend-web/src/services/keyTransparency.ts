@@ -0,0 +1,167 @@
+/**
+ * Key Transparency
+ * Checks the server's public key log before an identity key it hands out is
+ * trusted. The key must be its owner's latest log entry, proven by an
+ * inclusion proof against a tree head signed with the log key, and each head
+ * must extend the last one this browser saw. A server that swaps someone's
+ * key has to log the swap, where the owner's own client notices it.
+ */
+
+import { isAxiosError } from 'axios';
+import apiService from './api';
+import { EncryptionService } from '../utils/encryption';
+import type { SignedTreeHead } from '@shared/types';
+
+// The log key and the latest head we checked, shared by every account in this browser
+interface KeyLogState {
+  publicKey: string;
+  treeHead: SignedTreeHead | null;
+}
+
+const STORAGE_KEY = 'key_log';
+
+class KeyTransparencyService {
+  private results: Map<string, Promise<boolean>> = new Map(); // "userId:publicKey" -> logged
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Whether a key is the user's latest entry in the log
+   * Rejects only when the log cannot be reached, so the check is tried again
+   */
+  verifyKey(userId: number, publicKey: string): Promise<boolean> {
+    const cacheKey = `${userId}:${publicKey}`;
+    let result = this.results.get(cacheKey);
+
+    if (!result) {
+      // One check at a time, so each head is compared with the one before it
+      result = this.queue.then(() => this.checkKey(userId, publicKey));
+      this.queue = result.catch(() => undefined);
+      this.results.set(cacheKey, result);
+      result.catch(() => this.results.delete(cacheKey));
+    }
+
+    return result;
+  }
+
+  /**
+   * IDs of the users whose key failed the log check
+   */
+  async findUnloggedKeys(users: Array<{ id: number; publicKey: string }>): Promise<Set<number>> {
+    const results = await Promise.all(
+      users.map(async user => ({ id: user.id, logged: await this.verifyKey(user.id, user.publicKey) }))
+    );
+
+    return new Set(results.filter(result => !result.logged).map(result => result.id));
+  }
+
+  reset(): void {
+    this.results.clear();
+  }
+
+  private async checkKey(userId: number, publicKey: string): Promise<boolean> {
+    const state = this.loadState();
+
+    let proof;
+    try {
+      proof = await apiService.getKeyLogProof(userId, state?.treeHead?.treeSize ?? 0);
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        console.warn(`⚠️ User ${userId} has no key in the key log`);
+        return false;
+      }
+      // The log claims to be smaller than a head it already signed for us
+      if (isAxiosError(error) && error.response?.status === 400) {
+        console.error('❌ Key log has shrunk since we last checked it');
+        return false;
+      }
+      throw error;
+    }
+
+    const { entry, treeHead, inclusionProof, consistencyProof } = proof;
+    const logKey = await this.getLogKey(state);
+
+    const validHead = await EncryptionService.verifyData(
+      logKey,
+      this.getTreeHeadMessage(treeHead),
+      treeHead.signature
+    );
+    if (!validHead) {
+      console.error('❌ Key log head is not signed by the log key');
+      return false;
+    }
+
+    const previousHead = state?.treeHead;
+    if (previousHead && !await EncryptionService.verifyConsistencyProof(
+      previousHead.treeSize,
+      previousHead.rootHash,
+      treeHead.treeSize,
+      treeHead.rootHash,
+      consistencyProof
+    )) {
+      console.error('❌ Key log is not an extension of the head we saw before');
+      return false;
+    }
+
+    const validInclusion = entry.userId === userId && await EncryptionService.verifyInclusionProof(
+      await EncryptionService.hashKeyLogLeaf(userId, entry.publicKey),
+      entry.logIndex,
+      treeHead.treeSize,
+      inclusionProof,
+      treeHead.rootHash
+    );
+    if (!validInclusion) {
+      console.error(`❌ Key log inclusion proof for user ${userId} is invalid`);
+      return false;
+    }
+
+    // The log may only grow from this head on
+    this.saveState({ publicKey: logKey, treeHead });
+
+    if (entry.publicKey !== publicKey) {
+      console.warn(`⚠️ Key for user ${userId} is not their latest logged key`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Must match KeyTransparencyService.getTreeHeadMessage on the server
+   */
+  private getTreeHeadMessage(treeHead: SignedTreeHead): string {
+    const { treeSize, rootHash, chainHash, timestamp } = treeHead;
+    return `encrypted-chat-key-log-head:${treeSize}:${rootHash}:${chainHash}:${timestamp}`;
+  }
+
+  /**
+   * The configured log key, else the one pinned the first time we asked
+   */
+  private async getLogKey(state: KeyLogState | null): Promise<string> {
+    const configuredKey = import.meta.env.VITE_KEY_LOG_PUBLIC_KEY;
+    if (configuredKey) {
+      return configuredKey;
+    }
+    if (state) {
+      return state.publicKey;
+    }
+
+    const { publicKey } = await apiService.getKeyLogHead();
+    this.saveState({ publicKey, treeHead: null });
+    return publicKey;
+  }
+
+  private loadState(): KeyLogState | null {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private saveState(state: KeyLogState): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  }
+}
+
+// Create and export singleton instance
+const keyTransparency = new KeyTransparencyService();
+export default keyTransparency;
+
+export { KeyTransparencyService };
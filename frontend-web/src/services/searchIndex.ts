@@ -0,0 +1,382 @@
+/**
+ * Search Index
+ * Full-text search over the messages this device has decrypted, kept in
+ * IndexedDB so the server never sees what is searched for. Words (and their
+ * prefixes) are stored only as HMACs, and message text and posting lists are
+ * encrypted, all under keys derived from the master key.
+ */
+
+import { EncryptionService, MasterKeyHandle } from '../utils/encryption';
+import encryptionManager from './encryptionManager';
+import type { EncryptedEnvelope, MessageType } from '@shared/types';
+
+// A decrypted message as the index keeps it
+export interface IndexedMessage {
+  messageId: number;
+  conversationId: number;
+  senderId: number;
+  senderUsername: string;
+  messageType: MessageType;
+  text: string;
+  createdAt: string;
+  editedAt: string | null;
+  expiresIn: number | null; // Disappearing timer in seconds
+  expiresAt: string | null; // When it disappears, once the timer has started
+}
+
+interface DocumentRecord {
+  messageId: number;
+  editedAt: string | null; // Plain so unchanged messages are skipped without decrypting
+  expiresAt?: string | null; // Plain so expired messages are dropped without decrypting
+  envelope: EncryptedEnvelope;
+}
+
+// What an indexed document was written from
+interface IndexedVersion {
+  editedAt: string | null;
+  expiresAt: string | null;
+}
+
+interface TermRecord {
+  term: string; // HMAC of the word prefix
+  envelope: EncryptedEnvelope; // Message IDs containing it
+}
+
+interface MetaRecord {
+  name: string;
+  envelope: EncryptedEnvelope;
+}
+
+interface OpenIndex {
+  db: IDBDatabase;
+  contentKey: string;
+  termKey: string;
+  indexed: Map<number, IndexedVersion>; // messageId -> the indexed version
+}
+
+const DB_VERSION = 1;
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 20;
+const MAX_RESULTS = 50;
+// Most recent matches decrypted per search; the rest are never looked at
+const MAX_CANDIDATES = 200;
+// Known plaintext that tells whether the index was written under the current master key
+const KEY_CHECK = 'search-index-v1';
+
+const hasExpired = (expiresAt: string | null): boolean =>
+  expiresAt !== null && new Date(expiresAt).getTime() <= Date.now();
+
+// Lower-case words with accents removed, each cut to MAX_TERM_LENGTH
+export const tokenize = (text: string): string[] => text
+  .normalize('NFKD')
+  .replace(/\p{M}/gu, '')
+  .toLowerCase()
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(Boolean)
+  .map(word => word.slice(0, MAX_TERM_LENGTH));
+
+// Every prefix of every word, so searches match as the user types
+const getTerms = (text: string): Set<string> => {
+  const terms = new Set<string>();
+  for (const word of tokenize(text)) {
+    for (let length = MIN_TERM_LENGTH; length <= word.length; length++) {
+      terms.add(word.slice(0, length));
+    }
+  }
+  return terms;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+class SearchIndexService {
+  private index: Promise<OpenIndex> | null = null;
+  private indexUserId: number | null = null;
+  // Writes run one at a time; each reads posting lists it then rewrites
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Add or update decrypted messages; unchanged and expired ones are skipped
+   */
+  indexMessages(messages: IndexedMessage[]): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.getIndex();
+      const fresh = messages.filter(message =>
+        message.text.trim()
+          && !hasExpired(message.expiresAt)
+          && !this.isIndexed(index, message.messageId, message.editedAt, message.expiresAt)
+      );
+      if (fresh.length === 0) return;
+
+      const postings = new Map<string, Set<number>>();
+      for (const message of fresh) {
+        for (const term of getTerms(message.text)) {
+          const hashed = await this.hashTerm(index, term);
+          postings.set(hashed, (postings.get(hashed) ?? new Set()).add(message.messageId));
+        }
+      }
+
+      // IndexedDB transactions close while crypto is awaited, so read
+      // everything first, encrypt, then write in one transaction
+      const terms = Array.from(postings.keys());
+      const existing = await this.getRecords<TermRecord>(index, 'terms', terms);
+
+      const termRecords: TermRecord[] = await Promise.all(terms.map(async (term, i) => {
+        const ids = existing[i] ? await this.readPosting(index, existing[i]!) : [];
+        const merged = Array.from(new Set([...ids, ...postings.get(term)!]));
+        return { term, envelope: await this.encryptJson(index, merged, `term:${term}`) };
+      }));
+
+      const documentRecords: DocumentRecord[] = await Promise.all(fresh.map(async message => ({
+        messageId: message.messageId,
+        editedAt: message.editedAt,
+        expiresAt: message.expiresAt,
+        envelope: await this.encryptJson(index, message, `message:${message.messageId}`)
+      })));
+
+      const transaction = index.db.transaction(['terms', 'documents'], 'readwrite');
+      termRecords.forEach(record => transaction.objectStore('terms').put(record));
+      documentRecords.forEach(record => transaction.objectStore('documents').put(record));
+      await transactionDone(transaction);
+
+      fresh.forEach(message => index.indexed.set(message.messageId, {
+        editedAt: message.editedAt,
+        expiresAt: message.expiresAt
+      }));
+    });
+  }
+
+  /**
+   * The messages that are not indexed yet, or were edited or had their
+   * disappearing timer started since
+   */
+  async filterUnindexed<T extends { id: number; editedAt?: string | null; expiresAt?: string | null }>(
+    messages: T[]
+  ): Promise<T[]> {
+    const index = await this.getIndex();
+    return messages.filter(message =>
+      !this.isIndexed(index, message.id, message.editedAt ?? null, message.expiresAt ?? null)
+    );
+  }
+
+  /**
+   * IDs of every indexed message, to check against the server
+   */
+  async getIndexedMessageIds(): Promise<number[]> {
+    const index = await this.getIndex();
+    return Array.from(index.indexed.keys());
+  }
+
+  /**
+   * Forget deleted or expired messages. Their IDs stay in posting lists but
+   * are dropped from results because the documents are gone
+   */
+  removeMessages(messageIds: number[]): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.getIndex();
+      await this.deleteDocuments(index, messageIds.filter(id => index.indexed.has(id)));
+    });
+  }
+
+  /**
+   * Messages containing every word of the query (as a word prefix), newest first
+   */
+  search(query: string): Promise<IndexedMessage[]> {
+    return this.enqueue(async () => {
+      const words = Array.from(new Set(tokenize(query))).filter(word => word.length >= MIN_TERM_LENGTH);
+      if (words.length === 0) return [];
+
+      const index = await this.getIndex();
+      // Messages that ran out while no expiry event reached us
+      await this.purgeExpired(index);
+
+      const terms = await Promise.all(words.map(word => this.hashTerm(index, word)));
+      const records = await this.getRecords<TermRecord>(index, 'terms', terms);
+      if (records.some(record => !record)) return [];
+
+      const postings = await Promise.all(records.map(record => this.readPosting(index, record!)));
+      const [first, ...rest] = postings.map(ids => new Set(ids));
+      const candidates = Array.from(first)
+        .filter(id => index.indexed.has(id) && rest.every(ids => ids.has(id)))
+        .sort((a, b) => b - a)
+        .slice(0, MAX_CANDIDATES);
+
+      const documents = await this.getRecords<DocumentRecord>(index, 'documents', candidates);
+      const results: IndexedMessage[] = [];
+
+      for (const document of documents) {
+        if (!document) continue;
+        try {
+          const message = await this.decryptJson<IndexedMessage>(
+            index, document.envelope, `message:${document.messageId}`
+          );
+          // Posting lists keep words an edit removed, so check the current text
+          const messageWords = tokenize(message.text);
+          if (words.every(word => messageWords.some(messageWord => messageWord.startsWith(word)))) {
+            results.push(message);
+          }
+        } catch (error) {
+          console.error('Failed to read search index entry:', error);
+        }
+      }
+
+      return results.slice(0, MAX_RESULTS);
+    });
+  }
+
+  /**
+   * Close the index, e.g. on logout
+   */
+  close(): void {
+    const index = this.index;
+    this.index = null;
+    this.indexUserId = null;
+    index?.then(({ db }) => db.close()).catch(() => undefined);
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private getIndex(): Promise<OpenIndex> {
+    const session = encryptionManager.getCurrentSession();
+    if (!session) {
+      return Promise.reject(new Error('No active encryption session'));
+    }
+
+    if (!this.index || this.indexUserId !== session.user.id) {
+      this.close();
+      const index = this.openIndex(session.user.id, session.masterKey);
+      this.index = index;
+      this.indexUserId = session.user.id;
+      // Let the next call try again rather than caching the failure
+      index.catch(() => {
+        if (this.index === index) {
+          this.index = null;
+          this.indexUserId = null;
+        }
+      });
+    }
+
+    return this.index;
+  }
+
+  private async openIndex(userId: number, masterKey: MasterKeyHandle): Promise<OpenIndex> {
+    const keyMaterial = masterKey.derivationKey;
+    const salt = new TextEncoder().encode(`search-index:${userId}`);
+    const [contentKey, termKey] = (await Promise.all([
+      EncryptionService.hkdf(keyMaterial, salt, 'search-index-content', 256),
+      EncryptionService.hkdf(keyMaterial, salt, 'search-index-terms', 256)
+    ])).map(key => EncryptionService.bufferToHex(key));
+
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(`encrypted-chat-search-${userId}`, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore('documents', { keyPath: 'messageId' });
+        request.result.createObjectStore('terms', { keyPath: 'term' });
+        request.result.createObjectStore('meta', { keyPath: 'name' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    const index: OpenIndex = { db, contentKey, termKey, indexed: new Map() };
+
+    // An index written under another master key cannot be read; start over
+    const [check] = await this.getRecords<MetaRecord>(index, 'meta', ['check']);
+    const readable = check
+      ? await EncryptionService.decryptData(check.envelope, contentKey, 'meta:check').then(
+          plaintext => plaintext === KEY_CHECK,
+          () => false
+        )
+      : false;
+
+    if (!readable) {
+      const envelope = await EncryptionService.encryptData(KEY_CHECK, contentKey, null, 'meta:check');
+      const transaction = db.transaction(['documents', 'terms', 'meta'], 'readwrite');
+      transaction.objectStore('documents').clear();
+      transaction.objectStore('terms').clear();
+      transaction.objectStore('meta').put({ name: 'check', envelope });
+      await transactionDone(transaction);
+      return index;
+    }
+
+    const documents = await requestToPromise<DocumentRecord[]>(
+      db.transaction('documents').objectStore('documents').getAll()
+    );
+    documents.forEach(document => index.indexed.set(document.messageId, {
+      editedAt: document.editedAt,
+      expiresAt: document.expiresAt ?? null
+    }));
+    await this.purgeExpired(index);
+
+    return index;
+  }
+
+  private isIndexed(index: OpenIndex, messageId: number, editedAt: string | null, expiresAt: string | null): boolean {
+    const version = index.indexed.get(messageId);
+    return version !== undefined && version.editedAt === editedAt && version.expiresAt === expiresAt;
+  }
+
+  private async purgeExpired(index: OpenIndex): Promise<void> {
+    const expired = Array.from(index.indexed.entries())
+      .filter(([, version]) => hasExpired(version.expiresAt))
+      .map(([messageId]) => messageId);
+
+    await this.deleteDocuments(index, expired);
+  }
+
+  // Their IDs stay in posting lists; search skips IDs without a document
+  private async deleteDocuments(index: OpenIndex, messageIds: number[]): Promise<void> {
+    if (messageIds.length === 0) return;
+
+    const transaction = index.db.transaction('documents', 'readwrite');
+    messageIds.forEach(id => transaction.objectStore('documents').delete(id));
+    await transactionDone(transaction);
+
+    messageIds.forEach(id => index.indexed.delete(id));
+  }
+
+  private async hashTerm(index: OpenIndex, term: string): Promise<string> {
+    const mac = await EncryptionService.hmac(index.termKey, new TextEncoder().encode(term));
+    return EncryptionService.bufferToHex(mac);
+  }
+
+  private getRecords<T>(index: OpenIndex, storeName: string, keys: IDBValidKey[]): Promise<(T | undefined)[]> {
+    const store = index.db.transaction(storeName).objectStore(storeName);
+    return Promise.all(keys.map(key => requestToPromise<T | undefined>(store.get(key))));
+  }
+
+  private async readPosting(index: OpenIndex, record: TermRecord): Promise<number[]> {
+    try {
+      return await this.decryptJson<number[]>(index, record.envelope, `term:${record.term}`);
+    } catch (error) {
+      console.error('Failed to read search index term:', error);
+      return [];
+    }
+  }
+
+  private encryptJson(index: OpenIndex, value: unknown, associatedData: string): Promise<EncryptedEnvelope> {
+    return EncryptionService.encryptData(JSON.stringify(value), index.contentKey, null, associatedData);
+  }
+
+  private async decryptJson<T>(index: OpenIndex, envelope: EncryptedEnvelope, associatedData: string): Promise<T> {
+    return JSON.parse(await EncryptionService.decryptData(envelope, index.contentKey, associatedData));
+  }
+}
+
+// Create and export singleton instance
+const searchIndex = new SearchIndexService();
+export default searchIndex;
+
+export { SearchIndexService };
@@ -4,14 +4,35 @@
  */
 
 import { io, Socket } from 'socket.io-client';
+import encryptionManager from './encryptionManager';
+import type {
+  Conversation,
+  Device,
+  EncryptedEnvelope,
+  Message,
+  MessageDeletion,
+  MessageReaction,
+  MessageReactionRemoval,
+  MessageStatusUpdate,
+  MessagesExpired,
+  MessageType,
+  PreKeyPoolStatus,
+  RatchetHeader,
+  ReadReceipt
+} from '@shared/types';
 
 type SocketEventHandler = (...args: any[]) => void;
 
+// How long a sent message waits for the server before it counts as failed
+const SEND_TIMEOUT = 15000;
+
 class SocketService {
   private socket: Socket | null = null;
   private baseURL: string;
   private isAuthenticated = false;
   private eventListenersSetup = false;
+  private isToppingUpPreKeys = false;
+  private hasConnected = false;
 
   constructor() {
     this.baseURL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
@@ -30,9 +51,20 @@ class SocketService {
         autoConnect: true
       });
 
+      // Registered before connecting: the server checks the pool on connection
+      this.socket.on('prekeys_low', (status: PreKeyPoolStatus) => {
+        this.topUpPreKeys(status);
+      });
+
       this.socket.on('connect', () => {
         this.isAuthenticated = true;
         this.setupEventListeners();
+
+        // Events sent while we were away are lost; catch up on what changed
+        if (this.hasConnected) {
+          this.resync();
+        }
+        this.hasConnected = true;
         resolve();
       });
 
@@ -41,9 +73,9 @@ class SocketService {
         reject(error);
       });
 
-      this.socket.on('disconnect', (reason) => {
+      // Listeners stay on the socket across reconnects
+      this.socket.on('disconnect', () => {
         this.isAuthenticated = false;
-        this.eventListenersSetup = false;
       });
     });
   }
@@ -53,29 +85,62 @@ class SocketService {
     
     // Import chat store dynamically to avoid circular dependency
     import('@/store/chatStore').then(({ useChatStore }) => {
-      this.socket!.on('new_message', (message: any) => {
+      this.socket!.on('new_message', (message: Message) => {
         useChatStore.getState().addMessage(message);
+
+        // Tell the sender our device has it
+        if (message.senderId !== encryptionManager.getCurrentSession()?.user.id) {
+          this.acknowledgeDelivery([message.id]);
+        }
       });
 
       this.socket!.on('message_sent', (message: any) => {
-        const state = useChatStore.getState();
-        const conversationMessages = state.messages[message.conversationId] || [];
-        
-        const existingMessage = conversationMessages.find(m => m.id === message.id);
-        if (!existingMessage) {
-          useChatStore.setState({
-            messages: {
-              ...state.messages,
-              [message.conversationId]: [...conversationMessages, message]
-            },
-            isSendingMessage: false
-          });
-        } else {
-          useChatStore.setState({ isSendingMessage: false });
-        }
+        useChatStore.getState().addMessage(message);
+        useChatStore.setState({ isSendingMessage: false });
+      });
+
+      this.socket!.on('conversation_updated', (conversation: Conversation) => {
+        useChatStore.getState().updateConversation(conversation);
+      });
+
+      this.socket!.on('conversation_removed', (data: { conversationId: number }) => {
+        useChatStore.getState().removeConversation(data.conversationId);
       });
 
-      this.socket!.on('message_error', (error: { message: string }) => {
+      this.socket!.on('conversation_key_rotated', (data: { conversationId: number; epoch: number; keyId: string }) => {
+        useChatStore.getState().refreshConversationKeyring(data.conversationId)
+          .catch(error => console.error('Failed to refresh conversation key:', error));
+      });
+
+      this.socket!.on('messages_read', (receipt: ReadReceipt) => {
+        useChatStore.getState().applyReadReceipt(receipt);
+      });
+
+      this.socket!.on('message_status', (update: MessageStatusUpdate) => {
+        useChatStore.getState().applyMessageStatus(update);
+      });
+
+      this.socket!.on('message_edited', (message: Message) => {
+        useChatStore.getState().applyMessageEdit(message);
+      });
+
+      this.socket!.on('message_deleted', (deletion: MessageDeletion) => {
+        useChatStore.getState().applyMessageDeletion(deletion);
+      });
+
+      this.socket!.on('messages_expired', (expiry: MessagesExpired) => {
+        useChatStore.getState().applyMessagesExpired(expiry);
+      });
+
+      this.socket!.on('reaction_added', (reaction: MessageReaction) => {
+        useChatStore.getState().applyReactionAdded(reaction);
+      });
+
+      this.socket!.on('reaction_removed', (removal: MessageReactionRemoval) => {
+        useChatStore.getState().applyReactionRemoved(removal);
+      });
+
+      this.socket!.on('message_error', (error: { message: string; conversationId?: number }) => {
         useChatStore.setState({ 
           error: error.message,
           isSendingMessage: false 
@@ -108,6 +173,65 @@ class SocketService {
 
       this.eventListenersSetup = true;
     });
+
+    import('@/store/deviceStore').then(({ useDeviceStore }) => {
+      this.socket!.on('device_link_requested', (data: { device: Device }) => {
+        useDeviceStore.getState().applyLinkRequested(data.device);
+      });
+
+      this.socket!.on('device_approved', (data: { device: Device }) => {
+        useDeviceStore.getState().applyDeviceApproved(data.device);
+      });
+
+      this.socket!.on('device_revoked', (data: { deviceId: string }) => {
+        useDeviceStore.getState().applyDeviceRevoked(data.deviceId);
+      });
+    });
+  }
+
+  /**
+   * Rejoin the open conversation's room, which the server forgot on disconnect,
+   * and drop loaded messages that expired or were deleted in the meantime
+   */
+  private resync(): void {
+    import('@/store/chatStore').then(({ useChatStore }) => {
+      const { currentConversationId } = useChatStore.getState();
+      if (currentConversationId) {
+        this.joinConversation(currentConversationId.toString());
+      }
+
+      useChatStore.getState().reconcileMessages()
+        .catch(error => console.error('Failed to check loaded messages:', error));
+    });
+  }
+
+  /**
+   * Refill our one-time prekey pool when the server says it is running low
+   */
+  private async topUpPreKeys(status: PreKeyPoolStatus): Promise<void> {
+    if (this.isToppingUpPreKeys || !this.socket?.connected) return;
+
+    this.isToppingUpPreKeys = true;
+    try {
+      const oneTimePreKeys = await encryptionManager.generateOneTimePreKeys(
+        status.target - status.oneTimePreKeyCount
+      );
+
+      if (oneTimePreKeys.length > 0) {
+        this.socket?.emit('upload_prekeys', { oneTimePreKeys });
+      }
+    } catch (error) {
+      console.error('❌ Failed to top up one-time prekeys:', error);
+    } finally {
+      this.isToppingUpPreKeys = false;
+    }
+  }
+
+  // Reconnect with a new token, e.g. after a password change refused the old one
+  updateToken(token: string): void {
+    if (this.socket) {
+      this.socket.auth = { token };
+    }
   }
 
   disconnect(): void {
@@ -116,6 +240,7 @@ class SocketService {
       this.socket = null;
       this.isAuthenticated = false;
       this.eventListenersSetup = false;
+      this.hasConnected = false;
     }
   }
 
@@ -142,16 +267,62 @@ class SocketService {
 
   // Send message with backend expected format
   sendMessage(messageData: {
-    recipientId: number;
-    encryptedContent: string;
-    iv: string;
-    messageType?: 'text';
-  }): void {
+    conversationId?: number;
+    recipientId?: number;
+    envelope: EncryptedEnvelope;
+    ratchetHeader?: RatchetHeader | null;
+    messageType?: MessageType;
+    replyToMessageId?: number | null;
+    attachmentId?: string;
+  }): Promise<Message> {
+    if (!this.socket?.connected) {
+      return Promise.reject(new Error('Not connected'));
+    }
+    
+    // Resolves once the server has stored the message, so a rejection reaches the sender
+    return this.socket.timeout(SEND_TIMEOUT)
+      .emitWithAck('send_message', messageData)
+      .then((response: { success: boolean; message?: string; data?: Message }) => {
+        if (!response.success || !response.data) {
+          throw new Error(response.message || 'Failed to send message');
+        }
+        return response.data;
+      });
+  }
+
+  editMessage(data: { messageId: number; envelope: EncryptedEnvelope }): void {
+    if (!this.socket?.connected) {
+      return;
+    }
+    
+    this.socket.emit('edit_message', data);
+  }
+
+  addReaction(data: { messageId: number; envelope: EncryptedEnvelope }): void {
+    if (!this.socket?.connected) {
+      return;
+    }
+    
+    this.socket.emit('add_reaction', data);
+  }
+
+  removeReaction(data: { messageId: number; reactionId: number }): void {
+    if (!this.socket?.connected) {
+      return;
+    }
+    
+    this.socket.emit('remove_reaction', data);
+  }
+
+  // Delivery receipts, sent in batches the server accepts
+  acknowledgeDelivery(messageIds: number[]): void {
     if (!this.socket?.connected) {
       return;
     }
     
-    this.socket.emit('send_message', messageData);
+    for (let i = 0; i < messageIds.length; i += 100) {
+      this.socket.emit('message_delivered', { messageIds: messageIds.slice(i, i + 100) });
+    }
   }
 
   // Typing indicators
@@ -15,6 +15,7 @@ interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  recoveryCode: string | null; // Shown once after registration, never persisted
   
   // Actions
   login: (username: string, password: string) => Promise<void>;
@@ -24,6 +25,10 @@ interface AuthState {
     password: string;
   }) => Promise<void>;
   logout: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  recoverAccount: (username: string, recoveryCode: string, newPassword: string) => Promise<void>;
+  createRecoveryCode: (conversationIds: string[]) => Promise<string>;
+  dismissRecoveryCode: () => void;
   verifyToken: () => Promise<void>;
   clearError: () => void;
 }
@@ -36,6 +41,7 @@ export const useAuthStore = create<AuthState>()(
       isAuthenticated: false,
       isLoading: false,
       error: null,
+      recoveryCode: null,
 
       login: async (username: string, password: string) => {
         try {
@@ -89,7 +95,7 @@ export const useAuthStore = create<AuthState>()(
           console.log('🔐 Starting encrypted registration...');
 
           // Use encryption manager for registration
-          const user = await encryptionManager.registerUser(userData);
+          const { user, recoveryCode } = await encryptionManager.registerUser(userData);
           const token = apiService.getToken();
 
           if (!token) {
@@ -104,7 +110,8 @@ export const useAuthStore = create<AuthState>()(
             token,
             isAuthenticated: true,
             isLoading: false,
-            error: null
+            error: null,
+            recoveryCode
           });
 
           console.log('✅ Encrypted registration successful');
@@ -145,7 +152,8 @@ export const useAuthStore = create<AuthState>()(
             token: null,
             isAuthenticated: false,
             isLoading: false,
-            error: null
+            error: null,
+            recoveryCode: null
           });
 
           console.log('✅ Logout completed');
@@ -165,6 +173,83 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
+      changePassword: async (currentPassword: string, newPassword: string) => {
+        await encryptionManager.changePassword(currentPassword, newPassword);
+
+        // The server issued a new token for this device; the old one is refused
+        const token = apiService.getToken();
+        if (token) {
+          socketService.updateToken(token);
+          set({ token });
+        }
+
+        // Keep the stored profile in step with the new salt and wrapped key
+        const session = encryptionManager.getCurrentSession();
+        const { user } = get();
+        if (session && user) {
+          set({
+            user: {
+              ...user,
+              masterKeySalt: session.user.masterKeySalt,
+              encryptedPrivateKey: session.user.encryptedPrivateKey,
+              privateKeyIv: session.user.privateKeyIv
+            }
+          });
+        }
+
+        console.log('✅ Password changed');
+      },
+
+      recoverAccount: async (username: string, recoveryCode: string, newPassword: string) => {
+        try {
+          set({ isLoading: true, error: null });
+
+          // Recovery ends signed in on this browser as a new device
+          const user = await encryptionManager.recoverAccount(username, recoveryCode, newPassword);
+          const token = apiService.getToken();
+
+          if (!token) {
+            throw new Error('No authentication token received');
+          }
+
+          await socketService.connect(token);
+
+          set({
+            user,
+            token,
+            isAuthenticated: true,
+            isLoading: false,
+            error: null
+          });
+
+          console.log('✅ Account recovered');
+
+        } catch (error) {
+          console.error('❌ Account recovery failed:', error);
+
+          encryptionManager.logout();
+
+          set({
+            user: null,
+            token: null,
+            isAuthenticated: false,
+            isLoading: false,
+            error: null
+          });
+          throw error;
+        }
+      },
+
+      createRecoveryCode: async (conversationIds: string[]) => {
+        const recoveryCode = await encryptionManager.createRecoveryCode(conversationIds);
+        console.log('✅ Recovery code created');
+        return recoveryCode;
+      },
+
+      dismissRecoveryCode: () => {
+        set({ recoveryCode: null });
+      },
+
       verifyToken: async () => {
         const { token } = get();
         
@@ -177,20 +262,23 @@ export const useAuthStore = create<AuthState>()(
           set({ isLoading: true, error: null });
 
           const user = await apiService.verifyToken();
-          
+
+          // The session is restored from IndexedDB in the background
+          await encryptionManager.ready();
+
           // Check if we have active encryption session
           const hasActiveSession = encryptionManager.hasActiveSession();
 
           if (hasActiveSession) {
             // Update session with user data
             encryptionManager.updateSessionUser(user);
-          } else {
+          } else if (!encryptionManager.isLocked()) {
             // No encryption session - user needs to login again
             throw new Error('No encryption session - please login again');
           }
           
-          // Connect to socket if not already connected
-          if (!socketService.isConnected()) {
+          // Connect to socket if not already connected; a locked session waits for unlock
+          if (hasActiveSession && !socketService.isConnected()) {
             await socketService.connect(token);
           }
 
@@ -7,44 +7,297 @@ import { create } from 'zustand';
 import apiService from '@/services/api';
 import socketService from '@/services/socket';
 import encryptionManager from '@/services/encryptionManager';
-import { EncryptionService } from '@/utils/encryption';
-import type { User, Conversation, Message } from '@shared/types';
+import attachmentService from '@/services/attachments';
+import searchIndex from '@/services/searchIndex';
+import { parseAttachmentPayload } from '@/utils/conversation';
+import type { ConversationKeyring } from '@/services/encryptionManager';
+import type {
+  User,
+  Conversation,
+  Message,
+  MessageDeleteMode,
+  MessageDeletion,
+  MessageReaction,
+  MessageReactionRemoval,
+  MessageStatusUpdate,
+  MessagesExpired,
+  MessageType,
+  RatchetHeader,
+  ReadReceipt
+} from '@shared/types';
+
+// A decrypted earlier version of an edited message
+export interface DecryptedRevision {
+  revision: number;
+  content: string;
+  createdAt: string;
+}
+
+// Recording details sent alongside a voice message's audio
+export interface VoiceNote {
+  duration: number;
+  waveform: number[];
+}
+
+// A message to bring into view, e.g. after picking a search result
+export interface FocusedMessage {
+  conversationId: number;
+  messageId: number;
+}
 
 interface ChatState {
   conversations: Conversation[];
   currentConversationId: number | null;
   currentConversation: Conversation | null;
   messages: Record<number, Message[]>; // conversationId -> messages
+  hasMoreMessages: Record<number, boolean>; // conversationId -> older history still on the server
   typingUsers: Record<number, Set<number>>; // conversationId -> Set of user IDs
-  conversationKeys: Record<number, string>; // conversationId -> decrypted AES key
+  conversationKeyrings: Record<number, ConversationKeyring>; // conversationId -> decrypted key epochs
+  decryptedContents: Record<number, string>; // messageId -> plaintext
+  decryptedReactions: Record<number, string>; // reactionId -> emoji
+  ratchetUnavailable: Record<number, boolean>; // conversationId -> direct messages lost forward secrecy to several devices
   isLoadingConversations: boolean;
   isLoadingMessages: boolean;
+  isLoadingOlderMessages: boolean;
   isSendingMessage: boolean;
+  replyingTo: Message | null; // message the composer is replying to
+  focusedMessage: FocusedMessage | null; // search result to scroll to once its conversation is shown
   error: string | null;
   
   // Actions
   loadConversations: () => Promise<void>;
   selectConversation: (conversation: Conversation) => Promise<void>;
+  loadOlderMessages: (conversationId: number) => Promise<void>;
+  loadNewerMessages: (conversationId: number) => Promise<void>;
   restoreSelectedConversation: () => Promise<void>;
   sendMessage: (content: string) => Promise<void>;
+  sendAttachment: (file: File, onProgress?: (fraction: number) => void) => Promise<void>;
+  sendVoiceMessage: (audio: Blob, voiceNote: VoiceNote, onProgress?: (fraction: number) => void) => Promise<void>;
+  setReplyingTo: (message: Message | null) => void;
+  getMessageReplies: (message: Message) => Promise<Message[]>;
+  editMessage: (message: Message, content: string) => Promise<void>;
+  applyMessageEdit: (message: Message) => void;
+  getMessageRevisions: (message: Message) => Promise<DecryptedRevision[]>;
+  deleteMessage: (message: Message, mode: MessageDeleteMode) => Promise<void>;
+  applyMessageDeletion: (deletion: MessageDeletion) => void;
+  applyMessagesExpired: (expiry: MessagesExpired) => void;
+  expireDueMessages: () => void;
+  reconcileMessages: () => Promise<void>;
+  setDisappearingMessages: (conversationId: number, seconds: number | null, start?: 'sent' | 'read') => Promise<void>;
+  openSearchResult: (conversationId: number, messageId: number) => Promise<void>;
+  clearFocusedMessage: () => void;
+  indexHistory: (onProgress?: (done: number, total: number) => void) => Promise<void>;
+  toggleReaction: (message: Message, emoji: string) => Promise<void>;
+  applyReactionAdded: (reaction: MessageReaction) => void;
+  applyReactionRemoved: (removal: MessageReactionRemoval) => void;
   createConversation: (userId: number) => Promise<Conversation>;
+  createGroupConversation: (name: string, userIds: number[]) => Promise<Conversation>;
+  renameConversation: (conversationId: number, name: string) => Promise<void>;
+  addParticipants: (conversationId: number, userIds: number[]) => Promise<void>;
+  removeParticipant: (conversationId: number, userId: number) => Promise<void>;
+  updateConversation: (conversation: Conversation) => void;
+  removeConversation: (conversationId: number) => void;
   addMessage: (message: Message) => void;
+  markConversationRead: (conversationId: number) => Promise<void>;
+  applyReadReceipt: (receipt: ReadReceipt) => void;
+  applyMessageStatus: (update: MessageStatusUpdate) => void;
   clearError: () => void;
   reset: () => void;
   decryptMessage: (message: Message) => string | null;
-  getOrCreateConversationKey: (conversationId: number) => Promise<string>;
+  decryptMessages: (messages: Message[]) => Promise<void>;
+  decryptReactions: (reactions: MessageReaction[]) => Promise<void>;
+  loadConversationKeyring: (conversationId: number) => Promise<ConversationKeyring>;
+  checkForwardSecrecy: (conversationId: number) => Promise<void>;
+  rotateConversationKey: (conversationId: number) => Promise<void>;
+  refreshConversationKeyring: (conversationId: number) => Promise<void>;
 }
 
+// Decrypt a freshly loaded page of history and acknowledge what reached us
+const processHistory = async (get: () => ChatState, history: Message[]) => {
+  await get().decryptMessages(history);
+  get().decryptReactions(history.flatMap(message => message.reactions ?? []));
+  
+  // Messages that reached us while we were offline count as delivered now
+  const session = encryptionManager.getCurrentSession();
+  if (session) {
+    socketService.acknowledgeDelivery(history
+      .filter(message => message.senderId !== session.user.id && !message.deliveredTo?.includes(session.user.id))
+      .map(message => message.id));
+  }
+};
+
+// Pages of history read per conversation when building the search index
+const INDEX_PAGE_SIZE = 100;
+const MAX_INDEX_PAGES = 50;
+// Running history indexing, so opening search twice does not start it again
+let historyIndexing: Promise<void> | null = null;
+
+// Add decrypted messages to the local search index; files are found by name
+const indexForSearch = (messages: Message[], contents: Record<number, string>) => {
+  searchIndex.indexMessages(messages.map(message => ({
+    messageId: message.id,
+    conversationId: message.conversationId,
+    senderId: message.senderId,
+    senderUsername: message.senderUsername,
+    messageType: message.messageType,
+    text: message.messageType === 'text'
+      ? contents[message.id]
+      : message.messageType === 'audio' ? '' : parseAttachmentPayload(contents[message.id])?.name ?? '',
+    createdAt: message.createdAt,
+    editedAt: message.editedAt ?? null,
+    expiresIn: message.expiresIn ?? null,
+    expiresAt: message.expiresAt ?? null
+  }))).catch(error => console.error('Failed to index messages for search:', error));
+};
+
+// Loaded messages checked against the server per request after reconnecting
+const VISIBLE_CHECK_SIZE = 500;
+// Longest delay setTimeout accepts
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+// Fires when the next loaded disappearing message runs out
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// In-flight conversation key loads, shared between concurrent callers
+const pendingKeyLoads = new Map<number, Promise<ConversationKeyring>>();
+
+// Every member of a conversation, as the encryption manager expects them
+const getParticipants = (conversation: Conversation): User[] => {
+  const session = encryptionManager.getCurrentSession();
+  
+  if (!session) {
+    throw new Error('No active encryption session');
+  }
+  
+  return [
+    session.user,
+    ...conversation.participants.filter(participant => participant.id !== session.user.id)
+  ];
+};
+
+// Encrypt a message body and send it over the socket
+const encryptAndSend = async (
+  get: () => ChatState,
+  conversation: Conversation,
+  plaintext: string,
+  options: { messageType: MessageType; replyToMessageId: number | null; attachmentId?: string }
+) => {
+  // Membership changed since the key was made, so the first sender rotates it
+  if (conversation.keyRotationNeeded) {
+    await get().rotateConversationKey(conversation.id);
+  }
+  
+  // Encrypt with the ratchet session, or the conversation key as a fallback
+  const send = async () => {
+    const { envelope, ratchetHeader } = await encryptionManager.encryptMessage(
+      conversation.conversationUuid,
+      getParticipants(conversation),
+      plaintext
+    );
+    
+    await socketService.sendMessage({
+      conversationId: conversation.id,
+      envelope,
+      ratchetHeader,
+      ...options
+    });
+    
+    return ratchetHeader;
+  };
+  
+  let ratchetHeader: RatchetHeader | null;
+  try {
+    ratchetHeader = await send();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    
+    // The server turned it down for something we can fix here, so fix it and send the text once more
+    if (message === 'Conversation key is out of date') {
+      await get().rotateConversationKey(conversation.id);
+    } else if (message === 'Members have several devices, use the conversation key') {
+      encryptionManager.forgetRatchetDevices(conversation.conversationUuid);
+    } else {
+      throw error;
+    }
+    
+    ratchetHeader = await send();
+  }
+  
+  if (!ratchetHeader) {
+    get().checkForwardSecrecy(conversation.id)
+      .catch(error => console.error('Failed to check forward secrecy:', error));
+  }
+};
+
+// Drop messages from a conversation, with their plaintext, reactions and any
+// place they show up in the conversation list or composer
+const withoutMessages = (state: ChatState, conversationId: number, messageIds: number[]): Partial<ChatState> => {
+  const { messages, conversations, currentConversation, decryptedContents, decryptedReactions, replyingTo } = state;
+  const session = encryptionManager.getCurrentSession();
+  const conversationMessages = messages[conversationId] || [];
+  const removed = conversationMessages.filter(message => messageIds.includes(message.id));
+  const remainingMessages = conversationMessages.filter(message => !messageIds.includes(message.id));
+  
+  const remainingContents = { ...decryptedContents };
+  messageIds.forEach(messageId => delete remainingContents[messageId]);
+  
+  const remainingReactions = { ...decryptedReactions };
+  removed.forEach(message => message.reactions?.forEach(reaction => delete remainingReactions[reaction.id]));
+  
+  const updateConversation = (conversation: Conversation): Conversation => {
+    if (conversation.id !== conversationId) {
+      return conversation;
+    }
+    
+    const updated = { ...conversation };
+    
+    if (conversation.lastMessage && messageIds.includes(conversation.lastMessage.id)) {
+      const previous = remainingMessages[remainingMessages.length - 1];
+      updated.lastMessage = previous
+        ? { id: previous.id, envelope: previous.envelope, senderId: previous.senderId, messageType: previous.messageType, timestamp: previous.createdAt }
+        : undefined;
+    }
+    
+    const unreadRemoved = removed.filter(message =>
+      message.senderId !== session?.user.id
+      && message.id > (conversation.readCursors[session?.user.id ?? 0] ?? 0)
+    ).length;
+    if (unreadRemoved > 0 && conversation.unreadCount) {
+      updated.unreadCount = Math.max(0, conversation.unreadCount - unreadRemoved);
+    }
+    
+    return updated;
+  };
+  
+  return {
+    messages: {
+      ...messages,
+      [conversationId]: remainingMessages
+    },
+    conversations: conversations.map(updateConversation),
+    currentConversation: currentConversation && updateConversation(currentConversation),
+    decryptedContents: remainingContents,
+    decryptedReactions: remainingReactions,
+    replyingTo: replyingTo && messageIds.includes(replyingTo.id) ? null : replyingTo
+  };
+};
+
 export const useChatStore = create<ChatState>((set, get) => ({
   conversations: [],
   currentConversationId: null,
   currentConversation: null,
   messages: {},
+  hasMoreMessages: {},
   typingUsers: {},
-  conversationKeys: {},
+  conversationKeyrings: {},
+  decryptedContents: {},
+  decryptedReactions: {},
+  ratchetUnavailable: {},
   isLoadingConversations: false,
   isLoadingMessages: false,
+  isLoadingOlderMessages: false,
   isSendingMessage: false,
+  replyingTo: null,
+  focusedMessage: null,
   error: null,
 
   loadConversations: async () => {
@@ -93,6 +346,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
         currentConversationId: conversation.id, 
         currentConversation: conversation,
         isLoadingMessages: true, 
+        replyingTo: null,
         error: null 
       });
       
@@ -100,18 +354,35 @@ export const useChatStore = create<ChatState>((set, get) => ({
       
       socketService.joinConversation(conversation.id.toString());
       
+      try {
+        await get().loadConversationKeyring(conversation.id);
+      } catch (error) {
+        // Messages are still listed; they show as undecryptable without a key
+        console.error('Failed to load conversation key:', error);
+      }
+      
+      get().checkForwardSecrecy(conversation.id)
+        .catch(error => console.error('Failed to check forward secrecy:', error));
+      
       const { messages } = get();
       if (!messages[conversation.id]) {
         try {
-          const conversationMessages = await apiService.getMessages(conversation.id);
+          const page = await apiService.getMessages(conversation.id);
           
           set({
             messages: {
               ...get().messages,
-              [conversation.id]: conversationMessages
+              [conversation.id]: page.messages
+            },
+            hasMoreMessages: {
+              ...get().hasMoreMessages,
+              [conversation.id]: page.hasMore
             },
             isLoadingMessages: false
           });
+          
+          await processHistory(get, page.messages);
+          await get().markConversationRead(conversation.id);
         } catch (error) {
           set({
             messages: {
@@ -123,6 +394,15 @@ export const useChatStore = create<ChatState>((set, get) => ({
         }
       } else {
         set({ isLoadingMessages: false });
+        
+        // Anything sent while we were disconnected
+        try {
+          await get().loadNewerMessages(conversation.id);
+        } catch (error) {
+          console.error('Failed to load newer messages:', error);
+        }
+        
+        await get().markConversationRead(conversation.id);
       }
       
     } catch (error) {
@@ -134,32 +414,172 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
-  getOrCreateConversationKey: async (conversationId: number): Promise<string> => {
-    const { conversationKeys } = get();
+  loadOlderMessages: async (conversationId: number) => {
+    const { messages, hasMoreMessages, isLoadingOlderMessages } = get();
+    const conversationMessages = messages[conversationId];
     
-    // Return existing key if available
-    if (conversationKeys[conversationId]) {
-      return conversationKeys[conversationId];
+    if (!conversationMessages?.length || !hasMoreMessages[conversationId] || isLoadingOlderMessages) {
+      return;
     }
     
-    // Create a simple shared key that both users in the conversation can derive
-    // This is the same for all users in the same conversation
-    const sharedKey = `shared_conversation_key_${conversationId}`.padEnd(64, '0').substring(0, 64);
+    set({ isLoadingOlderMessages: true });
+    
+    try {
+      const page = await apiService.getMessages(conversationId, { before: conversationMessages[0].id });
+      const current = get().messages[conversationId] || [];
+      const olderMessages = page.messages.filter(message => !current.some(existing => existing.id === message.id));
+      
+      set({
+        messages: {
+          ...get().messages,
+          [conversationId]: [...olderMessages, ...current]
+        },
+        hasMoreMessages: {
+          ...get().hasMoreMessages,
+          [conversationId]: page.hasMore
+        }
+      });
+      
+      await processHistory(get, olderMessages);
+    } finally {
+      set({ isLoadingOlderMessages: false });
+    }
+  },
+
+  loadNewerMessages: async (conversationId: number) => {
+    let hasMore = true;
+    
+    while (hasMore) {
+      const loaded = get().messages[conversationId] || [];
+      const latestMessage = loaded[loaded.length - 1];
+      
+      // With nothing loaded yet, the latest page is the place to start
+      const page = await apiService.getMessages(conversationId, latestMessage ? { after: latestMessage.id } : {});
+      
+      // Socket events may have added some of these while the request was in flight
+      const current = get().messages[conversationId] || [];
+      const newerMessages = page.messages.filter(message => !current.some(existing => existing.id === message.id));
+      
+      set({
+        messages: {
+          ...get().messages,
+          [conversationId]: [...current, ...newerMessages].sort((a, b) => a.id - b.id)
+        },
+        hasMoreMessages: latestMessage
+          ? get().hasMoreMessages
+          : { ...get().hasMoreMessages, [conversationId]: page.hasMore }
+      });
+      
+      await processHistory(get, newerMessages);
+      hasMore = Boolean(latestMessage) && page.hasMore;
+    }
+  },
+
+  loadConversationKeyring: async (conversationId: number): Promise<ConversationKeyring> => {
+    const { conversationKeyrings, conversations, currentConversation } = get();
+    
+    // Return existing keyring if available
+    if (conversationKeyrings[conversationId]) {
+      return conversationKeyrings[conversationId];
+    }
+    
+    let pendingKeyLoad = pendingKeyLoads.get(conversationId);
+    
+    if (!pendingKeyLoad) {
+      const conversation = conversations.find(conv => conv.id === conversationId)
+        || (currentConversation?.id === conversationId ? currentConversation : null);
+      const session = encryptionManager.getCurrentSession();
+      
+      if (!conversation) {
+        throw new Error('Conversation not found');
+      }
+      if (!session) {
+        throw new Error('No active encryption session');
+      }
+      
+      // Fetch and unwrap our copies of the key, or set the conversation up
+      pendingKeyLoad = encryptionManager
+        .getConversationKeyring(conversation.conversationUuid, getParticipants(conversation))
+        .finally(() => pendingKeyLoads.delete(conversationId));
+      
+      pendingKeyLoads.set(conversationId, pendingKeyLoad);
+    }
+    
+    const keyring = await pendingKeyLoad;
     
     // Store in memory
     set({
-      conversationKeys: {
-        ...get().conversationKeys,
-        [conversationId]: sharedKey
+      conversationKeyrings: {
+        ...get().conversationKeyrings,
+        [conversationId]: keyring
       }
     });
     
-    return sharedKey;
+    // Messages that arrived before the key can be read now
+    await get().decryptMessages(get().messages[conversationId] || []);
+    
+    return keyring;
+  },
+
+  checkForwardSecrecy: async (conversationId: number) => {
+    const conversation = get().conversations.find(conv => conv.id === conversationId);
+    if (!conversation || conversation.type === 'group') {
+      return;
+    }
+    
+    const unavailable = await encryptionManager.isRatchetUnavailable(
+      conversation.conversationUuid,
+      getParticipants(conversation)
+    );
+    
+    if (Boolean(get().ratchetUnavailable[conversationId]) !== unavailable) {
+      set({ ratchetUnavailable: { ...get().ratchetUnavailable, [conversationId]: unavailable } });
+    }
+  },
+
+  rotateConversationKey: async (conversationId: number) => {
+    const conversation = get().conversations.find(conv => conv.id === conversationId);
+    
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+    
+    // Wrapped only for the current members, so removed ones are locked out
+    const keyring = await encryptionManager.rotateConversationKey(
+      conversation.conversationUuid,
+      getParticipants(conversation)
+    );
+    
+    set({
+      conversationKeyrings: {
+        ...get().conversationKeyrings,
+        [conversationId]: keyring
+      }
+    });
+    get().updateConversation({ ...conversation, keyRotationNeeded: false });
+  },
+
+  refreshConversationKeyring: async (conversationId: number) => {
+    const conversation = get().conversations.find(conv => conv.id === conversationId);
+    
+    if (!conversation) {
+      return;
+    }
+    
+    const keyring = await encryptionManager.refreshConversationKeyring(conversation.conversationUuid);
+    
+    set({
+      conversationKeyrings: {
+        ...get().conversationKeyrings,
+        [conversationId]: keyring
+      }
+    });
+    get().updateConversation({ ...conversation, keyRotationNeeded: false });
   },
 
   sendMessage: async (content: string) => {
     try {
-      const { currentConversationId, currentConversation, getOrCreateConversationKey } = get();
+      const { currentConversationId, currentConversation, replyingTo } = get();
       
       if (!currentConversationId || !currentConversation) {
         throw new Error('No conversation selected');
@@ -171,23 +591,76 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
       set({ isSendingMessage: true, error: null });
       
-      // Get or create conversation key
-      const conversationKey = await getOrCreateConversationKey(currentConversationId);
+      await encryptAndSend(get, currentConversation, content.trim(), {
+        messageType: 'text',
+        replyToMessageId: replyingTo?.conversationId === currentConversationId ? replyingTo.id : null
+      });
+      set({ replyingTo: null });
+      
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
+      set({
+        isSendingMessage: false,
+        error: errorMessage
+      });
+      throw error;
+    }
+  },
+
+  sendAttachment: async (file: File, onProgress?: (fraction: number) => void) => {
+    try {
+      const { currentConversationId, currentConversation, replyingTo } = get();
+      
+      if (!currentConversationId || !currentConversation) {
+        throw new Error('No conversation selected');
+      }
+
+      set({ isSendingMessage: true, error: null });
+      
+      // The file key and digest travel in the message, encrypted like any other text
+      const payload = await attachmentService.upload(file, currentConversation.id, onProgress);
+      
+      await encryptAndSend(get, currentConversation, JSON.stringify(payload), {
+        messageType: attachmentService.getMessageType(payload.mimeType),
+        attachmentId: payload.attachmentId,
+        replyToMessageId: replyingTo?.conversationId === currentConversationId ? replyingTo.id : null
+      });
+      set({ replyingTo: null });
+      
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send attachment';
+      set({
+        isSendingMessage: false,
+        error: errorMessage
+      });
+      throw error;
+    }
+  },
+
+  sendVoiceMessage: async (audio: Blob, voiceNote: VoiceNote, onProgress?: (fraction: number) => void) => {
+    try {
+      const { currentConversationId, currentConversation, replyingTo } = get();
       
-      // Encrypt the message
-      const encryptedData = EncryptionService.encryptData(content.trim(), conversationKey);
+      if (!currentConversationId || !currentConversation) {
+        throw new Error('No conversation selected');
+      }
+
+      set({ isSendingMessage: true, error: null });
       
-      const socketData = {
-        recipientId: currentConversation.otherUser.id,
-        encryptedContent: encryptedData.encryptedContent,
-        iv: encryptedData.iv,
-        messageType: 'text' as const
-      };
+      // Audio is uploaded like any other attachment; duration and waveform ride along in the payload
+      const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'm4a' : 'webm';
+      const file = new File([audio], `Voice message.${extension}`, { type: audio.type });
+      const payload = await attachmentService.upload(file, currentConversation.id, onProgress);
       
-      socketService.sendMessage(socketData);
+      await encryptAndSend(get, currentConversation, JSON.stringify({ ...payload, ...voiceNote }), {
+        messageType: 'audio',
+        attachmentId: payload.attachmentId,
+        replyToMessageId: replyingTo?.conversationId === currentConversationId ? replyingTo.id : null
+      });
+      set({ replyingTo: null });
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send voice message';
       set({
         isSendingMessage: false,
         error: errorMessage
@@ -196,6 +669,335 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
+  setReplyingTo: (message: Message | null) => {
+    set({ replyingTo: message });
+  },
+
+  getMessageReplies: async (message: Message) => {
+    const replies = await apiService.getMessageReplies(message.id);
+    await get().decryptMessages(replies);
+    return replies;
+  },
+
+  editMessage: async (message: Message, content: string) => {
+    const conversation = get().conversations.find(conv => conv.id === message.conversationId);
+    
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+    
+    if (!content.trim()) {
+      throw new Error('Message cannot be empty');
+    }
+    
+    if (conversation.keyRotationNeeded) {
+      await get().rotateConversationKey(conversation.id);
+    }
+    
+    const envelope = await encryptionManager.encryptWithConversationKey(
+      conversation.conversationUuid,
+      getParticipants(conversation),
+      content.trim()
+    );
+    
+    socketService.editMessage({ messageId: message.id, envelope });
+  },
+
+  deleteMessage: async (message: Message, mode: MessageDeleteMode) => {
+    const deletion = await apiService.deleteMessage(message.id, mode);
+    
+    // The socket event reaches this device too; applying twice is harmless
+    get().applyMessageDeletion(deletion);
+  },
+
+  applyMessageDeletion: (deletion: MessageDeletion) => {
+    searchIndex.removeMessages([deletion.messageId])
+      .catch(error => console.error('Failed to remove message from search:', error));
+    set(withoutMessages(get(), deletion.conversationId, [deletion.messageId]));
+  },
+
+  applyMessagesExpired: (expiry: MessagesExpired) => {
+    const expired = (get().messages[expiry.conversationId] || [])
+      .filter(message => expiry.messageIds.includes(message.id));
+    
+    // Decrypted copies of expired messages must not outlive them
+    expired.forEach(message => {
+      if (message.attachmentId) {
+        attachmentService.evict(message.attachmentId);
+      }
+    });
+    encryptionManager.forgetPlaintexts(
+      expired.filter(message => message.ratchetHeader).map(message => message.envelope.iv)
+    ).catch(error => console.error('Failed to forget expired messages:', error));
+    searchIndex.removeMessages(expiry.messageIds)
+      .catch(error => console.error('Failed to remove expired messages from search:', error));
+    
+    set(withoutMessages(get(), expiry.conversationId, expiry.messageIds));
+  },
+
+  expireDueMessages: () => {
+    const now = Date.now();
+    
+    Object.entries(get().messages).forEach(([conversationId, conversationMessages]) => {
+      const messageIds = conversationMessages
+        .filter(message => message.expiresAt && new Date(message.expiresAt).getTime() <= now)
+        .map(message => message.id);
+      
+      if (messageIds.length > 0) {
+        get().applyMessagesExpired({ conversationId: Number(conversationId), messageIds });
+      }
+    });
+  },
+
+  reconcileMessages: async () => {
+    const loaded = Object.values(get().messages).flat();
+    
+    for (let i = 0; i < loaded.length; i += VISIBLE_CHECK_SIZE) {
+      const batch = loaded.slice(i, i + VISIBLE_CHECK_SIZE);
+      const visibleIds = new Set(await apiService.getVisibleMessageIds(batch.map(message => message.id)));
+      const goneByConversation = new Map<number, number[]>();
+      
+      batch.filter(message => !visibleIds.has(message.id)).forEach(message => {
+        goneByConversation.set(message.conversationId, [...(goneByConversation.get(message.conversationId) || []), message.id]);
+      });
+      
+      // Expired, deleted or hidden while we were away; drop them like expired ones
+      goneByConversation.forEach((messageIds, conversationId) => {
+        get().applyMessagesExpired({ conversationId, messageIds });
+      });
+    }
+  },
+
+  setDisappearingMessages: async (conversationId: number, seconds: number | null, start: 'sent' | 'read' = 'sent') => {
+    try {
+      const conversation = await apiService.setDisappearingMessages(conversationId, seconds, start);
+      get().updateConversation(conversation);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to change disappearing messages';
+      set({ error: errorMessage });
+      throw new Error(errorMessage);
+    }
+  },
+
+  openSearchResult: async (conversationId: number, messageId: number) => {
+    const conversation = get().conversations.find(conv => conv.id === conversationId);
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+    
+    // The message list scrolls to it once the conversation is on screen
+    set({ focusedMessage: { conversationId, messageId } });
+    
+    if (get().currentConversationId !== conversationId) {
+      await get().selectConversation(conversation);
+    }
+  },
+
+  clearFocusedMessage: () => {
+    set({ focusedMessage: null });
+  },
+
+  indexHistory: (onProgress?: (done: number, total: number) => void) => {
+    if (historyIndexing) {
+      return historyIndexing;
+    }
+    
+    const run = async () => {
+      const conversations = get().conversations;
+      
+      for (const [done, conversation] of conversations.entries()) {
+        try {
+          await get().loadConversationKeyring(conversation.id);
+          let before: number | undefined;
+          
+          // Newest pages first, so recent messages become searchable soonest
+          for (let page = 0; page < MAX_INDEX_PAGES; page++) {
+            const { messages, hasMore } = await apiService.getMessages(
+              conversation.id,
+              before ? { before, limit: INDEX_PAGE_SIZE } : { limit: INDEX_PAGE_SIZE }
+            );
+            const unindexed = await searchIndex.filterUnindexed(
+              messages.filter(message => message.messageType !== 'audio')
+            );
+            const readable: Message[] = [];
+            const contents: Record<number, string> = {};
+            
+            // Oldest first within a page, as ratchet messages expect
+            for (const message of unindexed) {
+              try {
+                contents[message.id] = get().decryptedContents[message.id] ?? await encryptionManager.decryptMessage(
+                  conversation.conversationUuid,
+                  getParticipants(conversation),
+                  message
+                );
+                readable.push(message);
+              } catch (error) {
+                // Unreadable here just as it is in the conversation; leave it out
+              }
+            }
+            
+            indexForSearch(readable, contents);
+            
+            if (!hasMore || messages.length === 0) {
+              break;
+            }
+            before = messages[0].id;
+          }
+        } catch (error) {
+          console.error(`Failed to index conversation ${conversation.id} for search:`, error);
+        }
+        
+        onProgress?.(done + 1, conversations.length);
+      }
+      
+      // Deletions and expiries this device never heard about
+      try {
+        const indexedIds = await searchIndex.getIndexedMessageIds();
+        for (let i = 0; i < indexedIds.length; i += VISIBLE_CHECK_SIZE) {
+          const batch = indexedIds.slice(i, i + VISIBLE_CHECK_SIZE);
+          const visibleIds = new Set(await apiService.getVisibleMessageIds(batch));
+          await searchIndex.removeMessages(batch.filter(messageId => !visibleIds.has(messageId)));
+        }
+      } catch (error) {
+        console.error('Failed to drop vanished messages from search:', error);
+      }
+    };
+    
+    historyIndexing = run().finally(() => {
+      historyIndexing = null;
+    });
+    return historyIndexing;
+  },
+
+  toggleReaction: async (message: Message, emoji: string) => {
+    const { conversations, decryptedReactions } = get();
+    const session = encryptionManager.getCurrentSession();
+    const conversation = conversations.find(conv => conv.id === message.conversationId);
+    
+    if (!session || !conversation) {
+      throw new Error('Conversation not found');
+    }
+    
+    const ownReaction = message.reactions?.find(reaction =>
+      reaction.userId === session.user.id && decryptedReactions[reaction.id] === emoji
+    );
+    
+    if (ownReaction) {
+      socketService.removeReaction({ messageId: message.id, reactionId: ownReaction.id });
+      return;
+    }
+    
+    if (conversation.keyRotationNeeded) {
+      await get().rotateConversationKey(conversation.id);
+    }
+    
+    const envelope = await encryptionManager.encryptWithConversationKey(
+      conversation.conversationUuid,
+      getParticipants(conversation),
+      emoji
+    );
+    
+    socketService.addReaction({ messageId: message.id, envelope });
+  },
+
+  applyReactionAdded: (reaction: MessageReaction) => {
+    const { messages } = get();
+    const conversationMessages = messages[reaction.conversationId];
+    
+    if (!conversationMessages) {
+      return;
+    }
+    
+    set({
+      messages: {
+        ...messages,
+        [reaction.conversationId]: conversationMessages.map(message =>
+          message.id === reaction.messageId && !message.reactions?.some(existing => existing.id === reaction.id)
+            ? { ...message, reactions: [...(message.reactions ?? []), reaction] }
+            : message
+        )
+      }
+    });
+    
+    get().decryptReactions([reaction]);
+  },
+
+  applyReactionRemoved: (removal: MessageReactionRemoval) => {
+    const { messages, decryptedReactions } = get();
+    const conversationMessages = messages[removal.conversationId];
+    
+    if (!conversationMessages) {
+      return;
+    }
+    
+    const { [removal.reactionId]: _removedEmoji, ...remainingReactions } = decryptedReactions;
+    
+    set({
+      messages: {
+        ...messages,
+        [removal.conversationId]: conversationMessages.map(message =>
+          message.id === removal.messageId
+            ? { ...message, reactions: message.reactions?.filter(reaction => reaction.id !== removal.reactionId) }
+            : message
+        )
+      },
+      decryptedReactions: remainingReactions
+    });
+  },
+
+  applyMessageEdit: (message: Message) => {
+    const { messages, decryptedContents } = get();
+    const conversationMessages = messages[message.conversationId];
+    
+    if (!conversationMessages) {
+      return;
+    }
+    
+    const { [message.id]: _previousContent, ...remainingContents } = decryptedContents;
+    
+    set({
+      messages: {
+        ...messages,
+        [message.conversationId]: conversationMessages.map(existing =>
+          existing.id === message.id
+            ? { ...message, deliveredTo: existing.deliveredTo, reactions: existing.reactions }
+            : existing
+        )
+      },
+      decryptedContents: remainingContents
+    });
+    
+    get().decryptMessages([message]);
+  },
+
+  getMessageRevisions: async (message: Message) => {
+    const conversation = get().conversations.find(conv => conv.id === message.conversationId);
+    
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+    
+    const revisions = await apiService.getMessageRevisions(message.id);
+    const decryptedRevisions: DecryptedRevision[] = [];
+    
+    for (const revision of revisions) {
+      let content: string;
+      try {
+        content = await encryptionManager.decryptMessage(
+          conversation.conversationUuid,
+          getParticipants(conversation),
+          { senderId: message.senderId, envelope: revision.envelope, ratchetHeader: revision.ratchetHeader }
+        );
+      } catch (error) {
+        content = '[Failed to decrypt]';
+      }
+      
+      decryptedRevisions.push({ revision: revision.revision, content, createdAt: revision.createdAt });
+    }
+    
+    return decryptedRevisions;
+  },
+
   createConversation: async (userId: number) => {
     try {
       const conversation = await apiService.createConversation(userId);
@@ -223,14 +1025,122 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
+  createGroupConversation: async (name: string, userIds: number[]) => {
+    try {
+      const conversation = await apiService.createGroupConversation(name, userIds);
+      
+      get().updateConversation(conversation);
+      
+      return conversation;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create group';
+      set({ error: errorMessage });
+      throw new Error(errorMessage);
+    }
+  },
+
+  renameConversation: async (conversationId: number, name: string) => {
+    try {
+      const conversation = await apiService.renameConversation(conversationId, name);
+      get().updateConversation(conversation);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to rename group';
+      set({ error: errorMessage });
+      throw new Error(errorMessage);
+    }
+  },
+
+  addParticipants: async (conversationId: number, userIds: number[]) => {
+    try {
+      const conversation = await apiService.addConversationParticipants(conversationId, userIds);
+      get().updateConversation(conversation);
+      
+      // New members get a fresh key epoch, so they cannot read earlier messages
+      await get().rotateConversationKey(conversationId)
+        .catch(error => console.error('Failed to rotate conversation key:', error));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to add members';
+      set({ error: errorMessage });
+      throw new Error(errorMessage);
+    }
+  },
+
+  removeParticipant: async (conversationId: number, userId: number) => {
+    try {
+      await apiService.removeConversationParticipant(conversationId, userId);
+      
+      const session = encryptionManager.getCurrentSession();
+      if (userId === session?.user.id) {
+        get().removeConversation(conversationId);
+        return;
+      }
+      
+      const conversation = get().conversations.find(conv => conv.id === conversationId);
+      if (conversation) {
+        get().updateConversation({
+          ...conversation,
+          participants: conversation.participants.filter(participant => participant.id !== userId),
+          keyRotationNeeded: true
+        });
+        
+        // The removed member still holds the current key
+        await get().rotateConversationKey(conversationId)
+          .catch(error => console.error('Failed to rotate conversation key:', error));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to remove member';
+      set({ error: errorMessage });
+      throw new Error(errorMessage);
+    }
+  },
+
+  updateConversation: (conversation: Conversation) => {
+    const { conversations, currentConversation } = get();
+    const existing = conversations.find(conv => conv.id === conversation.id);
+    
+    // Membership updates do not carry the last message, so keep ours
+    const updated = existing
+      ? { ...existing, ...conversation, lastMessage: conversation.lastMessage ?? existing.lastMessage }
+      : conversation;
+    
+    set({
+      conversations: existing
+        ? conversations.map(conv => conv.id === conversation.id ? updated : conv)
+        : [updated, ...conversations],
+      currentConversation: currentConversation?.id === conversation.id ? updated : currentConversation
+    });
+  },
+
+  removeConversation: (conversationId: number) => {
+    const { conversations, currentConversationId, messages, conversationKeyrings } = get();
+    const { [conversationId]: _removed, ...remainingMessages } = messages;
+    const { [conversationId]: _removedKeyring, ...remainingKeyrings } = conversationKeyrings;
+    
+    const conversation = conversations.find(conv => conv.id === conversationId);
+    if (conversation) {
+      encryptionManager.forgetConversationKeys(conversation.conversationUuid);
+    }
+    
+    if (currentConversationId === conversationId) {
+      localStorage.removeItem('selectedConversationId');
+      socketService.leaveConversation(conversationId.toString());
+    }
+    
+    set({
+      conversations: conversations.filter(conv => conv.id !== conversationId),
+      messages: remainingMessages,
+      conversationKeyrings: remainingKeyrings,
+      ...(currentConversationId === conversationId
+        ? { currentConversationId: null, currentConversation: null }
+        : {})
+    });
+  },
+
   addMessage: (message: Message) => {
-    const { messages, getOrCreateConversationKey } = get();
+    const { messages, conversations, currentConversationId, loadConversationKeyring, decryptMessages } = get();
     const conversationId = message.conversationId;
     const conversationMessages = messages[conversationId] || [];
     
-    // Ensure we have a conversation key for decryption (async, but fire-and-forget)
-    getOrCreateConversationKey(conversationId);
-    
     const existingMessage = conversationMessages.find(m => m.id === message.id);
     if (existingMessage) {
       return;
@@ -244,30 +1154,193 @@ export const useChatStore = create<ChatState>((set, get) => ({
         [conversationId]: updatedMessages
       }
     });
+    
+    // Read straight away if the conversation is on screen, otherwise unread
+    const session = encryptionManager.getCurrentSession();
+    if (message.senderId !== session?.user.id) {
+      if (conversationId === currentConversationId && document.visibilityState === 'visible') {
+        get().markConversationRead(conversationId);
+      } else {
+        set({
+          conversations: conversations.map(conv => conv.id === conversationId
+            ? { ...conv, unreadCount: (conv.unreadCount ?? 0) + 1 }
+            : conv)
+        });
+      }
+    }
+    
+    // Ensure we have a conversation key, then decrypt (async, but fire-and-forget)
+    loadConversationKeyring(conversationId)
+      .catch(() => {
+        // Ratchet messages do not need it; others show as undecryptable
+      })
+      .then(() => decryptMessages([message]));
   },
 
-  decryptMessage: (message: Message): string | null => {
+  markConversationRead: async (conversationId: number) => {
+    const { conversations, messages } = get();
+    const session = encryptionManager.getCurrentSession();
+    const conversation = conversations.find(conv => conv.id === conversationId);
+    const conversationMessages = messages[conversationId] || [];
+    const latestMessage = conversationMessages[conversationMessages.length - 1];
+    
+    if (!session || !conversation || !latestMessage) {
+      return;
+    }
+    
+    if ((conversation.readCursors[session.user.id] ?? 0) >= latestMessage.id) {
+      return;
+    }
+    
+    // Applied locally first, so repeat calls skip the request while it is in flight
+    get().applyReadReceipt({
+      conversationId,
+      userId: session.user.id,
+      lastReadMessageId: latestMessage.id
+    });
+    
     try {
-      const { conversationKeys } = get();
-      const conversationKey = conversationKeys[message.conversationId];
+      await apiService.markConversationRead(conversationId, latestMessage.id);
+    } catch (error) {
+      console.error('Failed to mark conversation as read:', error);
+    }
+  },
+
+  applyReadReceipt: (receipt: ReadReceipt) => {
+    const { conversations, currentConversation, messages } = get();
+    const session = encryptionManager.getCurrentSession();
+    const conversation = conversations.find(conv => conv.id === receipt.conversationId);
+    
+    if (!conversation) {
+      return;
+    }
+    
+    const readCursor = Math.max(conversation.readCursors[receipt.userId] ?? 0, receipt.lastReadMessageId);
+    const updated: Conversation = {
+      ...conversation,
+      readCursors: { ...conversation.readCursors, [receipt.userId]: readCursor }
+    };
+    
+    // Our own cursor moved, possibly from another device
+    if (receipt.userId === session?.user.id) {
+      updated.unreadCount = (messages[receipt.conversationId] || [])
+        .filter(message => message.senderId !== session.user.id && message.id > readCursor)
+        .length;
+    }
+    
+    set({
+      conversations: conversations.map(conv => conv.id === receipt.conversationId ? updated : conv),
+      currentConversation: currentConversation?.id === receipt.conversationId ? updated : currentConversation
+    });
+  },
+
+  applyMessageStatus: (update: MessageStatusUpdate) => {
+    const { messages } = get();
+    const conversationMessages = messages[update.conversationId];
+    
+    if (!conversationMessages) {
+      return;
+    }
+    
+    set({
+      messages: {
+        ...messages,
+        [update.conversationId]: conversationMessages.map(message =>
+          message.id === update.messageId && !message.deliveredTo?.includes(update.userId)
+            ? { ...message, deliveredTo: [...(message.deliveredTo ?? []), update.userId] }
+            : message
+        )
+      }
+    });
+  },
+
+  decryptMessage: (message: Message): string | null => {
+    // null while the message is still being decrypted
+    return get().decryptedContents[message.id] ?? null;
+  },
+
+  decryptMessages: async (messagesToDecrypt: Message[]) => {
+    const { conversations, currentConversation, decryptedContents } = get();
+    const results: Record<number, string> = {};
+    const readable: Message[] = [];
+    
+    // In order, one at a time: ratchet messages advance shared session state
+    for (const message of messagesToDecrypt) {
+      if (decryptedContents[message.id] !== undefined) {
+        continue;
+      }
+      
+      const conversation = conversations.find(conv => conv.id === message.conversationId)
+        || (currentConversation?.id === message.conversationId ? currentConversation : null);
       
-      if (!conversationKey) {
-        return '[Key not available]';
+      if (!conversation) {
+        continue;
       }
       
-      // Decrypt the message
-      const decryptedContent = EncryptionService.decryptData(
-        {
-          encryptedContent: message.encryptedContent,
-          iv: message.iv
-        },
-        conversationKey
-      );
+      try {
+        results[message.id] = await encryptionManager.decryptMessage(
+          conversation.conversationUuid,
+          getParticipants(conversation),
+          message
+        );
+        readable.push(message);
+      } catch (error) {
+        results[message.id] = '[Failed to decrypt]';
+      }
+    }
+    
+    if (Object.keys(results).length === 0) {
+      return;
+    }
+    
+    set({
+      decryptedContents: {
+        ...get().decryptedContents,
+        ...results
+      }
+    });
+    
+    indexForSearch(readable, results);
+  },
+
+  decryptReactions: async (reactionsToDecrypt: MessageReaction[]) => {
+    const { conversations, currentConversation, decryptedReactions } = get();
+    const results: Record<number, string> = {};
+    
+    for (const reaction of reactionsToDecrypt) {
+      if (decryptedReactions[reaction.id] !== undefined) {
+        continue;
+      }
       
-      return decryptedContent;
-    } catch (error) {
-      return '[Failed to decrypt]';
+      const conversation = conversations.find(conv => conv.id === reaction.conversationId)
+        || (currentConversation?.id === reaction.conversationId ? currentConversation : null);
+      
+      if (!conversation) {
+        continue;
+      }
+      
+      try {
+        results[reaction.id] = await encryptionManager.decryptMessage(
+          conversation.conversationUuid,
+          getParticipants(conversation),
+          { senderId: reaction.userId, envelope: reaction.envelope, ratchetHeader: null }
+        );
+      } catch (error) {
+        // Reactions we cannot read are left out of the counts
+        console.error('Failed to decrypt reaction:', error);
+      }
+    }
+    
+    if (Object.keys(results).length === 0) {
+      return;
     }
+    
+    set({
+      decryptedReactions: {
+        ...get().decryptedReactions,
+        ...results
+      }
+    });
   },
 
   clearError: () => {
@@ -276,18 +1349,57 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
   reset: () => {
     localStorage.removeItem('selectedConversationId');
+    pendingKeyLoads.clear();
+    attachmentService.clearCache();
+    searchIndex.close();
     
     set({
       conversations: [],
       currentConversationId: null,
       currentConversation: null,
       messages: {},
+      hasMoreMessages: {},
       typingUsers: {},
-      conversationKeys: {},
+      conversationKeyrings: {},
+      decryptedContents: {},
+      decryptedReactions: {},
+      ratchetUnavailable: {},
       isLoadingConversations: false,
       isLoadingMessages: false,
+      isLoadingOlderMessages: false,
       isSendingMessage: false,
+      replyingTo: null,
+      focusedMessage: null,
       error: null
     });
   }
 }));
+
+// Disappearing messages go on time even when the server's event never reaches us
+const scheduleExpiry = (messages: Record<number, Message[]>) => {
+  if (expiryTimer) {
+    clearTimeout(expiryTimer);
+    expiryTimer = null;
+  }
+  
+  const nextExpiry = Object.values(messages).flat().reduce((earliest, message) => (
+    message.expiresAt ? Math.min(earliest, new Date(message.expiresAt).getTime()) : earliest
+  ), Infinity);
+  
+  if (nextExpiry === Infinity) {
+    return;
+  }
+  
+  expiryTimer = setTimeout(() => {
+    expiryTimer = null;
+    useChatStore.getState().expireDueMessages();
+    // Long timers are capped, so look again for anything still to come
+    scheduleExpiry(useChatStore.getState().messages);
+  }, Math.min(Math.max(0, nextExpiry - Date.now()), MAX_TIMER_DELAY));
+};
+
+useChatStore.subscribe((state, previous) => {
+  if (state.messages !== previous.messages) {
+    scheduleExpiry(state.messages);
+  }
+});
@@ -0,0 +1,44 @@
+/**
+ * Contact Key Store
+ * Pinned identity keys of contacts, whether each was verified by comparing
+ * safety numbers, and any key the server has changed since
+ */
+
+import { create } from 'zustand';
+import contactKeys from '@/services/contactKeys';
+import type { ContactKeys } from '@/services/contactKeys';
+import type { User } from '@shared/types';
+
+interface ContactKeyState {
+  contacts: ContactKeys;
+
+  // Actions
+  checkKeys: (users: User[]) => Promise<void>;
+  markVerified: (userId: number, publicKey: string) => Promise<void>;
+  clearVerification: (userId: number) => Promise<void>;
+  acceptKeyChange: (userId: number) => Promise<void>;
+}
+
+export const useContactKeyStore = create<ContactKeyState>(() => ({
+  contacts: {},
+
+  checkKeys: async (users: User[]) => {
+    await contactKeys.checkKeys(users);
+  },
+
+  markVerified: async (userId: number, publicKey: string) => {
+    await contactKeys.markVerified(userId, publicKey);
+  },
+
+  clearVerification: async (userId: number) => {
+    await contactKeys.clearVerification(userId);
+  },
+
+  acceptKeyChange: async (userId: number) => {
+    await contactKeys.acceptKeyChange(userId);
+  }
+}));
+
+// The service also pins keys on its own as conversations load
+contactKeys.subscribe(contacts => useContactKeyStore.setState({ contacts }));
+contactKeys.getContacts().then(contacts => useContactKeyStore.setState({ contacts }));
@@ -0,0 +1,138 @@
+/**
+ * Device Store
+ * The browsers the user is signed in on, and whether this one has been
+ * approved to read conversations yet
+ */
+
+import { create } from 'zustand';
+import apiService from '@/services/api';
+import encryptionManager from '@/services/encryptionManager';
+import { useAuthStore } from '@/store/authStore';
+import { useChatStore } from '@/store/chatStore';
+import type { Device, DeviceStatus } from '@shared/types';
+import toast from 'react-hot-toast';
+
+interface DeviceState {
+  currentDeviceStatus: DeviceStatus | null;
+  devices: Device[]; // pending and active devices, oldest first
+  isLoadingDevices: boolean;
+
+  // Actions
+  syncCurrentDevice: () => void;
+  loadDevices: () => Promise<void>;
+  approveDevice: (device: Device) => Promise<void>;
+  revokeDevice: (deviceId: string) => Promise<void>;
+  applyLinkRequested: (device: Device) => void;
+  applyDeviceApproved: (device: Device) => void;
+  applyDeviceRevoked: (deviceId: string) => void;
+  reset: () => void;
+}
+
+const getCurrentDeviceId = () => encryptionManager.getCurrentSession()?.device.deviceId;
+
+// Direct conversations use the ratchet only while we have a single device
+const recheckForwardSecrecy = () => {
+  encryptionManager.forgetRatchetDevices();
+  const { currentConversationId, checkForwardSecrecy } = useChatStore.getState();
+  if (currentConversationId) {
+    checkForwardSecrecy(currentConversationId)
+      .catch(error => console.error('Failed to check forward secrecy:', error));
+  }
+};
+
+export const useDeviceStore = create<DeviceState>((set, get) => ({
+  currentDeviceStatus: encryptionManager.getCurrentSession()?.device.status ?? null,
+  devices: [],
+  isLoadingDevices: false,
+
+  syncCurrentDevice: () => {
+    set({ currentDeviceStatus: encryptionManager.getCurrentSession()?.device.status ?? null });
+  },
+
+  loadDevices: async () => {
+    try {
+      set({ isLoadingDevices: true });
+
+      const devices = await apiService.getDevices();
+      const currentDevice = devices.find(device => device.current);
+
+      // Approved while this browser was closed
+      if (currentDevice && currentDevice.status !== get().currentDeviceStatus) {
+        encryptionManager.setDeviceStatus(currentDevice.status);
+      }
+
+      set({
+        devices,
+        currentDeviceStatus: currentDevice?.status ?? get().currentDeviceStatus,
+        isLoadingDevices: false
+      });
+    } catch (error) {
+      console.error('Failed to load devices:', error);
+      set({ isLoadingDevices: false });
+    }
+  },
+
+  approveDevice: async (device: Device) => {
+    const conversations = useChatStore.getState().conversations.length > 0
+      ? useChatStore.getState().conversations
+      : await apiService.getConversations();
+
+    const approvedDevice = await encryptionManager.approveDevice(
+      device,
+      conversations.map(conversation => conversation.conversationUuid)
+    );
+    get().applyDeviceApproved(approvedDevice);
+  },
+
+  revokeDevice: async (deviceId: string) => {
+    await apiService.revokeDevice(deviceId);
+    get().applyDeviceRevoked(deviceId);
+  },
+
+  applyLinkRequested: (device: Device) => {
+    // The new device hears about its own request too
+    if (device.deviceId === getCurrentDeviceId()
+      || get().devices.some(existing => existing.deviceId === device.deviceId)) {
+      return;
+    }
+
+    set(state => ({ devices: [...state.devices, device] }));
+    toast(`${device.name} wants to join your account. Approve it under Settings → Devices.`, { icon: '📱' });
+  },
+
+  applyDeviceApproved: (device: Device) => {
+    if (device.deviceId === getCurrentDeviceId()) {
+      encryptionManager.setDeviceStatus('active');
+      set({ currentDeviceStatus: 'active' });
+      toast.success('This device has been approved');
+    }
+
+    set(state => ({
+      devices: state.devices.some(existing => existing.deviceId === device.deviceId)
+        ? state.devices.map(existing => existing.deviceId === device.deviceId ? { ...existing, ...device } : existing)
+        : [...state.devices, device]
+    }));
+    recheckForwardSecrecy();
+  },
+
+  applyDeviceRevoked: (deviceId: string) => {
+    if (deviceId === getCurrentDeviceId()) {
+      toast.error('This device has been signed out');
+      useChatStore.getState().reset();
+      get().reset();
+      useAuthStore.getState().logout();
+      return;
+    }
+
+    set(state => ({ devices: state.devices.filter(device => device.deviceId !== deviceId) }));
+    recheckForwardSecrecy();
+  },
+
+  reset: () => {
+    set({
+      currentDeviceStatus: null,
+      devices: [],
+      isLoadingDevices: false
+    });
+  }
+}));
@@ -0,0 +1,94 @@
+/**
+ * Lock Store
+ * Whether the encryption keys are wiped from this browser until the user
+ * unlocks it again, and the idle lock preferences
+ */
+
+import { create } from 'zustand';
+import encryptionManager, { LockSettings } from '@/services/encryptionManager';
+import socketService from '@/services/socket';
+import { useAuthStore } from '@/store/authStore';
+import { useChatStore } from '@/store/chatStore';
+import { useDeviceStore } from '@/store/deviceStore';
+
+interface LockState {
+  isLocked: boolean;
+  hasPin: boolean;
+  settings: LockSettings;
+
+  // Actions
+  lock: () => Promise<void>;
+  unlockWithPassword: (password: string) => Promise<void>;
+  unlockWithPin: (pin: string) => Promise<void>;
+  setPin: (password: string, pin: string) => Promise<void>;
+  removePin: () => Promise<void>;
+  updateSettings: (settings: LockSettings) => void;
+  sync: () => Promise<void>;
+}
+
+export const useLockStore = create<LockState>((set, get) => {
+  // Hand the reopened keys to the rest of the app; useSocket reconnects
+  const afterUnlock = async () => {
+    const { user } = useAuthStore.getState();
+    if (user) {
+      encryptionManager.updateSessionUser(user);
+    }
+    useDeviceStore.getState().syncCurrentDevice();
+    await get().sync();
+  };
+
+  return {
+    isLocked: false,
+    hasPin: false,
+    settings: encryptionManager.getLockSettings(),
+
+    lock: async () => {
+      if (get().isLocked) {
+        return;
+      }
+
+      socketService.disconnect();
+      useChatStore.getState().reset();
+      await encryptionManager.lock();
+      await get().sync();
+    },
+
+    unlockWithPassword: async (password: string) => {
+      await encryptionManager.unlockWithPassword(password);
+      await afterUnlock();
+    },
+
+    unlockWithPin: async (pin: string) => {
+      try {
+        await encryptionManager.unlockWithPin(pin);
+      } finally {
+        // Too many wrong guesses remove the PIN
+        set({ hasPin: await encryptionManager.hasPin() });
+      }
+      await afterUnlock();
+    },
+
+    setPin: async (password: string, pin: string) => {
+      await encryptionManager.setPin(password, pin);
+      set({ hasPin: true });
+    },
+
+    removePin: async () => {
+      await encryptionManager.removePin();
+      set({ hasPin: false });
+    },
+
+    updateSettings: (settings: LockSettings) => {
+      encryptionManager.setLockSettings(settings);
+      set({ settings });
+    },
+
+    sync: async () => {
+      set({
+        isLocked: encryptionManager.isLocked(),
+        hasPin: await encryptionManager.hasPin(),
+        settings: encryptionManager.getLockSettings()
+      });
+    }
+  };
+});
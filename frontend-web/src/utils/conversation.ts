@@ -0,0 +1,119 @@
+/**
+ * Conversation display helpers
+ * Direct conversations are named after the other member, groups after
+ * their name or, failing that, their members
+ */
+
+import type { AttachmentPayload, Conversation, Message, MessageStatus, MessageType, User } from '@shared/types';
+
+/**
+ * Members other than the current user
+ */
+export const getOtherParticipants = (conversation: Conversation, currentUserId?: number): User[] => {
+  return conversation.participants.filter(participant => participant.id !== currentUserId);
+};
+
+export const getConversationTitle = (conversation: Conversation, currentUserId?: number): string => {
+  if (conversation.type === 'group' && conversation.name) {
+    return conversation.name;
+  }
+
+  const others = getOtherParticipants(conversation, currentUserId);
+  if (others.length === 0) {
+    return conversation.type === 'group' ? 'Empty group' : 'Unknown User';
+  }
+
+  return others.map(participant => participant.username).join(', ');
+};
+
+/**
+ * Comma-separated member names, with the current user listed as "You"
+ */
+export const getMemberList = (conversation: Conversation, currentUserId?: number): string => {
+  return conversation.participants
+    .map(participant => participant.id === currentUserId ? 'You' : participant.username)
+    .join(', ');
+};
+
+export const getParticipantName = (conversation: Conversation, userId: number): string => {
+  return conversation.participants.find(participant => participant.id === userId)?.username ?? 'Former member';
+};
+
+/**
+ * Our message counts as delivered or read once every other current member's
+ * device has received or read it
+ */
+export const getMessageStatus = (conversation: Conversation, message: Message, currentUserId?: number): MessageStatus => {
+  const others = getOtherParticipants(conversation, currentUserId);
+  if (others.length === 0) {
+    return 'sent';
+  }
+
+  const hasRead = (userId: number) => (conversation.readCursors[userId] ?? 0) >= message.id;
+
+  if (others.every(participant => hasRead(participant.id))) {
+    return 'read';
+  }
+
+  // Reading implies delivery, even if the acknowledgement was lost
+  const deliveredTo = message.deliveredTo ?? [];
+  if (others.every(participant => deliveredTo.includes(participant.id) || hasRead(participant.id))) {
+    return 'delivered';
+  }
+
+  return 'sent';
+};
+
+/**
+ * The decrypted body of a file, image or voice message, or null if it does not parse
+ */
+export const parseAttachmentPayload = (content: string | null): AttachmentPayload | null => {
+  if (!content) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(content);
+    return typeof payload?.attachmentId === 'string' && typeof payload?.key === 'string' ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * m:ss, for voice message lengths and recording timers
+ */
+export const formatDuration = (seconds: number): string => {
+  const wholeSeconds = Math.max(0, Math.round(seconds));
+  return `${Math.floor(wholeSeconds / 60)}:${String(wholeSeconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Short form of a disappearing message timer, such as 30s, 5m or 1w
+ */
+export const formatTimer = (seconds: number): string => {
+  const units: Array<[number, string]> = [[7 * 24 * 60 * 60, 'w'], [24 * 60 * 60, 'd'], [60 * 60, 'h'], [60, 'm']];
+  const unit = units.find(([size]) => seconds >= size && seconds % size === 0);
+  return unit ? `${seconds / unit[0]}${unit[1]}` : `${seconds}s`;
+};
+
+/**
+ * One-line summary of a decrypted message, for previews and quotes
+ */
+export const getMessagePreview = (messageType: MessageType, content: string): string => {
+  if (messageType === 'text') {
+    return content;
+  }
+
+  if (messageType === 'image') {
+    return '📷 Photo';
+  }
+
+  const payload = parseAttachmentPayload(content);
+
+  if (messageType === 'audio') {
+    return payload?.duration !== undefined ? `🎤 Voice message (${formatDuration(payload.duration)})` : '🎤 Voice message';
+  }
+
+  return `📎 ${payload?.name ?? 'File'}`;
+};
@@ -5,6 +5,9 @@
  */
 
 import CryptoJS from 'crypto-js';
+import type { EncryptedEnvelope } from '@shared/types';
+
+export type { EncryptedEnvelope };
 
 // Types
 export interface MasterKeyDerivation {
@@ -12,17 +15,87 @@ export interface MasterKeyDerivation {
   salt: string;
 }
 
-export interface EncryptedData {
-  encryptedContent: string;
-  iv: string;
-}
-
 export interface UserKeyPair {
-  publicKey: string;
-  privateKey: string;
+  publicKey: string; // Base64 SPKI-encoded ECDH P-256 public key
+  privateKey: string; // Base64 PKCS8-encoded ECDH P-256 private key
   keyId: string; // Unique identifier for this key pair
 }
 
+// Keys held as non-extractable Web Crypto objects: script in the page can
+// use them but never read them out, and they can be stored in IndexedDB as is
+export interface MasterKeyHandle {
+  encryptionKey: CryptoKey; // AES-GCM, for what is stored under the master key
+  derivationKey: CryptoKey; // HKDF, for keys derived from the master key
+}
+
+export interface PrivateKeyHandle {
+  agreementKey: CryptoKey; // ECDH
+  signingKey: CryptoKey; // ECDSA over the same P-256 key
+}
+
+export interface HeldKeyPair {
+  publicKey: string; // Base64 SPKI-encoded P-256 public key
+  privateKey: PrivateKeyHandle;
+  keyId: string;
+}
+
+// A key given as raw material or already held by Web Crypto
+export type SecretKey = string | CryptoKey | MasterKeyHandle;
+export type PrivateKey = string | PrivateKeyHandle;
+
+// A key wrapped with AES-GCM under a PIN-derived key
+export interface PinWrappedKey {
+  iv: string; // Hex
+  key: string; // Base64
+}
+
+// The keys of an unlocked session, wrapped under a PIN-derived key
+export interface PinWrappedKeys {
+  masterKey: PinWrappedKey; // Raw
+  identityKey: PinWrappedKey; // PKCS8
+  deviceKey: PinWrappedKey; // PKCS8
+}
+
+export interface RecoveryKeys {
+  wrappingKey: string; // Hex AES key the key backup is wrapped under
+  authKey: string; // Hex value the server checks against its hash
+}
+
+export interface DHKeyPair {
+  publicKey: string; // Base64 SPKI-encoded ECDH P-256 public key
+  privateKey: string; // Base64 PKCS8-encoded ECDH P-256 private key
+}
+
+export interface SignedPreKey extends DHKeyPair {
+  keyId: number;
+  signature: string; // Identity key's ECDSA signature over the public key
+  createdAt: number;
+}
+
+export interface PreKeyBundle {
+  userId: number;
+  deviceId: string;
+  identityKey: string;
+  signedPreKeyId: number;
+  signedPreKey: string;
+  signature: string;
+  oneTimePreKey: { keyId: number; publicKey: string } | null; // null once the pool is empty
+}
+
+export interface OneTimePreKey extends DHKeyPair {
+  keyId: number;
+}
+
+export interface X3DHSecret {
+  sharedKey: string; // Hex-encoded 256-bit root key for the ratchet
+  associatedData: string; // Initiator and responder identity keys
+}
+
+export interface WrappedKey {
+  envelope: EncryptedEnvelope;
+  ephemeralPublicKey: string; // Sender's one-off ECDH public key
+}
+
 export interface ConversationKey {
   keyId: string;
   conversationId: string;
@@ -34,7 +107,7 @@ export interface ConversationKey {
 export interface EncryptedConversationKey {
   keyId: string;
   conversationId: string;
-  encryptedKey: EncryptedData; // AES key encrypted with user's master key
+  encryptedKey: EncryptedEnvelope; // AES key encrypted with user's master key
   participants: string[];
   createdAt: Date;
 }
@@ -42,16 +115,51 @@ export interface EncryptedConversationKey {
 export interface EncryptionConfig {
   keySize: number;
   ivSize: number;
+  tagSize: number;
   iterations: number;
 }
 
 // Configuration following current best practices
 const CONFIG: EncryptionConfig = {
   keySize: 256, // AES-256
-  ivSize: 16,   // 128-bit IV
+  ivSize: 12,   // 96-bit IV, as recommended for GCM
+  tagSize: 16,  // 128-bit authentication tag
   iterations: 600000, // OWASP 2023 recommendation for PBKDF2
 };
 
+const ENVELOPE_VERSION = 1;
+const ENVELOPE_ALGORITHM = 'A256GCM';
+const LEGACY_ENVELOPE_VERSION = 0;
+const LEGACY_ALGORITHM = 'AES-CBC';
+
+// Identity keys are ECDH over P-256, supported by Web Crypto in all major browsers
+const IDENTITY_KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const KEY_WRAP_INFO = new TextEncoder().encode('EncryptedChat key wrap v1');
+
+// Prekeys are signed with ECDSA over the same P-256 identity key material
+const SIGNING_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const X3DH_INFO = 'EncryptedChat X3DH v1';
+
+// Safety numbers follow Signal's numeric fingerprints: iterated SHA-512 over
+// each user's identity key, 30 digits per user
+const SAFETY_NUMBER_VERSION = 0;
+const SAFETY_NUMBER_ITERATIONS = 5200;
+
+// Key transparency log hashing (RFC 6962): leaves and interior nodes are
+// hashed with different prefixes so one cannot pass for the other
+const KEY_LOG_LEAF_PREFIX = 0x00;
+const KEY_LOG_NODE_PREFIX = 0x01;
+
+// Recovery codes are 160 random bits in Crockford base32, which leaves out
+// letters easily mistaken for digits; two keys are derived from each code,
+// one wrapping the key backup and one proving the code to the server
+const RECOVERY_CODE_BYTES = 20;
+const RECOVERY_CODE_GROUP = 4;
+const RECOVERY_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECOVERY_WRAP_INFO = 'EncryptedChat recovery wrap v1';
+const RECOVERY_AUTH_INFO = 'EncryptedChat recovery auth v1';
+
 /**
  * Modern Encryption Service Class
  * Focuses on security, testability, and maintainability
@@ -90,10 +198,17 @@ export class EncryptionService {
   }
 
   /**
-   * Step 1: Basic AES Encryption
-   * Encrypts data using AES-256-CBC with proper IV generation
+   * Step 1: Authenticated Encryption
+   * Encrypts data using AES-256-GCM and returns a versioned envelope
+   * The envelope header, plus any caller-supplied associated data, is bound
+   * to the ciphertext as additional data
    */
-  static encryptData(plaintext: string, key: string): EncryptedData {
+  static async encryptData(
+    plaintext: string,
+    key: SecretKey,
+    keyId: string | null = null,
+    associatedData: string = ''
+  ): Promise<EncryptedEnvelope> {
     try {
       if (!plaintext) {
         throw new Error('Plaintext cannot be empty');
@@ -102,93 +217,941 @@ export class EncryptionService {
         throw new Error('Encryption key cannot be empty');
       }
 
-      const iv = CryptoJS.lib.WordArray.random(CONFIG.ivSize);
-      
-      const encrypted = CryptoJS.AES.encrypt(plaintext, key, {
-        iv: iv,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      });
+      const iv = crypto.getRandomValues(new Uint8Array(CONFIG.ivSize));
+      const aesKey = await this.importAesKey(key, 'encrypt');
 
-      const result = {
-        encryptedContent: encrypted.toString(),
-        iv: iv.toString()
-      };
+      const sealed = await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv,
+          additionalData: this.getAdditionalData(ENVELOPE_VERSION, ENVELOPE_ALGORITHM, keyId, associatedData),
+          tagLength: CONFIG.tagSize * 8
+        },
+        aesKey,
+        new TextEncoder().encode(plaintext)
+      );
 
-      return result;
+      // Web Crypto appends the tag to the ciphertext; the envelope keeps them apart
+      const tagStart = sealed.byteLength - CONFIG.tagSize;
+
+      return {
+        v: ENVELOPE_VERSION,
+        alg: ENVELOPE_ALGORITHM,
+        keyId,
+        iv: this.bufferToHex(iv),
+        ct: this.bufferToBase64(sealed.slice(0, tagStart)),
+        tag: this.bufferToHex(sealed.slice(tagStart))
+      };
       
     } catch (error) {
-      throw new Error(`Encryption failed: ${error.message}`);
+      throw new Error(`Encryption failed: ${(error as Error).message}`);
     }
   }
 
   /**
-   * Step 1: Basic AES Decryption
-   * Decrypts data using AES-256-CBC
+   * Step 1: Authenticated Decryption
+   * Opens an envelope produced by encryptData; legacy v0 envelopes are
+   * decrypted with the original AES-CBC scheme so existing history still opens
    */
-  static decryptData(encryptedData: EncryptedData, key: string): string {
+  static async decryptData(envelope: EncryptedEnvelope, key: SecretKey, associatedData: string = ''): Promise<string> {
     try {
-      if (!encryptedData?.encryptedContent || !encryptedData?.iv) {
+      if (!envelope?.ct || !envelope?.iv) {
         throw new Error('Invalid encrypted data');
       }
       if (!key) {
         throw new Error('Decryption key cannot be empty');
       }
 
-      const iv = CryptoJS.enc.Hex.parse(encryptedData.iv);
-      
-      const decrypted = CryptoJS.AES.decrypt(encryptedData.encryptedContent, key, {
-        iv: iv,
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7
-      });
+      if (envelope.v === LEGACY_ENVELOPE_VERSION) {
+        if (typeof key !== 'string') {
+          throw new Error('Legacy envelopes need the raw key');
+        }
+        return this.decryptLegacyData(envelope, key);
+      }
 
-      const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-      
-      if (!plaintext) {
-        throw new Error('Decryption resulted in empty string - invalid key or corrupted data');
+      if (envelope.v !== ENVELOPE_VERSION || envelope.alg !== ENVELOPE_ALGORITHM || !envelope.tag) {
+        throw new Error(`Unsupported envelope (v${envelope.v}, ${envelope.alg})`);
       }
 
-      return plaintext;
+      const aesKey = await this.importAesKey(key, 'decrypt');
+      const ciphertext = new Uint8Array(this.base64ToBuffer(envelope.ct));
+      const tag = new Uint8Array(this.hexToBuffer(envelope.tag));
+
+      const sealed = new Uint8Array(ciphertext.length + tag.length);
+      sealed.set(ciphertext);
+      sealed.set(tag, ciphertext.length);
+
+      let decrypted: ArrayBuffer;
+      try {
+        decrypted = await crypto.subtle.decrypt(
+          {
+            name: 'AES-GCM',
+            iv: this.hexToBuffer(envelope.iv),
+            additionalData: this.getAdditionalData(envelope.v, envelope.alg, envelope.keyId, associatedData),
+            tagLength: CONFIG.tagSize * 8
+          },
+          aesKey,
+          sealed
+        );
+      } catch {
+        throw new Error('Authentication failed - invalid key or tampered data');
+      }
+
+      return new TextDecoder().decode(decrypted);
       
     } catch (error) {
-      throw new Error(`Decryption failed: ${error.message}`);
+      throw new Error(`Decryption failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Legacy AES-CBC Decryption
+   * v0 payloads were encrypted with the key passed as a passphrase, so
+   * crypto-js derived the real key and IV from a salt inside the ciphertext
+   */
+  private static decryptLegacyData(envelope: EncryptedEnvelope, key: string): string {
+    const iv = CryptoJS.enc.Hex.parse(envelope.iv);
+    
+    const decrypted = CryptoJS.AES.decrypt(envelope.ct, key, {
+      iv: iv,
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7
+    });
+
+    const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
+    
+    if (!plaintext) {
+      throw new Error('Decryption resulted in empty string - invalid key or corrupted data');
     }
+
+    return plaintext;
+  }
+
+  /**
+   * Binary Chunk Encryption
+   * Seals one chunk of a file as IV || ciphertext || tag. The chunk's
+   * position and the total count are authenticated, so the server cannot
+   * reorder, drop or truncate chunks without decryption failing
+   */
+  static async encryptChunk(data: Uint8Array, key: string, index: number, chunkCount: number): Promise<Uint8Array> {
+    const iv = crypto.getRandomValues(new Uint8Array(CONFIG.ivSize));
+    const aesKey = await this.importAesKey(key, 'encrypt');
+
+    const sealed = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: new TextEncoder().encode(`chunk:${index}/${chunkCount}`),
+        tagLength: CONFIG.tagSize * 8
+      },
+      aesKey,
+      data
+    );
+
+    const chunk = new Uint8Array(iv.length + sealed.byteLength);
+    chunk.set(iv);
+    chunk.set(new Uint8Array(sealed), iv.length);
+    return chunk;
+  }
+
+  /**
+   * Opens a chunk produced by encryptChunk
+   */
+  static async decryptChunk(chunk: Uint8Array, key: string, index: number, chunkCount: number): Promise<ArrayBuffer> {
+    if (chunk.length <= CONFIG.ivSize + CONFIG.tagSize) {
+      throw new Error('Invalid encrypted chunk');
+    }
+
+    const aesKey = await this.importAesKey(key, 'decrypt');
+
+    try {
+      return await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: chunk.slice(0, CONFIG.ivSize),
+          additionalData: new TextEncoder().encode(`chunk:${index}/${chunkCount}`),
+          tagLength: CONFIG.tagSize * 8
+        },
+        aesKey,
+        chunk.slice(CONFIG.ivSize)
+      );
+    } catch {
+      throw new Error('Authentication failed - invalid key or tampered data');
+    }
+  }
+
+  /**
+   * Hex-encoded SHA-256 digest
+   */
+  static async sha256(data: ArrayBuffer | Uint8Array): Promise<string> {
+    return this.bufferToHex(await crypto.subtle.digest('SHA-256', data));
+  }
+
+  /**
+   * Import a hex-encoded 256-bit key for AES-GCM; held keys are used as they are
+   */
+  private static async importAesKey(key: SecretKey, usage: 'encrypt' | 'decrypt'): Promise<CryptoKey> {
+    if (typeof key !== 'string') {
+      return 'encryptionKey' in key ? key.encryptionKey : key;
+    }
+    if (!/^[a-fA-F0-9]{64}$/.test(key)) {
+      throw new Error('Key must be a 256-bit hex string');
+    }
+
+    return crypto.subtle.importKey('raw', this.hexToBuffer(key), { name: 'AES-GCM' }, false, [usage]);
+  }
+
+  /**
+   * Envelope header fields authenticated alongside the ciphertext
+   */
+  private static getAdditionalData(
+    version: number,
+    algorithm: string,
+    keyId: string | null,
+    associatedData: string
+  ): Uint8Array {
+    const header = `${version}:${algorithm}:${keyId ?? ''}`;
+    return new TextEncoder().encode(associatedData ? `${header}|${associatedData}` : header);
+  }
+
+  /**
+   * Serialize an envelope for a single text column (wrapped keys)
+   */
+  static serializeEnvelope(envelope: EncryptedEnvelope): string {
+    return JSON.stringify(envelope);
+  }
+
+  /**
+   * Read an envelope back from storage
+   * Anything that is not a serialized envelope is a legacy v0 ciphertext
+   * stored next to its IV
+   */
+  static parseStoredEnvelope(content: string, iv: string): EncryptedEnvelope {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed.v === 'number') {
+        return parsed as EncryptedEnvelope;
+      }
+    } catch {
+      // Not JSON - fall through to the legacy format
+    }
+
+    return {
+      v: LEGACY_ENVELOPE_VERSION,
+      alg: LEGACY_ALGORITHM,
+      keyId: null,
+      iv,
+      ct: content,
+      tag: null
+    };
   }
 
   /**
    * Step 2: Generate User Key Pair
-   * Creates a public/private key pair for a user
-   * Simplified approach - in production consider using Web Crypto API
+   * Creates an ECDH identity key pair with Web Crypto
+   * Other users wrap conversation keys for us with the public key
    */
-  static generateUserKeyPair(): UserKeyPair {
+  static async generateUserKeyPair(): Promise<UserKeyPair> {
     try {
       console.log('🔑 Generating user key pair...');
 
-      // Generate a unique key ID
-      const keyId = this.generateSecureRandom(16);
+      const keyPair = await crypto.subtle.generateKey(IDENTITY_KEY_ALGORITHM, true, ['deriveBits']);
+
+      const publicKey = this.bufferToBase64(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+      const privateKey = this.bufferToBase64(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey));
+
+      console.log('✅ User key pair generated successfully');
+      return {
+        keyId: this.getKeyId(publicKey),
+        publicKey,
+        privateKey
+      };
+      
+    } catch (error) {
+      console.error('❌ Key pair generation failed:', error);
+      throw new Error(`Key pair generation failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Step 2: Restore User Key Pair
+   * Decrypts an identity private key stored wrapped under the master key
+   */
+  static async decryptUserKeyPair(
+    publicKey: string,
+    encryptedPrivateKey: EncryptedEnvelope,
+    userMasterKey: SecretKey
+  ): Promise<UserKeyPair> {
+    return {
+      keyId: this.getKeyId(publicKey),
+      publicKey,
+      privateKey: await this.decryptData(encryptedPrivateKey, userMasterKey)
+    };
+  }
+
+  /**
+   * Hold a hex master key as non-extractable keys; the raw key can be
+   * dropped once this returns
+   */
+  static async importMasterKey(masterKey: string): Promise<MasterKeyHandle> {
+    const keyMaterial = this.hexToBuffer(masterKey);
+
+    const [encryptionKey, derivationKey] = await Promise.all([
+      crypto.subtle.importKey('raw', keyMaterial, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']),
+      crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveBits'])
+    ]);
+
+    return { encryptionKey, derivationKey };
+  }
+
+  /**
+   * Hold a key pair's private key as non-extractable ECDH and ECDSA keys
+   */
+  static async importKeyPair(keyPair: UserKeyPair): Promise<HeldKeyPair> {
+    const privateKey = this.base64ToBuffer(keyPair.privateKey);
+
+    const [agreementKey, signingKey] = await Promise.all([
+      crypto.subtle.importKey('pkcs8', privateKey, IDENTITY_KEY_ALGORITHM, false, ['deriveBits']),
+      crypto.subtle.importKey('pkcs8', privateKey, SIGNING_ALGORITHM, false, ['sign'])
+    ]);
+
+    return {
+      keyId: keyPair.keyId,
+      publicKey: keyPair.publicKey,
+      privateKey: { agreementKey, signingKey }
+    };
+  }
+
+  /**
+   * A non-extractable HMAC key that never leaves this browser; it is mixed
+   * into the PIN key so a copy of the stored keys cannot be guessed offline
+   */
+  static async generatePinSecret(): Promise<CryptoKey> {
+    return crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  }
+
+  /**
+   * Derive the non-extractable key that wraps session keys from a PIN and
+   * this browser's PIN secret
+   */
+  static async derivePinKey(pin: string, salt: string, pinSecret: CryptoKey): Promise<CryptoKey> {
+    const pinMac = await crypto.subtle.sign('HMAC', pinSecret, new TextEncoder().encode(pin));
+    const baseKey = await crypto.subtle.importKey('raw', pinMac, 'PBKDF2', false, ['deriveKey']);
+
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt: this.hexToBuffer(salt), iterations: CONFIG.iterations },
+      baseKey,
+      { name: 'AES-GCM', length: CONFIG.keySize },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  }
+
+  /**
+   * Wrap a session's master, identity and device keys under a PIN key
+   * Each is imported just long enough to be wrapped; the PIN key can only
+   * unwrap them, so they come back out non-extractable
+   */
+  static async wrapSessionKeys(
+    pinKey: CryptoKey,
+    masterKey: string,
+    identityPrivateKey: string,
+    devicePrivateKey: string
+  ): Promise<PinWrappedKeys> {
+    const wrap = async (format: 'raw' | 'pkcs8', key: CryptoKey, label: string): Promise<PinWrappedKey> => {
+      const iv = crypto.getRandomValues(new Uint8Array(CONFIG.ivSize));
+      const wrapped = await crypto.subtle.wrapKey(format, key, pinKey, {
+        name: 'AES-GCM',
+        iv,
+        additionalData: new TextEncoder().encode(label)
+      });
+      return { iv: this.bufferToHex(iv), key: this.bufferToBase64(wrapped) };
+    };
+    const importPrivateKey = (privateKey: string) => crypto.subtle.importKey(
+      'pkcs8', this.base64ToBuffer(privateKey), IDENTITY_KEY_ALGORITHM, true, ['deriveBits']
+    );
+
+    return {
+      masterKey: await wrap(
+        'raw',
+        await crypto.subtle.importKey('raw', this.hexToBuffer(masterKey), { name: 'AES-GCM' }, true, ['encrypt']),
+        'lock-pin:master'
+      ),
+      identityKey: await wrap('pkcs8', await importPrivateKey(identityPrivateKey), 'lock-pin:identity'),
+      deviceKey: await wrap('pkcs8', await importPrivateKey(devicePrivateKey), 'lock-pin:device')
+    };
+  }
+
+  /**
+   * Unwrap session keys sealed by wrapSessionKeys, as non-extractable keys
+   * Fails if the PIN key is wrong
+   */
+  static async unwrapSessionKeys(pinKey: CryptoKey, wrappedKeys: PinWrappedKeys): Promise<{
+    masterKey: MasterKeyHandle;
+    identityKey: PrivateKeyHandle;
+    deviceKey: PrivateKeyHandle;
+  }> {
+    const unwrap = (
+      format: 'raw' | 'pkcs8',
+      wrappedKey: PinWrappedKey,
+      label: string,
+      algorithm: AlgorithmIdentifier | EcKeyImportParams,
+      usages: KeyUsage[]
+    ) => crypto.subtle.unwrapKey(
+      format,
+      this.base64ToBuffer(wrappedKey.key),
+      pinKey,
+      { name: 'AES-GCM', iv: this.hexToBuffer(wrappedKey.iv), additionalData: new TextEncoder().encode(label) },
+      algorithm,
+      false,
+      usages
+    );
+    const unwrapPrivateKey = async (wrappedKey: PinWrappedKey, label: string): Promise<PrivateKeyHandle> => ({
+      agreementKey: await unwrap('pkcs8', wrappedKey, label, IDENTITY_KEY_ALGORITHM, ['deriveBits']),
+      signingKey: await unwrap('pkcs8', wrappedKey, label, SIGNING_ALGORITHM, ['sign'])
+    });
+
+    return {
+      masterKey: {
+        encryptionKey: await unwrap('raw', wrappedKeys.masterKey, 'lock-pin:master', { name: 'AES-GCM' }, ['encrypt', 'decrypt']),
+        derivationKey: await unwrap('raw', wrappedKeys.masterKey, 'lock-pin:master', 'HKDF', ['deriveBits'])
+      },
+      identityKey: await unwrapPrivateKey(wrappedKeys.identityKey, 'lock-pin:identity'),
+      deviceKey: await unwrapPrivateKey(wrappedKeys.deviceKey, 'lock-pin:device')
+    };
+  }
+
+  /**
+   * Generate a recovery code, grouped for writing down,
+   * e.g. "7K2M-Q9XD-..." (eight groups of four)
+   */
+  static generateRecoveryCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_BYTES));
+
+    let bits = 0;
+    let value = 0;
+    let code = '';
+    for (const byte of bytes) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        code += RECOVERY_CODE_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    return code.match(new RegExp(`.{1,${RECOVERY_CODE_GROUP}}`, 'g'))!.join('-');
+  }
+
+  /**
+   * Read a recovery code as typed: case, spaces and dashes are ignored, and
+   * O, I and L are read as the digits they look like
+   */
+  static normalizeRecoveryCode(code: string): string {
+    const normalized = code
+      .toUpperCase()
+      .replace(/[\s-]/g, '')
+      .replace(/O/g, '0')
+      .replace(/[IL]/g, '1');
+
+    const length = Math.ceil(RECOVERY_CODE_BYTES * 8 / 5);
+    if (normalized.length !== length || [...normalized].some(char => !RECOVERY_CODE_ALPHABET.includes(char))) {
+      throw new Error('Invalid recovery code');
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Derive the backup wrapping key and the server authentication value from
+   * a recovery code; neither reveals the other
+   */
+  static async deriveRecoveryKeys(code: string): Promise<RecoveryKeys> {
+    const keyMaterial = new TextEncoder().encode(this.normalizeRecoveryCode(code));
+    const salt = new Uint8Array(32);
+
+    const [wrappingKey, authKey] = await Promise.all([
+      this.hkdf(keyMaterial, salt, RECOVERY_WRAP_INFO, CONFIG.keySize),
+      this.hkdf(keyMaterial, salt, RECOVERY_AUTH_INFO, CONFIG.keySize)
+    ]);
+
+    return {
+      wrappingKey: this.bufferToHex(wrappingKey),
+      authKey: this.bufferToHex(authKey)
+    };
+  }
+
+  private static async getAgreementKey(privateKey: PrivateKey): Promise<CryptoKey> {
+    return typeof privateKey === 'string'
+      ? crypto.subtle.importKey('pkcs8', this.base64ToBuffer(privateKey), IDENTITY_KEY_ALGORITHM, false, ['deriveBits'])
+      : privateKey.agreementKey;
+  }
+
+  private static async getSigningKey(privateKey: PrivateKey): Promise<CryptoKey> {
+    return typeof privateKey === 'string'
+      ? crypto.subtle.importKey('pkcs8', this.base64ToBuffer(privateKey), SIGNING_ALGORITHM, false, ['sign'])
+      : privateKey.signingKey;
+  }
+
+  /**
+   * Stable identifier for a public key
+   */
+  static getKeyId(publicKey: string): string {
+    return CryptoJS.SHA256(publicKey).toString().substring(0, 32);
+  }
+
+  /**
+   * Step 2: Wrap Key for Recipient
+   * Encrypts a key so only the holder of the recipient's identity private key
+   * can read it (ECIES: ephemeral ECDH + HKDF, then AES)
+   */
+  static async wrapKeyForRecipient(key: string, recipientPublicKey: string): Promise<WrappedKey> {
+    try {
+      const recipientKey = await crypto.subtle.importKey(
+        'spki',
+        this.base64ToBuffer(recipientPublicKey),
+        IDENTITY_KEY_ALGORITHM,
+        false,
+        []
+      );
+
+      const ephemeralKeyPair = await crypto.subtle.generateKey(IDENTITY_KEY_ALGORITHM, true, ['deriveBits']);
+      const wrappingKey = await this.deriveWrappingKey(ephemeralKeyPair.privateKey, recipientKey);
+
+      return {
+        envelope: await this.encryptData(key, wrappingKey),
+        ephemeralPublicKey: this.bufferToBase64(await crypto.subtle.exportKey('spki', ephemeralKeyPair.publicKey))
+      };
       
-      // Generate private key (256-bit random)
-      const privateKey = this.generateSecureRandom(32);
+    } catch (error) {
+      throw new Error(`Key wrapping failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Step 2: Unwrap Key from Sender
+   * Reverses wrapKeyForRecipient with our identity private key
+   */
+  static async unwrapKey(wrappedKey: WrappedKey, privateKey: PrivateKey): Promise<string> {
+    try {
+      const [ourPrivateKey, ephemeralPublicKey] = await Promise.all([
+        this.getAgreementKey(privateKey),
+        crypto.subtle.importKey('spki', this.base64ToBuffer(wrappedKey.ephemeralPublicKey), IDENTITY_KEY_ALGORITHM, false, [])
+      ]);
+
+      const wrappingKey = await this.deriveWrappingKey(ourPrivateKey, ephemeralPublicKey);
+      return this.decryptData(wrappedKey.envelope, wrappingKey);
       
-      // Derive public key from private key (deterministic)
-      const publicKey = CryptoJS.SHA256(privateKey + 'public_derivation_salt').toString();
+    } catch (error) {
+      throw new Error(`Key unwrapping failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Derive a 256-bit wrapping key from an ECDH shared secret
+   */
+  private static async deriveWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<string> {
+    const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+    const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveBits']);
+
+    const wrappingKey = await crypto.subtle.deriveBits(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: KEY_WRAP_INFO },
+      hkdfKey,
+      CONFIG.keySize
+    );
+
+    return this.bufferToHex(wrappingKey);
+  }
+
+  /**
+   * Step 3: Generate DH Key Pair
+   * One-off ECDH key pair for prekeys, X3DH and ratchet steps
+   */
+  static async generateDHKeyPair(): Promise<DHKeyPair> {
+    const keyPair = await crypto.subtle.generateKey(IDENTITY_KEY_ALGORITHM, true, ['deriveBits']);
+
+    return {
+      publicKey: this.bufferToBase64(await crypto.subtle.exportKey('spki', keyPair.publicKey)),
+      privateKey: this.bufferToBase64(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey))
+    };
+  }
+
+  /**
+   * ECDH between one of our private keys and a peer's public key
+   */
+  static async computeSharedSecret(privateKey: PrivateKey, publicKey: string): Promise<ArrayBuffer> {
+    const [ourKey, theirKey] = await Promise.all([
+      this.getAgreementKey(privateKey),
+      crypto.subtle.importKey('spki', this.base64ToBuffer(publicKey), IDENTITY_KEY_ALGORITHM, false, [])
+    ]);
+
+    return crypto.subtle.deriveBits({ name: 'ECDH', public: theirKey }, ourKey, 256);
+  }
+
+  /**
+   * Step 3: Generate Signed Prekey
+   * Creates a medium-term prekey signed by our identity key so peers can
+   * start a session with us while we are offline
+   */
+  static async generateSignedPreKey(keyId: number, identityPrivateKey: PrivateKey): Promise<SignedPreKey> {
+    try {
+      const keyPair = await this.generateDHKeyPair();
 
-      const keyPair = {
+      const signingKey = await this.getSigningKey(identityPrivateKey);
+      const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, signingKey, this.base64ToBuffer(keyPair.publicKey));
+
+      return {
         keyId,
-        publicKey,
-        privateKey
+        ...keyPair,
+        signature: this.bufferToBase64(signature),
+        createdAt: Date.now()
       };
+      
+    } catch (error) {
+      throw new Error(`Signed prekey generation failed: ${(error as Error).message}`);
+    }
+  }
 
-      console.log('✅ User key pair generated successfully');
-      return keyPair;
+  /**
+   * Check a signed prekey against the owner's identity key
+   */
+  static async verifySignedPreKey(identityKey: string, signedPreKey: string, signature: string): Promise<boolean> {
+    const verifyingKey = await crypto.subtle.importKey(
+      'spki',
+      this.base64ToBuffer(identityKey),
+      SIGNING_ALGORITHM,
+      false,
+      ['verify']
+    );
+
+    return crypto.subtle.verify(
+      SIGNATURE_PARAMS,
+      verifyingKey,
+      this.base64ToBuffer(signature),
+      this.base64ToBuffer(signedPreKey)
+    );
+  }
+
+  /**
+   * Check an ECDSA signature over a text message, e.g. an identity key
+   * vouching for one of its owner's devices
+   */
+  static async verifyData(publicKey: string, message: string, signature: string): Promise<boolean> {
+    try {
+      const verifyingKey = await crypto.subtle.importKey(
+        'spki',
+        this.base64ToBuffer(publicKey),
+        SIGNING_ALGORITHM,
+        false,
+        ['verify']
+      );
+
+      return await crypto.subtle.verify(
+        SIGNATURE_PARAMS,
+        verifyingKey,
+        this.base64ToBuffer(signature),
+        new TextEncoder().encode(message)
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Sign a message with ECDSA over a P-256 private key, e.g. a device proving
+   * it holds its key when opening a session
+   */
+  static async signData(privateKey: PrivateKey, message: string): Promise<string> {
+    const signingKey = await this.getSigningKey(privateKey);
+    const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, signingKey, new TextEncoder().encode(message));
+
+    return this.bufferToBase64(signature);
+  }
+
+  /**
+   * Safety number for a pair of users: 60 digits from both identity keys,
+   * ordered by user ID so both sides see the same number. If it matches when
+   * compared in person, neither key was swapped by the server
+   */
+  static async computeSafetyNumber(
+    localUserId: number,
+    localIdentityKey: string,
+    remoteUserId: number,
+    remoteIdentityKey: string
+  ): Promise<string> {
+    const [localDigits, remoteDigits] = await Promise.all([
+      this.computeFingerprintDigits(localUserId, localIdentityKey),
+      this.computeFingerprintDigits(remoteUserId, remoteIdentityKey)
+    ]);
+
+    return localUserId < remoteUserId ? localDigits + remoteDigits : remoteDigits + localDigits;
+  }
+
+  private static async computeFingerprintDigits(userId: number, identityKey: string): Promise<string> {
+    const publicKey = new Uint8Array(this.base64ToBuffer(identityKey));
+    const userIdBytes = new TextEncoder().encode(userId.toString());
+
+    let hash = new Uint8Array(2 + publicKey.length + userIdBytes.length);
+    hash.set([0, SAFETY_NUMBER_VERSION]);
+    hash.set(publicKey, 2);
+    hash.set(userIdBytes, 2 + publicKey.length);
+
+    for (let i = 0; i < SAFETY_NUMBER_ITERATIONS; i++) {
+      const input = new Uint8Array(hash.length + publicKey.length);
+      input.set(hash);
+      input.set(publicKey, hash.length);
+      hash = new Uint8Array(await crypto.subtle.digest('SHA-512', input));
+    }
+
+    // Six 5-byte chunks, each reduced to 5 digits
+    let digits = '';
+    for (let chunk = 0; chunk < 6; chunk++) {
+      const value = hash.slice(chunk * 5, chunk * 5 + 5).reduce((total, byte) => total * 256 + byte, 0);
+      digits += (value % 100000).toString().padStart(5, '0');
+    }
+    return digits;
+  }
+
+  /**
+   * Leaf hash of a key transparency log entry; must match
+   * KeyTransparencyService.hashLeaf on the server
+   */
+  static async hashKeyLogLeaf(userId: number, publicKey: string): Promise<Uint8Array> {
+    const data = new TextEncoder().encode(`encrypted-chat-key-log:${userId}:${publicKey}`);
+    return this.hashWithPrefix(KEY_LOG_LEAF_PREFIX, data);
+  }
+
+  /**
+   * Check that a leaf sits at the given index of a tree with the given root
+   * (RFC 9162 section 2.1.3.2)
+   */
+  static async verifyInclusionProof(
+    leafHash: Uint8Array,
+    index: number,
+    treeSize: number,
+    proof: string[],
+    rootHash: string
+  ): Promise<boolean> {
+    if (index >= treeSize) {
+      return false;
+    }
+
+    let fn = index;
+    let sn = treeSize - 1;
+    let hash = leafHash;
+
+    for (const sibling of proof.map(node => new Uint8Array(this.base64ToBuffer(node)))) {
+      if (sn === 0) {
+        return false;
+      }
+
+      if (fn % 2 === 1 || fn === sn) {
+        hash = await this.hashKeyLogNode(sibling, hash);
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      } else {
+        hash = await this.hashKeyLogNode(hash, sibling);
+      }
+
+      fn = Math.floor(fn / 2);
+      sn = Math.floor(sn / 2);
+    }
+
+    return sn === 0 && this.bufferToBase64(hash) === rootHash;
+  }
+
+  /**
+   * Check that a tree is an append-only extension of an earlier one
+   * (RFC 9162 section 2.1.4.2), so the log cannot rewrite entries it has shown us
+   */
+  static async verifyConsistencyProof(
+    oldSize: number,
+    oldRootHash: string,
+    newSize: number,
+    newRootHash: string,
+    proof: string[]
+  ): Promise<boolean> {
+    if (oldSize > newSize) {
+      return false;
+    }
+    if (oldSize === newSize) {
+      return proof.length === 0 && oldRootHash === newRootHash;
+    }
+    if (oldSize === 0) {
+      return proof.length === 0;
+    }
+    if (proof.length === 0) {
+      return false;
+    }
+
+    const nodes = proof.map(node => new Uint8Array(this.base64ToBuffer(node)));
+    // A complete old tree is its own first node
+    if ((oldSize & (oldSize - 1)) === 0) {
+      nodes.unshift(new Uint8Array(this.base64ToBuffer(oldRootHash)));
+    }
+
+    let fn = oldSize - 1;
+    let sn = newSize - 1;
+    while (fn % 2 === 1) {
+      fn = Math.floor(fn / 2);
+      sn = Math.floor(sn / 2);
+    }
+
+    let oldHash = nodes[0];
+    let newHash = nodes[0];
+
+    for (const node of nodes.slice(1)) {
+      if (sn === 0) {
+        return false;
+      }
+
+      if (fn % 2 === 1 || fn === sn) {
+        oldHash = await this.hashKeyLogNode(node, oldHash);
+        newHash = await this.hashKeyLogNode(node, newHash);
+        while (fn % 2 === 0 && fn !== 0) {
+          fn = Math.floor(fn / 2);
+          sn = Math.floor(sn / 2);
+        }
+      } else {
+        newHash = await this.hashKeyLogNode(newHash, node);
+      }
+
+      fn = Math.floor(fn / 2);
+      sn = Math.floor(sn / 2);
+    }
+
+    return sn === 0
+      && this.bufferToBase64(oldHash) === oldRootHash
+      && this.bufferToBase64(newHash) === newRootHash;
+  }
+
+  private static hashKeyLogNode(left: Uint8Array, right: Uint8Array): Promise<Uint8Array> {
+    const children = new Uint8Array(left.length + right.length);
+    children.set(left);
+    children.set(right, left.length);
+    return this.hashWithPrefix(KEY_LOG_NODE_PREFIX, children);
+  }
+
+  private static async hashWithPrefix(prefix: number, data: Uint8Array): Promise<Uint8Array> {
+    const input = new Uint8Array(1 + data.length);
+    input[0] = prefix;
+    input.set(data, 1);
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+  }
+
+  /**
+   * Step 3: X3DH as Initiator
+   * Agrees a shared secret with a peer from their published prekey bundle
+   */
+  static async x3dhInitiate(
+    identityKeyPair: UserKeyPair | HeldKeyPair,
+    bundle: PreKeyBundle
+  ): Promise<X3DHSecret & { ephemeralKeyPair: DHKeyPair }> {
+    try {
+      const validSignature = await this.verifySignedPreKey(bundle.identityKey, bundle.signedPreKey, bundle.signature);
+      if (!validSignature) {
+        throw new Error('Invalid signed prekey signature');
+      }
+
+      const ephemeralKeyPair = await this.generateDHKeyPair();
+
+      const secrets = await Promise.all([
+        this.computeSharedSecret(identityKeyPair.privateKey, bundle.signedPreKey),
+        this.computeSharedSecret(ephemeralKeyPair.privateKey, bundle.identityKey),
+        this.computeSharedSecret(ephemeralKeyPair.privateKey, bundle.signedPreKey),
+        ...(bundle.oneTimePreKey
+          ? [this.computeSharedSecret(ephemeralKeyPair.privateKey, bundle.oneTimePreKey.publicKey)]
+          : [])
+      ]);
+
+      return {
+        sharedKey: await this.deriveX3DHKey(secrets),
+        associatedData: `${identityKeyPair.publicKey}|${bundle.identityKey}`,
+        ephemeralKeyPair
+      };
       
     } catch (error) {
-      console.error('❌ Key pair generation failed:', error);
-      throw new Error(`Key pair generation failed: ${error.message}`);
+      throw new Error(`X3DH failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Step 3: X3DH as Responder
+   * Recomputes the initiator's shared secret from their first message
+   */
+  static async x3dhRespond(
+    identityKeyPair: UserKeyPair | HeldKeyPair,
+    signedPreKey: DHKeyPair,
+    initiatorIdentityKey: string,
+    ephemeralKey: string,
+    oneTimePreKey: DHKeyPair | null = null
+  ): Promise<X3DHSecret> {
+    try {
+      const secrets = await Promise.all([
+        this.computeSharedSecret(signedPreKey.privateKey, initiatorIdentityKey),
+        this.computeSharedSecret(identityKeyPair.privateKey, ephemeralKey),
+        this.computeSharedSecret(signedPreKey.privateKey, ephemeralKey),
+        ...(oneTimePreKey ? [this.computeSharedSecret(oneTimePreKey.privateKey, ephemeralKey)] : [])
+      ]);
+
+      return {
+        sharedKey: await this.deriveX3DHKey(secrets),
+        associatedData: `${initiatorIdentityKey}|${identityKeyPair.publicKey}`
+      };
+      
+    } catch (error) {
+      throw new Error(`X3DH failed: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * SK = HKDF(F || DH1 || DH2 || DH3 [|| DH4]), with F = 32 0xFF bytes as in the X3DH spec
+   */
+  private static async deriveX3DHKey(secrets: ArrayBuffer[]): Promise<string> {
+    const input = new Uint8Array(32 + secrets.length * 32);
+    input.fill(0xff, 0, 32);
+    secrets.forEach((secret, index) => input.set(new Uint8Array(secret), 32 + index * 32));
+
+    return this.bufferToHex(await this.hkdf(input, new Uint8Array(32), X3DH_INFO, CONFIG.keySize));
+  }
+
+  /**
+   * HKDF-SHA256
+   */
+  static async hkdf(
+    inputKeyMaterial: ArrayBuffer | Uint8Array | CryptoKey,
+    salt: ArrayBuffer | Uint8Array,
+    info: string,
+    bits: number
+  ): Promise<ArrayBuffer> {
+    const key = inputKeyMaterial instanceof CryptoKey
+      ? inputKeyMaterial
+      : await crypto.subtle.importKey('raw', inputKeyMaterial, 'HKDF', false, ['deriveBits']);
+
+    return crypto.subtle.deriveBits(
+      { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) },
+      key,
+      bits
+    );
+  }
+
+  /**
+   * HMAC-SHA256 with a hex-encoded key
+   */
+  static async hmac(key: string, data: Uint8Array): Promise<ArrayBuffer> {
+    const hmacKey = await crypto.subtle.importKey(
+      'raw',
+      this.hexToBuffer(key),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+
+    return crypto.subtle.sign('HMAC', hmacKey, data);
+  }
+
   /**
    * Step 2: Generate Conversation Key
    * Creates a new AES key for encrypting messages in a conversation
@@ -199,8 +1162,8 @@ export class EncryptionService {
       if (!conversationId) {
         throw new Error('Conversation ID cannot be empty');
       }
-      if (!participants || participants.length < 2) {
-        throw new Error('Conversation must have at least 2 participants');
+      if (!participants || participants.length === 0) {
+        throw new Error('Conversation must have at least 1 participant');
       }
 
       console.log('🔐 Generating conversation key...');
@@ -226,10 +1189,10 @@ export class EncryptionService {
    * Step 2: Encrypt Conversation Key for Storage
    * Encrypts a conversation key with user's master key for safe storage
    */
-  static encryptConversationKey(
+  static async encryptConversationKey(
     conversationKey: ConversationKey, 
-    userMasterKey: string
-  ): EncryptedConversationKey {
+    userMasterKey: SecretKey
+  ): Promise<EncryptedConversationKey> {
     try {
       // Validate inputs
       if (!conversationKey?.aesKey) {
@@ -242,7 +1205,7 @@ export class EncryptionService {
       console.log('🔒 Encrypting conversation key for storage...');
 
       // Encrypt the AES key with user's master key
-      const encryptedKey = this.encryptData(conversationKey.aesKey, userMasterKey);
+      const encryptedKey = await this.encryptData(conversationKey.aesKey, userMasterKey, conversationKey.keyId);
 
       const encryptedConversationKey: EncryptedConversationKey = {
         keyId: conversationKey.keyId,
@@ -265,10 +1228,10 @@ export class EncryptionService {
    * Step 2: Decrypt Conversation Key from Storage
    * Decrypts a conversation key using user's master key
    */
-  static decryptConversationKey(
+  static async decryptConversationKey(
     encryptedConversationKey: EncryptedConversationKey,
-    userMasterKey: string
-  ): ConversationKey {
+    userMasterKey: SecretKey
+  ): Promise<ConversationKey> {
     try {
       // Validate inputs
       if (!encryptedConversationKey?.encryptedKey) {
@@ -281,7 +1244,7 @@ export class EncryptionService {
       console.log('🔓 Decrypting conversation key from storage...');
 
       // Decrypt the AES key
-      const aesKey = this.decryptData(encryptedConversationKey.encryptedKey, userMasterKey);
+      const aesKey = await this.decryptData(encryptedConversationKey.encryptedKey, userMasterKey);
 
       const conversationKey: ConversationKey = {
         keyId: encryptedConversationKey.keyId,
@@ -304,7 +1267,7 @@ export class EncryptionService {
    * Step 2: Encrypt Message with Conversation Key
    * Encrypts a message using the conversation's AES key
    */
-  static encryptMessage(message: string, conversationKey: ConversationKey): EncryptedData {
+  static async encryptMessage(message: string, conversationKey: ConversationKey): Promise<EncryptedEnvelope> {
     try {
       // Validate inputs
       if (!message) {
@@ -316,7 +1279,7 @@ export class EncryptionService {
 
       console.log('💬 Encrypting message with conversation key...');
 
-      const encrypted = this.encryptData(message, conversationKey.aesKey);
+      const encrypted = await this.encryptData(message, conversationKey.aesKey, conversationKey.keyId);
 
       console.log('✅ Message encrypted successfully');
       return encrypted;
@@ -331,10 +1294,10 @@ export class EncryptionService {
    * Step 2: Decrypt Message with Conversation Key
    * Decrypts a message using the conversation's AES key
    */
-  static decryptMessage(encryptedMessage: EncryptedData, conversationKey: ConversationKey): string {
+  static async decryptMessage(encryptedMessage: EncryptedEnvelope, conversationKey: ConversationKey): Promise<string> {
     try {
       // Validate inputs
-      if (!encryptedMessage?.encryptedContent) {
+      if (!encryptedMessage?.ct) {
         throw new Error('Invalid encrypted message');
       }
       if (!conversationKey?.aesKey) {
@@ -343,7 +1306,7 @@ export class EncryptionService {
 
       console.log('💬 Decrypting message with conversation key...');
 
-      const decrypted = this.decryptData(encryptedMessage, conversationKey.aesKey);
+      const decrypted = await this.decryptData(encryptedMessage, conversationKey.aesKey);
 
       console.log('✅ Message decrypted successfully');
       return decrypted;
@@ -367,6 +1330,37 @@ export class EncryptionService {
     }
   }
 
+  static bufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+    let binary = '';
+    new Uint8Array(buffer).forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+  }
+
+  static base64ToBuffer(base64: string): ArrayBuffer {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
+  static bufferToHex(buffer: ArrayBuffer | Uint8Array): string {
+    return Array.from(new Uint8Array(buffer))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  static hexToBuffer(hex: string): ArrayBuffer {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+    return bytes.buffer;
+  }
+
   /**
    * Step 1: Key Validation
    * Validates that a key meets security requirements
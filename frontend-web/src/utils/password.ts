@@ -0,0 +1,22 @@
+/**
+ * Password rules, matching the ones the server enforces
+ */
+
+export const validatePassword = (value: string): string | true => {
+  if (value.length < 8) {
+    return 'Password must be at least 8 characters';
+  }
+  if (!/(?=.*[a-z])/.test(value)) {
+    return 'Password must contain at least one lowercase letter';
+  }
+  if (!/(?=.*[A-Z])/.test(value)) {
+    return 'Password must contain at least one uppercase letter';
+  }
+  if (!/(?=.*[0-9])/.test(value)) {
+    return 'Password must contain at least one number';
+  }
+  if (!/(?=.*[!@#$%^&*])/.test(value)) {
+    return 'Password must contain at least one special character (!@#$%^&*)';
+  }
+  return true;
+};
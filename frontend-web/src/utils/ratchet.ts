@@ -0,0 +1,254 @@
+/**
+ * Double Ratchet
+ * Per-conversation sessions built on EncryptionService primitives, so every
+ * message gets its own key and old keys are deleted as the chains advance
+ */
+
+import { EncryptionService, DHKeyPair, EncryptedEnvelope } from './encryption';
+import type { PreKeyMessage, RatchetHeader } from '@shared/types';
+
+export interface RatchetSession {
+  rootKey: string;
+  sendingKeyPair: DHKeyPair;
+  remotePublicKey: string | null;
+  sendingChainKey: string | null;
+  receivingChainKey: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skippedKeys: Record<string, string>; // `${ratchetKey}:${n}` -> message key
+  associatedData: string;
+  baseKey: string; // X3DH ephemeral key the session was created from
+  pendingPreKey: PreKeyMessage | null; // Sent with every message until the peer replies
+}
+
+const ROOT_KEY_INFO = 'EncryptedChat ratchet v1';
+const MESSAGE_KEY_SEED = new Uint8Array([0x01]);
+const CHAIN_KEY_SEED = new Uint8Array([0x02]);
+
+// Bounds on how far ahead a chain may be skipped and how many keys are kept
+const MAX_SKIP = 1000;
+const MAX_SKIPPED_KEYS = 2000;
+
+export class DoubleRatchet {
+
+  /**
+   * Start a session as the X3DH initiator
+   * The responder's signed prekey serves as their first ratchet key
+   */
+  static async initSender(
+    sharedKey: string,
+    associatedData: string,
+    remoteSignedPreKey: string,
+    preKey: PreKeyMessage
+  ): Promise<RatchetSession> {
+    const sendingKeyPair = await EncryptionService.generateDHKeyPair();
+    const [rootKey, sendingChainKey] = await this.deriveRootKey(
+      sharedKey,
+      await EncryptionService.computeSharedSecret(sendingKeyPair.privateKey, remoteSignedPreKey)
+    );
+
+    return {
+      rootKey,
+      sendingKeyPair,
+      remotePublicKey: remoteSignedPreKey,
+      sendingChainKey,
+      receivingChainKey: null,
+      sendCount: 0,
+      receiveCount: 0,
+      previousSendCount: 0,
+      skippedKeys: {},
+      associatedData,
+      baseKey: preKey.ephemeralKey,
+      pendingPreKey: preKey
+    };
+  }
+
+  /**
+   * Start a session as the X3DH responder
+   * Nothing can be sent until the initiator's first message is decrypted
+   */
+  static initReceiver(
+    sharedKey: string,
+    associatedData: string,
+    signedPreKey: DHKeyPair,
+    baseKey: string
+  ): RatchetSession {
+    return {
+      rootKey: sharedKey,
+      sendingKeyPair: { publicKey: signedPreKey.publicKey, privateKey: signedPreKey.privateKey },
+      remotePublicKey: null,
+      sendingChainKey: null,
+      receivingChainKey: null,
+      sendCount: 0,
+      receiveCount: 0,
+      previousSendCount: 0,
+      skippedKeys: {},
+      associatedData,
+      baseKey,
+      pendingPreKey: null
+    };
+  }
+
+  /**
+   * Encrypt the next message in the sending chain
+   * Returns the advanced session; the one passed in is left untouched
+   */
+  static async encrypt(session: RatchetSession, plaintext: string): Promise<{
+    session: RatchetSession;
+    header: RatchetHeader;
+    envelope: EncryptedEnvelope;
+  }> {
+    const state = this.clone(session);
+
+    if (!state.sendingChainKey) {
+      throw new Error('Session cannot send before receiving a message');
+    }
+
+    const { chainKey, messageKey } = await this.deriveChainKey(state.sendingChainKey);
+
+    const header: RatchetHeader = {
+      dh: state.sendingKeyPair.publicKey,
+      pn: state.previousSendCount,
+      n: state.sendCount,
+      ...(state.pendingPreKey ? { preKey: state.pendingPreKey } : {})
+    };
+
+    state.sendingChainKey = chainKey;
+    state.sendCount += 1;
+
+    const envelope = await EncryptionService.encryptData(
+      plaintext,
+      messageKey,
+      null,
+      this.getAssociatedData(state, header)
+    );
+
+    return { session: state, header, envelope };
+  }
+
+  /**
+   * Decrypt a message, stepping the DH ratchet when the peer's key changes
+   * Returns the advanced session; on failure the one passed in is still valid
+   */
+  static async decrypt(session: RatchetSession, header: RatchetHeader, envelope: EncryptedEnvelope): Promise<{
+    session: RatchetSession;
+    plaintext: string;
+  }> {
+    const state = this.clone(session);
+    const associatedData = this.getAssociatedData(state, header);
+
+    const skippedKeyId = `${header.dh}:${header.n}`;
+    const skippedKey = state.skippedKeys[skippedKeyId];
+
+    if (skippedKey) {
+      const plaintext = await EncryptionService.decryptData(envelope, skippedKey, associatedData);
+      delete state.skippedKeys[skippedKeyId];
+      return { session: state, plaintext };
+    }
+
+    if (header.dh !== state.remotePublicKey) {
+      await this.skipMessageKeys(state, header.pn);
+      await this.stepRatchet(state, header.dh);
+    }
+
+    await this.skipMessageKeys(state, header.n);
+
+    const { chainKey, messageKey } = await this.deriveChainKey(state.receivingChainKey!);
+    state.receivingChainKey = chainKey;
+    state.receiveCount += 1;
+
+    const plaintext = await EncryptionService.decryptData(envelope, messageKey, associatedData);
+
+    // The peer has our session, so the X3DH data no longer needs sending
+    state.pendingPreKey = null;
+
+    return { session: state, plaintext };
+  }
+
+  /**
+   * Store keys for messages that have not arrived yet in the receiving chain
+   */
+  private static async skipMessageKeys(state: RatchetSession, until: number): Promise<void> {
+    if (!state.receivingChainKey) {
+      return;
+    }
+
+    if (until - state.receiveCount > MAX_SKIP) {
+      throw new Error('Too many skipped messages');
+    }
+
+    while (state.receiveCount < until) {
+      const { chainKey, messageKey } = await this.deriveChainKey(state.receivingChainKey);
+      state.skippedKeys[`${state.remotePublicKey}:${state.receiveCount}`] = messageKey;
+      state.receivingChainKey = chainKey;
+      state.receiveCount += 1;
+    }
+
+    // Drop the oldest skipped keys once the cap is reached
+    const skippedKeyIds = Object.keys(state.skippedKeys);
+    skippedKeyIds.slice(0, Math.max(0, skippedKeyIds.length - MAX_SKIPPED_KEYS)).forEach(keyId => {
+      delete state.skippedKeys[keyId];
+    });
+  }
+
+  /**
+   * DH ratchet step: new receiving chain for the peer's key, new sending
+   * chain from a fresh key pair of ours
+   */
+  private static async stepRatchet(state: RatchetSession, remotePublicKey: string): Promise<void> {
+    state.previousSendCount = state.sendCount;
+    state.sendCount = 0;
+    state.receiveCount = 0;
+    state.remotePublicKey = remotePublicKey;
+
+    [state.rootKey, state.receivingChainKey] = await this.deriveRootKey(
+      state.rootKey,
+      await EncryptionService.computeSharedSecret(state.sendingKeyPair.privateKey, remotePublicKey)
+    );
+
+    state.sendingKeyPair = await EncryptionService.generateDHKeyPair();
+
+    [state.rootKey, state.sendingChainKey] = await this.deriveRootKey(
+      state.rootKey,
+      await EncryptionService.computeSharedSecret(state.sendingKeyPair.privateKey, remotePublicKey)
+    );
+  }
+
+  /**
+   * KDF_RK: HKDF keyed by the root key over a DH output -> (root key, chain key)
+   */
+  private static async deriveRootKey(rootKey: string, dhOutput: ArrayBuffer): Promise<[string, string]> {
+    const output = await EncryptionService.hkdf(dhOutput, EncryptionService.hexToBuffer(rootKey), ROOT_KEY_INFO, 512);
+    const hex = EncryptionService.bufferToHex(output);
+    return [hex.substring(0, 64), hex.substring(64)];
+  }
+
+  /**
+   * KDF_CK: HMAC the chain key with distinct constants -> (chain key, message key)
+   */
+  private static async deriveChainKey(chainKey: string): Promise<{ chainKey: string; messageKey: string }> {
+    const [messageKey, nextChainKey] = await Promise.all([
+      EncryptionService.hmac(chainKey, MESSAGE_KEY_SEED),
+      EncryptionService.hmac(chainKey, CHAIN_KEY_SEED)
+    ]);
+
+    return {
+      chainKey: EncryptionService.bufferToHex(nextChainKey),
+      messageKey: EncryptionService.bufferToHex(messageKey)
+    };
+  }
+
+  /**
+   * X3DH associated data plus the header, authenticated with every message
+   */
+  private static getAssociatedData(state: RatchetSession, header: RatchetHeader): string {
+    return `${state.associatedData}|${header.dh}:${header.pn}:${header.n}`;
+  }
+
+  private static clone(session: RatchetSession): RatchetSession {
+    return JSON.parse(JSON.stringify(session));
+  }
+}
+
+export default DoubleRatchet;
@@ -8,30 +8,227 @@ export interface User {
   createdAt?: string;
 }
 
+// Versioned ciphertext envelope. v1 is AES-256-GCM; v0 marks legacy
+// AES-CBC payloads, which carry no key id or authentication tag
+export interface EncryptedEnvelope {
+  v: number;
+  alg: string;
+  keyId: string | null;
+  iv: string; // hex
+  ct: string; // base64
+  tag: string | null; // hex
+}
+
+// X3DH setup data, repeated on every message until the peer replies
+export interface PreKeyMessage {
+  identityKey: string;
+  ephemeralKey: string;
+  signedPreKeyId: number;
+  oneTimePreKeyId?: number; // absent when the responder's pool was empty
+}
+
+// One-time prekey pool as reported by the server
+export interface PreKeyPoolStatus {
+  oneTimePreKeyCount: number;
+  target: number;
+  lowThreshold: number;
+  isLow: boolean;
+}
+
+// Double Ratchet message header
+export interface RatchetHeader {
+  dh: string; // sender's current ratchet public key
+  pn: number; // length of the sender's previous sending chain
+  n: number; // message number in the current sending chain
+  preKey?: PreKeyMessage;
+}
+
+// "file", "image" and "audio" messages carry an AttachmentPayload as their plaintext
+export type MessageType = 'text' | 'file' | 'image' | 'audio';
+
+// Decrypted body of an attachment message: everything needed to fetch,
+// verify and decrypt the file, none of which the server sees
+export interface AttachmentPayload {
+  attachmentId: string;
+  key: string; // hex, per-file AES-256-GCM key
+  digest: string; // hex SHA-256 over the SHA-256 digests of the encrypted chunks
+  name: string;
+  mimeType: string;
+  size: number; // plaintext bytes
+  chunkSize: number; // plaintext bytes per chunk
+  chunkCount: number;
+  duration?: number; // seconds; voice messages only
+  waveform?: number[]; // 0-100 loudness per bar; voice messages only
+}
+
 export interface Message {
   id: number;
   conversationId: number;
   senderId: number;
   senderUsername: string;
-  encryptedContent: string;
-  iv: string;
-  messageType: 'text';
+  envelope: EncryptedEnvelope;
+  ratchetHeader: RatchetHeader | null; // null when encrypted with the conversation key
+  messageType: MessageType;
+  attachmentId?: string | null; // set on file, image and audio messages
+  deliveredTo?: number[]; // recipients whose device has received it; absent on live messages
+  reactions?: MessageReaction[]; // absent on live messages
+  replyToMessageId?: number | null; // the message this one quotes
+  expiresIn?: number | null; // disappearing timer in seconds, fixed when sent
+  expiresAt?: string | null; // when it disappears; null until a timer that starts on read has started
   createdAt: string;
+  editedAt?: string | null;
+}
+
+// A page of history, oldest first; hasMore says whether the cursor direction has more
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+// Keyset cursor for history; without one the latest page is returned
+export interface MessageCursor {
+  before?: number; // older than this message ID
+  after?: number; // newer than this message ID
+  limit?: number;
+}
+
+// An emoji reaction, encrypted with the conversation key
+export interface MessageReaction {
+  id: number;
+  messageId: number;
+  conversationId: number;
+  userId: number;
+  envelope: EncryptedEnvelope;
+  createdAt: string;
+}
+
+export interface MessageReactionRemoval {
+  reactionId: number;
+  messageId: number;
+  conversationId: number;
+  userId: number;
+}
+
+// An earlier version of an edited message; revision 0 is the original
+export interface MessageRevision {
+  revision: number;
+  envelope: EncryptedEnvelope;
+  ratchetHeader: RatchetHeader | null;
+  createdAt: string;
+}
+
+// Messages disappear this many seconds after being sent, or after someone first reads them
+export interface DisappearingMessages {
+  seconds: number;
+  start: 'sent' | 'read';
 }
 
 export interface Conversation {
   id: number;
-  otherUser: User;
+  conversationUuid: string;
+  type: 'direct' | 'group';
+  name: string | null; // set for groups only
+  createdBy: number | null;
+  keyRotationNeeded: boolean; // membership changed since the conversation key was last rotated
+  disappearingMessages: DisappearingMessages | null; // null when messages are kept
+  participants: User[]; // every member, including the current user
+  readCursors: Record<number, number>; // userId -> last message ID they have read
+  unreadCount?: number; // messages from others after our read cursor; only in the conversation list
   lastMessage?: {
-    content: string;
-    iv: string;
+    id: number;
+    envelope: EncryptedEnvelope;
     senderId: number;
+    messageType: MessageType;
     timestamp: string;
   };
   createdAt: string;
   updatedAt: string;
 }
 
+// A member has read a conversation up to a message
+export interface ReadReceipt {
+  conversationId: number;
+  userId: number;
+  lastReadMessageId: number;
+}
+
+// Delivery state of our own messages, shown as ticks
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+// A recipient's device acknowledged one of our messages
+export interface MessageStatusUpdate {
+  messageId: number;
+  conversationId: number;
+  userId: number;
+  status: 'delivered';
+  updatedAt: string;
+}
+
+// "me" hides a message for one user; "everyone" leaves a tombstone for all members
+export type MessageDeleteMode = 'me' | 'everyone';
+
+export interface MessageDeletion {
+  messageId: number;
+  conversationId: number;
+  mode: MessageDeleteMode;
+  deletedAt: string;
+}
+
+// Disappearing messages whose timer ran out; they are gone from the server
+export interface MessagesExpired {
+  conversationId: number;
+  messageIds: number[];
+}
+
+// A browser a user signs in from; it holds its own key pair and reads
+// nothing until one of the user's active devices approves it
+export type DeviceStatus = 'pending' | 'active';
+
+export interface Device {
+  deviceId: string;
+  name: string;
+  publicKey: string;
+  keySignature: string; // The owner's identity key signing the device key
+  status: DeviceStatus;
+  approvedBy: string | null; // Device that linked this one
+  createdAt: string;
+  lastSeenAt: string;
+  current?: boolean; // The device making the request
+}
+
+// An active device of a conversation member, which conversation keys are wrapped for
+export interface ConversationDevice {
+  deviceId: string;
+  userId: number;
+  publicKey: string;
+  keySignature: string;
+  identityKey: string; // Owner's identity key, which signed the device key
+  hasCurrentKey: boolean;
+}
+
+// Key transparency log: every identity key a user has published
+export interface SignedTreeHead {
+  treeSize: number;
+  rootHash: string; // Base64 Merkle tree hash over all entries
+  chainHash: string; // Base64 hash chaining every entry to the one before
+  timestamp: number;
+  signature: string; // Log key's ECDSA signature over the fields above
+}
+
+export interface KeyLogEntry {
+  logIndex: number;
+  userId: number;
+  publicKey: string;
+  createdAt: string;
+}
+
+export interface KeyLogProof {
+  entry: KeyLogEntry; // The user's latest logged key
+  treeHead: SignedTreeHead;
+  inclusionProof: string[];
+  consistencyProof: string[]; // From the tree size the client asked about
+}
+
 export interface AuthResponse {
   user: User;
   token: string;
@@ -53,11 +250,19 @@ export interface SocketEvents {
   join_conversation: (data: { conversationId: number }) => void;
   leave_conversation: (data: { conversationId: number }) => void;
   send_message: (data: {
-    recipientId: number;
-    encryptedContent: string;
-    iv: string;
-    messageType?: 'text';
+    conversationId?: number; // either a conversation or a direct recipient
+    recipientId?: number;
+    envelope: EncryptedEnvelope;
+    ratchetHeader?: RatchetHeader | null;
+    messageType?: MessageType;
+    replyToMessageId?: number | null;
+    attachmentId?: string; // required for file, image and audio messages
   }) => void;
+  upload_prekeys: (data: { oneTimePreKeys: Array<{ keyId: number; publicKey: string }> }) => void;
+  message_delivered: (data: { messageIds: number[] }) => void;
+  edit_message: (data: { messageId: number; envelope: EncryptedEnvelope }) => void;
+  add_reaction: (data: { messageId: number; envelope: EncryptedEnvelope }) => void;
+  remove_reaction: (data: { messageId: number; reactionId: number }) => void;
   typing_start: (data: { conversationId: number }) => void;
   typing_stop: (data: { conversationId: number }) => void;
   user_status: (data: { status: string }) => void;
@@ -67,7 +272,17 @@ export interface SocketEvents {
   conversation_left: (data: { conversationId: number }) => void;
   new_message: (data: Message) => void;
   message_sent: (data: Message) => void;
-  message_error: (data: { message: string }) => void;
+  message_error: (data: { message: string; conversationId?: number }) => void;
+  conversation_updated: (data: Conversation) => void;
+  conversation_removed: (data: { conversationId: number }) => void;
+  conversation_key_rotated: (data: { conversationId: number; epoch: number; keyId: string }) => void;
+  messages_read: (data: ReadReceipt) => void;
+  message_status: (data: MessageStatusUpdate) => void;
+  message_edited: (data: Message) => void;
+  message_deleted: (data: MessageDeletion) => void;
+  messages_expired: (data: MessagesExpired) => void;
+  reaction_added: (data: MessageReaction) => void;
+  reaction_removed: (data: MessageReactionRemoval) => void;
   user_typing: (data: {
     conversationId: number;
     userId: number;
@@ -79,6 +294,11 @@ export interface SocketEvents {
     username: string;
     status: string;
   }) => void;
+  prekeys_low: (data: PreKeyPoolStatus) => void;
+  prekeys_uploaded: (data: PreKeyPoolStatus) => void;
+  device_link_requested: (data: { device: Device }) => void;
+  device_approved: (data: { device: Device }) => void;
+  device_revoked: (data: { deviceId: string }) => void;
   error: (data: { message: string }) => void;
 }
 